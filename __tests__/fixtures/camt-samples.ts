@@ -0,0 +1,100 @@
+export const camt053Sample = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.04">
+  <BkToCstmrStmt>
+    <GrpHdr>
+      <MsgId>STMT-2024-06</MsgId>
+      <CreDtTm>2024-07-01T06:00:00</CreDtTm>
+    </GrpHdr>
+    <Stmt>
+      <Id>STMT-1</Id>
+      <Acct>
+        <Id><IBAN>CH9300762011623852957</IBAN></Id>
+        <Ccy>CHF</Ccy>
+        <Ownr><Nm>John Doe</Nm></Ownr>
+      </Acct>
+      <Ntry>
+        <Amt Ccy="CHF">120.50</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2024-06-16</Dt></BookgDt>
+        <ValDt><Dt>2024-06-15</Dt></ValDt>
+        <NtryDtls>
+          <TxDtls>
+            <RltdPties>
+              <Cdtr><Nm>Migros Zurich</Nm></Cdtr>
+            </RltdPties>
+            <RmtInf><Ustrd>Card payment 1234</Ustrd></RmtInf>
+          </TxDtls>
+        </NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="CHF">5000.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2024-06-25</Dt></BookgDt>
+        <ValDt><Dt>2024-06-25</Dt></ValDt>
+        <NtryDtls>
+          <TxDtls>
+            <RltdPties>
+              <Dbtr><Nm>Employer AG</Nm></Dbtr>
+            </RltdPties>
+            <RmtInf><Ustrd>Salary June</Ustrd></RmtInf>
+          </TxDtls>
+        </NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="CHF">92.30</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2024-06-20</Dt></BookgDt>
+        <ValDt><Dt>2024-06-19</Dt></ValDt>
+        <AddtlNtryInf>Hotel Lisboa</AddtlNtryInf>
+        <NtryDtls>
+          <TxDtls>
+            <AmtDtls>
+              <InstdAmt>
+                <Amt Ccy="EUR">95.00</Amt>
+                <CcyXchg>
+                  <SrcCcy>EUR</SrcCcy>
+                  <XchgRate>0.9716</XchgRate>
+                </CcyXchg>
+              </InstdAmt>
+            </AmtDtls>
+          </TxDtls>
+        </NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="CHF">10.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>PDNG</Sts>
+        <BookgDt><Dt>2024-06-30</Dt></BookgDt>
+        <AddtlNtryInf>Pending card payment</AddtlNtryInf>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`
+
+export const camt054Sample = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.054.001.08">
+  <BkToCstmrDbtCdtNtfctn>
+    <Ntfctn>
+      <Acct>
+        <Id><IBAN>CH5604835012345678009</IBAN></Id>
+      </Acct>
+      <Ntry>
+        <Amt Ccy="CHF">250.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts><Cd>BOOK</Cd></Sts>
+        <BookgDt><DtTm>2024-06-12T14:30:00</DtTm></BookgDt>
+        <NtryDtls>
+          <TxDtls>
+            <RltdPties>
+              <Dbtr><Pty><Nm>Jane Smith</Nm></Pty></Dbtr>
+            </RltdPties>
+            <RmtInf><Ustrd>Dinner share</Ustrd></RmtInf>
+          </TxDtls>
+        </NtryDtls>
+      </Ntry>
+    </Ntfctn>
+  </BkToCstmrDbtCdtNtfctn>
+</Document>`
@@ -28,3 +28,22 @@ Account number;Card number;Account/Cardholder;Purchase date;Booking text;Sector;
 export const csvWithInvalidDate = `sep=;
 Account number;Card number;Account/Cardholder;Purchase date;Booking text;Sector;Amount;Original currency;Rate;Currency;Debit;Credit;Booked
 123456;****1234;John Doe;invalid;Test Purchase;Restaurants;50.00;CHF;;CHF;50.00;;16.06.2024`
+
+export const csvWithProblemRows = `sep=;
+Account number;Card number;Account/Cardholder;Purchase date;Booking text;Sector;Amount;Original currency;Rate;Currency;Debit;Credit;Booked
+123456;****1234;John Doe;15.06.2024;Good Shop;Shopping;20.00;CHF;;CHF;20.00;;16.06.2024
+123456;****1234;John Doe;31.02.2024;No Date Shop;Shopping;10.00;CHF;;CHF;10.00;;
+123456;****1234;John Doe;16.06.2024;Bad Amount Shop;Shopping;;CHF;;CHF;abc;;17.06.2024
+123456;****1234;John Doe;17.06.2024;Bad Rate Shop;Shopping;30.00;EUR;n/a;CHF;30.00;;18.06.2024
+123456;****1234;John Doe;18.06.2024;Bad Booked Shop;Shopping;40.00;CHF;;CHF;40.00;;soon`
+
+export const ubsAccountCSV = `Trade date;Trade time;Booking date;Value date;Currency;Debit;Credit;Individual amount;Balance;Transaction no.;Description1;Description2;Description3;Footnotes
+2024-06-15;;2024-06-15;2024-06-15;CHF;-120.50;;;4879.50;TX001;Migros Zurich;Card payment;;
+2024-06-25;;2024-06-25;2024-06-25;CHF;;5000.00;;9879.50;TX002;Employer AG;Salary;;`
+
+export const revolutCSV = `Type,Product,Started Date,Completed Date,Description,Amount,Fee,Currency,State,Balance
+CARD_PAYMENT,Current,2024-06-15 10:23:11,2024-06-16 08:00:02,Pret A Manger,-12.40,0.00,EUR,COMPLETED,987.60
+TOPUP,Current,2024-06-17 09:00:00,2024-06-17 09:00:05,Top-Up by *1234,"1,000.00",0.00,EUR,COMPLETED,1987.60`
+
+export const unknownFormatCSV = `Datum;Beschreibung;Betrag
+15.06.2024;Coop;-42.00`
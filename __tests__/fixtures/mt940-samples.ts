@@ -0,0 +1,25 @@
+export const mt940Sample = `{1:F01UBSWCHZHAXXX0000000000}{2:I940UBSWCHZHXXXXN}{4:
+:20:STMT240630
+:25:CH9300762011623852957
+:28C:00006/001
+:60F:C240601CHF1000,00
+:61:2406150617D120,50NMSCNONREF//B4F15
+:86:Migros Zurich card payment
+:61:2406250625C5000,00NTRFSALARY
+:86:Salary June
+ Employer AG
+:61:2406280628RC15,00NMSCNONREF
+:86:Reversal of refund
+:61:2406290629D35,00NCHGNONREF//FEE-0629
+Account fee June
+:62F:C240630CHF5829,50
+-}`
+
+export const mt940StructuredSample = `:20:STARTUMSE
+:25:10020030/1234567
+:28C:00001/001
+:60F:C241230EUR500,00
+:61:2412300102D42,90NDDTNONREF
+:86:105?00SEPA-LASTSCHRIFT?20Rechnung 4711?21Dezember?32Stadtwerke?33 Berlin
+:62F:C250102EUR457,10
+-`
@@ -1,7 +1,10 @@
 import type { Transaction, Budget, ExpenseReport } from '@/lib/types'
 
+let mockTransactionCount = 0
+
 export function createMockTransaction(overrides: Partial<Transaction> = {}): Transaction {
   return {
+    id: `tx-${++mockTransactionCount}`,
     accountNumber: '123456789',
     cardNumber: '****1234',
     accountHolder: 'Test User',
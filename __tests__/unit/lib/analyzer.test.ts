@@ -1,5 +1,15 @@
 import { describe, it, expect } from 'vitest'
-import { categorizeTransaction, analyzeExpenses, calculateBudgetStatus } from '@/lib/analyzer'
+import {
+  categorizeTransaction,
+  explainCategory,
+  analyzeExpenses,
+  calculateBudgetStatus,
+  calculateEnvelopeFunds,
+  rollUpCategories,
+  findHistoryMatches,
+} from '@/lib/analyzer'
+import { buildModel } from '@/lib/classifier'
+import type { CategoryRule } from '@/lib/types'
 import { createMockTransaction, createMockBudget } from '../../fixtures/transactions'
 
 describe('analyzer', () => {
@@ -104,6 +114,85 @@ describe('analyzer', () => {
       })
     })
 
+    describe('user rules', () => {
+      const netflixRule: CategoryRule = {
+        id: 1,
+        name: 'Netflix',
+        category: 'Entertainment',
+        priority: 0,
+        enabled: true,
+        conditions: { bookingText: 'netflix' },
+        createdDate: new Date('2024-01-01'),
+      }
+
+      it('should apply a matching rule before the built-in heuristics', () => {
+        const tx = createMockTransaction({ bookingText: 'NETFLIX.COM', sector: 'Digital goods' })
+
+        expect(categorizeTransaction(tx, { rules: [netflixRule] })).toBe('Entertainment')
+      })
+
+      it('should let a manual override win over rules', () => {
+        const tx = createMockTransaction({ bookingText: 'NETFLIX.COM' })
+        const categoryOverrides = new Map([[tx.id, 'Shopping']])
+
+        expect(categorizeTransaction(tx, { rules: [netflixRule], categoryOverrides })).toBe(
+          'Shopping'
+        )
+      })
+
+      it('should fall back to the heuristics when no rule matches', () => {
+        const tx = createMockTransaction({ bookingText: 'SPOTIFY', sector: 'Digital goods' })
+
+        expect(categorizeTransaction(tx, { rules: [netflixRule] })).toBe('Digital Services')
+      })
+    })
+
+    describe('learned categories', () => {
+      const examples = ['Atelier Rosa', 'Atelier Rosa Zurich', 'Atelier Bern'].map(
+        (bookingText, i) => ({
+          transactionId: `example-${i}`,
+          bookingText,
+          sector: 'Other',
+          category: 'Shopping',
+          createdDate: new Date('2024-01-01'),
+        })
+      )
+
+      it('should use the classifier for transactions the heuristics cannot place', () => {
+        const settings = { classifier: buildModel(examples) }
+        const tx = createMockTransaction({ bookingText: 'ATELIER ROSA', sector: 'Other' })
+
+        expect(categorizeTransaction(tx)).toBe('Other')
+        expect(categorizeTransaction(tx, settings)).toBe('Shopping')
+        expect(explainCategory(tx, settings)).toMatchObject({
+          source: 'learned',
+          category: 'Shopping',
+        })
+      })
+
+      it('should not override built-in heuristics', () => {
+        const tx = createMockTransaction({ bookingText: 'MIGROS', sector: 'Food Stores' })
+        const builtin = categorizeTransaction(tx)
+        const classifier = buildModel([...examples, { ...examples[0], bookingText: 'Migros' }])
+
+        expect(explainCategory(tx, { classifier })).toEqual({
+          category: builtin,
+          source: 'builtin',
+        })
+      })
+
+      it('should ignore predictions below the confidence threshold', () => {
+        const classifier = buildModel([
+          ...examples,
+          { ...examples[0], transactionId: 'a', bookingText: 'Atelier', category: 'Health' },
+          { ...examples[0], transactionId: 'b', bookingText: 'Atelier', category: 'Travel' },
+        ])
+        const tx = createMockTransaction({ bookingText: 'ATELIER', sector: 'Other' })
+
+        expect(categorizeTransaction(tx, { classifier })).toBe('Other')
+      })
+    })
+
     describe('fallback categorization', () => {
       it('should return Other for unrecognized transactions', () => {
         const tx = createMockTransaction({
@@ -229,14 +318,26 @@ describe('analyzer', () => {
 
     it('should apply category overrides', () => {
       const transactions = [createMockTransaction({ sector: 'Restaurants', debit: 100 })]
-      const overrides = new Map<number, string>()
-      overrides.set(0, 'Entertainment')
+      const overrides = new Map<string, string>()
+      overrides.set(transactions[0].id, 'Entertainment')
 
-      const report = analyzeExpenses(transactions, overrides)
+      const report = analyzeExpenses(transactions, { categoryOverrides: overrides })
 
       expect(report.categorySummaries[0].category).toBe('Entertainment')
     })
 
+    it('should keep overrides on the same transaction after reordering', () => {
+      const restaurant = createMockTransaction({ sector: 'Restaurants', debit: 100 })
+      const grocery = createMockTransaction({ sector: 'Grocery stores', debit: 40 })
+      const overrides = new Map([[restaurant.id, 'Entertainment']])
+
+      const report = analyzeExpenses([grocery, restaurant], { categoryOverrides: overrides })
+
+      const entertainment = report.categorySummaries.find((c) => c.category === 'Entertainment')
+      expect(entertainment?.transactions).toEqual([restaurant])
+      expect(report.categorySummaries.find((c) => c.category === 'Groceries')?.totalSpent).toBe(40)
+    })
+
     it('should handle empty transactions array', () => {
       const report = analyzeExpenses([])
 
@@ -245,9 +346,359 @@ describe('analyzer', () => {
       expect(report.transactionCount).toBe(0)
       expect(report.categorySummaries).toHaveLength(0)
     })
+
+    it('should net matched refunds against the category of the purchase', () => {
+      const order = createMockTransaction({
+        bookingText: 'Zalando 4412',
+        sector: 'Clothing stores',
+        debit: 150,
+      })
+      const returned = createMockTransaction({
+        bookingText: 'REFUND Zalando',
+        debit: null,
+        credit: 50,
+      })
+      const salary = createMockTransaction({ bookingText: 'Salary', debit: null, credit: 6000 })
+
+      const report = analyzeExpenses([order, returned, salary])
+
+      expect(report.totalSpent).toBe(100)
+      expect(report.totalIncome).toBe(6000)
+      expect(report.categorySummaries[0]).toMatchObject({ totalSpent: 100, refunded: 50 })
+      expect(report.monthlyAnalysis[0]).toMatchObject({ totalSpent: 100, totalIncome: 6000 })
+    })
+
+    it('should leave transfers between own accounts out of the totals', () => {
+      const billPayment = createMockTransaction({
+        accountNumber: 'CH93-0000-1111',
+        cardNumber: '',
+        bookingText: 'UBS CARD PAYMENT',
+        debit: 500,
+      })
+      const cardCredit = createMockTransaction({
+        bookingText: 'Payment received',
+        debit: null,
+        credit: 500,
+      })
+      const salary = createMockTransaction({ debit: null, credit: 6000 })
+      const dinner = createMockTransaction({ debit: 80 })
+
+      const report = analyzeExpenses([billPayment, cardCredit, salary, dinner])
+
+      expect(report.totalSpent).toBe(80)
+      expect(report.totalIncome).toBe(6000)
+      expect(report.monthlyAnalysis[0].transactionCount).toBe(2)
+    })
+
+    it('should use transfers and refunds matched on the full history', () => {
+      const billPayment = createMockTransaction({
+        accountNumber: 'CH93-0000-1111',
+        cardNumber: '',
+        bookingText: 'UBS CARD PAYMENT',
+        debit: 500,
+      })
+      const cardCredit = createMockTransaction({
+        bookingText: 'Payment received',
+        debit: null,
+        credit: 500,
+      })
+      const order = createMockTransaction({
+        bookingText: 'Zalando 4412',
+        sector: 'Clothing stores',
+        purchaseDate: new Date(2025, 0, 10),
+        debit: 150,
+      })
+      const returned = createMockTransaction({
+        bookingText: 'REFUND Zalando',
+        purchaseDate: new Date(2025, 1, 3),
+        debit: null,
+        credit: 50,
+      })
+      const history = [billPayment, cardCredit, order, returned]
+      const matches = findHistoryMatches(history)
+
+      const report = analyzeExpenses([cardCredit, returned], { matches })
+
+      expect(analyzeExpenses([cardCredit, returned]).totalIncome).toBe(550)
+      expect(report.totalIncome).toBe(0)
+      expect(report.totalSpent).toBe(-50)
+      expect(report.categorySummaries[0]).toMatchObject({
+        category: 'Shopping',
+        totalSpent: -50,
+        count: 0,
+        refunded: 50,
+      })
+    })
+
+    it('should break spending down per cardholder', () => {
+      const anna = { accountHolder: 'Anna Muster', cardNumber: '****1111' }
+      const ben = { accountHolder: 'Ben Muster', cardNumber: '****2222' }
+      const transactions = [
+        createMockTransaction({ ...anna, sector: 'Restaurants', debit: 80 }),
+        createMockTransaction({ ...anna, sector: 'Supermarkets', debit: 120 }),
+        createMockTransaction({ ...ben, sector: 'Restaurants', debit: 40 }),
+        createMockTransaction({ ...ben, debit: null, credit: 6000 }),
+      ]
+
+      const report = analyzeExpenses(transactions)
+      const [first, second] = report.holderSummaries!
+
+      expect(first).toMatchObject({
+        holder: 'Anna Muster',
+        cards: ['****1111'],
+        totalSpent: 200,
+        totalIncome: 0,
+        transactionCount: 2,
+      })
+      expect(first.categorySummaries.map((c) => c.category)).toEqual([
+        'Groceries',
+        'Restaurants & Dining',
+      ])
+      expect(first.categorySummaries[0].percentage).toBe(60)
+      expect(second).toMatchObject({ holder: 'Ben Muster', totalSpent: 40, totalIncome: 6000 })
+    })
+
+    it('should net refunds against the holder of the purchase', () => {
+      const order = createMockTransaction({
+        accountHolder: 'Anna Muster',
+        bookingText: 'Zalando 4412',
+        sector: 'Clothing stores',
+        debit: 150,
+      })
+      const returned = createMockTransaction({
+        accountHolder: 'Anna Muster',
+        bookingText: 'REFUND Zalando',
+        debit: null,
+        credit: 50,
+      })
+      const other = createMockTransaction({ accountHolder: 'Ben Muster', debit: 30 })
+
+      const report = analyzeExpenses([order, returned, other])
+      const anna = report.holderSummaries!.find((h) => h.holder === 'Anna Muster')!
+
+      expect(anna.totalSpent).toBe(100)
+      expect(anna.totalIncome).toBe(0)
+      expect(anna.categorySummaries[0].refunded).toBe(50)
+    })
+  })
+
+  describe('rollUpCategories', () => {
+    it('should merge subcategories into their parent', () => {
+      const customCategories = [
+        { name: 'Bakery', parent: 'Groceries', createdDate: new Date() },
+        { name: 'Organic', parent: 'Groceries', createdDate: new Date() },
+      ]
+      const transactions = [
+        createMockTransaction({ bookingText: 'Migros', debit: 100 }),
+        createMockTransaction({ bookingText: 'Bakery', debit: 20 }),
+        createMockTransaction({ bookingText: 'Organic shop', debit: 30 }),
+        createMockTransaction({ bookingText: 'Shop', debit: 200 }),
+      ]
+      const overrides = new Map([
+        [transactions[0].id, 'Groceries'],
+        [transactions[1].id, 'Bakery'],
+        [transactions[2].id, 'Organic'],
+        [transactions[3].id, 'Shopping'],
+      ])
+      const report = analyzeExpenses(transactions, { categoryOverrides: overrides })
+
+      const groups = rollUpCategories(report.categorySummaries, customCategories)
+
+      expect(groups.map((g) => g.category)).toEqual(['Shopping', 'Groceries'])
+      const groceries = groups[1]
+      expect(groceries.totalSpent).toBe(150)
+      expect(groceries.count).toBe(3)
+      expect(groceries.averageTransaction).toBe(50)
+      expect(groceries.percentage).toBeCloseTo((150 / 350) * 100)
+      expect(groceries.subcategories.map((s) => s.category)).toEqual(['Organic', 'Bakery'])
+      expect(groups[0].subcategories).toEqual([])
+    })
+
+    it('should create a parent group when only subcategories have spending', () => {
+      const customCategories = [{ name: 'Bakery', parent: 'Groceries', createdDate: new Date() }]
+      const transaction = createMockTransaction({ debit: 20 })
+      const report = analyzeExpenses([transaction], {
+        categoryOverrides: new Map([[transaction.id, 'Bakery']]),
+      })
+
+      const [groceries] = rollUpCategories(report.categorySummaries, customCategories)
+
+      expect(groceries.category).toBe('Groceries')
+      expect(groceries.totalSpent).toBe(20)
+      expect(groceries.subcategories).toHaveLength(1)
+    })
   })
 
   describe('calculateBudgetStatus', () => {
+    it('should include subcategory spending in a parent budget', () => {
+      const customCategories = [{ name: 'Bakery', parent: 'Groceries', createdDate: new Date() }]
+      const transactions = [
+        {
+          ...createMockTransaction({ debit: 40, purchaseDate: new Date() }),
+          manualCategory: 'Bakery',
+        },
+        {
+          ...createMockTransaction({ debit: 60, purchaseDate: new Date() }),
+          manualCategory: 'Groceries',
+        },
+      ]
+      const budgets = [
+        createMockBudget({ category: 'Groceries', amount: 200 }),
+        createMockBudget({ category: 'Bakery', amount: 50 }),
+      ]
+
+      const status = calculateBudgetStatus(transactions, budgets, new Date(), [], 'monthly', [], {
+        customCategories,
+      })
+
+      expect(status.find((s) => s.budget.category === 'Groceries')?.spent).toBe(100)
+      expect(status.find((s) => s.budget.category === 'Bakery')?.spent).toBe(40)
+    })
+
+    it('should use the budget amount in force in the evaluated month', () => {
+      const transactions = [
+        createMockTransaction({ debit: 300, purchaseDate: new Date(2024, 2, 10) }),
+        createMockTransaction({ debit: 300, purchaseDate: new Date(2025, 2, 10) }),
+      ]
+      const budgets = [createMockBudget({ category: 'Restaurants & Dining', amount: 600 })]
+      const revisions = [
+        {
+          category: 'Restaurants & Dining',
+          amount: 400,
+          validFrom: new Date(2024, 0, 1),
+          validTo: new Date(2024, 11, 31),
+          createdDate: new Date(2024, 0, 1),
+        },
+        {
+          category: 'Restaurants & Dining',
+          amount: 600,
+          validFrom: new Date(2025, 0, 1),
+          validTo: null,
+          createdDate: new Date(2025, 0, 1),
+        },
+      ]
+
+      const lastYear = calculateBudgetStatus(transactions, budgets, new Date(2024, 2, 1), revisions)
+      const thisYear = calculateBudgetStatus(transactions, budgets, new Date(2025, 2, 1), revisions)
+      const beforeBudget = calculateBudgetStatus(
+        transactions,
+        budgets,
+        new Date(2023, 2, 1),
+        revisions
+      )
+
+      expect(lastYear[0]).toMatchObject({ remaining: 100, percentUsed: 75 })
+      expect(lastYear[0].budget.amount).toBe(400)
+      expect(thisYear[0]).toMatchObject({ remaining: 300, percentUsed: 50 })
+      expect(beforeBudget).toEqual([])
+    })
+
+    it('should evaluate each budget over its own period', () => {
+      const transactions = [
+        createMockTransaction({ debit: 300, purchaseDate: new Date(2025, 0, 10) }),
+        createMockTransaction({ debit: 200, purchaseDate: new Date(2025, 4, 12) }),
+        createMockTransaction({ debit: 50, purchaseDate: new Date(2025, 4, 14) }),
+      ]
+      const date = new Date(2025, 4, 14)
+
+      const [weekly] = calculateBudgetStatus(
+        transactions,
+        [createMockBudget({ category: 'Restaurants & Dining', amount: 100, period: 'weekly' })],
+        date
+      )
+      const [yearly] = calculateBudgetStatus(
+        transactions,
+        [createMockBudget({ category: 'Restaurants & Dining', amount: 1000, period: 'yearly' })],
+        date
+      )
+
+      expect(weekly).toMatchObject({ spent: 250, status: 'over' })
+      expect(weekly.periodStart).toEqual(new Date(2025, 4, 12))
+      expect(yearly).toMatchObject({ spent: 550, remaining: 450 })
+      expect(yearly.periodStart).toEqual(new Date(2025, 0, 1))
+    })
+
+    it('should add the balance carried from earlier months to rollover budgets', () => {
+      const transactions = [
+        createMockTransaction({ debit: 250, purchaseDate: new Date(2025, 0, 10) }),
+        createMockTransaction({ debit: 400, purchaseDate: new Date(2025, 1, 10) }),
+      ]
+      const budgets = [
+        createMockBudget({ category: 'Restaurants & Dining', amount: 300, rollover: true }),
+      ]
+
+      const [status] = calculateBudgetStatus(transactions, budgets, new Date(2025, 1, 1))
+
+      expect(status).toMatchObject({ carriedIn: 50, spent: 400, remaining: -50, status: 'over' })
+      expect(status.ledger?.map((e) => e.periodKey)).toEqual(['2025-01', '2025-02'])
+    })
+
+    it('should fund envelopes from assignments and carry their whole balance', () => {
+      const transactions = [
+        createMockTransaction({ debit: 100, purchaseDate: new Date(2025, 0, 10) }),
+        createMockTransaction({ debit: 50, purchaseDate: new Date(2025, 1, 10) }),
+        createMockTransaction({
+          debit: 0,
+          credit: 1000,
+          sector: '',
+          bookingText: 'Salary',
+          purchaseDate: new Date(2025, 0, 25),
+        }),
+      ]
+      const budgets = [
+        createMockBudget({ category: 'Restaurants & Dining', amount: 300, rolloverCap: 50 }),
+      ]
+      const assignments = [{ category: 'Restaurants & Dining', month: '2025-02', amount: 100 }]
+
+      const [status] = calculateBudgetStatus(
+        transactions,
+        budgets,
+        new Date(2025, 1, 1),
+        [],
+        'envelope',
+        assignments
+      )
+      const funds = calculateEnvelopeFunds(
+        transactions,
+        budgets,
+        new Date(2025, 1, 1),
+        [],
+        assignments
+      )
+
+      expect(status).toMatchObject({ carriedIn: 200, remaining: 250 })
+      expect(status.budget.amount).toBe(100)
+      expect(funds).toEqual({ income: 1000, assigned: 400, readyToAssign: 600 })
+    })
+
+    it('should move spending between budgets with category overrides', () => {
+      const transactions = [
+        createMockTransaction({ debit: 100, purchaseDate: new Date(2025, 1, 5) }),
+        createMockTransaction({ debit: 40, purchaseDate: new Date(2025, 1, 6) }),
+      ]
+      const budgets = [
+        createMockBudget({ category: 'Restaurants & Dining', amount: 300, rollover: true }),
+        createMockBudget({ id: 2, category: 'Groceries', amount: 200 }),
+      ]
+      const categoryOverrides = new Map([[transactions[0].id, 'Groceries']])
+
+      const status = calculateBudgetStatus(
+        transactions,
+        budgets,
+        new Date(2025, 1, 10),
+        [],
+        'monthly',
+        [],
+        { categoryOverrides }
+      )
+
+      expect(status.find((s) => s.budget.category === 'Restaurants & Dining')).toMatchObject({
+        spent: 40,
+        remaining: 260,
+      })
+      expect(status.find((s) => s.budget.category === 'Groceries')?.spent).toBe(100)
+    })
+
     it('should return empty array for no budgets', () => {
       const transactions = [createMockTransaction()]
       const status = calculateBudgetStatus(transactions, [])
@@ -278,49 +729,47 @@ describe('analyzer', () => {
       expect(status[0].percentUsed).toBe(30)
     })
 
-    it('should set status to healthy for < 50%', () => {
-      const transactions = [
-        createMockTransaction({
-          sector: 'Restaurants',
-          debit: 100,
-          purchaseDate: new Date(),
-        }),
-      ]
-      const budgets = [createMockBudget({ category: 'Restaurants & Dining', amount: 500 })]
-
-      const status = calculateBudgetStatus(transactions, budgets)
-
-      expect(status[0].status).toBe('healthy')
+    it('should set status from the projected spending at the end of the month', () => {
+      // Tenth of June: a third of the month has passed
+      const date = new Date(2025, 5, 10)
+      const statusFor = (debit: number) =>
+        calculateBudgetStatus(
+          [createMockTransaction({ debit, purchaseDate: new Date(2025, 5, 5) })],
+          [createMockBudget({ category: 'Restaurants & Dining', amount: 500 })],
+          date
+        )[0]
+
+      expect(statusFor(100)).toMatchObject({ status: 'healthy', expectedSpend: 500 / 3 })
+      expect(statusFor(150).status).toBe('early')
+      expect(statusFor(200).status).toBe('warning')
+      expect(statusFor(200).projectedSpend).toBeCloseTo(200 + (2 / 3) * 500)
     })
 
-    it('should set status to early for 50-74%', () => {
+    it('should judge the same share spent by the time left in the month', () => {
       const transactions = [
-        createMockTransaction({
-          sector: 'Restaurants',
-          debit: 300,
-          purchaseDate: new Date(),
-        }),
+        createMockTransaction({ debit: 300, purchaseDate: new Date(2025, 5, 2) }),
       ]
       const budgets = [createMockBudget({ category: 'Restaurants & Dining', amount: 500 })]
 
-      const status = calculateBudgetStatus(transactions, budgets)
+      const early = calculateBudgetStatus(transactions, budgets, new Date(2025, 5, 3))
+      const late = calculateBudgetStatus(transactions, budgets, new Date(2025, 5, 28))
 
-      expect(status[0].status).toBe('early')
+      expect(early[0].status).toBe('warning')
+      expect(late[0].status).toBe('healthy')
     })
 
-    it('should set status to warning for 75-99%', () => {
-      const transactions = [
-        createMockTransaction({
-          sector: 'Restaurants',
-          debit: 400,
-          purchaseDate: new Date(),
-        }),
-      ]
+    it('should follow when in the month the category is usually spent', () => {
+      // Paid at the start of every month
+      const transactions = [0, 1, 2, 3].map((month) =>
+        createMockTransaction({ debit: 400, purchaseDate: new Date(2025, month, 1) })
+      )
       const budgets = [createMockBudget({ category: 'Restaurants & Dining', amount: 500 })]
 
-      const status = calculateBudgetStatus(transactions, budgets)
+      const [status] = calculateBudgetStatus(transactions, budgets, new Date(2025, 3, 2))
 
-      expect(status[0].status).toBe('warning')
+      expect(status.expectedSpend).toBe(500)
+      expect(status.projectedSpend).toBe(400)
+      expect(status.status).toBe('healthy')
     })
 
     it('should set status to over for > 100%', () => {
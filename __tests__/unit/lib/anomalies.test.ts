@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest'
+import { detectAnomalies } from '@/lib/anomalies'
+import { createMockTransaction } from '../../fixtures/transactions'
+import type { Transaction } from '@/lib/types'
+
+const SHOPS = ['Migros', 'Coop', 'Denner', 'Lidl', 'Aldi', 'Spar']
+
+// One grocery purchase per month at a different shop
+function groceries(amounts: number[]): Transaction[] {
+  return amounts.map((debit, i) =>
+    createMockTransaction({
+      bookingText: SHOPS[i],
+      sector: 'Supermarkets',
+      purchaseDate: new Date(2025, i, 10),
+      debit,
+    })
+  )
+}
+
+describe('anomalies', () => {
+  describe('detectAnomalies', () => {
+    it('should flag a category spike against the trailing average', () => {
+      const anomalies = detectAnomalies(groceries([200, 220, 180, 600])).filter(
+        (a) => a.type === 'category-spike'
+      )
+
+      expect(anomalies).toHaveLength(1)
+      expect(anomalies[0]).toMatchObject({
+        type: 'category-spike',
+        category: 'Groceries',
+        amount: 600,
+        expected: 200,
+        date: new Date(2025, 3, 1),
+      })
+    })
+
+    it('should only compare months with a full trailing window', () => {
+      const anomalies = detectAnomalies(groceries([200, 600, 900]))
+
+      expect(anomalies.filter((a) => a.type === 'category-spike')).toEqual([])
+    })
+
+    it('should respect the sensitivity', () => {
+      const transactions = groceries([200, 200, 200, 350])
+
+      const spikes = (sensitivity: 'medium' | 'high') =>
+        detectAnomalies(transactions, sensitivity).filter((a) => a.type === 'category-spike')
+
+      expect(spikes('medium')).toEqual([])
+      expect(spikes('high')).toHaveLength(1)
+    })
+
+    it('should flag a merchant charging far more than usual', () => {
+      const charges = [30, 32, 28, 31, 250].map((debit, i) =>
+        createMockTransaction({
+          bookingText: 'Swisscom',
+          sector: 'Telecommunication',
+          purchaseDate: new Date(2025, 0, 5 + i * 7),
+          debit,
+        })
+      )
+
+      const [anomaly] = detectAnomalies(charges).filter((a) => a.type === 'merchant-spike')
+
+      expect(anomaly).toMatchObject({ merchant: 'Swisscom', amount: 250, expected: 30.5 })
+      expect(anomaly.transactions).toEqual([charges[4]])
+    })
+
+    it('should flag duplicate charges on the same day', () => {
+      const first = createMockTransaction({ bookingText: 'SBB CFF FFS', debit: 88 })
+      const second = createMockTransaction({ bookingText: 'SBB CFF FFS', debit: 88 })
+      const otherCard = createMockTransaction({
+        bookingText: 'SBB CFF FFS',
+        debit: 88,
+        cardNumber: '****9999',
+      })
+
+      const duplicates = detectAnomalies([first, second, otherCard]).filter(
+        (a) => a.type === 'duplicate'
+      )
+
+      expect(duplicates).toHaveLength(1)
+      expect(duplicates[0].transactions).toEqual([first, second])
+      expect(duplicates[0].amount).toBe(176)
+    })
+
+    it('should flag a large first charge at a new merchant after the first month', () => {
+      const early = createMockTransaction({
+        bookingText: 'Jelmoli',
+        purchaseDate: new Date(2025, 0, 2),
+        debit: 900,
+      })
+      const later = createMockTransaction({
+        bookingText: 'Galaxus',
+        purchaseDate: new Date(2025, 2, 2),
+        debit: 900,
+      })
+      const small = createMockTransaction({
+        bookingText: 'Kiosk',
+        purchaseDate: new Date(2025, 2, 3),
+        debit: 20,
+      })
+
+      const anomalies = detectAnomalies([early, later, small]).filter(
+        (a) => a.type === 'new-merchant'
+      )
+
+      expect(anomalies.map((a) => a.merchant)).toEqual(['Galaxus'])
+    })
+
+    it('should not flag transfers between own accounts', () => {
+      const payment = createMockTransaction({
+        accountNumber: 'CH93-0000-1111',
+        cardNumber: '',
+        bookingText: 'Card bill payment',
+        purchaseDate: new Date(2025, 2, 2),
+        debit: 5000,
+      })
+      const cardCredit = createMockTransaction({
+        bookingText: 'Payment received',
+        purchaseDate: new Date(2025, 2, 2),
+        debit: null,
+        credit: 5000,
+      })
+      const start = createMockTransaction({ purchaseDate: new Date(2025, 0, 2), debit: 10 })
+
+      expect(detectAnomalies([start, payment, cardCredit])).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,229 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildBudgetLedger,
+  formatPeriodLabel,
+  getBudgetAmount,
+  getElapsedDays,
+  getEnvelopeFunds,
+  getPeriodKey,
+  getPeriodRange,
+  getRevisionOn,
+  projectSpending,
+  scheduleRevisions,
+} from '@/lib/budgets'
+import { createMockBudget } from '../../fixtures/transactions'
+import type { BudgetRevision } from '@/lib/types'
+
+function revision(amount: number, validFrom: Date, createdDate = validFrom): BudgetRevision {
+  return { category: 'Groceries', amount, validFrom, validTo: null, createdDate }
+}
+
+describe('budgets', () => {
+  describe('scheduleRevisions', () => {
+    it('should end each revision the day before the next one starts', () => {
+      const scheduled = scheduleRevisions([
+        revision(400, new Date(2025, 5, 1)),
+        revision(300, new Date(2025, 0, 1)),
+      ])
+
+      expect(scheduled.map((r) => [r.amount, r.validTo])).toEqual([
+        [300, new Date(2025, 4, 31)],
+        [400, null],
+      ])
+    })
+
+    it('should let a newer revision replace one with the same start', () => {
+      const scheduled = scheduleRevisions([
+        revision(350, new Date(2025, 0, 1), new Date(2025, 0, 20)),
+        revision(300, new Date(2025, 0, 1), new Date(2025, 0, 2)),
+      ])
+
+      expect(scheduled[0].amount).toBe(300)
+      expect(scheduled[0].validTo! < scheduled[0].validFrom).toBe(true)
+      expect(getRevisionOn(scheduled, 'Groceries', new Date(2025, 0, 15))?.amount).toBe(350)
+    })
+  })
+
+  describe('getBudgetAmount', () => {
+    const budget = createMockBudget({ category: 'Groceries', amount: 400 })
+    const revisions = scheduleRevisions([
+      revision(300, new Date(2025, 0, 1)),
+      revision(400, new Date(2025, 5, 1)),
+    ])
+
+    it('should use the revision in force on the date', () => {
+      expect(getBudgetAmount(budget, revisions, new Date(2025, 4, 31))).toBe(300)
+      expect(getBudgetAmount(budget, revisions, new Date(2025, 5, 1))).toBe(400)
+    })
+
+    it('should return null before the first revision', () => {
+      expect(getBudgetAmount(budget, revisions, new Date(2024, 11, 31))).toBeNull()
+    })
+
+    it('should use the budget amount without revisions', () => {
+      expect(getBudgetAmount(budget, [], new Date(2020, 0, 1))).toBe(400)
+    })
+  })
+
+  describe('budget periods', () => {
+    // Wednesday
+    const date = new Date(2025, 4, 14, 15, 30)
+
+    it('should start weeks on Monday', () => {
+      const range = getPeriodRange('weekly', date)
+
+      expect(range.start).toEqual(new Date(2025, 4, 12))
+      expect(range.end).toEqual(new Date(2025, 4, 18, 23, 59, 59, 999))
+      expect(getPeriodKey('weekly', date)).toBe('2025-05-12')
+    })
+
+    it('should key longer periods by their first month', () => {
+      expect(getPeriodKey('monthly', date)).toBe('2025-05')
+      expect(getPeriodKey('quarterly', date)).toBe('2025-04')
+      expect(getPeriodKey('yearly', date)).toBe('2025-01')
+      expect(formatPeriodLabel('quarterly', getPeriodRange('quarterly', date).start)).toBe(
+        'Q2 2025'
+      )
+    })
+
+    it('should count the elapsed days of a period including today', () => {
+      const { start, end } = getPeriodRange('weekly', date)
+
+      expect(getElapsedDays(start, end, date)).toEqual({ elapsed: 3, total: 7 })
+      expect(getElapsedDays(start, end, new Date(2025, 4, 1))).toEqual({ elapsed: 0, total: 7 })
+      expect(getElapsedDays(start, end, new Date(2025, 5, 1))).toEqual({ elapsed: 7, total: 7 })
+    })
+  })
+
+  describe('buildBudgetLedger', () => {
+    const spending = new Map([
+      ['2025-01', 250],
+      ['2025-02', 450],
+      ['2025-03', 300],
+    ])
+
+    it('should carry unspent and overspent amounts into the next month', () => {
+      const budget = createMockBudget({ category: 'Groceries', amount: 300, rollover: true })
+
+      const ledger = buildBudgetLedger(budget, [], spending, new Date(2025, 3, 30))
+
+      expect(ledger.map(({ periodStart: _start, ...entry }) => entry)).toEqual([
+        { periodKey: '2025-01', amount: 300, carriedIn: 0, spent: 250, carriedOut: 50 },
+        { periodKey: '2025-02', amount: 300, carriedIn: 50, spent: 450, carriedOut: -100 },
+        { periodKey: '2025-03', amount: 300, carriedIn: -100, spent: 300, carriedOut: -100 },
+        { periodKey: '2025-04', amount: 300, carriedIn: -100, spent: 0, carriedOut: 200 },
+      ])
+      expect(ledger[0].periodStart).toEqual(new Date(2025, 0, 1))
+    })
+
+    it('should cap the balance carried either way', () => {
+      const budget = createMockBudget({
+        category: 'Groceries',
+        amount: 300,
+        rollover: true,
+        rolloverCap: 75,
+      })
+
+      const ledger = buildBudgetLedger(budget, [], spending, new Date(2025, 3, 30))
+
+      expect(ledger.map((e) => e.carriedOut)).toEqual([50, -75, -75, 75])
+    })
+
+    it('should start over after months the budget was not in force', () => {
+      const budget = createMockBudget({ category: 'Groceries', amount: 300, rollover: true })
+      const revisions = scheduleRevisions([revision(300, new Date(2025, 1, 1))])
+
+      const ledger = buildBudgetLedger(budget, revisions, spending, new Date(2025, 2, 31))
+
+      expect(ledger.map((e) => [e.periodKey, e.carriedIn])).toEqual([
+        ['2025-02', 0],
+        ['2025-03', -150],
+      ])
+    })
+
+    it('should carry balances from week to week', () => {
+      const budget = createMockBudget({
+        category: 'Groceries',
+        amount: 100,
+        period: 'weekly',
+        rollover: true,
+      })
+      const weekly = new Map([
+        ['2025-05-05', 80],
+        ['2025-05-19', 150],
+      ])
+
+      const ledger = buildBudgetLedger(budget, [], weekly, new Date(2025, 4, 21))
+
+      expect(ledger.map((e) => [e.periodKey, e.carriedOut])).toEqual([
+        ['2025-05-05', 20],
+        ['2025-05-12', 120],
+        ['2025-05-19', 70],
+      ])
+    })
+
+    it('should use assignments instead of the budget amount', () => {
+      const budget = createMockBudget({ category: 'Groceries', amount: 300 })
+
+      const ledger = buildBudgetLedger(
+        budget,
+        [],
+        spending,
+        new Date(2025, 1, 28),
+        new Map([['2025-02', 500]])
+      )
+
+      expect(ledger.map((e) => [e.amount, e.carriedOut])).toEqual([
+        [300, 50],
+        [500, 100],
+      ])
+    })
+  })
+
+  describe('getEnvelopeFunds', () => {
+    it('should subtract everything assigned from the income received up to the month', () => {
+      const income = new Map([
+        ['2025-01', 3000],
+        ['2025-02', 3000],
+      ])
+      const assigned = new Map([
+        ['2025-01', 2500],
+        ['2025-02', 3200],
+      ])
+
+      expect(getEnvelopeFunds(income, assigned, new Date(2025, 0, 31))).toEqual({
+        income: 3000,
+        assigned: 2500,
+        readyToAssign: 500,
+      })
+      expect(getEnvelopeFunds(income, assigned, new Date(2025, 1, 28)).readyToAssign).toBe(300)
+    })
+  })
+
+  describe('projectSpending', () => {
+    it('should expect even spending and project the rest at the budget without history', () => {
+      expect(projectSpending(200, 400, 0.25, [])).toEqual({
+        expectedSpend: 100,
+        projectedSpend: 500,
+      })
+    })
+
+    it('should follow the pattern and level of past periods', () => {
+      // Half spent in the first quarter of each period
+      const past = [
+        [100, 0, 50, 50],
+        [200, 0, 100, 100],
+        [50, 0, 25, 25],
+      ]
+
+      const { expectedSpend, projectedSpend } = projectSpending(100, 400, 0.25, past)
+
+      expect(expectedSpend).toBe(200)
+      expect(projectedSpend).toBeCloseTo(100 + 0.5 * (700 / 3))
+    })
+
+    it('should project what was spent once the period is over', () => {
+      expect(projectSpending(350, 400, 1, []).projectedSpend).toBe(350)
+    })
+  })
+})
@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest'
+import { parseCamtXML, isCamtContent } from '@/lib/camt'
+import { parseFile } from '@/lib/parser'
+import { analyzeExpenses } from '@/lib/analyzer'
+import { buildRateTable, convertTransaction, summarizeForeignSpend } from '@/lib/currency'
+import { createMockFile } from '@/test-utils/mock-file'
+import { camt053Sample, camt054Sample } from '../../fixtures/camt-samples'
+
+describe('camt', () => {
+  describe('parseCamtXML', () => {
+    it('should import booked entries and skip pending ones', () => {
+      const { transactions } = parseCamtXML(camt053Sample)
+      expect(transactions).toHaveLength(3)
+    })
+
+    it('should map debit entries with counterparty and remittance info', () => {
+      const [tx] = parseCamtXML(camt053Sample).transactions
+
+      expect(tx.bookingText).toBe('Migros Zurich - Card payment 1234')
+      expect(tx.debit).toBe(120.5)
+      expect(tx.credit).toBeNull()
+      expect(tx.amount).toBe(120.5)
+      expect(tx.currency).toBe('CHF')
+      expect(tx.accountNumber).toBe('CH9300762011623852957')
+      expect(tx.accountHolder).toBe('John Doe')
+    })
+
+    it('should use the value date as purchase date and booking date as booked date', () => {
+      const [tx] = parseCamtXML(camt053Sample).transactions
+
+      expect(tx.purchaseDate.getDate()).toBe(15)
+      expect(tx.purchaseDate.getMonth()).toBe(5)
+      expect(tx.bookedDate.getDate()).toBe(16)
+    })
+
+    it('should map credit entries using the debtor as counterparty', () => {
+      const tx = parseCamtXML(camt053Sample).transactions[1]
+
+      expect(tx.bookingText).toBe('Employer AG - Salary June')
+      expect(tx.credit).toBe(5000)
+      expect(tx.debit).toBeNull()
+    })
+
+    it('should fall back to additional entry info and capture foreign currency', () => {
+      const tx = parseCamtXML(camt053Sample).transactions[2]
+
+      expect(tx.bookingText).toBe('Hotel Lisboa')
+      expect(tx.originalCurrency).toBe('EUR')
+      expect(tx.rate).toBe(0.9716)
+    })
+
+    it('should keep the instructed amount of foreign currency entries', () => {
+      const tx = parseCamtXML(camt053Sample).transactions[2]
+      const rates = buildRateTable([{ date: '2024-06-01', currency: 'EUR', rate: 0.9716 }])
+
+      expect(tx.amount).toBe(95)
+      expect(tx.debit).toBe(92.3)
+      expect(convertTransaction(tx, { reportingCurrency: 'EUR', rates }).debit).toBe(95)
+      expect(summarizeForeignSpend([tx], rates)[0].effectiveRate).toBeCloseTo(92.3 / 95)
+    })
+
+    it('should leave the original currency empty without an instructed amount', () => {
+      const [tx] = parseCamtXML(camt053Sample).transactions
+
+      expect(tx.originalCurrency).toBe('')
+    })
+
+    it('should parse camt.054 notifications with nested party names and status codes', () => {
+      const { transactions } = parseCamtXML(camt054Sample)
+
+      expect(transactions).toHaveLength(1)
+      expect(transactions[0].bookingText).toBe('Jane Smith - Dinner share')
+      expect(transactions[0].credit).toBe(250)
+      expect(transactions[0].purchaseDate.getDate()).toBe(12)
+    })
+
+    it('should skip entries without a readable date and report them', () => {
+      const xml = camt053Sample
+        .replace('<BookgDt><Dt>2024-06-16</Dt></BookgDt>', '')
+        .replace('<ValDt><Dt>2024-06-15</Dt></ValDt>', '<ValDt><Dt>15.06.2024</Dt></ValDt>')
+      const { transactions, diagnostics } = parseCamtXML(xml)
+
+      expect(transactions).toHaveLength(2)
+      expect(diagnostics).toHaveLength(1)
+      expect(diagnostics[0]).toMatchObject({
+        row: 1,
+        column: 'ValDt',
+        field: 'purchaseDate',
+        value: '15.06.2024',
+        action: 'skipped',
+      })
+      expect(isNaN(diagnostics[0].transaction.purchaseDate.getTime())).toBe(true)
+    })
+
+    it('should fall back to the other date and report it', () => {
+      const xml = camt053Sample.replace(
+        '<ValDt><Dt>2024-06-15</Dt></ValDt>',
+        '<ValDt><Dt>2024-13-45</Dt></ValDt>'
+      )
+      const { transactions, diagnostics } = parseCamtXML(xml)
+
+      expect(transactions).toHaveLength(3)
+      expect(transactions[0].purchaseDate.getDate()).toBe(16)
+      expect(diagnostics).toEqual([
+        expect.objectContaining({ row: 1, field: 'purchaseDate', action: 'used-booking-date' }),
+      ])
+    })
+
+    it('should not report a missing optional value date', () => {
+      expect(parseCamtXML(camt054Sample).diagnostics).toEqual([])
+    })
+
+    it('should reject malformed XML', () => {
+      expect(() => parseCamtXML('<Document><BkToCstmrStmt>')).toThrow('Invalid XML document')
+    })
+
+    it('should reject XML that is not a camt message', () => {
+      expect(() => parseCamtXML('<Document><Other /></Document>')).toThrow(
+        'Not a camt.053 or camt.054 document'
+      )
+    })
+
+    it('should produce transactions usable by analyzeExpenses', () => {
+      const report = analyzeExpenses(parseCamtXML(camt053Sample).transactions)
+
+      expect(report.totalSpent).toBeCloseTo(212.8)
+      expect(report.totalIncome).toBe(5000)
+    })
+  })
+
+  describe('isCamtContent', () => {
+    it('should recognize camt namespaces', () => {
+      expect(isCamtContent(camt053Sample)).toBe(true)
+      expect(isCamtContent(camt054Sample)).toBe(true)
+      expect(isCamtContent('Account number;Card number')).toBe(false)
+    })
+  })
+
+  describe('parseFile', () => {
+    it('should route .xml files to the camt importer', async () => {
+      const file = createMockFile(camt053Sample, 'statement.xml', 'application/xml')
+      const { transactions } = await parseFile(file)
+
+      expect(transactions).toHaveLength(3)
+    })
+
+    it('should return camt diagnostics', async () => {
+      const xml = camt053Sample.replace('<BookgDt><Dt>2024-06-16</Dt></BookgDt>', '<BookgDt />')
+      const file = createMockFile(xml, 'statement.xml', 'application/xml')
+      const { diagnostics } = await parseFile(file)
+
+      expect(diagnostics).toEqual([
+        expect.objectContaining({ field: 'bookedDate', action: 'used-purchase-date' }),
+      ])
+    })
+
+    it('should report camt parse failures', async () => {
+      const file = createMockFile('<Document />', 'statement.xml', 'application/xml')
+
+      await expect(parseFile(file)).rejects.toThrow('Failed to parse camt XML')
+    })
+  })
+})
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import {
+  CATEGORIES,
+  getAllCategories,
+  getParentCategory,
+  getSubcategories,
+  getTopLevelCategory,
+  formatCategoryLabel,
+  validateCategory,
+} from '@/lib/categories'
+import type { CustomCategory } from '@/lib/types'
+
+function custom(name: string, parent: string | null = null): CustomCategory {
+  return { name, parent, createdDate: new Date('2024-01-01') }
+}
+
+describe('categories', () => {
+  describe('getAllCategories', () => {
+    it('should return the built-in categories without custom ones', () => {
+      expect(getAllCategories([])).toEqual(CATEGORIES)
+    })
+
+    it('should list subcategories right after their parent', () => {
+      const categories = getAllCategories([custom('Bakery', 'Groceries'), custom('Childcare')])
+
+      expect(categories[categories.indexOf('Groceries') + 1]).toBe('Bakery')
+      expect(categories[categories.length - 1]).toBe('Childcare')
+    })
+
+    it('should list subcategories of custom top-level categories', () => {
+      const customCategories = [custom('Daycare', 'Childcare'), custom('Childcare')]
+
+      expect(getAllCategories(customCategories).slice(-2)).toEqual(['Childcare', 'Daycare'])
+    })
+  })
+
+  describe('hierarchy', () => {
+    it('should resolve parents and subcategories', () => {
+      const customCategories = [custom('Bakery', 'Groceries'), custom('Organic', 'Groceries')]
+
+      expect(getParentCategory('Bakery', customCategories)).toBe('Groceries')
+      expect(getParentCategory('Groceries', customCategories)).toBeNull()
+      expect(getSubcategories('Groceries', customCategories)).toEqual(['Bakery', 'Organic'])
+      expect(getTopLevelCategory('Organic', customCategories)).toBe('Groceries')
+      expect(getTopLevelCategory('Shopping', customCategories)).toBe('Shopping')
+    })
+
+    it('should label subcategories with their parent', () => {
+      const customCategories = [custom('Bakery', 'Groceries')]
+
+      expect(formatCategoryLabel('Bakery', customCategories)).toBe('Groceries › Bakery')
+      expect(formatCategoryLabel('Groceries', customCategories)).toBe('Groceries')
+    })
+  })
+
+  describe('validateCategory', () => {
+    it('should accept new categories and subcategories', () => {
+      expect(validateCategory('Childcare', null, [])).toBeNull()
+      expect(validateCategory('Bakery', 'Groceries', [])).toBeNull()
+    })
+
+    it('should reject empty and duplicate names', () => {
+      const customCategories = [custom('Bakery', 'Groceries')]
+
+      expect(validateCategory('  ', null, customCategories)).toBe('Name is required')
+      expect(validateCategory('groceries', null, customCategories)).toBe(
+        'A category with this name already exists'
+      )
+      expect(validateCategory('BAKERY', 'Shopping', customCategories)).toBe(
+        'A category with this name already exists'
+      )
+    })
+
+    it('should only allow two levels', () => {
+      const customCategories = [custom('Bakery', 'Groceries')]
+
+      expect(validateCategory('Croissants', 'Bakery', customCategories)).toBe(
+        'Subcategories cannot have subcategories'
+      )
+      expect(validateCategory('Croissants', 'Missing', customCategories)).toBe(
+        'Parent category does not exist'
+      )
+    })
+  })
+})
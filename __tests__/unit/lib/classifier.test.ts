@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest'
+import {
+  tokenize,
+  buildModel,
+  predict,
+  createEmptyModel,
+  diffTrainingExamples,
+  type TrainingExample,
+} from '@/lib/classifier'
+import { createMockTransaction } from '../../fixtures/transactions'
+
+function example(bookingText: string, category: string, sector = 'Other'): TrainingExample {
+  return {
+    transactionId: `${bookingText}-${category}`,
+    bookingText,
+    sector,
+    category,
+    createdDate: new Date('2024-01-01'),
+  }
+}
+
+describe('classifier', () => {
+  describe('tokenize', () => {
+    it('should lowercase words and drop short, numeric and stop words', () => {
+      expect(tokenize({ bookingText: 'The BAKERY Müller 1234 AG', sector: 'Other' })).toEqual([
+        'bakery',
+        'müller',
+      ])
+    })
+
+    it('should add the sector as a token', () => {
+      expect(tokenize({ bookingText: 'Bakery', sector: 'Food Stores' })).toEqual([
+        'bakery',
+        'sector:food stores',
+      ])
+    })
+  })
+
+  describe('buildModel', () => {
+    it('should count examples and tokens per category', () => {
+      const model = buildModel([
+        example('Bakery Müller', 'Groceries'),
+        example('Bakery Central', 'Groceries'),
+        example('Yoga Studio', 'Health'),
+      ])
+
+      expect(model.exampleCount).toBe(3)
+      expect(model.categoryCounts).toEqual({ Groceries: 2, Health: 1 })
+      expect(model.tokenCounts.Groceries.bakery).toBe(2)
+      expect(model.vocabulary.has('yoga')).toBe(true)
+    })
+  })
+
+  describe('predict', () => {
+    const model = buildModel([
+      example('Bakery Müller', 'Groceries'),
+      example('Bakery Central', 'Groceries'),
+      example('Yoga Studio Zurich', 'Health'),
+      example('Yoga Flow', 'Health'),
+    ])
+
+    it('should predict the category of similar booking texts', () => {
+      const prediction = predict({ bookingText: 'BAKERY BAHNHOF', sector: 'Other' }, model)
+
+      expect(prediction?.category).toBe('Groceries')
+      expect(prediction?.confidence).toBeGreaterThan(0.6)
+      expect(prediction?.confidence).toBeLessThanOrEqual(1)
+    })
+
+    it('should be less confident when tokens point to different categories', () => {
+      const clear = predict({ bookingText: 'Yoga Studio', sector: 'Other' }, model)
+      const mixed = predict({ bookingText: 'Yoga Bakery', sector: 'Other' }, model)
+
+      expect(mixed!.confidence).toBeLessThan(clear!.confidence)
+    })
+
+    it('should return null for unknown tokens', () => {
+      expect(predict({ bookingText: 'Unknown Merchant', sector: 'Other' }, model)).toBeNull()
+    })
+
+    it('should return null for an empty model', () => {
+      expect(predict({ bookingText: 'Bakery', sector: 'Other' }, createEmptyModel())).toBeNull()
+    })
+  })
+
+  describe('diffTrainingExamples', () => {
+    it('should add changed overrides and remove cleared ones', () => {
+      const bakery = createMockTransaction({ bookingText: 'Bakery' })
+      const yoga = createMockTransaction({ bookingText: 'Yoga' })
+      const shop = createMockTransaction({ bookingText: 'Shop' })
+
+      const { added, removedIds } = diffTrainingExamples(
+        [bakery, yoga, shop],
+        new Map([
+          [bakery.id, 'Groceries'],
+          [yoga.id, 'Health'],
+        ]),
+        new Map([
+          [bakery.id, 'Groceries'],
+          [shop.id, 'Shopping'],
+        ])
+      )
+
+      expect(added).toHaveLength(1)
+      expect(added[0]).toMatchObject({ transactionId: shop.id, category: 'Shopping' })
+      expect(removedIds).toEqual([yoga.id])
+    })
+  })
+})
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildRateTable,
+  getRate,
+  convertAmount,
+  convertTransaction,
+  getMissingRates,
+  parseExchangeRatesCSV,
+  summarizeForeignSpend,
+} from '@/lib/currency'
+import { analyzeExpenses } from '@/lib/analyzer'
+import { createMockTransaction } from '../../fixtures/transactions'
+
+const RATES = buildRateTable([
+  { date: '2025-01-10', currency: 'EUR', rate: 0.95 },
+  { date: '2025-01-02', currency: 'EUR', rate: 0.94 },
+  { date: '2025-01-02', currency: 'USD', rate: 0.9 },
+])
+
+const IN_EUR = { reportingCurrency: 'EUR', rates: RATES }
+
+describe('currency', () => {
+  describe('getRate', () => {
+    it('should use the latest rate on or before the date', () => {
+      expect(getRate('EUR', new Date(2025, 0, 9), RATES)).toBe(0.94)
+      expect(getRate('EUR', new Date(2025, 0, 10), RATES)).toBe(0.95)
+      expect(getRate('EUR', new Date(2025, 5, 1), RATES)).toBe(0.95)
+    })
+
+    it('should fall back to the earliest rate for older dates', () => {
+      expect(getRate('EUR', new Date(2024, 11, 1), RATES)).toBe(0.94)
+    })
+
+    it('should know the base currency and return null without rates', () => {
+      expect(getRate('CHF', new Date(), RATES)).toBe(1)
+      expect(getRate('GBP', new Date(), RATES)).toBeNull()
+    })
+  })
+
+  describe('convertAmount', () => {
+    it('should convert through the base currency', () => {
+      const date = new Date(2025, 0, 5)
+
+      expect(convertAmount(94, 'CHF', 'EUR', date, RATES)).toBeCloseTo(100)
+      expect(convertAmount(100, 'EUR', 'USD', date, RATES)).toBeCloseTo(104.44, 2)
+      expect(convertAmount(100, 'GBP', 'CHF', date, RATES)).toBeNull()
+    })
+  })
+
+  describe('convertTransaction', () => {
+    it('should convert amounts into the reporting currency', () => {
+      const t = createMockTransaction({ debit: 47, purchaseDate: new Date(2025, 0, 5) })
+
+      const converted = convertTransaction(t, IN_EUR)
+
+      expect(converted.debit).toBeCloseTo(50)
+      expect(converted.credit).toBeNull()
+      expect(converted.currency).toBe('EUR')
+      expect(converted.id).toBe(t.id)
+    })
+
+    it('should keep the original amount of purchases made in the reporting currency', () => {
+      const t = createMockTransaction({
+        amount: 20,
+        originalCurrency: 'EUR',
+        debit: 19.5,
+        purchaseDate: new Date(2025, 0, 5),
+      })
+
+      expect(convertTransaction(t, IN_EUR).debit).toBe(20)
+    })
+
+    it('should leave transactions without a rate unchanged', () => {
+      const inGBP = { reportingCurrency: 'GBP', rates: RATES }
+      const t = createMockTransaction()
+
+      expect(convertTransaction(t, inGBP)).toBe(t)
+      expect(convertTransaction(t)).toBe(t)
+      expect(getMissingRates([t], inGBP)).toEqual(['CHF'])
+    })
+
+    it('should make analyzeExpenses report in the reporting currency', () => {
+      const t = createMockTransaction({ debit: 94, purchaseDate: new Date(2025, 0, 5) })
+
+      const report = analyzeExpenses([t], { currency: IN_EUR })
+
+      expect(report.totalSpent).toBeCloseTo(100)
+      expect(report.topExpenses[0].currency).toBe('EUR')
+    })
+  })
+
+  describe('parseExchangeRatesCSV', () => {
+    it('should parse rates and skip a header row', () => {
+      const csv = 'Date;Currency;Rate\n02.01.2025;eur;0.9412\n2025-01-03;USD;0.9\n'
+
+      expect(parseExchangeRatesCSV(csv)).toEqual([
+        { date: '2025-01-02', currency: 'EUR', rate: 0.9412 },
+        { date: '2025-01-03', currency: 'USD', rate: 0.9 },
+      ])
+    })
+
+    it('should report the line of invalid rows', () => {
+      expect(() => parseExchangeRatesCSV('2025-01-02,EUR,0.94\nnot a rate')).toThrow('Line 2')
+      expect(() => parseExchangeRatesCSV('2025-01-02,EURO,0.94')).toThrow('Line 1')
+    })
+  })
+
+  describe('summarizeForeignSpend', () => {
+    it('should compare the rate paid with the reference rate', () => {
+      const transactions = [
+        createMockTransaction({
+          amount: 100,
+          originalCurrency: 'EUR',
+          debit: 96,
+          purchaseDate: new Date(2025, 0, 5),
+        }),
+        createMockTransaction({
+          amount: 100,
+          originalCurrency: 'EUR',
+          debit: 97,
+          purchaseDate: new Date(2025, 0, 12),
+        }),
+        createMockTransaction({ amount: 50, originalCurrency: 'CHF', debit: 50 }),
+      ]
+
+      const [summary, ...rest] = summarizeForeignSpend(transactions, RATES)
+
+      expect(rest).toHaveLength(0)
+      expect(summary).toMatchObject({
+        originalCurrency: 'EUR',
+        bookedCurrency: 'CHF',
+        count: 2,
+        originalTotal: 200,
+        bookedTotal: 193,
+      })
+      expect(summary.effectiveRate).toBeCloseTo(0.965)
+      expect(summary.referenceRate).toBeCloseTo(0.945)
+    })
+
+    it('should leave the reference rate empty without rates', () => {
+      const t = createMockTransaction({ amount: 30, originalCurrency: 'GBP', debit: 35 })
+
+      expect(summarizeForeignSpend([t], new Map())[0].referenceRate).toBeNull()
+    })
+  })
+})
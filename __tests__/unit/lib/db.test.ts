@@ -13,14 +13,48 @@ import {
   updateBudget,
   deleteBudget,
   deleteBudgetByCategory,
+  getAllBudgetRevisions,
+  updateBudgetRollover,
+  saveEnvelopeAssignment,
+  getAllEnvelopeAssignments,
+  deleteEnvelopeAssignment,
   saveChartPreferences,
   getChartPreferences,
   clearChartPreferences,
+  saveColumnMapping,
+  getColumnMapping,
+  getAllColumnMappings,
+  deleteColumnMapping,
+  saveCategoryRule,
+  updateCategoryRule,
+  getAllCategoryRules,
+  deleteCategoryRule,
+  reorderCategoryRules,
+  saveTrainingExamples,
+  deleteTrainingExamples,
+  getAllTrainingExamples,
+  clearTrainingExamples,
+  saveCustomCategory,
+  getAllCustomCategories,
+  deleteCustomCategory,
+  saveTransactionTags,
+  getAllTransactionTags,
+  saveMerchantAlias,
+  getAllMerchantAliases,
+  deleteMerchantAlias,
+  saveTransferDecision,
+  getAllTransferDecisions,
+  saveExchangeRates,
+  getAllExchangeRates,
+  deleteExchangeRates,
+  saveSetting,
+  getSetting,
   exportAllData,
   importAllData,
   isValidBackupData,
   type BackupData,
 } from '@/lib/db'
+import { REVOLUT_FORMAT } from '@/lib/formats'
 import { createMockTransaction, createMockReport } from '../../fixtures/transactions'
 
 describe('db', () => {
@@ -29,12 +63,34 @@ describe('db', () => {
     await db.analyses.clear()
     await db.budgets.clear()
     await db.chartPreferences.clear()
+    await db.columnMappings.clear()
+    await db.categoryRules.clear()
+    await db.trainingExamples.clear()
+    await db.customCategories.clear()
+    await db.transactionTags.clear()
+    await db.merchantAliases.clear()
+    await db.transferDecisions.clear()
+    await db.exchangeRates.clear()
+    await db.settings.clear()
+    await db.budgetRevisions.clear()
+    await db.envelopeAssignments.clear()
   })
 
   afterEach(async () => {
     await db.analyses.clear()
     await db.budgets.clear()
     await db.chartPreferences.clear()
+    await db.columnMappings.clear()
+    await db.categoryRules.clear()
+    await db.trainingExamples.clear()
+    await db.customCategories.clear()
+    await db.transactionTags.clear()
+    await db.merchantAliases.clear()
+    await db.transferDecisions.clear()
+    await db.exchangeRates.clear()
+    await db.settings.clear()
+    await db.budgetRevisions.clear()
+    await db.envelopeAssignments.clear()
   })
 
   describe('Analysis CRUD', () => {
@@ -63,6 +119,44 @@ describe('db', () => {
       expect(saved?.name).toBe('My Custom Analysis')
     })
 
+    it('should store category overrides with the analysis', async () => {
+      const transaction = createMockTransaction()
+      const overrides = new Map([[transaction.id, 'Entertainment']])
+
+      const id = await saveAnalysis(
+        'test.csv',
+        [transaction],
+        createMockReport(),
+        undefined,
+        overrides
+      )
+
+      const saved = await getAnalysis(id)
+      expect(saved?.categoryOverrides).toEqual({ [transaction.id]: 'Entertainment' })
+    })
+
+    it('should store no overrides by default', async () => {
+      const id = await saveAnalysis('test.csv', [createMockTransaction()], createMockReport())
+
+      const saved = await getAnalysis(id)
+      expect(saved?.categoryOverrides).toEqual({})
+    })
+
+    it('should store the currency of the report', async () => {
+      const id = await saveAnalysis(
+        'test.csv',
+        [createMockTransaction()],
+        createMockReport(),
+        undefined,
+        undefined,
+        'EUR'
+      )
+      const defaultId = await saveAnalysis('test.csv', [], createMockReport())
+
+      expect((await getAnalysis(id))?.currency).toBe('EUR')
+      expect((await getAnalysis(defaultId))?.currency).toBe('CHF')
+    })
+
     it('should generate default name when no custom name', async () => {
       const id = await saveAnalysis('test.csv', [createMockTransaction()], createMockReport())
 
@@ -166,6 +260,81 @@ describe('db', () => {
 
       const all = await getAllBudgets()
       expect(all).toHaveLength(0)
+      expect(await getAllBudgetRevisions()).toHaveLength(0)
+    })
+
+    it('should keep earlier amounts as revisions', async () => {
+      await saveBudget('Groceries', 300, new Date(2025, 0, 1))
+      await saveBudget('Groceries', 400, new Date(2025, 5, 1))
+
+      const revisions = await getAllBudgetRevisions()
+      expect(revisions.map((r) => [r.amount, r.validFrom, r.validTo])).toEqual([
+        [300, new Date(2025, 0, 1), new Date(2025, 4, 31)],
+        [400, new Date(2025, 5, 1), null],
+      ])
+      const [budget] = await getAllBudgets()
+      expect(budget.amount).toBe(400)
+    })
+
+    it('should replace a revision starting the same day', async () => {
+      const id = await saveBudget('Groceries', 300, new Date(2025, 0, 1))
+      await updateBudget(id, 350, new Date(2025, 0, 1))
+
+      const [replaced, current] = await getAllBudgetRevisions()
+      expect(replaced.amount).toBe(300)
+      expect(replaced.validTo).toEqual(new Date(2024, 11, 31))
+      expect(current).toMatchObject({ amount: 350, validTo: null })
+    })
+
+    it('should keep the current amount when a later change is scheduled', async () => {
+      const nextYear = new Date(new Date().getFullYear() + 1, 0, 1)
+      await saveBudget('Groceries', 300, new Date(2025, 0, 1))
+      await saveBudget('Groceries', 500, nextYear)
+
+      const [budget] = await getAllBudgets()
+      expect(budget.amount).toBe(300)
+    })
+
+    it('should keep the period unless a new one is given', async () => {
+      const id = await saveBudget('Travel', 3000, new Date(2025, 0, 1), 'yearly')
+      await updateBudget(id, 3500, new Date(2026, 0, 1))
+      expect((await getBudget(id))?.period).toBe('yearly')
+
+      await updateBudget(id, 300, new Date(2026, 0, 1), 'monthly')
+      expect((await getBudget(id))?.period).toBe('monthly')
+    })
+
+    it('should save rollover settings', async () => {
+      const id = await saveBudget('Groceries', 300)
+      await updateBudgetRollover(id, true, 100)
+
+      expect(await getBudget(id)).toMatchObject({ rollover: true, rolloverCap: 100 })
+    })
+  })
+
+  describe('Envelope Assignments', () => {
+    it('should replace the assignment of a category and month', async () => {
+      await saveEnvelopeAssignment('Groceries', '2025-01', 300)
+      await saveEnvelopeAssignment('Groceries', '2025-01', 350)
+      await saveEnvelopeAssignment('Groceries', '2025-02', 400)
+
+      const assignments = await getAllEnvelopeAssignments()
+      expect(assignments.map((a) => [a.month, a.amount])).toEqual([
+        ['2025-01', 350],
+        ['2025-02', 400],
+      ])
+
+      await deleteEnvelopeAssignment('Groceries', '2025-01')
+      expect(await getAllEnvelopeAssignments()).toHaveLength(1)
+    })
+
+    it('should delete assignments with the budget', async () => {
+      await saveBudget('Groceries', 300)
+      await saveEnvelopeAssignment('Groceries', '2025-01', 300)
+
+      await deleteBudgetByCategory('Groceries')
+
+      expect(await getAllEnvelopeAssignments()).toHaveLength(0)
     })
   })
 
@@ -222,6 +391,232 @@ describe('db', () => {
     })
   })
 
+  describe('Column Mappings', () => {
+    it('should save and retrieve a mapping by fingerprint', async () => {
+      await saveColumnMapping('date|text|amount', REVOLUT_FORMAT)
+
+      const mapping = await getColumnMapping('date|text|amount')
+      expect(mapping?.format.id).toBe('revolut')
+      expect(mapping?.createdDate).toBeInstanceOf(Date)
+    })
+
+    it('should update the existing mapping for the same fingerprint', async () => {
+      const id1 = await saveColumnMapping('date|text|amount', REVOLUT_FORMAT)
+      const id2 = await saveColumnMapping('date|text|amount', {
+        ...REVOLUT_FORMAT,
+        name: 'Renamed',
+      })
+
+      expect(id1).toBe(id2)
+      const all = await getAllColumnMappings()
+      expect(all).toHaveLength(1)
+      expect(all[0].format.name).toBe('Renamed')
+    })
+
+    it('should delete a mapping', async () => {
+      const id = await saveColumnMapping('date|text|amount', REVOLUT_FORMAT)
+
+      await deleteColumnMapping(id)
+
+      expect(await getColumnMapping('date|text|amount')).toBeUndefined()
+    })
+  })
+
+  describe('Category Rules', () => {
+    const draft = (name: string) => ({
+      name,
+      category: 'Groceries',
+      enabled: true,
+      conditions: { bookingText: name },
+    })
+
+    it('should append new rules at the lowest priority', async () => {
+      await saveCategoryRule(draft('coop'))
+      await saveCategoryRule(draft('migros'))
+
+      const rules = await getAllCategoryRules()
+      expect(rules.map((r) => r.name)).toEqual(['coop', 'migros'])
+      expect(rules[1].priority).toBeGreaterThan(rules[0].priority)
+      expect(rules[0].createdDate).toBeInstanceOf(Date)
+    })
+
+    it('should update and delete rules', async () => {
+      const id = await saveCategoryRule(draft('coop'))
+
+      await updateCategoryRule(id, { enabled: false, category: 'Shopping' })
+      let rules = await getAllCategoryRules()
+      expect(rules[0]).toMatchObject({ enabled: false, category: 'Shopping' })
+
+      await deleteCategoryRule(id)
+      rules = await getAllCategoryRules()
+      expect(rules).toHaveLength(0)
+    })
+
+    it('should reorder rules', async () => {
+      const first = await saveCategoryRule(draft('coop'))
+      const second = await saveCategoryRule(draft('migros'))
+
+      await reorderCategoryRules([second, first])
+
+      const rules = await getAllCategoryRules()
+      expect(rules.map((r) => r.name)).toEqual(['migros', 'coop'])
+    })
+  })
+
+  describe('Training Examples', () => {
+    const example = (transactionId: string, category: string) => ({
+      transactionId,
+      bookingText: 'Atelier Rosa',
+      sector: 'Other',
+      category,
+      createdDate: new Date('2024-01-01'),
+    })
+
+    it('should replace the example for the same transaction', async () => {
+      await saveTrainingExamples([example('tx-1', 'Shopping')])
+      await saveTrainingExamples([example('tx-1', 'Health'), example('tx-2', 'Shopping')])
+
+      const examples = await getAllTrainingExamples()
+      expect(examples).toHaveLength(2)
+      expect(examples.find((e) => e.transactionId === 'tx-1')?.category).toBe('Health')
+    })
+
+    it('should delete and clear examples', async () => {
+      await saveTrainingExamples([example('tx-1', 'Shopping'), example('tx-2', 'Shopping')])
+
+      await deleteTrainingExamples(['tx-1'])
+      expect(await getAllTrainingExamples()).toHaveLength(1)
+
+      await clearTrainingExamples()
+      expect(await getAllTrainingExamples()).toHaveLength(0)
+    })
+  })
+
+  describe('Custom Categories', () => {
+    it('should save categories sorted by name', async () => {
+      await saveCustomCategory('Organic', 'Groceries')
+      await saveCustomCategory(' Childcare ', null)
+
+      const categories = await getAllCustomCategories()
+      expect(categories.map((c) => c.name)).toEqual(['Childcare', 'Organic'])
+      expect(categories[1].parent).toBe('Groceries')
+    })
+
+    it('should reject duplicate names', async () => {
+      await saveCustomCategory('Childcare', null)
+
+      await expect(saveCustomCategory('Childcare', null)).rejects.toThrow()
+    })
+
+    it('should delete subcategories with their parent', async () => {
+      const id = await saveCustomCategory('Childcare', null)
+      await saveCustomCategory('Daycare', 'Childcare')
+      await saveCustomCategory('Bakery', 'Groceries')
+
+      await deleteCustomCategory(id)
+
+      const categories = await getAllCustomCategories()
+      expect(categories.map((c) => c.name)).toEqual(['Bakery'])
+    })
+  })
+
+  describe('Transaction Tags', () => {
+    it('should store tags by transaction id and delete empty lists', async () => {
+      await saveTransactionTags([
+        { transactionId: 'tx-1', tags: ['wedding'] },
+        { transactionId: 'tx-2', tags: ['reimbursable'] },
+      ])
+      await saveTransactionTags([
+        { transactionId: 'tx-1', tags: [] },
+        { transactionId: 'tx-2', tags: ['reimbursable', 'wedding'] },
+      ])
+
+      expect(await getAllTransactionTags()).toEqual([
+        { transactionId: 'tx-2', tags: ['reimbursable', 'wedding'] },
+      ])
+    })
+
+    it('should find transactions by tag', async () => {
+      await saveTransactionTags([
+        { transactionId: 'tx-1', tags: ['wedding'] },
+        { transactionId: 'tx-2', tags: ['reimbursable', 'wedding'] },
+      ])
+
+      const tagged = await db.transactionTags.where('tags').equals('reimbursable').toArray()
+      expect(tagged.map((t) => t.transactionId)).toEqual(['tx-2'])
+    })
+  })
+
+  describe('Merchant Aliases', () => {
+    it('should replace an existing alias for the same name', async () => {
+      await saveMerchantAlias('Coop Pronto', 'Coop')
+      await saveMerchantAlias('Coop Pronto', ' Coop Group ')
+
+      const aliases = await getAllMerchantAliases()
+      expect(aliases).toHaveLength(1)
+      expect(aliases[0]).toMatchObject({ name: 'Coop Pronto', merchant: 'Coop Group' })
+    })
+
+    it('should delete an alias by name', async () => {
+      await saveMerchantAlias('Coop Pronto', 'Coop')
+      await saveMerchantAlias('Migrolino', 'Migros')
+
+      await deleteMerchantAlias('Coop Pronto')
+
+      const aliases = await getAllMerchantAliases()
+      expect(aliases.map((a) => a.name)).toEqual(['Migrolino'])
+    })
+  })
+
+  describe('Transfer Decisions', () => {
+    it('should keep the latest decision per pair', async () => {
+      await saveTransferDecision('tx-1:tx-2', 'confirmed')
+      await saveTransferDecision('tx-1:tx-2', 'rejected')
+
+      const decisions = await getAllTransferDecisions()
+      expect(decisions).toHaveLength(1)
+      expect(decisions[0]).toMatchObject({ pairId: 'tx-1:tx-2', status: 'rejected' })
+    })
+  })
+
+  describe('Exchange Rates', () => {
+    it('should replace the rate of the same currency and day', async () => {
+      await saveExchangeRates([
+        { date: '2025-01-02', currency: 'EUR', rate: 0.94 },
+        { date: '2025-01-02', currency: 'USD', rate: 0.9 },
+      ])
+      await saveExchangeRates([{ date: '2025-01-02', currency: 'EUR', rate: 0.95 }])
+
+      const rates = await getAllExchangeRates()
+      expect(rates).toHaveLength(2)
+      expect(rates.find((r) => r.currency === 'EUR')?.rate).toBe(0.95)
+    })
+
+    it('should delete all rates of a currency', async () => {
+      await saveExchangeRates([
+        { date: '2025-01-02', currency: 'EUR', rate: 0.94 },
+        { date: '2025-01-03', currency: 'EUR', rate: 0.95 },
+        { date: '2025-01-02', currency: 'USD', rate: 0.9 },
+      ])
+
+      await deleteExchangeRates('EUR')
+
+      const rates = await getAllExchangeRates()
+      expect(rates.map((r) => r.currency)).toEqual(['USD'])
+    })
+  })
+
+  describe('Settings', () => {
+    it('should save and overwrite settings by key', async () => {
+      expect(await getSetting('reportingCurrency')).toBeUndefined()
+
+      await saveSetting('reportingCurrency', 'EUR')
+      await saveSetting('reportingCurrency', 'USD')
+
+      expect(await getSetting('reportingCurrency')).toBe('USD')
+    })
+  })
+
   describe('Backup/Restore', () => {
     it('should export all data', async () => {
       await saveAnalysis('test.csv', [createMockTransaction()], createMockReport())
@@ -241,6 +636,20 @@ describe('db', () => {
       expect(backup.chartPreferences).not.toBeNull()
     })
 
+    it('should round-trip column mappings through export and import', async () => {
+      await saveColumnMapping('date|text|amount', REVOLUT_FORMAT)
+
+      const backup = JSON.parse(JSON.stringify(await exportAllData())) as BackupData
+      expect(backup.columnMappings).toHaveLength(1)
+
+      await db.columnMappings.clear()
+      await importAllData(backup)
+
+      const mapping = await getColumnMapping('date|text|amount')
+      expect(mapping?.format.columns.amount).toBe('Amount')
+      expect(mapping?.createdDate).toBeInstanceOf(Date)
+    })
+
     it('should export empty data when no records', async () => {
       const backup = await exportAllData()
 
@@ -249,6 +658,165 @@ describe('db', () => {
       expect(backup.chartPreferences).toBeNull()
     })
 
+    it('should assign ids to transactions from older backups', async () => {
+      const { id: _id, ...legacyTransaction } = createMockTransaction()
+      const backup = {
+        version: 1,
+        exportDate: new Date().toISOString(),
+        analyses: [
+          {
+            name: 'Legacy',
+            fileName: 'legacy.csv',
+            uploadDate: new Date(),
+            transactions: [legacyTransaction],
+            report: createMockReport(),
+          },
+        ],
+        budgets: [],
+        chartPreferences: null,
+      } as unknown as BackupData
+
+      await importAllData(backup)
+
+      const [analysis] = await db.analyses.toArray()
+      expect(analysis.transactions[0].id).toMatch(/#1$/)
+      expect(analysis.categoryOverrides).toEqual({})
+    })
+
+    it('should round-trip category rules through export and import', async () => {
+      await saveCategoryRule({
+        name: 'Netflix',
+        category: 'Entertainment',
+        enabled: true,
+        conditions: { bookingText: 'netflix' },
+      })
+
+      const backup = JSON.parse(JSON.stringify(await exportAllData())) as BackupData
+      expect(backup.categoryRules).toHaveLength(1)
+
+      await db.categoryRules.clear()
+      await importAllData(backup)
+
+      const [rule] = await getAllCategoryRules()
+      expect(rule.conditions.bookingText).toBe('netflix')
+      expect(rule.createdDate).toBeInstanceOf(Date)
+    })
+
+    it('should round-trip custom categories through export and import', async () => {
+      await saveCustomCategory('Bakery', 'Groceries')
+
+      const backup = JSON.parse(JSON.stringify(await exportAllData())) as BackupData
+      await importAllData(backup)
+
+      const [category] = await getAllCustomCategories()
+      expect(category).toMatchObject({ name: 'Bakery', parent: 'Groceries' })
+      expect(category.createdDate).toBeInstanceOf(Date)
+    })
+
+    it('should round-trip transaction tags through export and import', async () => {
+      await saveTransactionTags([{ transactionId: 'tx-1', tags: ['wedding'] }])
+
+      const backup = JSON.parse(JSON.stringify(await exportAllData())) as BackupData
+      await importAllData(backup)
+
+      expect(await getAllTransactionTags()).toEqual([{ transactionId: 'tx-1', tags: ['wedding'] }])
+    })
+
+    it('should round-trip merchant aliases through export and import', async () => {
+      await saveMerchantAlias('Coop Pronto', 'Coop')
+
+      const backup = JSON.parse(JSON.stringify(await exportAllData())) as BackupData
+      await importAllData(backup)
+
+      const [alias] = await getAllMerchantAliases()
+      expect(alias).toMatchObject({ name: 'Coop Pronto', merchant: 'Coop' })
+      expect(alias.createdDate).toBeInstanceOf(Date)
+    })
+
+    it('should round-trip transfer decisions through export and import', async () => {
+      await saveTransferDecision('tx-1:tx-2', 'confirmed')
+
+      const backup = JSON.parse(JSON.stringify(await exportAllData())) as BackupData
+      await importAllData(backup)
+
+      const [decision] = await getAllTransferDecisions()
+      expect(decision).toMatchObject({ pairId: 'tx-1:tx-2', status: 'confirmed' })
+      expect(decision.createdDate).toBeInstanceOf(Date)
+    })
+
+    it('should round-trip exchange rates and settings through export and import', async () => {
+      await saveExchangeRates([{ date: '2025-01-02', currency: 'EUR', rate: 0.94 }])
+      await saveSetting('reportingCurrency', 'EUR')
+
+      const backup = JSON.parse(JSON.stringify(await exportAllData())) as BackupData
+      await importAllData(backup)
+
+      expect(await getAllExchangeRates()).toEqual([
+        { date: '2025-01-02', currency: 'EUR', rate: 0.94 },
+      ])
+      expect(await getSetting('reportingCurrency')).toBe('EUR')
+    })
+
+    it('should round-trip budget revisions through export and import', async () => {
+      await saveBudget('Groceries', 300, new Date(2025, 0, 1))
+      await saveBudget('Groceries', 400, new Date(2025, 5, 1))
+
+      const backup = JSON.parse(JSON.stringify(await exportAllData())) as BackupData
+      await importAllData(backup)
+
+      const revisions = await getAllBudgetRevisions()
+      expect(revisions).toHaveLength(2)
+      expect(revisions[0].validFrom).toBeInstanceOf(Date)
+      expect(revisions[0].validTo).toEqual(new Date(2025, 4, 31))
+    })
+
+    it('should round-trip envelope assignments through export and import', async () => {
+      await saveEnvelopeAssignment('Groceries', '2025-01', 300)
+
+      const backup = JSON.parse(JSON.stringify(await exportAllData())) as BackupData
+      await importAllData(backup)
+
+      expect(await getAllEnvelopeAssignments()).toEqual([
+        { category: 'Groceries', month: '2025-01', amount: 300 },
+      ])
+    })
+
+    it('should round-trip training examples through export and import', async () => {
+      await saveTrainingExamples([
+        {
+          transactionId: 'tx-1',
+          bookingText: 'Atelier Rosa',
+          sector: 'Other',
+          category: 'Shopping',
+          createdDate: new Date('2024-01-01'),
+        },
+      ])
+
+      const backup = JSON.parse(JSON.stringify(await exportAllData())) as BackupData
+      await importAllData(backup)
+
+      const [example] = await getAllTrainingExamples()
+      expect(example.category).toBe('Shopping')
+      expect(example.createdDate).toBeInstanceOf(Date)
+    })
+
+    it('should round-trip category overrides through export and import', async () => {
+      const transaction = createMockTransaction()
+      await saveAnalysis(
+        'test.csv',
+        [transaction],
+        createMockReport(),
+        undefined,
+        new Map([[transaction.id, 'Entertainment']])
+      )
+
+      const backup = JSON.parse(JSON.stringify(await exportAllData())) as BackupData
+      await importAllData(backup)
+
+      const [analysis] = await db.analyses.toArray()
+      expect(analysis.categoryOverrides).toEqual({ [transaction.id]: 'Entertainment' })
+    })
+
     it('should import data and replace existing', async () => {
       // Save some initial data
       await saveAnalysis('old.csv', [], createMockReport())
@@ -264,6 +832,7 @@ describe('db', () => {
             uploadDate: new Date(),
             transactions: [createMockTransaction()],
             report: createMockReport(),
+            categoryOverrides: {},
           },
         ],
         budgets: [
@@ -316,6 +885,7 @@ describe('db', () => {
               },
             ],
             report: createMockReport(),
+            categoryOverrides: {},
           },
         ],
         budgets: [],
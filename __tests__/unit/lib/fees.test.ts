@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest'
+import { analyzeForeignFees, isSurcharge, SURCHARGE_SECTOR } from '@/lib/fees'
+import { buildRateTable } from '@/lib/currency'
+import { createMockTransaction } from '../../fixtures/transactions'
+
+function purchase(id: string, date: Date, eur: number, chf: number, bookingText = 'Cafe Roma') {
+  return createMockTransaction({
+    id,
+    bookingText,
+    purchaseDate: date,
+    debit: chf,
+    amount: eur,
+    originalCurrency: 'EUR',
+    rate: chf / eur,
+  })
+}
+
+function surcharge(id: string, date: Date, debit: number, bookingText = 'Surcharge abroad') {
+  return createMockTransaction({
+    id,
+    bookingText,
+    sector: SURCHARGE_SECTOR,
+    purchaseDate: date,
+    debit,
+    amount: debit,
+  })
+}
+
+const RATES = buildRateTable([{ date: '2025-01-01', currency: 'EUR', rate: 0.94 }])
+const NO_RATES = { reportingCurrency: 'CHF', rates: buildRateTable([]) }
+
+describe('fees', () => {
+  describe('isSurcharge', () => {
+    it('should recognize debits in the surcharge sector', () => {
+      expect(isSurcharge(surcharge('s1', new Date(2025, 0, 5), 1.75))).toBe(true)
+      expect(isSurcharge(createMockTransaction({ sector: 'Restaurants' }))).toBe(false)
+    })
+  })
+
+  describe('analyzeForeignFees', () => {
+    it('should attribute a surcharge to the foreign purchase on the same card', () => {
+      const report = analyzeForeignFees(
+        [
+          purchase('p1', new Date(2025, 0, 5), 100, 96),
+          surcharge('s1', new Date(2025, 0, 6), 1.68),
+          createMockTransaction({ id: 'local', purchaseDate: new Date(2025, 0, 6) }),
+        ],
+        NO_RATES
+      )
+
+      expect(report.purchases).toHaveLength(1)
+      expect(report.purchases[0].fees).toBeCloseTo(1.68)
+      expect(report.purchases[0].appliedRate).toBeCloseTo(0.96)
+      expect(report.unmatchedSurcharges).toHaveLength(0)
+      expect(report.totalFees).toBeCloseTo(1.68)
+    })
+
+    it('should prefer the purchase named in the surcharge text', () => {
+      const report = analyzeForeignFees(
+        [
+          purchase('p1', new Date(2025, 0, 5), 100, 96, 'Cafe Roma'),
+          purchase('p2', new Date(2025, 0, 5), 50, 48, 'Hotel Milano'),
+          surcharge('s1', new Date(2025, 0, 6), 1.68, 'Surcharge abroad Hotel Milano'),
+        ],
+        NO_RATES
+      )
+
+      const hotel = report.purchases.find((p) => p.transaction.id === 'p2')!
+      expect(hotel.fees).toBeCloseTo(1.68)
+    })
+
+    it('should keep surcharges without a purchase on the card as unmatched', () => {
+      const report = analyzeForeignFees(
+        [
+          purchase('p1', new Date(2025, 0, 5), 100, 96),
+          surcharge('s1', new Date(2025, 0, 20), 1.68),
+        ],
+        NO_RATES
+      )
+
+      expect(report.unmatchedSurcharges.map((t) => t.id)).toEqual(['s1'])
+      expect(report.purchases[0].fees).toBe(0)
+      expect(report.totalFees).toBeCloseTo(1.68)
+    })
+
+    it('should compute the markup against the reference rate', () => {
+      const report = analyzeForeignFees(
+        [
+          purchase('p1', new Date(2025, 0, 5), 100, 96),
+          surcharge('s1', new Date(2025, 0, 5), 1.68),
+        ],
+        { reportingCurrency: 'CHF', rates: RATES }
+      )
+
+      expect(report.purchases[0].fxMarkup).toBeCloseTo(2)
+      expect(report.totalMarkup).toBeCloseTo(2)
+      expect(report.byCurrency[0].totalCost).toBeCloseTo(3.68)
+      expect(report.byCurrency[0].costPercent).toBeCloseTo((3.68 / 94) * 100)
+    })
+
+    it('should analyze booked amounts and convert the results', () => {
+      const report = analyzeForeignFees(
+        [
+          purchase('p1', new Date(2025, 0, 5), 100, 96),
+          surcharge('s1', new Date(2025, 0, 5), 1.88),
+        ],
+        { reportingCurrency: 'EUR', rates: RATES }
+      )
+
+      expect(report.purchases).toHaveLength(1)
+      expect(report.purchases[0].appliedRate).toBeCloseTo(0.96)
+      expect(report.purchases[0].spent).toBeCloseTo(96 / 0.94)
+      expect(report.purchases[0].fees).toBeCloseTo(2)
+      expect(report.totalMarkup).toBeCloseTo(2 / 0.94)
+    })
+
+    it('should leave the markup unknown without reference rates', () => {
+      const report = analyzeForeignFees([purchase('p1', new Date(2025, 0, 5), 100, 96)], NO_RATES)
+
+      expect(report.purchases[0].fxMarkup).toBeNull()
+      expect(report.totalMarkup).toBe(0)
+    })
+
+    it('should split trips at gaps of more than a few days', () => {
+      const report = analyzeForeignFees(
+        [
+          purchase('p1', new Date(2025, 0, 5), 100, 96),
+          purchase('p2', new Date(2025, 0, 7), 50, 48),
+          purchase('p3', new Date(2025, 2, 1), 20, 19),
+        ],
+        NO_RATES
+      )
+
+      expect(report.byTrip).toHaveLength(2)
+      expect(report.byTrip[0].purchases.map((p) => p.transaction.id)).toEqual(['p3'])
+      expect(report.byTrip[1].purchases.map((p) => p.transaction.id)).toEqual(['p1', 'p2'])
+      expect(report.byTrip[1].label).toContain('EUR')
+    })
+
+    it('should group purchases by card', () => {
+      const other = { ...purchase('p2', new Date(2025, 0, 5), 50, 48), cardNumber: '****9999' }
+      const report = analyzeForeignFees(
+        [
+          purchase('p1', new Date(2025, 0, 5), 100, 96),
+          other,
+          surcharge('s1', new Date(2025, 0, 5), 1.68),
+        ],
+        NO_RATES
+      )
+
+      expect(report.byCard.map((g) => g.key)).toEqual(['****1234', '****9999'])
+      expect(report.byCard[0].fees).toBeCloseTo(1.68)
+      expect(report.byCard[1].fees).toBe(0)
+    })
+  })
+})
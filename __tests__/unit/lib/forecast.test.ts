@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest'
+import { forecastCashFlow } from '@/lib/forecast'
+import { categorizeTransaction } from '@/lib/analyzer'
+import { createMockTransaction } from '../../fixtures/transactions'
+import type { Transaction } from '@/lib/types'
+
+const SHOPS = ['Migros', 'Coop', 'Denner', 'Lidl', 'Aldi', 'Spar']
+
+// Half a year with a salary, a subscription and one grocery shop per month
+function halfYear(groceries: number[]): Transaction[] {
+  return groceries.flatMap((amount, month) => [
+    createMockTransaction({
+      bookingText: 'Salary ACME AG',
+      purchaseDate: new Date(2025, month, 25),
+      debit: null,
+      credit: 6000,
+    }),
+    createMockTransaction({
+      bookingText: 'NETFLIX.COM',
+      sector: '',
+      purchaseDate: new Date(2025, month, 15),
+      debit: 15.9,
+    }),
+    createMockTransaction({
+      bookingText: SHOPS[month],
+      sector: 'Supermarkets',
+      purchaseDate: new Date(2025, month, 3 + month * 2),
+      debit: amount,
+    }),
+  ])
+}
+
+describe('forecast', () => {
+  describe('forecastCashFlow', () => {
+    it('should start after the latest month and cover the horizon', () => {
+      const forecast = forecastCashFlow(halfYear([200, 300, 250, 250, 200, 300]), 3)
+
+      expect(forecast.map((m) => m.monthKey)).toEqual(['2025-07', '2025-08', '2025-09'])
+      expect(forecast[0].month).toBe('Jul 2025')
+    })
+
+    it('should project income, spending and net flow', () => {
+      const [july] = forecastCashFlow(halfYear([200, 300, 250, 250, 200, 300]), 3)
+
+      expect(july.income).toEqual({ expected: 6000, low: 6000, high: 6000 })
+      expect(july.recurring).toBeCloseTo(15.9)
+      expect(july.spending.expected).toBeCloseTo(265.9)
+      expect(july.netFlow.expected).toBeCloseTo(5734.1)
+      expect(july.categories.map((c) => c.category)).toEqual(['Groceries', 'Entertainment'])
+    })
+
+    it('should subtract matched refunds from the spending of their category', () => {
+      const order = createMockTransaction({
+        bookingText: 'ZALANDO 4412 BERLIN',
+        sector: 'Clothing stores',
+        purchaseDate: new Date(2025, 2, 10),
+        debit: 120,
+      })
+      const returned = createMockTransaction({
+        bookingText: 'REFUND ZALANDO 9981',
+        sector: '',
+        purchaseDate: new Date(2025, 3, 2),
+        debit: null,
+        credit: 120,
+      })
+
+      const [july] = forecastCashFlow(
+        [...halfYear([200, 300, 250, 250, 200, 300]), order, returned],
+        1
+      )
+
+      expect(july.income.expected).toBe(6000)
+      expect(july.spending.expected).toBeCloseTo(265.9)
+      expect(july.categories.map((c) => c.category)).toEqual(['Groceries', 'Entertainment'])
+    })
+
+    it('should widen the band further out', () => {
+      const forecast = forecastCashFlow(halfYear([200, 300, 250, 250, 200, 300]), 6)
+      const width = (i: number) => forecast[i].spending.high - forecast[i].spending.low
+
+      expect(width(0)).toBeGreaterThan(0)
+      expect(width(5)).toBeGreaterThan(width(0))
+      expect(forecast[0].spending.low).toBeGreaterThanOrEqual(forecast[0].recurring)
+    })
+
+    it('should use the same month of earlier years with a full year of history', () => {
+      const tax = createMockTransaction({
+        bookingText: 'Steueramt Zuerich',
+        sector: 'Government',
+        purchaseDate: new Date(2024, 3, 20),
+        debit: 3000,
+      })
+      const dinners = Array.from({ length: 14 }, (_, i) =>
+        createMockTransaction({
+          bookingText: SHOPS[i % SHOPS.length],
+          purchaseDate: new Date(2024, i, i === 0 ? 2 : 10 + (i % 5)),
+          debit: 100,
+        })
+      )
+      const last = createMockTransaction({ purchaseDate: new Date(2025, 1, 27), debit: 100 })
+
+      const forecast = forecastCashFlow([tax, ...dinners, last], 3)
+      const taxCategory = categorizeTransaction(tax)
+      const april = forecast.find((m) => m.monthKey === '2025-04')!
+      const march = forecast.find((m) => m.monthKey === '2025-03')!
+
+      expect(april.categories.find((c) => c.category === taxCategory)?.amount).toBe(3000)
+      expect(march.categories.find((c) => c.category === taxCategory)).toBeUndefined()
+    })
+
+    it('should leave out recurring payments that stopped', () => {
+      const transactions = halfYear([200, 300, 250, 250, 200, 300]).filter(
+        (t) => !(t.bookingText === 'NETFLIX.COM' && t.purchaseDate > new Date(2025, 3, 1))
+      )
+
+      const [july] = forecastCashFlow(transactions, 1)
+
+      expect(july.recurring).toBe(0)
+    })
+
+    it('should need at least two complete months of history', () => {
+      const transactions = [
+        createMockTransaction({ purchaseDate: new Date(2025, 0, 2) }),
+        createMockTransaction({ purchaseDate: new Date(2025, 0, 28) }),
+      ]
+
+      expect(forecastCashFlow(transactions, 3)).toEqual([])
+      expect(forecastCashFlow([], 3)).toEqual([])
+    })
+  })
+})
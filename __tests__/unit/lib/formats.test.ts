@@ -0,0 +1,130 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import {
+  detectFormat,
+  getBankFormats,
+  registerBankFormat,
+  unregisterBankFormat,
+  getHeaderFingerprint,
+  guessColumnMapping,
+  guessDateFormat,
+  UBS_CARD_FORMAT,
+  type BankFormat,
+} from '@/lib/formats'
+
+const customFormat: BankFormat = {
+  id: 'test-bank',
+  name: 'Test Bank',
+  headerSignature: ['Datum', 'Betrag'],
+  columns: { purchaseDate: 'Datum', bookingText: 'Text', amount: 'Betrag' },
+  dateFormat: 'DD.MM.YYYY',
+  numberFormat: 'decimal-comma',
+  amountMode: 'signed',
+}
+
+describe('formats', () => {
+  afterEach(() => {
+    unregisterBankFormat('test-bank')
+  })
+
+  describe('detectFormat', () => {
+    it('should detect the UBS card format from its headers', () => {
+      const headers = Object.values(UBS_CARD_FORMAT.columns) as string[]
+      expect(detectFormat(headers)?.id).toBe('ubs-card')
+    })
+
+    it('should ignore surrounding whitespace in headers', () => {
+      expect(detectFormat([' Card number', 'Purchase date ', 'Booking text', 'Sector'])?.id).toBe(
+        'ubs-card'
+      )
+    })
+
+    it('should return null when no signature matches', () => {
+      expect(detectFormat(['Date', 'Description', 'Value'])).toBeNull()
+    })
+
+    it('should prefer the most specific signature', () => {
+      registerBankFormat({ ...customFormat, id: 'test-bank', headerSignature: ['Card number'] })
+      const headers = Object.values(UBS_CARD_FORMAT.columns) as string[]
+      expect(detectFormat(headers)?.id).toBe('ubs-card')
+    })
+  })
+
+  describe('registry', () => {
+    it('should register and detect a custom format', () => {
+      registerBankFormat(customFormat)
+
+      expect(getBankFormats().some((f) => f.id === 'test-bank')).toBe(true)
+      expect(detectFormat(['Datum', 'Text', 'Betrag'])?.id).toBe('test-bank')
+    })
+
+    it('should replace a format registered with the same id', () => {
+      registerBankFormat(customFormat)
+      registerBankFormat({ ...customFormat, name: 'Renamed' })
+
+      const matches = getBankFormats().filter((f) => f.id === 'test-bank')
+      expect(matches).toHaveLength(1)
+      expect(matches[0].name).toBe('Renamed')
+    })
+
+    it('should unregister a format', () => {
+      registerBankFormat(customFormat)
+      unregisterBankFormat('test-bank')
+
+      expect(detectFormat(['Datum', 'Text', 'Betrag'])).toBeNull()
+    })
+  })
+
+  describe('getHeaderFingerprint', () => {
+    it('should ignore header order, case and whitespace', () => {
+      expect(getHeaderFingerprint(['Date', ' Amount', 'Text'])).toBe(
+        getHeaderFingerprint(['text', 'AMOUNT', 'date '])
+      )
+    })
+
+    it('should differ for different header sets', () => {
+      expect(getHeaderFingerprint(['Date', 'Amount'])).not.toBe(
+        getHeaderFingerprint(['Date', 'Amount', 'Balance'])
+      )
+    })
+  })
+
+  describe('guessColumnMapping', () => {
+    it('should map common English headers', () => {
+      const columns = guessColumnMapping(['Date', 'Description', 'Debit', 'Credit', 'Balance'])
+
+      expect(columns.purchaseDate).toBe('Date')
+      expect(columns.bookingText).toBe('Description')
+      expect(columns.debit).toBe('Debit')
+      expect(columns.credit).toBe('Credit')
+      expect(columns.amount).toBeUndefined()
+    })
+
+    it('should map common German headers', () => {
+      const columns = guessColumnMapping(['Datum', 'Buchungstext', 'Betrag', 'Währung'])
+
+      expect(columns.purchaseDate).toBe('Datum')
+      expect(columns.bookingText).toBe('Buchungstext')
+      expect(columns.amount).toBe('Betrag')
+      expect(columns.currency).toBe('Währung')
+    })
+
+    it('should use a lone booking date as the transaction date', () => {
+      const columns = guessColumnMapping(['Booking date', 'Text', 'Amount'])
+
+      expect(columns.purchaseDate).toBe('Booking date')
+      expect(columns.bookedDate).toBeUndefined()
+    })
+  })
+
+  describe('guessDateFormat', () => {
+    it('should detect ISO and Swiss dates', () => {
+      expect(guessDateFormat(['2024-06-15'])).toBe('YYYY-MM-DD')
+      expect(guessDateFormat(['15.06.2024'])).toBe('DD.MM.YYYY')
+    })
+
+    it('should read slash dates as day-first unless impossible', () => {
+      expect(guessDateFormat(['05/06/2024', '15/06/2024'])).toBe('DD/MM/YYYY')
+      expect(guessDateFormat(['06/05/2024', '06/15/2024'])).toBe('MM/DD/YYYY')
+    })
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import { filterByHolder, getHolderName, getHolderOptions, UNKNOWN_HOLDER } from '@/lib/holders'
+import { createMockTransaction } from '../../fixtures/transactions'
+
+describe('holders', () => {
+  describe('getHolderName', () => {
+    it('should use the cardholder', () => {
+      expect(getHolderName(createMockTransaction({ accountHolder: ' Anna Muster ' }))).toBe(
+        'Anna Muster'
+      )
+    })
+
+    it('should fall back to the account number', () => {
+      const t = createMockTransaction({ accountHolder: '', accountNumber: 'CH93-0000-1111' })
+      expect(getHolderName(t)).toBe('CH93-0000-1111')
+    })
+
+    it('should name transactions without holder or account', () => {
+      const t = createMockTransaction({ accountHolder: '', accountNumber: '' })
+      expect(getHolderName(t)).toBe(UNKNOWN_HOLDER)
+    })
+  })
+
+  describe('getHolderOptions', () => {
+    it('should list holders with their cards', () => {
+      const options = getHolderOptions([
+        createMockTransaction({ accountHolder: 'Ben', cardNumber: '****2222' }),
+        createMockTransaction({ accountHolder: 'Anna', cardNumber: '****1111' }),
+        createMockTransaction({ accountHolder: 'Anna', cardNumber: '****3333' }),
+        createMockTransaction({ accountHolder: 'Anna', cardNumber: '****1111' }),
+        createMockTransaction({ accountHolder: 'Anna', cardNumber: '' }),
+      ])
+
+      expect(options).toEqual([
+        { holder: 'Anna', cards: ['****1111', '****3333'] },
+        { holder: 'Ben', cards: ['****2222'] },
+      ])
+    })
+  })
+
+  describe('filterByHolder', () => {
+    const transactions = [
+      createMockTransaction({ id: 'a1', accountHolder: 'Anna', cardNumber: '****1111' }),
+      createMockTransaction({ id: 'a2', accountHolder: 'Anna', cardNumber: '****3333' }),
+      createMockTransaction({ id: 'b1', accountHolder: 'Ben', cardNumber: '****2222' }),
+    ]
+
+    it('should return all transactions without a filter', () => {
+      expect(filterByHolder(transactions, null)).toBe(transactions)
+    })
+
+    it('should keep all cards of the selected holder', () => {
+      const ids = filterByHolder(transactions, { type: 'holder', value: 'Anna' }).map((t) => t.id)
+      expect(ids).toEqual(['a1', 'a2'])
+    })
+
+    it('should keep only the selected card', () => {
+      const ids = filterByHolder(transactions, { type: 'card', value: '****3333' }).map((t) => t.id)
+      expect(ids).toEqual(['a2'])
+    })
+  })
+})
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest'
+import { normalizeMerchant, getMerchantName, summarizeMerchants } from '@/lib/merchants'
+import type { MerchantAlias } from '@/lib/types'
+import { createMockTransaction } from '../../fixtures/transactions'
+
+const ALIASES: MerchantAlias[] = [
+  { name: 'Coop Pronto', merchant: 'Coop', createdDate: new Date() },
+]
+
+describe('merchants', () => {
+  describe('normalizeMerchant', () => {
+    it('should strip store numbers and locations', () => {
+      expect(normalizeMerchant('COOP-4521 ZUERICH HB')).toBe('Coop')
+      expect(normalizeMerchant('Coop Pronto 123')).toBe('Coop Pronto')
+      expect(normalizeMerchant('MIGROS M 0123 BERN')).toBe('Migros M')
+    })
+
+    it('should strip payment processor prefixes', () => {
+      expect(normalizeMerchant('SUMUP *BAECKEREI MUELLER ZUERICH')).toBe('Baeckerei Mueller')
+      expect(normalizeMerchant('TWINT Cafe Sprungli')).toBe('Cafe Sprungli')
+      expect(normalizeMerchant('SQ *BLUE BOTTLE')).toBe('Blue Bottle')
+    })
+
+    it('should merge booking texts that only differ by reference numbers', () => {
+      expect(normalizeMerchant('NETFLIX.COM 4411')).toBe('Netflix.com')
+      expect(normalizeMerchant('Netflix.com 9921')).toBe('Netflix.com')
+    })
+
+    it('should keep abbreviations in capitals', () => {
+      expect(normalizeMerchant('SBB CFF FFS 4432')).toBe('SBB CFF FFS')
+    })
+
+    it('should fall back to the booking text', () => {
+      expect(normalizeMerchant(' 12345 ')).toBe('12345')
+    })
+  })
+
+  describe('getMerchantName', () => {
+    it('should apply aliases case-insensitively', () => {
+      expect(getMerchantName({ bookingText: 'COOP PRONTO 532' }, ALIASES)).toBe('Coop')
+      expect(getMerchantName({ bookingText: 'Migros 12' }, ALIASES)).toBe('Migros')
+      expect(getMerchantName({ bookingText: 'COOP PRONTO 532' })).toBe('Coop Pronto')
+    })
+  })
+
+  describe('summarizeMerchants', () => {
+    it('should summarize spending per merchant, largest first', () => {
+      const transactions = [
+        createMockTransaction({
+          bookingText: 'COOP-4521 ZUERICH',
+          debit: 40,
+          purchaseDate: new Date(2025, 0, 5),
+        }),
+        createMockTransaction({
+          bookingText: 'COOP-1200 BERN',
+          debit: 20,
+          purchaseDate: new Date(2025, 2, 10),
+        }),
+        createMockTransaction({
+          bookingText: 'Coop Pronto 77',
+          debit: 30,
+          purchaseDate: new Date(2025, 1, 1),
+        }),
+        createMockTransaction({
+          bookingText: 'Salary',
+          debit: null,
+          credit: 5000,
+          purchaseDate: new Date(2025, 0, 25),
+        }),
+      ]
+
+      const [coop, pronto, ...rest] = summarizeMerchants(transactions)
+
+      expect(rest).toHaveLength(0)
+      expect(coop).toMatchObject({
+        merchant: 'Coop',
+        totalSpent: 60,
+        count: 2,
+        averageTicket: 30,
+        visitsPerMonth: 2 / 3,
+      })
+      expect(coop.monthlyTotals.map((m) => m.totalSpent)).toEqual([40, 20])
+      expect(pronto.merchant).toBe('Coop Pronto')
+    })
+
+    it('should merge aliased merchants and list their names', () => {
+      const transactions = [
+        createMockTransaction({ bookingText: 'COOP-4521 ZUERICH', debit: 40 }),
+        createMockTransaction({ bookingText: 'Coop Pronto 77', debit: 30 }),
+      ]
+
+      const [coop, ...rest] = summarizeMerchants(transactions, ALIASES)
+
+      expect(rest).toHaveLength(0)
+      expect(coop.totalSpent).toBe(70)
+      expect(coop.names).toEqual(['Coop', 'Coop Pronto'])
+    })
+  })
+})
@@ -1,5 +1,10 @@
 import { describe, it, expect } from 'vitest'
-import { getTransactionHash, mergeTransactions, findInternalDuplicates } from '@/lib/merge'
+import {
+  getTransactionHash,
+  assignTransactionIds,
+  mergeTransactions,
+  findInternalDuplicates,
+} from '@/lib/merge'
 import { createMockTransaction } from '../../fixtures/transactions'
 
 describe('merge', () => {
@@ -80,6 +85,45 @@ describe('merge', () => {
     })
   })
 
+  describe('assignTransactionIds', () => {
+    const withoutId = (overrides = {}) => {
+      const { id: _id, ...tx } = createMockTransaction(overrides)
+      return tx
+    }
+
+    it('should derive the id from the transaction hash', () => {
+      const tx = withoutId()
+
+      const [result] = assignTransactionIds([tx])
+
+      expect(result.id).toBe(`${getTransactionHash(tx)}#1`)
+    })
+
+    it('should number identical transactions by occurrence', () => {
+      const ids = assignTransactionIds([withoutId(), withoutId()]).map((t) => t.id)
+
+      expect(ids[0]).toMatch(/#1$/)
+      expect(ids[1]).toMatch(/#2$/)
+    })
+
+    it('should produce the same ids for the same input', () => {
+      const first = assignTransactionIds([withoutId(), withoutId({ debit: 20 })])
+      const second = assignTransactionIds([withoutId(), withoutId({ debit: 20 })])
+
+      expect(first.map((t) => t.id)).toEqual(second.map((t) => t.id))
+    })
+
+    it('should keep existing ids and avoid collisions with them', () => {
+      const tx = withoutId()
+      const existing = { ...tx, id: `${getTransactionHash(tx)}#1` }
+
+      const result = assignTransactionIds([existing, tx])
+
+      expect(result[0]).toBe(existing)
+      expect(result[1].id).toBe(`${getTransactionHash(tx)}#2`)
+    })
+  })
+
   describe('mergeTransactions', () => {
     it('should merge non-duplicate transactions', () => {
       const existing = [createMockTransaction({ purchaseDate: new Date('2024-06-15'), debit: 50 })]
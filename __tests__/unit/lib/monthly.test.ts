@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest'
+import { getMonthlyTotals } from '@/lib/monthly'
+import { createMockTransaction } from '../../fixtures/transactions'
+
+describe('monthly', () => {
+  describe('getMonthlyTotals', () => {
+    it('should total expenses per month in date order', () => {
+      const transactions = [
+        createMockTransaction({ debit: 20, purchaseDate: new Date(2025, 2, 3) }),
+        createMockTransaction({ debit: 10, purchaseDate: new Date(2025, 0, 9) }),
+        createMockTransaction({ debit: 5, purchaseDate: new Date(2025, 0, 28) }),
+      ]
+
+      expect(getMonthlyTotals(transactions)).toEqual([
+        { monthKey: '2025-01', month: 'Jan 2025', totalSpent: 15 },
+        { monthKey: '2025-03', month: 'Mar 2025', totalSpent: 20 },
+      ])
+    })
+  })
+})
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest'
+import { parseMT940, isMT940Content } from '@/lib/mt940'
+import { parseFile } from '@/lib/parser'
+import { createMockFile } from '@/test-utils/mock-file'
+import { mt940Sample, mt940StructuredSample } from '../../fixtures/mt940-samples'
+
+describe('mt940', () => {
+  describe('parseMT940', () => {
+    it('should create one transaction per :61: statement line', () => {
+      expect(parseMT940(mt940Sample).transactions).toHaveLength(4)
+    })
+
+    it('should map debit lines with account, currency and dates', () => {
+      const [tx] = parseMT940(mt940Sample).transactions
+
+      expect(tx.debit).toBe(120.5)
+      expect(tx.credit).toBeNull()
+      expect(tx.amount).toBe(120.5)
+      expect(tx.currency).toBe('CHF')
+      expect(tx.accountNumber).toBe('CH9300762011623852957')
+      expect(tx.bookingText).toBe('Migros Zurich card payment')
+      expect(tx.purchaseDate.getDate()).toBe(15)
+      expect(tx.purchaseDate.getMonth()).toBe(5)
+      expect(tx.purchaseDate.getFullYear()).toBe(2024)
+      expect(tx.bookedDate.getDate()).toBe(17)
+    })
+
+    it('should map credit lines and join multi-line :86: fields', () => {
+      const tx = parseMT940(mt940Sample).transactions[1]
+
+      expect(tx.credit).toBe(5000)
+      expect(tx.debit).toBeNull()
+      expect(tx.bookingText).toBe('Salary June Employer AG')
+    })
+
+    it('should treat a reversal of credit as a debit', () => {
+      const tx = parseMT940(mt940Sample).transactions[2]
+
+      expect(tx.debit).toBe(15)
+      expect(tx.credit).toBeNull()
+    })
+
+    it('should fall back to supplementary details when :86: is missing', () => {
+      const tx = parseMT940(mt940Sample).transactions[3]
+
+      expect(tx.bookingText).toBe('Account fee June')
+    })
+
+    it('should decode structured :86: subfields', () => {
+      const [tx] = parseMT940(mt940StructuredSample).transactions
+
+      expect(tx.bookingText).toBe('Stadtwerke Berlin - Rechnung 4711Dezember')
+      expect(tx.currency).toBe('EUR')
+      expect(tx.debit).toBe(42.9)
+    })
+
+    it('should roll the entry date into the next year', () => {
+      const [tx] = parseMT940(mt940StructuredSample).transactions
+
+      expect(tx.purchaseDate.getFullYear()).toBe(2024)
+      expect(tx.bookedDate.getFullYear()).toBe(2025)
+      expect(tx.bookedDate.getMonth()).toBe(0)
+      expect(tx.bookedDate.getDate()).toBe(2)
+    })
+
+    it('should skip lines with an invalid value date and report them', () => {
+      const { transactions, diagnostics } = parseMT940(
+        ':20:X\n:25:123\n:61:2402310231D10,00NTRFNONREF\n:86:Bad date\n:61:240601D5,00NTRFNONREF\n:86:Good'
+      )
+
+      expect(transactions.map((t) => t.bookingText)).toEqual(['Good'])
+      expect(diagnostics).toHaveLength(1)
+      expect(diagnostics[0]).toMatchObject({
+        row: 1,
+        field: 'purchaseDate',
+        value: '240231',
+        action: 'skipped',
+      })
+    })
+
+    it('should fall back to the value date for an invalid entry date', () => {
+      const { transactions, diagnostics } = parseMT940(
+        ':20:X\n:25:123\n:61:2406011332D10,00NTRFNONREF\n:86:Coffee'
+      )
+
+      expect(transactions[0].bookedDate).toEqual(transactions[0].purchaseDate)
+      expect(diagnostics[0]).toMatchObject({ field: 'bookedDate', action: 'used-purchase-date' })
+    })
+
+    it('should reject content without statement lines', () => {
+      expect(() => parseMT940(':20:EMPTY\n:25:123')).toThrow('No statement lines')
+    })
+
+    it('should reject malformed statement lines', () => {
+      expect(() => parseMT940(':20:X\n:61:garbage')).toThrow('Invalid statement line')
+    })
+  })
+
+  describe('isMT940Content', () => {
+    it('should recognize MT940 messages', () => {
+      expect(isMT940Content(mt940StructuredSample)).toBe(true)
+      expect(isMT940Content('Account number;Card number')).toBe(false)
+    })
+  })
+
+  describe('parseFile', () => {
+    it('should route .sta files to the MT940 importer', async () => {
+      const file = createMockFile(mt940Sample, 'statement.sta', 'text/plain')
+      const { transactions } = await parseFile(file)
+
+      expect(transactions).toHaveLength(4)
+    })
+
+    it('should return MT940 diagnostics', async () => {
+      const file = createMockFile(
+        ':20:X\n:25:123\n:61:2413010101D10,00NTRFNONREF\n:86:Bad date',
+        'statement.sta',
+        'text/plain'
+      )
+      const { transactions, diagnostics } = await parseFile(file)
+
+      expect(transactions).toHaveLength(0)
+      expect(diagnostics[0].action).toBe('skipped')
+    })
+  })
+})
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest'
+import { parseOFX, isOFXContent } from '@/lib/ofx'
+import { parseFile } from '@/lib/parser'
+import { convertTransaction } from '@/lib/currency'
+import { createMockFile } from '@/test-utils/mock-file'
+import { ofxSgmlSample, qfxXmlSample } from '../../fixtures/ofx-samples'
+
+describe('ofx', () => {
+  describe('parseOFX', () => {
+    it('should parse SGML (OFX 1.x) statements', () => {
+      const { transactions } = parseOFX(ofxSgmlSample)
+
+      expect(transactions).toHaveLength(3)
+    })
+
+    it('should derive debit from a negative TRNAMT', () => {
+      const [tx] = parseOFX(ofxSgmlSample).transactions
+
+      expect(tx.debit).toBe(42.17)
+      expect(tx.credit).toBeNull()
+      expect(tx.amount).toBe(42.17)
+      expect(tx.bookingText).toBe('WHOLE FOODS MARKET - POS PURCHASE')
+      expect(tx.currency).toBe('USD')
+      expect(tx.accountNumber).toBe('987654321')
+    })
+
+    it('should use DTUSER as purchase date and DTPOSTED as booked date', () => {
+      const [tx] = parseOFX(ofxSgmlSample).transactions
+
+      expect(tx.purchaseDate.getDate()).toBe(15)
+      expect(tx.bookedDate.getDate()).toBe(16)
+      expect(tx.bookedDate.getMonth()).toBe(5)
+    })
+
+    it('should derive credit from a positive TRNAMT', () => {
+      const tx = parseOFX(ofxSgmlSample).transactions[1]
+
+      expect(tx.credit).toBe(2500)
+      expect(tx.debit).toBeNull()
+    })
+
+    it('should decode entities and capture foreign currency details', () => {
+      const tx = parseOFX(ofxSgmlSample).transactions[2]
+
+      expect(tx.bookingText).toBe('CAFE DE PARIS & CO')
+      expect(tx.originalCurrency).toBe('EUR')
+      expect(tx.rate).toBe(1.0712)
+    })
+
+    it('should convert amounts stated in a <CURRENCY> into the statement currency', () => {
+      const tx = parseOFX(ofxSgmlSample).transactions[2]
+
+      expect(tx.amount).toBe(18)
+      expect(tx.debit).toBe(19.28)
+      expect(tx.currency).toBe('USD')
+    })
+
+    it('should derive the original amount of <ORIGCURRENCY> transactions from the rate', () => {
+      const tx = parseOFX(
+        ofxSgmlSample
+          .replace(/<CURRENCY>/g, '<ORIGCURRENCY>')
+          .replace('</CURRENCY>', '</ORIGCURRENCY>')
+      ).transactions[2]
+
+      expect(tx.debit).toBe(18)
+      expect(tx.amount).toBe(16.8)
+      expect(convertTransaction(tx, { reportingCurrency: 'EUR', rates: new Map() }).debit).toBe(
+        16.8
+      )
+    })
+
+    it('should leave the original currency empty without a rate', () => {
+      const tx = parseOFX(ofxSgmlSample.replace('<CURRATE>1.0712\n', '')).transactions[2]
+
+      expect(tx.originalCurrency).toBe('')
+      expect(tx.amount).toBe(18)
+      expect(tx.debit).toBe(18)
+    })
+
+    it('should parse XML (OFX 2.x / QFX) credit card statements', () => {
+      const { transactions } = parseOFX(qfxXmlSample)
+
+      expect(transactions).toHaveLength(2)
+      expect(transactions[0].debit).toBe(64.3)
+      expect(transactions[0].currency).toBe('CAD')
+      expect(transactions[1].credit).toBe(64.3)
+      expect(transactions[1].bookingText).toBe('AIR CANADA - REFUND')
+    })
+
+    it('should skip transactions without a readable date and report them', () => {
+      const content = ofxSgmlSample.replace('<DTPOSTED>20240625', '<DTPOSTED>')
+      const { transactions, diagnostics } = parseOFX(content)
+
+      expect(transactions).toHaveLength(2)
+      expect(diagnostics).toHaveLength(1)
+      expect(diagnostics[0]).toMatchObject({
+        row: 2,
+        column: 'DTPOSTED',
+        field: 'purchaseDate',
+        value: '',
+        problem: 'Missing date',
+        action: 'skipped',
+      })
+      expect(diagnostics[0].transaction.credit).toBe(2500)
+    })
+
+    it('should fall back to the other date and report it', () => {
+      const content = ofxSgmlSample.replace(
+        '<DTPOSTED>20240616120000[-5:EST]',
+        '<DTPOSTED>16/06/2024'
+      )
+      const { transactions, diagnostics } = parseOFX(content)
+
+      expect(transactions).toHaveLength(3)
+      expect(transactions[0].bookedDate.getDate()).toBe(15)
+      expect(diagnostics).toEqual([
+        expect.objectContaining({ row: 1, field: 'bookedDate', action: 'used-purchase-date' }),
+      ])
+    })
+
+    it('should reject documents without an OFX root', () => {
+      expect(() => parseOFX('<html></html>')).toThrow('Not an OFX document')
+    })
+  })
+
+  describe('isOFXContent', () => {
+    it('should recognize OFX headers', () => {
+      expect(isOFXContent(ofxSgmlSample)).toBe(true)
+      expect(isOFXContent(qfxXmlSample)).toBe(true)
+      expect(isOFXContent('Account number;Card number')).toBe(false)
+    })
+  })
+
+  describe('parseFile', () => {
+    it('should route .qfx files to the OFX importer', async () => {
+      const file = createMockFile(qfxXmlSample, 'statement.qfx', 'application/x-qfx')
+      const { transactions } = await parseFile(file)
+
+      expect(transactions).toHaveLength(2)
+    })
+  })
+})
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest'
-import { parseCSV } from '@/lib/parser'
+import { parseCSV, parseFile, previewCSV, mapCSVRows } from '@/lib/parser'
+import { registerBankFormat, unregisterBankFormat, type BankFormat } from '@/lib/formats'
 import { createMockCSVFile } from '@/test-utils/mock-file'
 import {
   validCSVContent,
@@ -9,13 +10,17 @@ import {
   csvWithIncome,
   csvWithEmptyDate,
   csvWithInvalidDate,
+  ubsAccountCSV,
+  revolutCSV,
+  unknownFormatCSV,
+  csvWithProblemRows,
 } from '../../fixtures/csv-samples'
 
 describe('parser', () => {
   describe('parseDate (tested through parseCSV)', () => {
     it('should parse DD.MM.YYYY format correctly', async () => {
       const file = createMockCSVFile(validCSVContent)
-      const transactions = await parseCSV(file)
+      const { transactions } = await parseCSV(file)
 
       expect(transactions[0].purchaseDate.getDate()).toBe(15)
       expect(transactions[0].purchaseDate.getMonth()).toBe(5) // June is 0-indexed
@@ -24,25 +29,105 @@ describe('parser', () => {
 
     it('should handle empty date string with fallback', async () => {
       const file = createMockCSVFile(csvWithEmptyDate)
-      const transactions = await parseCSV(file)
+      const { transactions, diagnostics } = await parseCSV(file)
 
       expect(transactions).toHaveLength(1)
-      expect(transactions[0].purchaseDate).toBeInstanceOf(Date)
+      expect(transactions[0].purchaseDate).toEqual(new Date(2024, 5, 16))
+      expect(diagnostics).toHaveLength(1)
+      expect(diagnostics[0]).toMatchObject({
+        row: 1,
+        column: 'Purchase date',
+        value: '',
+        problem: 'Missing date',
+        action: 'used-booking-date',
+      })
     })
 
-    it('should handle invalid date format gracefully', async () => {
+    it('should fall back to the booking date for an invalid date', async () => {
       const file = createMockCSVFile(csvWithInvalidDate)
-      const transactions = await parseCSV(file)
+      const { transactions, diagnostics } = await parseCSV(file)
 
       expect(transactions).toHaveLength(1)
-      expect(transactions[0].purchaseDate).toBeInstanceOf(Date)
+      expect(transactions[0].purchaseDate).toEqual(new Date(2024, 5, 16))
+      expect(diagnostics[0]).toMatchObject({
+        column: 'Purchase date',
+        value: 'invalid',
+        problem: 'Not a valid date (expected DD.MM.YYYY)',
+        action: 'used-booking-date',
+      })
+    })
+
+    it('should not report valid files', async () => {
+      const { diagnostics } = await parseCSV(createMockCSVFile(validCSVContent))
+
+      expect(diagnostics).toEqual([])
+    })
+  })
+
+  describe('diagnostics', () => {
+    it('should skip rows without any usable date', async () => {
+      const { transactions, diagnostics } = await parseCSV(createMockCSVFile(csvWithProblemRows))
+
+      expect(transactions.map((t) => t.bookingText)).not.toContain('No Date Shop')
+      const diagnostic = diagnostics.find((d) => d.transaction.bookingText === 'No Date Shop')
+      expect(diagnostic).toMatchObject({
+        row: 2,
+        field: 'purchaseDate',
+        value: '31.02.2024',
+        action: 'skipped',
+      })
+    })
+
+    it('should skip rows with an unreadable amount', async () => {
+      const { transactions, diagnostics } = await parseCSV(createMockCSVFile(csvWithProblemRows))
+
+      expect(transactions.map((t) => t.bookingText)).not.toContain('Bad Amount Shop')
+      expect(diagnostics.find((d) => d.field === 'debit')).toMatchObject({
+        row: 3,
+        column: 'Debit',
+        value: 'abc',
+        problem: 'Not a number',
+        action: 'skipped',
+      })
+    })
+
+    it('should keep rows whose only problem is an optional value', async () => {
+      const { transactions, diagnostics } = await parseCSV(createMockCSVFile(csvWithProblemRows))
+
+      const shop = transactions.find((t) => t.bookingText === 'Bad Rate Shop')
+      expect(shop?.rate).toBeNull()
+      expect(shop?.debit).toBe(30)
+      expect(diagnostics.find((d) => d.field === 'rate')?.action).toBe('left-empty')
+    })
+
+    it('should fall back to the purchase date for an invalid booking date', async () => {
+      const { transactions, diagnostics } = await parseCSV(createMockCSVFile(csvWithProblemRows))
+
+      const shop = transactions.find((t) => t.bookingText === 'Bad Booked Shop')
+      expect(shop?.bookedDate).toEqual(new Date(2024, 5, 18))
+      expect(diagnostics.find((d) => d.field === 'bookedDate')?.action).toBe('used-purchase-date')
+    })
+
+    it('should give every row a unique id, including skipped ones', async () => {
+      const { transactions, diagnostics } = await parseCSV(createMockCSVFile(csvWithProblemRows))
+
+      const ids = [...transactions, ...diagnostics.map((d) => d.transaction)].map((t) => t.id)
+      expect(diagnostics[0].transaction.id).toBeTruthy()
+      expect(new Set(ids).size).toBe(5)
+    })
+
+    it('should return importable rows alongside the problems', async () => {
+      const { transactions, diagnostics } = await parseCSV(createMockCSVFile(csvWithProblemRows))
+
+      expect(transactions).toHaveLength(3)
+      expect(diagnostics).toHaveLength(4)
     })
   })
 
   describe('parseNumber (tested through parseCSV)', () => {
     it('should parse Swiss number format with apostrophe thousands separator', async () => {
       const file = createMockCSVFile(csvWithSwissNumbers)
-      const transactions = await parseCSV(file)
+      const { transactions } = await parseCSV(file)
 
       expect(transactions).toHaveLength(1)
       expect(transactions[0].amount).toBe(1234.56)
@@ -51,7 +136,7 @@ describe('parser', () => {
 
     it('should handle standard decimal numbers', async () => {
       const file = createMockCSVFile(validCSVContent)
-      const transactions = await parseCSV(file)
+      const { transactions } = await parseCSV(file)
 
       expect(transactions[0].amount).toBe(50)
       expect(transactions[1].amount).toBe(75.5)
@@ -61,7 +146,7 @@ describe('parser', () => {
   describe('detectDelimiter (tested through parseCSV)', () => {
     it('should detect explicit sep= header', async () => {
       const file = createMockCSVFile(validCSVContent)
-      const transactions = await parseCSV(file)
+      const { transactions } = await parseCSV(file)
 
       expect(transactions).toHaveLength(3)
       expect(transactions[0].bookingText).toBe('Restaurant ABC')
@@ -69,7 +154,7 @@ describe('parser', () => {
 
     it('should auto-detect comma delimiter', async () => {
       const file = createMockCSVFile(csvWithCommaDelimiter)
-      const transactions = await parseCSV(file)
+      const { transactions } = await parseCSV(file)
 
       expect(transactions).toHaveLength(1)
       expect(transactions[0].bookingText).toBe('Test Purchase')
@@ -79,7 +164,7 @@ describe('parser', () => {
   describe('parseCSV', () => {
     it('should parse valid CSV with multiple transactions', async () => {
       const file = createMockCSVFile(validCSVContent)
-      const transactions = await parseCSV(file)
+      const { transactions } = await parseCSV(file)
 
       expect(transactions).toHaveLength(3)
       expect(transactions[0].sector).toBe('Restaurants')
@@ -89,15 +174,28 @@ describe('parser', () => {
 
     it('should skip total/summary rows', async () => {
       const file = createMockCSVFile(csvWithTotals)
-      const transactions = await parseCSV(file)
+      const { transactions } = await parseCSV(file)
 
       expect(transactions).toHaveLength(1)
       expect(transactions[0].bookingText).toBe('Purchase 1')
     })
 
+    it('should keep merchants whose name contains a summary word', async () => {
+      const csvContent = `sep=;
+Account number;Card number;Account/Cardholder;Purchase date;Booking text;Sector;Amount;Original currency;Rate;Currency;Debit;Credit;Booked
+123456;****1234;John Doe;15.06.2024;SUMUP *BAECKEREI;Bakeries;4.50;CHF;;CHF;4.50;;16.06.2024
+123456;****1234;John Doe;16.06.2024;Consum AG;Grocery stores;12.00;CHF;;CHF;12.00;;17.06.2024
+;;;;Grand total;;;16.50;;;;;`
+
+      const file = createMockCSVFile(csvContent)
+      const { transactions } = await parseCSV(file)
+
+      expect(transactions.map((t) => t.bookingText)).toEqual(['SUMUP *BAECKEREI', 'Consum AG'])
+    })
+
     it('should handle credit transactions', async () => {
       const file = createMockCSVFile(csvWithIncome)
-      const transactions = await parseCSV(file)
+      const { transactions } = await parseCSV(file)
 
       expect(transactions).toHaveLength(2)
 
@@ -116,7 +214,7 @@ Account number;Card number;Account/Cardholder;Purchase date;Booking text;Sector;
 123456;****1234;John Doe;15.06.2024;Coffee Shop;Restaurants;5.00;CHF;;CHF;;;16.06.2024`
 
       const file = createMockCSVFile(csvContent)
-      const transactions = await parseCSV(file)
+      const { transactions } = await parseCSV(file)
 
       expect(transactions).toHaveLength(1)
       expect(transactions[0].debit).toBe(5)
@@ -129,7 +227,7 @@ Account number;Card number;Account/Cardholder;Purchase date;Booking text;Sector;
 123456;****1234;John Doe;15.06.2024;TRANSFER FROM savings;Other;1000.00;CHF;;CHF;;;16.06.2024`
 
       const file = createMockCSVFile(csvContent)
-      const transactions = await parseCSV(file)
+      const { transactions } = await parseCSV(file)
 
       expect(transactions).toHaveLength(1)
       expect(transactions[0].credit).toBe(1000)
@@ -144,14 +242,14 @@ Account number;Card number;Account/Cardholder;Purchase date;Booking text;Sector;
 123456;****1234;John Doe;16.06.2024;Purchase 2;Groceries;30.00;CHF;;CHF;30.00;;17.06.2024`
 
       const file = createMockCSVFile(csvWithEmpty)
-      const transactions = await parseCSV(file)
+      const { transactions } = await parseCSV(file)
 
       expect(transactions).toHaveLength(2)
     })
 
     it('should populate all transaction fields correctly', async () => {
       const file = createMockCSVFile(validCSVContent)
-      const transactions = await parseCSV(file)
+      const { transactions } = await parseCSV(file)
 
       const tx = transactions[0]
       expect(tx.accountNumber).toBe('123456')
@@ -169,7 +267,7 @@ Account number;Card number;Account/Cardholder;Purchase date;Booking text;Sector;
 123456;;John Doe;15.06.2024;Test;;50.00;;;CHF;50.00;;`
 
       const file = createMockCSVFile(csvContent)
-      const transactions = await parseCSV(file)
+      const { transactions } = await parseCSV(file)
 
       expect(transactions).toHaveLength(1)
       expect(transactions[0].cardNumber).toBe('')
@@ -177,4 +275,114 @@ Account number;Card number;Account/Cardholder;Purchase date;Booking text;Sector;
       expect(transactions[0].originalCurrency).toBe('')
     })
   })
+
+  describe('bank format detection', () => {
+    it('should parse UBS account statements with negative debits', async () => {
+      const file = createMockCSVFile(ubsAccountCSV)
+      const { transactions } = await parseCSV(file)
+
+      expect(transactions).toHaveLength(2)
+      expect(transactions[0].bookingText).toBe('Migros Zurich')
+      expect(transactions[0].debit).toBe(120.5)
+      expect(transactions[0].credit).toBeNull()
+      expect(transactions[0].purchaseDate.getDate()).toBe(15)
+      expect(transactions[0].purchaseDate.getMonth()).toBe(5)
+      expect(transactions[1].credit).toBe(5000)
+      expect(transactions[1].debit).toBeNull()
+    })
+
+    it('should parse Revolut exports with signed amounts', async () => {
+      const file = createMockCSVFile(revolutCSV)
+      const { transactions } = await parseCSV(file)
+
+      expect(transactions).toHaveLength(2)
+      expect(transactions[0].bookingText).toBe('Pret A Manger')
+      expect(transactions[0].debit).toBe(12.4)
+      expect(transactions[0].amount).toBe(12.4)
+      expect(transactions[0].currency).toBe('EUR')
+      expect(transactions[0].bookedDate.getDate()).toBe(16)
+      expect(transactions[1].credit).toBe(1000)
+      expect(transactions[1].debit).toBeNull()
+    })
+
+    it('should reject files that match no known format', async () => {
+      const file = createMockCSVFile(unknownFormatCSV)
+
+      await expect(parseCSV(file)).rejects.toThrow('Unknown CSV format')
+    })
+  })
+
+  describe('parseFile', () => {
+    it('should route CSV files to the CSV parser', async () => {
+      const file = createMockCSVFile(validCSVContent)
+      const { transactions } = await parseFile(file)
+
+      expect(transactions).toHaveLength(3)
+      expect(transactions[0].bookingText).toBe('Restaurant ABC')
+    })
+
+    it('should assign the same ids when the same file is imported again', async () => {
+      const first = await parseFile(createMockCSVFile(validCSVContent))
+      const second = await parseFile(createMockCSVFile(validCSVContent))
+
+      expect(first.transactions.map((t) => t.id)).toEqual(second.transactions.map((t) => t.id))
+      expect(new Set(first.transactions.map((t) => t.id)).size).toBe(3)
+    })
+  })
+
+  describe('previewCSV', () => {
+    it('should return headers, first rows and the detected format', async () => {
+      const preview = await previewCSV(createMockCSVFile(validCSVContent), 2)
+
+      expect(preview.headers).toContain('Booking text')
+      expect(preview.rows).toHaveLength(2)
+      expect(preview.format?.id).toBe('ubs-card')
+    })
+
+    it('should return a null format for unknown exports', async () => {
+      const preview = await previewCSV(createMockCSVFile(unknownFormatCSV))
+
+      expect(preview.headers).toEqual(['Datum', 'Beschreibung', 'Betrag'])
+      expect(preview.rows[0]['Beschreibung']).toBe('Coop')
+      expect(preview.format).toBeNull()
+    })
+  })
+
+  describe('custom column mappings', () => {
+    const customFormat: BankFormat = {
+      id: 'custom:betrag|beschreibung|datum',
+      name: 'My Bank',
+      headerSignature: ['Datum', 'Beschreibung', 'Betrag'],
+      columns: { purchaseDate: 'Datum', bookingText: 'Beschreibung', amount: 'Betrag' },
+      dateFormat: 'DD.MM.YYYY',
+      numberFormat: 'decimal-point',
+      amountMode: 'signed',
+      defaultCurrency: 'EUR',
+    }
+
+    it('should map preview rows with an explicit format', () => {
+      const {
+        transactions: [tx],
+      } = mapCSVRows(
+        [{ Datum: '15.06.2024', Beschreibung: 'Coop', Betrag: '-42.00' }],
+        customFormat
+      )
+
+      expect(tx.debit).toBe(42)
+      expect(tx.currency).toBe('EUR')
+    })
+
+    it('should recognize an export once its mapping is registered', async () => {
+      registerBankFormat(customFormat)
+      try {
+        const { transactions } = await parseCSV(createMockCSVFile(unknownFormatCSV))
+
+        expect(transactions).toHaveLength(1)
+        expect(transactions[0].bookingText).toBe('Coop')
+        expect(transactions[0].debit).toBe(42)
+      } finally {
+        unregisterBankFormat(customFormat.id)
+      }
+    })
+  })
 })
@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest'
+import { detectRecurringPayments, getUpcomingDates } from '@/lib/recurring'
+import { createMockTransaction } from '../../fixtures/transactions'
+import type { Transaction } from '@/lib/types'
+
+function payments(bookingText: string, amounts: number[], dates: Date[]): Transaction[] {
+  return dates.map((purchaseDate, i) =>
+    createMockTransaction({ bookingText, debit: amounts[i] ?? amounts[0], purchaseDate })
+  )
+}
+
+const monthly = (count: number, day = 15) =>
+  Array.from({ length: count }, (_, i) => new Date(2025, i, day))
+
+describe('recurring', () => {
+  describe('detectRecurringPayments', () => {
+    it('should detect a monthly subscription across varying booking texts', () => {
+      const transactions = monthly(6).map((purchaseDate, i) =>
+        createMockTransaction({ bookingText: `NETFLIX.COM ${4400 + i}`, debit: 15.9, purchaseDate })
+      )
+
+      const [payment] = detectRecurringPayments(transactions)
+
+      expect(payment.frequency).toBe('monthly')
+      expect(payment.occurrences).toHaveLength(6)
+      expect(payment.annualCost).toBeCloseTo(190.8)
+      expect(payment.nextExpectedDate).toEqual(new Date(2025, 6, 15))
+      expect(payment.missedOccurrences).toHaveLength(0)
+    })
+
+    it('should tolerate a few days of jitter', () => {
+      const dates = [
+        new Date(2025, 0, 1),
+        new Date(2025, 1, 3),
+        new Date(2025, 2, 1),
+        new Date(2025, 3, 2),
+      ]
+
+      const [payment] = detectRecurringPayments(payments('Swisscom Mobile', [45], dates))
+
+      expect(payment.frequency).toBe('monthly')
+    })
+
+    it('should detect weekly, quarterly and yearly payments', () => {
+      const weekly = payments(
+        'Fitness Park',
+        [20],
+        Array.from({ length: 5 }, (_, i) => new Date(2025, 0, 6 + i * 7))
+      )
+      const quarterly = payments(
+        'Helsana Premium',
+        [420],
+        [new Date(2024, 0, 1), new Date(2024, 3, 1), new Date(2024, 6, 1)]
+      )
+      const yearly = payments('Vignette', [40], [new Date(2023, 0, 10), new Date(2024, 0, 12)])
+
+      const result = detectRecurringPayments([...weekly, ...quarterly, ...yearly])
+      const frequencies = Object.fromEntries(result.map((p) => [p.merchant, p.frequency]))
+
+      expect(frequencies).toEqual({
+        'Fitness Park': 'weekly',
+        'Helsana Premium': 'quarterly',
+        Vignette: 'yearly',
+      })
+    })
+
+    it('should sort by annual cost', () => {
+      const result = detectRecurringPayments([
+        ...payments('Spotify', [12.9], monthly(4)),
+        ...payments('Helsana Premium', [380], monthly(4, 1)),
+      ])
+
+      expect(result.map((p) => p.merchant)).toEqual(['Helsana Premium', 'Spotify'])
+    })
+
+    it('should report price changes', () => {
+      const transactions = payments('Netflix', [15.9, 15.9, 17.9, 17.9], monthly(4))
+
+      const [payment] = detectRecurringPayments(transactions)
+
+      expect(payment.priceChanges).toEqual([
+        { date: new Date(2025, 2, 15), previousAmount: 15.9, newAmount: 17.9 },
+      ])
+      expect(payment.lastAmount).toBe(17.9)
+      expect(payment.annualCost).toBeCloseTo(214.8)
+    })
+
+    it('should report missed occurrences inside the series', () => {
+      const dates = monthly(6).filter((_, i) => i !== 3)
+
+      const [payment] = detectRecurringPayments(payments('Zattoo', [9.9], dates))
+
+      expect(payment.missedOccurrences).toEqual([new Date(2025, 3, 15)])
+    })
+
+    it('should report missed occurrences up to the reference date', () => {
+      const [payment] = detectRecurringPayments(
+        payments('Zattoo', [9.9], monthly(4)),
+        [],
+        new Date(2025, 6, 1)
+      )
+
+      expect(payment.missedOccurrences).toEqual([new Date(2025, 4, 15), new Date(2025, 5, 15)])
+      expect(payment.nextExpectedDate).toEqual(new Date(2025, 6, 15))
+    })
+
+    it('should leave one-off purchases at the same merchant out of the series', () => {
+      const transactions = [
+        ...payments('Apple.com Bill', [4.5], monthly(4)),
+        createMockTransaction({
+          bookingText: 'Apple.com Bill',
+          debit: 1299,
+          purchaseDate: new Date(2025, 1, 20),
+        }),
+      ]
+
+      const [payment] = detectRecurringPayments(transactions)
+
+      expect(payment.occurrences).toHaveLength(4)
+      expect(payment.lastAmount).toBe(4.5)
+    })
+
+    it('should ignore irregular spending', () => {
+      const dates = [1, 3, 4, 10, 25, 26, 40].map((day) => new Date(2025, 0, day))
+
+      expect(detectRecurringPayments(payments('Coop', [30], dates))).toEqual([])
+    })
+
+    it('should ignore series with too few payments', () => {
+      expect(detectRecurringPayments(payments('Netflix', [15.9], monthly(2)))).toEqual([])
+    })
+
+    it('should ignore income', () => {
+      const salary = monthly(4).map((purchaseDate) =>
+        createMockTransaction({ bookingText: 'Salary', debit: null, credit: 5000, purchaseDate })
+      )
+
+      expect(detectRecurringPayments(salary)).toEqual([])
+    })
+  })
+
+  describe('getUpcomingDates', () => {
+    it('should list expected dates inside the range', () => {
+      const [payment] = detectRecurringPayments(payments('NETFLIX.COM', [15.9], monthly(6)))
+
+      expect(getUpcomingDates(payment, new Date(2025, 7, 1), new Date(2025, 9, 31))).toEqual([
+        new Date(2025, 7, 15),
+        new Date(2025, 8, 15),
+        new Date(2025, 9, 15),
+      ])
+      expect(getUpcomingDates(payment, new Date(2025, 7, 16), new Date(2025, 8, 1))).toEqual([])
+    })
+  })
+})
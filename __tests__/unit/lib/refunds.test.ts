@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import { matchRefunds, isRefundText } from '@/lib/refunds'
+import { createMockTransaction } from '../../fixtures/transactions'
+
+function purchase(bookingText: string, debit: number, purchaseDate: Date) {
+  return createMockTransaction({ bookingText, debit, purchaseDate })
+}
+
+function refund(bookingText: string, credit: number, purchaseDate: Date) {
+  return createMockTransaction({ bookingText, debit: null, credit, purchaseDate })
+}
+
+describe('refunds', () => {
+  describe('isRefundText', () => {
+    it('should recognize refund wording', () => {
+      expect(isRefundText('REFUND ZALANDO')).toBe(true)
+      expect(isRefundText('Gutschrift Digitec')).toBe(true)
+      expect(isRefundText('Zalando 4412')).toBe(false)
+    })
+  })
+
+  describe('matchRefunds', () => {
+    it('should match a refund to the earlier purchase at the same merchant', () => {
+      const order = purchase('ZALANDO 4412 BERLIN', 120, new Date(2025, 2, 1))
+      const returned = refund('REFUND ZALANDO 9981', 120, new Date(2025, 2, 20))
+
+      expect(matchRefunds([order, returned])).toEqual([
+        { refund: returned, original: order, amount: 120, partial: false },
+      ])
+    })
+
+    it('should match through merchant aliases', () => {
+      const order = purchase('DIGITEC GALAXUS AG', 60, new Date(2025, 1, 3))
+      const returned = refund('Gutschrift Galaxus', 60, new Date(2025, 1, 9))
+      const aliases = [{ name: 'Galaxus', merchant: 'Digitec Galaxus AG', createdDate: new Date() }]
+
+      expect(matchRefunds([order, returned])[0].original).toBeNull()
+      expect(matchRefunds([order, returned], aliases)[0].original).toBe(order)
+    })
+
+    it('should prefer an equal amount and then the latest purchase', () => {
+      const older = purchase('Digitec', 80, new Date(2025, 0, 5))
+      const equal = purchase('Digitec', 50, new Date(2025, 0, 10))
+      const latest = purchase('Digitec', 200, new Date(2025, 0, 20))
+      const returned = refund('Digitec', 50, new Date(2025, 0, 25))
+
+      const [match] = matchRefunds([older, equal, latest, returned])
+
+      expect(match.original).toBe(equal)
+      expect(match.partial).toBe(false)
+    })
+
+    it('should split several partial refunds over one purchase', () => {
+      const order = purchase('Galaxus', 100, new Date(2025, 3, 1))
+      const first = refund('Galaxus', 60, new Date(2025, 3, 5))
+      const second = refund('Galaxus', 40, new Date(2025, 3, 9))
+      const third = refund('Galaxus', 10, new Date(2025, 3, 12))
+
+      const matches = matchRefunds([order, first, second, third])
+
+      expect(matches.map((m) => [m.refund.id, m.original?.id ?? null, m.partial])).toEqual([
+        [second.id, order.id, true],
+        [first.id, order.id, true],
+      ])
+    })
+
+    it('should ignore purchases that are later, smaller or too old', () => {
+      const later = purchase('Manor', 90, new Date(2025, 5, 10))
+      const smaller = purchase('Manor', 20, new Date(2025, 5, 1))
+      const old = purchase('Manor', 90, new Date(2024, 10, 1))
+      const returned = refund('Manor', 90, new Date(2025, 5, 5))
+
+      expect(matchRefunds([later, smaller, old, returned])).toHaveLength(0)
+    })
+
+    it('should list unmatched credits only when they read as refunds', () => {
+      const salary = refund('Salary ACME AG', 6000, new Date(2025, 1, 25))
+      const chargeback = refund('Chargeback Airline XY', 340, new Date(2025, 1, 26))
+
+      expect(matchRefunds([salary, chargeback])).toEqual([
+        { refund: chargeback, original: null, amount: 340, partial: false },
+      ])
+    })
+  })
+})
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest'
+import {
+  hasConditions,
+  validatePattern,
+  matchesRule,
+  findMatchingRule,
+  createRuleFromTransaction,
+} from '@/lib/rules'
+import type { CategoryRule } from '@/lib/types'
+import { createMockTransaction } from '../../fixtures/transactions'
+
+function createRule(overrides: Partial<CategoryRule> = {}): CategoryRule {
+  return {
+    id: 1,
+    name: 'Test rule',
+    category: 'Entertainment',
+    priority: 0,
+    enabled: true,
+    conditions: {},
+    createdDate: new Date('2024-01-01'),
+    ...overrides,
+  }
+}
+
+describe('rules', () => {
+  describe('hasConditions', () => {
+    it('should ignore blank conditions', () => {
+      expect(hasConditions({})).toBe(false)
+      expect(hasConditions({ bookingText: '  ', sector: '' })).toBe(false)
+    })
+
+    it('should accept a zero amount bound', () => {
+      expect(hasConditions({ minAmount: 0 })).toBe(true)
+    })
+  })
+
+  describe('validatePattern', () => {
+    it('should return null for a valid pattern', () => {
+      expect(validatePattern('^NETFLIX\\.COM')).toBeNull()
+    })
+
+    it('should return the error for an invalid pattern', () => {
+      expect(validatePattern('(unclosed')).toBeTruthy()
+    })
+  })
+
+  describe('matchesRule', () => {
+    const tx = createMockTransaction({
+      bookingText: 'NETFLIX.COM Amsterdam',
+      sector: 'Digital goods',
+      debit: 17.9,
+      cardNumber: '****1234',
+      accountHolder: 'Jane Doe',
+    })
+
+    it('should match booking text case-insensitively', () => {
+      expect(matchesRule(tx, createRule({ conditions: { bookingText: 'netflix' } }))).toBe(true)
+      expect(matchesRule(tx, createRule({ conditions: { bookingText: 'spotify' } }))).toBe(false)
+    })
+
+    it('should match booking text with a regular expression', () => {
+      const rule = createRule({
+        conditions: { bookingText: '^netflix\\.com', bookingTextMatch: 'regex' },
+      })
+
+      expect(matchesRule(tx, rule)).toBe(true)
+    })
+
+    it('should never match an invalid regular expression', () => {
+      const rule = createRule({ conditions: { bookingText: '(', bookingTextMatch: 'regex' } })
+
+      expect(matchesRule(tx, rule)).toBe(false)
+    })
+
+    it('should match sector, card number and account holder exactly', () => {
+      expect(matchesRule(tx, createRule({ conditions: { sector: 'digital goods' } }))).toBe(true)
+      expect(matchesRule(tx, createRule({ conditions: { sector: 'Digital' } }))).toBe(false)
+      expect(matchesRule(tx, createRule({ conditions: { cardNumber: '****1234' } }))).toBe(true)
+      expect(matchesRule(tx, createRule({ conditions: { accountHolder: 'jane doe' } }))).toBe(true)
+    })
+
+    it('should check the amount range inclusively', () => {
+      expect(matchesRule(tx, createRule({ conditions: { minAmount: 17.9 } }))).toBe(true)
+      expect(matchesRule(tx, createRule({ conditions: { maxAmount: 10 } }))).toBe(false)
+      expect(matchesRule(tx, createRule({ conditions: { minAmount: 10, maxAmount: 20 } }))).toBe(
+        true
+      )
+    })
+
+    it('should require all conditions to match', () => {
+      const rule = createRule({ conditions: { bookingText: 'netflix', sector: 'Restaurants' } })
+
+      expect(matchesRule(tx, rule)).toBe(false)
+    })
+
+    it('should not match disabled rules or rules without conditions', () => {
+      expect(
+        matchesRule(tx, createRule({ enabled: false, conditions: { bookingText: 'netflix' } }))
+      ).toBe(false)
+      expect(matchesRule(tx, createRule())).toBe(false)
+    })
+  })
+
+  describe('findMatchingRule', () => {
+    it('should return the first matching rule in priority order', () => {
+      const tx = createMockTransaction({ bookingText: 'COOP Zurich' })
+      const rules = [
+        createRule({
+          id: 1,
+          priority: 2,
+          category: 'Shopping',
+          conditions: { bookingText: 'coop' },
+        }),
+        createRule({
+          id: 2,
+          priority: 1,
+          category: 'Groceries',
+          conditions: { bookingText: 'coop' },
+        }),
+      ]
+
+      expect(findMatchingRule(tx, rules)?.category).toBe('Groceries')
+    })
+
+    it('should return null when nothing matches', () => {
+      expect(findMatchingRule(createMockTransaction(), [])).toBeNull()
+    })
+  })
+
+  describe('createRuleFromTransaction', () => {
+    it('should draft a contains rule on the booking text', () => {
+      const tx = createMockTransaction({ bookingText: ' Migros Basel ' })
+
+      const draft = createRuleFromTransaction(tx, 'Groceries')
+
+      expect(draft.category).toBe('Groceries')
+      expect(draft.enabled).toBe(true)
+      expect(draft.conditions).toEqual({
+        bookingText: 'Migros Basel',
+        bookingTextMatch: 'contains',
+      })
+      expect(matchesRule(tx, { ...draft, priority: 0, createdDate: new Date() })).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest'
+import { suggestBudgets, type SuggestionOptions } from '@/lib/suggestions'
+import { createMockTransaction } from '../../fixtures/transactions'
+import type { Transaction } from '@/lib/types'
+
+// Evaluated in June 2025, so January to May are the complete months
+const TODAY = new Date(2025, 5, 10)
+
+const OPTIONS: SuggestionOptions = {
+  months: 6,
+  method: 'median',
+  percentile: 75,
+  savingsRate: 0,
+}
+
+// One restaurant bill per month from January
+function dining(amounts: number[]): Transaction[] {
+  return amounts.map((debit, month) =>
+    createMockTransaction({ debit, purchaseDate: new Date(2025, month, 12) })
+  )
+}
+
+function salary(months: number, credit: number): Transaction[] {
+  return Array.from({ length: months }, (_, month) =>
+    createMockTransaction({
+      bookingText: 'Salary ACME AG',
+      sector: '',
+      purchaseDate: new Date(2025, month, 25),
+      debit: null,
+      credit,
+    })
+  )
+}
+
+describe('suggestions', () => {
+  describe('suggestBudgets', () => {
+    const transactions = dining([100, 200, 300, 400, 1000])
+
+    it('should use the complete months since the first transaction', () => {
+      const report = suggestBudgets(
+        [...transactions, createMockTransaction({ debit: 5000, purchaseDate: TODAY })],
+        OPTIONS,
+        TODAY
+      )
+
+      expect(report.months).toEqual(['2025-01', '2025-02', '2025-03', '2025-04', '2025-05'])
+      expect(report.suggestions).toEqual([
+        {
+          category: 'Restaurants & Dining',
+          amount: 300,
+          typical: 300,
+          monthly: [100, 200, 300, 400, 1000],
+        },
+      ])
+    })
+
+    it('should support trimmed means and percentiles', () => {
+      const trimmed = suggestBudgets(transactions, { ...OPTIONS, method: 'trimmed-mean' }, TODAY)
+      const percentile = suggestBudgets(transactions, { ...OPTIONS, method: 'percentile' }, TODAY)
+
+      expect(trimmed.suggestions[0].typical).toBe(300)
+      expect(percentile.suggestions[0].typical).toBe(400)
+    })
+
+    it('should count months without spending in a category as zero', () => {
+      const report = suggestBudgets(dining([90, 0, 0, 0, 120]), OPTIONS, TODAY)
+
+      expect(report.suggestions).toEqual([])
+    })
+
+    it('should scale suggestions down to leave the savings rate unspent', () => {
+      const report = suggestBudgets(
+        [...transactions, ...salary(5, 500)],
+        { ...OPTIONS, savingsRate: 0.5 },
+        TODAY
+      )
+
+      expect(report.averageIncome).toBe(500)
+      expect(report.scale).toBeCloseTo(250 / 300)
+      expect(report.suggestions[0].amount).toBe(250)
+    })
+
+    it('should keep suggestions that already leave enough income', () => {
+      const report = suggestBudgets(
+        [...transactions, ...salary(5, 6000)],
+        { ...OPTIONS, savingsRate: 0.2 },
+        TODAY
+      )
+
+      expect(report.scale).toBe(1)
+      expect(report.suggestions[0].amount).toBe(300)
+    })
+
+    it('should count spending in the category chosen by a manual override', () => {
+      const groceries = createMockTransaction({ debit: 80, purchaseDate: new Date(2025, 0, 20) })
+      const categoryOverrides = new Map([[groceries.id, 'Groceries']])
+
+      const report = suggestBudgets(
+        [...dining([100, 100, 100, 100, 100]), groceries],
+        { ...OPTIONS, months: 1 },
+        new Date(2025, 1, 10),
+        { categoryOverrides }
+      )
+
+      expect(report.suggestions.map((s) => [s.category, s.amount])).toEqual([
+        ['Restaurants & Dining', 100],
+        ['Groceries', 80],
+      ])
+    })
+
+    it('should leave out transfers whose sides fall in different months', () => {
+      // The card bill is paid at the end of each month and credited on the 1st
+      const transfers = [0, 1, 2, 3, 4].flatMap((month) => [
+        createMockTransaction({
+          accountNumber: 'CH93-0000-1111',
+          cardNumber: '',
+          bookingText: 'UBS CARD PAYMENT',
+          sector: '',
+          purchaseDate: new Date(2025, month + 1, 0),
+          debit: 500,
+        }),
+        createMockTransaction({
+          bookingText: 'Payment received',
+          sector: '',
+          purchaseDate: new Date(2025, month + 1, 1),
+          debit: null,
+          credit: 500,
+        }),
+      ])
+
+      const report = suggestBudgets([...transactions, ...transfers], OPTIONS, TODAY)
+
+      expect(report.averageIncome).toBe(0)
+      expect(report.suggestions.map((s) => s.category)).toEqual(['Restaurants & Dining'])
+    })
+
+    it('should round amounts and return nothing without history', () => {
+      const report = suggestBudgets(dining([123, 127, 131, 125, 129]), OPTIONS, TODAY)
+
+      expect(report.suggestions[0].amount).toBe(130)
+      expect(suggestBudgets([], OPTIONS, TODAY).suggestions).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest'
+import {
+  normalizeTag,
+  parseTagInput,
+  addTags,
+  removeTags,
+  getTagNames,
+  filterByTags,
+  summarizeTags,
+} from '@/lib/tags'
+import { createMockTransaction } from '../../fixtures/transactions'
+
+describe('tags', () => {
+  describe('normalizeTag', () => {
+    it('should lowercase and replace whitespace with dashes', () => {
+      expect(normalizeTag('  Vacation 2026 ')).toBe('vacation-2026')
+    })
+  })
+
+  describe('parseTagInput', () => {
+    it('should split on commas and drop duplicates and blanks', () => {
+      expect(parseTagInput('wedding, Reimbursable,, wedding ')).toEqual(['wedding', 'reimbursable'])
+    })
+  })
+
+  describe('addTags', () => {
+    it('should return only the transactions whose tags change', () => {
+      const tagMap = new Map([
+        ['tx-1', ['wedding']],
+        ['tx-2', ['reimbursable']],
+      ])
+
+      const changes = addTags(tagMap, ['tx-1', 'tx-2', 'tx-3'], ['wedding'])
+
+      expect(changes).toEqual(
+        new Map([
+          ['tx-2', ['reimbursable', 'wedding']],
+          ['tx-3', ['wedding']],
+        ])
+      )
+    })
+  })
+
+  describe('removeTags', () => {
+    it('should return the remaining tags, empty when none are left', () => {
+      const tagMap = new Map([
+        ['tx-1', ['wedding']],
+        ['tx-2', ['reimbursable', 'wedding']],
+        ['tx-3', ['reimbursable']],
+      ])
+
+      const changes = removeTags(tagMap, ['tx-1', 'tx-2', 'tx-3'], ['wedding'])
+
+      expect(changes).toEqual(
+        new Map([
+          ['tx-1', []],
+          ['tx-2', ['reimbursable']],
+        ])
+      )
+    })
+  })
+
+  describe('getTagNames', () => {
+    it('should return distinct tags sorted', () => {
+      const tagMap = new Map([
+        ['tx-1', ['wedding', 'gifts']],
+        ['tx-2', ['gifts']],
+      ])
+
+      expect(getTagNames(tagMap)).toEqual(['gifts', 'wedding'])
+    })
+  })
+
+  describe('filterByTags', () => {
+    const first = createMockTransaction()
+    const second = createMockTransaction()
+    const tagMap = new Map([
+      [first.id, ['vacation-2026', 'reimbursable']],
+      [second.id, ['vacation-2026']],
+    ])
+
+    it('should keep transactions with all selected tags', () => {
+      expect(filterByTags([first, second], tagMap, ['vacation-2026'])).toEqual([first, second])
+      expect(filterByTags([first, second], tagMap, ['vacation-2026', 'reimbursable'])).toEqual([
+        first,
+      ])
+    })
+
+    it('should keep everything when no tag is selected', () => {
+      expect(filterByTags([first, second], tagMap, [])).toEqual([first, second])
+    })
+  })
+
+  describe('summarizeTags', () => {
+    it('should total spending per tag and month', () => {
+      const hotel = createMockTransaction({ debit: 300, purchaseDate: new Date(2026, 6, 3) })
+      const flight = createMockTransaction({ debit: 500, purchaseDate: new Date(2026, 5, 20) })
+      const dinner = createMockTransaction({ debit: 80, purchaseDate: new Date(2026, 6, 5) })
+      const refund = createMockTransaction({ debit: null, credit: 50 })
+      const tagMap = new Map([
+        [hotel.id, ['vacation-2026', 'reimbursable']],
+        [flight.id, ['vacation-2026']],
+        [dinner.id, ['vacation-2026']],
+        [refund.id, ['vacation-2026']],
+      ])
+
+      const summaries = summarizeTags([hotel, flight, dinner, refund], tagMap)
+
+      expect(summaries.map((s) => s.tag)).toEqual(['vacation-2026', 'reimbursable'])
+      expect(summaries[0].totalSpent).toBe(880)
+      expect(summaries[0].count).toBe(3)
+      expect(summaries[0].monthlyTotals).toEqual([
+        { monthKey: '2026-06', month: 'Jun 2026', totalSpent: 500 },
+        { monthKey: '2026-07', month: 'Jul 2026', totalSpent: 380 },
+      ])
+      expect(summaries[1].totalSpent).toBe(300)
+    })
+  })
+})
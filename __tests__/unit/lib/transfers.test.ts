@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest'
+import { detectTransfers, getTransferIds, getTransferPairId, isTransferText } from '@/lib/transfers'
+import { createMockTransaction } from '../../fixtures/transactions'
+
+// Card bill paid from the bank account: debit on the account, credit on the card
+function cardPayment(amount: number, paidOn: Date, creditedOn: Date) {
+  const debit = createMockTransaction({
+    accountNumber: 'CH93-0000-1111',
+    cardNumber: '',
+    bookingText: 'UBS CARD PAYMENT',
+    debit: amount,
+    purchaseDate: paidOn,
+  })
+  const credit = createMockTransaction({
+    bookingText: 'Payment received',
+    debit: null,
+    credit: amount,
+    purchaseDate: creditedOn,
+  })
+  return { debit, credit }
+}
+
+// Same amount on two cards that is not a transfer, e.g. a purchase and a refund
+function lookalike(amount: number) {
+  const debit = createMockTransaction({
+    cardNumber: '1111',
+    bookingText: 'Zalando 4412 Berlin',
+    debit: amount,
+    purchaseDate: new Date(2025, 6, 1),
+  })
+  const credit = createMockTransaction({
+    cardNumber: '2222',
+    bookingText: 'Digitec Galaxus AG',
+    debit: null,
+    credit: amount,
+    purchaseDate: new Date(2025, 6, 3),
+  })
+  return { debit, credit }
+}
+
+describe('transfers', () => {
+  describe('isTransferText', () => {
+    it('should recognize transfer and card payment wording', () => {
+      expect(isTransferText('UBS CARD PAYMENT')).toBe(true)
+      expect(isTransferText('Übertrag auf Sparkonto')).toBe(true)
+      expect(isTransferText('IHRE ZAHLUNG - BESTEN DANK')).toBe(true)
+      expect(isTransferText('Kartenzahlung Coop')).toBe(false)
+      expect(isTransferText('SUMUP *BAECKEREI')).toBe(false)
+    })
+
+    it('should not read generic payment wording as a transfer', () => {
+      expect(isTransferText('Payment to Zalando')).toBe(false)
+      expect(isTransferText('PayPal payment')).toBe(false)
+      expect(isTransferText('Zahlung Swisscom')).toBe(false)
+    })
+  })
+
+  describe('detectTransfers', () => {
+    it('should pair opposite transactions across accounts within the window', () => {
+      const { debit, credit } = cardPayment(1250.4, new Date(2025, 2, 28), new Date(2025, 3, 1))
+
+      const [pair, ...rest] = detectTransfers([debit, credit, createMockTransaction()])
+
+      expect(rest).toHaveLength(0)
+      expect(pair).toMatchObject({
+        debit,
+        credit,
+        amount: 1250.4,
+        confirmed: false,
+        excluded: true,
+      })
+      expect(pair.id).toBe(getTransferPairId(debit, credit))
+    })
+
+    it('should not pair transactions of the same account and card', () => {
+      const debit = createMockTransaction({ debit: 80 })
+      const credit = createMockTransaction({ debit: null, credit: 80 })
+
+      expect(detectTransfers([debit, credit])).toHaveLength(0)
+    })
+
+    it('should not pair different amounts or dates outside the window', () => {
+      const late = cardPayment(500, new Date(2025, 0, 1), new Date(2025, 0, 10))
+      const other = cardPayment(300, new Date(2025, 1, 1), new Date(2025, 1, 2))
+      other.credit.credit = 299
+
+      expect(detectTransfers([late.debit, late.credit, other.debit, other.credit])).toHaveLength(0)
+    })
+
+    it('should use each transaction once, preferring the closest date', () => {
+      const { debit, credit } = cardPayment(400, new Date(2025, 4, 3), new Date(2025, 4, 4))
+      const earlier = { ...debit, id: 'tx-earlier', purchaseDate: new Date(2025, 4, 1) }
+
+      const pairs = detectTransfers([earlier, debit, credit])
+
+      expect(pairs).toHaveLength(1)
+      expect(pairs[0].debit.id).toBe(debit.id)
+    })
+
+    it('should drop rejected pairings and prefer confirmed ones', () => {
+      const { debit, credit } = cardPayment(400, new Date(2025, 4, 3), new Date(2025, 4, 4))
+      const earlier = { ...debit, id: 'tx-earlier', purchaseDate: new Date(2025, 4, 1) }
+
+      const rejected = [
+        {
+          pairId: getTransferPairId(debit, credit),
+          status: 'rejected' as const,
+          createdDate: new Date(),
+        },
+      ]
+      expect(detectTransfers([earlier, debit, credit], rejected)[0].debit.id).toBe('tx-earlier')
+
+      const confirmed = [
+        {
+          pairId: getTransferPairId(earlier, credit),
+          status: 'confirmed' as const,
+          createdDate: new Date(),
+        },
+      ]
+      const [pair] = detectTransfers([earlier, debit, credit], confirmed)
+      expect(pair.debit.id).toBe('tx-earlier')
+      expect(pair.confirmed).toBe(true)
+    })
+
+    it('should only suggest pairs whose booking texts do not read as a transfer', () => {
+      const { debit, credit } = lookalike(120)
+
+      const [pair] = detectTransfers([debit, credit])
+
+      expect(pair).toMatchObject({ debit, credit, confirmed: false, excluded: false })
+    })
+
+    it('should not exclude a purchase and a same-amount credit that only mention payment', () => {
+      const { debit, credit } = lookalike(80)
+      debit.bookingText = 'Payment to Zalando'
+      credit.bookingText = 'PayPal payment'
+
+      const [pair] = detectTransfers([debit, credit])
+
+      expect(pair).toMatchObject({ debit, credit, confirmed: false, excluded: false })
+      expect(getTransferIds([debit, credit]).size).toBe(0)
+    })
+  })
+
+  describe('getTransferIds', () => {
+    it('should return both sides of every transfer', () => {
+      const { debit, credit } = cardPayment(90, new Date(2025, 5, 1), new Date(2025, 5, 1))
+
+      expect(getTransferIds([debit, credit, createMockTransaction()])).toEqual(
+        new Set([debit.id, credit.id])
+      )
+    })
+
+    it('should leave out suggested pairs until they are confirmed', () => {
+      const { debit, credit } = lookalike(120)
+      const decisions = [
+        {
+          pairId: getTransferPairId(debit, credit),
+          status: 'confirmed' as const,
+          createdDate: new Date(),
+        },
+      ]
+
+      expect(getTransferIds([debit, credit])).toEqual(new Set())
+      expect(getTransferIds([debit, credit], decisions)).toEqual(new Set([debit.id, credit.id]))
+    })
+  })
+})
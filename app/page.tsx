@@ -1,11 +1,13 @@
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { min } from 'date-fns'
 import { FileUpload } from '@/components/FileUpload'
 import { ExpenseSummary } from '@/components/ExpenseSummary'
 import { CategoryBreakdown } from '@/components/CategoryBreakdown'
 import { MonthlyTrends } from '@/components/MonthlyTrends'
 import { TopExpenses } from '@/components/TopExpenses'
+import { RecurringPayments } from '@/components/RecurringPayments'
 import { SavedAnalyses } from '@/components/SavedAnalyses'
 import { ComparisonView } from '@/components/ComparisonView'
 import { TransactionHistoryBuilder } from '@/components/TransactionHistoryBuilder'
@@ -14,35 +16,199 @@ import { BudgetManager } from '@/components/BudgetManager'
 import { BudgetOverview } from '@/components/BudgetOverview'
 import { PeriodFilter, type PeriodPreset } from '@/components/PeriodFilter'
 import { BackupRestore } from '@/components/BackupRestore'
-import { parseCSV } from '@/lib/parser'
-import { analyzeExpenses, calculateBudgetStatus } from '@/lib/analyzer'
-import { saveAnalysis, getAllBudgets, type SavedAnalysis } from '@/lib/db'
-import type { Transaction, ExpenseReport, Budget, BudgetWithSpending } from '@/lib/types'
-import { TrendingUp, Save, Check, GitCompare, Shield, Loader2 } from 'lucide-react'
+import { RulesManager, type RuleDraft } from '@/components/RulesManager'
+import { CategoryManager } from '@/components/CategoryManager'
+import { MerchantReport } from '@/components/MerchantReport'
+import { TransfersPanel } from '@/components/TransfersPanel'
+import { RefundsPanel } from '@/components/RefundsPanel'
+import { InsightsPanel } from '@/components/InsightsPanel'
+import { CurrencySettings } from '@/components/CurrencySettings'
+import { ForeignSpend } from '@/components/ForeignSpend'
+import { ForeignFees } from '@/components/ForeignFees'
+import { TagFilter } from '@/components/TagFilter'
+import { HolderSelector } from '@/components/HolderSelector'
+import { HolderBreakdown } from '@/components/HolderBreakdown'
+import { TagReport } from '@/components/TagReport'
+import {
+  analyzeExpenses,
+  calculateBudgetStatus,
+  calculateEnvelopeFunds,
+  findHistoryMatches,
+  type AnalysisSettings,
+} from '@/lib/analyzer'
+import {
+  saveAnalysis,
+  getAllBudgets,
+  getAllBudgetRevisions,
+  getAllEnvelopeAssignments,
+  saveEnvelopeAssignment,
+  getAllColumnMappings,
+  getAllCategoryRules,
+  getAllTrainingExamples,
+  saveTrainingExamples,
+  deleteTrainingExamples,
+  clearTrainingExamples,
+  getAllCustomCategories,
+  getAllTransactionTags,
+  saveTransactionTags,
+  getAllMerchantAliases,
+  getAllTransferDecisions,
+  saveTransferDecision,
+  getAllExchangeRates,
+  getSetting,
+  type SavedAnalysis,
+} from '@/lib/db'
+import { buildModel, diffTrainingExamples, type TrainingExample } from '@/lib/classifier'
+import { registerBankFormat } from '@/lib/formats'
+import { createRuleFromTransaction } from '@/lib/rules'
+import { filterByTags, getTagNames, summarizeTags } from '@/lib/tags'
+import { filterByHolder, getHolderOptions } from '@/lib/holders'
+import { RATE_BASE, buildRateTable, convertTransactions, getMissingRates } from '@/lib/currency'
+import type {
+  Transaction,
+  ExpenseReport,
+  Budget,
+  BudgetRevision,
+  BudgetWithSpending,
+  BudgetMode,
+  EnvelopeAssignment,
+  EnvelopeFunds,
+  CategoryRule,
+  CustomCategory,
+  MerchantAlias,
+  TransferDecision,
+  TransferStatus,
+  ExchangeRate,
+  HolderFilter,
+} from '@/lib/types'
+import {
+  TrendingUp,
+  Save,
+  Check,
+  GitCompare,
+  Shield,
+  Loader2,
+  ListFilter,
+  FolderTree,
+  Coins,
+} from 'lucide-react'
 
 export const dynamic = 'force-dynamic'
 
 export default function Home() {
   const [transactions, setTransactions] = useState<Transaction[]>([])
   const [report, setReport] = useState<ExpenseReport | null>(null)
-  const [loading, setLoading] = useState(false)
   const [initialLoading, setInitialLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [fileName, setFileName] = useState<string>('')
   const [saved, setSaved] = useState(false)
-  const [categoryOverrides, setCategoryOverrides] = useState<Map<number, string>>(new Map())
+  const [categoryOverrides, setCategoryOverrides] = useState<Map<string, string>>(new Map())
   const [uploadModalOpen, setUploadModalOpen] = useState(false)
   const [comparisonOpen, setComparisonOpen] = useState(false)
   const [budgetManagerOpen, setBudgetManagerOpen] = useState(false)
   const [backupRestoreOpen, setBackupRestoreOpen] = useState(false)
+  const [rulesManagerOpen, setRulesManagerOpen] = useState(false)
+  const [ruleDraft, setRuleDraft] = useState<RuleDraft | null>(null)
+  const [categoryRules, setCategoryRules] = useState<CategoryRule[]>([])
+  // Every manual category change, for the learned classifier
+  const [trainingExamples, setTrainingExamples] = useState<TrainingExample[]>([])
+  const [categoryManagerOpen, setCategoryManagerOpen] = useState(false)
+  // Budgets on a parent category include its subcategories, so this is mirrored too
+  const [customCategories, setCustomCategories] = useState<CustomCategory[]>([])
+  const [merchantAliases, setMerchantAliases] = useState<MerchantAlias[]>([])
+  const [transferDecisions, setTransferDecisions] = useState<TransferDecision[]>([])
+  const [currencySettingsOpen, setCurrencySettingsOpen] = useState(false)
+  const [reportingCurrency, setReportingCurrency] = useState(RATE_BASE)
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([])
   const [budgets, setBudgets] = useState<Budget[]>([])
+  const [budgetRevisions, setBudgetRevisions] = useState<BudgetRevision[]>([])
+  const [budgetMode, setBudgetMode] = useState<BudgetMode>('monthly')
+  const [envelopeAssignments, setEnvelopeAssignments] = useState<EnvelopeAssignment[]>([])
   const [budgetStatus, setBudgetStatus] = useState<BudgetWithSpending[]>([])
+  const [envelopeFunds, setEnvelopeFunds] = useState<EnvelopeFunds | null>(null)
   const [filteredTransactions, setFilteredTransactions] = useState<Transaction[]>([])
   const [filteredReport, setFilteredReport] = useState<ExpenseReport | null>(null)
   const [periodFilter, setPeriodFilter] = useState<PeriodPreset>('all')
+  const [transactionTags, setTransactionTags] = useState<Map<string, string[]>>(new Map())
+  const [selectedTags, setSelectedTags] = useState<string[]>([])
+  const [holderFilter, setHolderFilter] = useState<HolderFilter | null>(null)
   const [periodDateRange, setPeriodDateRange] = useState<{ start: Date; end: Date } | null>(null)
   const [savedAnalysesRefreshTrigger, setSavedAnalysesRefreshTrigger] = useState(0)
 
+  const classifier = useMemo(() => buildModel(trainingExamples), [trainingExamples])
+  const currencySettings = useMemo(
+    () => ({ reportingCurrency, rates: buildRateTable(exchangeRates) }),
+    [reportingCurrency, exchangeRates]
+  )
+
+  // Every analysis gets the same settings, so the views agree on categories
+  // Transfers and refunds are matched on the full history, so filtered views still
+  // recognize a pair when only one side passes the filter
+  const analysisSettings = useMemo<AnalysisSettings>(() => {
+    const settings: AnalysisSettings = {
+      categoryOverrides,
+      rules: categoryRules,
+      classifier,
+      merchantAliases,
+      transferDecisions,
+      currency: currencySettings,
+      customCategories,
+    }
+    return { ...settings, matches: findHistoryMatches(transactions, settings) }
+  }, [
+    transactions,
+    categoryOverrides,
+    categoryRules,
+    classifier,
+    merchantAliases,
+    transferDecisions,
+    currencySettings,
+    customCategories,
+  ])
+
+  // Views show amounts in the reporting currency; saved analyses keep the booked amounts
+  const reportingTransactions = useMemo(
+    () => convertTransactions(transactions, currencySettings),
+    [transactions, currencySettings]
+  )
+
+  // A holder or card that is not in the loaded transactions selects everything
+  const holderOptions = useMemo(
+    () => getHolderOptions(reportingTransactions),
+    [reportingTransactions]
+  )
+  const activeHolderFilter =
+    holderFilter &&
+    holderOptions.some((o) =>
+      holderFilter.type === 'holder'
+        ? o.holder === holderFilter.value
+        : o.cards.includes(holderFilter.value)
+    )
+      ? holderFilter
+      : null
+
+  const isFiltered =
+    periodFilter !== 'all' || selectedTags.length > 0 || activeHolderFilter !== null
+
+  // The holder and tag filters narrow the transactions before the period filter sees them
+  const tagFilteredTransactions = useMemo(
+    () =>
+      filterByTags(
+        filterByHolder(reportingTransactions, activeHolderFilter),
+        transactionTags,
+        selectedTags
+      ),
+    [reportingTransactions, activeHolderFilter, transactionTags, selectedTags]
+  )
+
+  // Foreign spending and card costs compare the rate paid with the reference rate,
+  // so they need the booked amounts of the transactions the views show
+  const bookedTransactions = useMemo(() => {
+    if (!isFiltered) return transactions
+    const shown = new Set(filteredTransactions.map((t) => t.id))
+    return transactions.filter((t) => shown.has(t.id))
+  }, [transactions, filteredTransactions, isFiltered])
+
   // Handle period filter changes
   const handlePeriodFilterChange = useCallback(
     (
@@ -53,23 +219,35 @@ export default function Home() {
       setFilteredTransactions(filtered)
       setPeriodFilter(period)
       setPeriodDateRange(dateRange)
-
-      // Recalculate report for filtered transactions
-      if (filtered.length > 0) {
-        const newReport = analyzeExpenses(filtered, categoryOverrides)
-        setFilteredReport(newReport)
-      } else {
-        setFilteredReport(null)
-      }
     },
-    [categoryOverrides]
+    []
   )
 
+  // Reports are recalculated whenever the transactions or the settings change
+  useEffect(() => {
+    setReport(transactions.length > 0 ? analyzeExpenses(transactions, analysisSettings) : null)
+    setFilteredReport(
+      filteredTransactions.length > 0
+        ? analyzeExpenses(filteredTransactions, analysisSettings)
+        : null
+    )
+  }, [transactions, filteredTransactions, analysisSettings])
+
   // Load budgets on mount
   useEffect(() => {
     async function initialize() {
       try {
-        await loadBudgets()
+        await Promise.all([
+          loadBudgets(),
+          loadColumnMappings(),
+          loadCategoryRules(),
+          loadTrainingExamples(),
+          loadCustomCategories(),
+          loadTransactionTags(),
+          loadMerchantAliases(),
+          loadTransferDecisions(),
+          loadCurrencySettings(),
+        ])
       } finally {
         setInitialLoading(false)
       }
@@ -77,48 +255,215 @@ export default function Home() {
     initialize()
   }, [])
 
-  // Recalculate budget status when filtered transactions or budgets change
+  // Recalculate budget status when filtered transactions or budgets change. Carried
+  // balances need the whole history, so the period filter only picks the date.
   useEffect(() => {
-    const txnsToUse = filteredTransactions.length > 0 ? filteredTransactions : transactions
-    if (txnsToUse.length > 0 && budgets.length > 0) {
-      // Use the period date range if available, otherwise use current month
-      const status = calculateBudgetStatus(txnsToUse, budgets, periodDateRange?.start)
+    if (tagFilteredTransactions.length > 0 && budgets.length > 0) {
+      // Evaluate budgets at the end of the selected period, or today
+      const budgetDate = periodDateRange ? min([periodDateRange.end, new Date()]) : undefined
+      const status = calculateBudgetStatus(
+        tagFilteredTransactions,
+        budgets,
+        budgetDate,
+        budgetRevisions,
+        budgetMode,
+        envelopeAssignments,
+        analysisSettings
+      )
       setBudgetStatus(status)
+      setEnvelopeFunds(
+        budgetMode === 'envelope'
+          ? calculateEnvelopeFunds(
+              tagFilteredTransactions,
+              budgets,
+              budgetDate,
+              budgetRevisions,
+              envelopeAssignments,
+              analysisSettings
+            )
+          : null
+      )
     } else {
       setBudgetStatus([])
+      setEnvelopeFunds(null)
     }
-  }, [transactions, filteredTransactions, budgets, periodDateRange])
+  }, [
+    tagFilteredTransactions,
+    budgets,
+    budgetRevisions,
+    budgetMode,
+    envelopeAssignments,
+    periodDateRange,
+    analysisSettings,
+  ])
 
   async function loadBudgets(): Promise<void> {
     try {
-      const savedBudgets = await getAllBudgets()
+      const [savedBudgets, revisions, assignments, mode] = await Promise.all([
+        getAllBudgets(),
+        getAllBudgetRevisions(),
+        getAllEnvelopeAssignments(),
+        getSetting('budgetMode'),
+      ])
       setBudgets(savedBudgets)
+      setBudgetRevisions(revisions)
+      setEnvelopeAssignments(assignments)
+      setBudgetMode(mode === 'envelope' ? 'envelope' : 'monthly')
     } catch (err) {
       console.error('Failed to load budgets:', err)
     }
   }
 
-  async function handleFileUpload(file: File): Promise<void> {
-    setLoading(true)
-    setError(null)
-    setSaved(false)
+  // Envelopes are funded per budget period, see getPeriodKey
+  async function handleAssignEnvelope(
+    category: string,
+    periodKey: string,
+    amount: number
+  ): Promise<void> {
+    try {
+      await saveEnvelopeAssignment(category, periodKey, amount)
+      setEnvelopeAssignments(await getAllEnvelopeAssignments())
+    } catch (err) {
+      console.error('Failed to assign envelope:', err)
+    }
+  }
+
+  // Saved column mappings are registered as bank formats so parseFile recognizes them
+  async function loadColumnMappings(): Promise<void> {
+    try {
+      const mappings = await getAllColumnMappings()
+      mappings.forEach((m) => registerBankFormat(m.format))
+    } catch (err) {
+      console.error('Failed to load column mappings:', err)
+    }
+  }
 
+  async function loadCategoryRules(): Promise<void> {
     try {
-      const parsedTransactions = await parseCSV(file)
-      setTransactions(parsedTransactions)
-      setCategoryOverrides(new Map())
-      setReport(analyzeExpenses(parsedTransactions))
-      setFileName(file.name)
+      setCategoryRules(await getAllCategoryRules())
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to parse file')
-    } finally {
-      setLoading(false)
+      console.error('Failed to load categorization rules:', err)
     }
   }
 
-  function handleUpdateCategories(overrides: Map<number, string>): void {
+  async function loadCustomCategories(): Promise<void> {
+    try {
+      const categories = await getAllCustomCategories()
+      setCustomCategories(categories)
+    } catch (err) {
+      console.error('Failed to load custom categories:', err)
+    }
+  }
+
+  async function loadTransactionTags(): Promise<void> {
+    try {
+      const entries = await getAllTransactionTags()
+      setTransactionTags(new Map(entries.map((e) => [e.transactionId, e.tags])))
+    } catch (err) {
+      console.error('Failed to load tags:', err)
+    }
+  }
+
+  async function loadMerchantAliases(): Promise<void> {
+    try {
+      setMerchantAliases(await getAllMerchantAliases())
+    } catch (err) {
+      console.error('Failed to load merchant aliases:', err)
+    }
+  }
+
+  async function loadTransferDecisions(): Promise<void> {
+    try {
+      setTransferDecisions(await getAllTransferDecisions())
+    } catch (err) {
+      console.error('Failed to load transfer decisions:', err)
+    }
+  }
+
+  async function handleTransferDecision(pairId: string, status: TransferStatus): Promise<void> {
+    try {
+      await saveTransferDecision(pairId, status)
+      await loadTransferDecisions()
+    } catch (err) {
+      console.error('Failed to save transfer decision:', err)
+    }
+  }
+
+  async function loadCurrencySettings(): Promise<void> {
+    try {
+      const [rates, currency] = await Promise.all([
+        getAllExchangeRates(),
+        getSetting('reportingCurrency'),
+      ])
+      setExchangeRates(rates)
+      setReportingCurrency(currency ?? RATE_BASE)
+    } catch (err) {
+      console.error('Failed to load currency settings:', err)
+    }
+  }
+
+  function handleUpdateTags(changes: Map<string, string[]>): void {
+    const next = new Map(transactionTags)
+    changes.forEach((tags, transactionId) => {
+      if (tags.length > 0) {
+        next.set(transactionId, tags)
+      } else {
+        next.delete(transactionId)
+      }
+    })
+    setTransactionTags(next)
+    saveTransactionTags(
+      Array.from(changes.entries()).map(([transactionId, tags]) => ({ transactionId, tags }))
+    ).catch((err) => console.error('Failed to save tags:', err))
+  }
+
+  async function loadTrainingExamples(): Promise<void> {
+    try {
+      setTrainingExamples(await getAllTrainingExamples())
+    } catch (err) {
+      console.error('Failed to load learned categories:', err)
+    }
+  }
+
+  async function handleResetLearning(): Promise<void> {
+    if (!confirm('Forget everything learned from your category changes?')) return
+
+    try {
+      await clearTrainingExamples()
+      setTrainingExamples([])
+    } catch (err) {
+      console.error('Failed to reset learned categories:', err)
+    }
+  }
+
+  function handleCreateRule(transaction: Transaction, category: string): void {
+    setRuleDraft(createRuleFromTransaction(transaction, category))
+    setRulesManagerOpen(true)
+  }
+
+  function handleFileUpload(uploadedFileName: string, parsedTransactions: Transaction[]): void {
+    setError(null)
+    setSaved(false)
+    setTransactions(parsedTransactions)
+    setCategoryOverrides(new Map())
+    setFileName(uploadedFileName)
+  }
+
+  function handleUpdateCategories(overrides: Map<string, string>): void {
+    // Every manual change is a training example for the classifier
+    const { added, removedIds } = diffTrainingExamples(transactions, categoryOverrides, overrides)
+    if (added.length > 0 || removedIds.length > 0) {
+      const replacedIds = new Set([...removedIds, ...added.map((e) => e.transactionId)])
+      setTrainingExamples([
+        ...trainingExamples.filter((e) => !replacedIds.has(e.transactionId)),
+        ...added,
+      ])
+      Promise.all([saveTrainingExamples(added), deleteTrainingExamples(removedIds)]).catch((err) =>
+        console.error('Failed to save learned categories:', err)
+      )
+    }
+
     setCategoryOverrides(overrides)
-    setReport(analyzeExpenses(transactions, overrides))
     setSaved(false)
   }
 
@@ -126,7 +471,14 @@ export default function Home() {
     if (!report || transactions.length === 0) return
 
     try {
-      await saveAnalysis(fileName, transactions, report)
+      await saveAnalysis(
+        fileName,
+        transactions,
+        report,
+        undefined,
+        categoryOverrides,
+        reportingCurrency
+      )
       setSaved(true)
       setTimeout(() => setSaved(false), 3000)
     } catch (_err) {
@@ -136,28 +488,42 @@ export default function Home() {
 
   function handleLoadSaved(analysis: SavedAnalysis): void {
     setTransactions(analysis.transactions)
-    setReport(analysis.report)
+    setCategoryOverrides(new Map(Object.entries(analysis.categoryOverrides)))
     setFileName(analysis.fileName)
     setSaved(false)
   }
 
   function handleRestoreComplete(): void {
     loadBudgets()
+    loadColumnMappings()
+    loadCategoryRules()
+    loadTrainingExamples()
+    loadCustomCategories()
+    loadTransactionTags()
+    loadMerchantAliases()
+    loadTransferDecisions()
+    loadCurrencySettings()
+    setSelectedTags([])
+    setHolderFilter(null)
     setSavedAnalysesRefreshTrigger((prev) => prev + 1)
     setTransactions([])
-    setReport(null)
+    setCategoryOverrides(new Map())
     setFileName('')
   }
 
-  function handleHistoryBuilt(txns: Transaction[]): void {
+  function handleHistoryBuilt(txns: Transaction[], overrides: Map<string, string>): void {
     setTransactions(txns)
-    setReport(analyzeExpenses(txns))
+    setCategoryOverrides(overrides)
     setFileName('Merged History')
     setSaved(false)
   }
 
-  const displayReport = periodFilter === 'all' ? report : (filteredReport ?? report)
-  const displayTransactions = periodFilter === 'all' ? transactions : filteredTransactions
+  // A filter that matches nothing shows an empty state rather than the full report
+  const displayReport = isFiltered ? filteredReport : report
+  const filterMatchesNothing = isFiltered && filteredTransactions.length === 0
+  const displayTransactions = isFiltered ? filteredTransactions : reportingTransactions
+  const tagNames = getTagNames(transactionTags)
+  const tagSummaries = summarizeTags(displayTransactions, transactionTags)
 
   return (
     <div className="min-h-screen">
@@ -173,6 +539,15 @@ export default function Home() {
                 Upload your UBS bank statement to unlock financial insights
               </p>
             </div>
+            {report && (holderOptions.length > 1 || (holderOptions[0]?.cards.length ?? 0) > 1) && (
+              <div className="ml-auto">
+                <HolderSelector
+                  options={holderOptions}
+                  selected={activeHolderFilter}
+                  onChange={setHolderFilter}
+                />
+              </div>
+            )}
           </div>
         </div>
       </header>
@@ -196,23 +571,66 @@ export default function Home() {
             <div className="animate-in fade-in space-y-6 duration-500">
               {/* Top row: Period Filter + Action buttons */}
               <div className="flex flex-wrap items-center justify-between gap-3">
-                {/* Period Filter */}
-                <PeriodFilter
-                  transactions={transactions}
-                  onFilteredTransactions={handlePeriodFilterChange}
-                />
+                {/* Period and Tag Filters */}
+                <div className="flex flex-wrap items-center gap-3">
+                  <PeriodFilter
+                    transactions={tagFilteredTransactions}
+                    onFilteredTransactions={handlePeriodFilterChange}
+                  />
+                  {tagNames.length > 0 && (
+                    <TagFilter
+                      tags={tagNames}
+                      selectedTags={selectedTags}
+                      onChange={setSelectedTags}
+                    />
+                  )}
+                </div>
 
                 {/* Action buttons */}
                 <div className="flex flex-wrap items-center gap-3">
                   <TransactionsTable
-                    transactions={periodFilter === 'all' ? transactions : filteredTransactions}
+                    transactions={displayTransactions}
+                    categoryOverrides={categoryOverrides}
+                    settings={analysisSettings}
                     onUpdateCategories={handleUpdateCategories}
+                    onCreateRule={handleCreateRule}
+                    learnedExampleCount={trainingExamples.length}
+                    onResetLearning={handleResetLearning}
+                    transactionTags={transactionTags}
+                    onUpdateTags={handleUpdateTags}
                   />
                   <SavedAnalyses
                     onLoad={handleLoadSaved}
                     refreshTrigger={savedAnalysesRefreshTrigger}
                   />
-                  <TransactionHistoryBuilder onHistoryBuilt={handleHistoryBuilt} />
+                  <TransactionHistoryBuilder
+                    settings={analysisSettings}
+                    onHistoryBuilt={handleHistoryBuilt}
+                  />
+                  <button
+                    onClick={() => {
+                      setRuleDraft(null)
+                      setRulesManagerOpen(true)
+                    }}
+                    className="flex items-center gap-2 rounded-xl border-2 border-gray-200 bg-white px-6 py-3 font-semibold text-gray-700 transition-all hover:border-indigo-300 hover:bg-indigo-50"
+                  >
+                    <ListFilter className="h-5 w-5" />
+                    Rules
+                  </button>
+                  <button
+                    onClick={() => setCategoryManagerOpen(true)}
+                    className="flex items-center gap-2 rounded-xl border-2 border-gray-200 bg-white px-6 py-3 font-semibold text-gray-700 transition-all hover:border-emerald-300 hover:bg-emerald-50"
+                  >
+                    <FolderTree className="h-5 w-5" />
+                    Categories
+                  </button>
+                  <button
+                    onClick={() => setCurrencySettingsOpen(true)}
+                    className="flex items-center gap-2 rounded-xl border-2 border-gray-200 bg-white px-6 py-3 font-semibold text-gray-700 transition-all hover:border-yellow-300 hover:bg-yellow-50"
+                  >
+                    <Coins className="h-5 w-5" />
+                    {reportingCurrency}
+                  </button>
                   <button
                     onClick={() => setComparisonOpen(true)}
                     className="flex items-center gap-2 rounded-xl border-2 border-gray-200 bg-white px-6 py-3 font-semibold text-gray-700 transition-all hover:border-purple-300 hover:bg-purple-50"
@@ -253,27 +671,99 @@ export default function Home() {
 
               {displayReport && (
                 <>
-                  <ExpenseSummary report={displayReport} />
+                  <ExpenseSummary report={displayReport} currency={reportingCurrency} />
+
+                  <InsightsPanel transactions={displayTransactions} settings={analysisSettings} />
+
+                  <TransfersPanel
+                    currency={reportingCurrency}
+                    transactions={reportingTransactions}
+                    transferDecisions={transferDecisions}
+                    onDecide={handleTransferDecision}
+                  />
+
+                  <RefundsPanel
+                    currency={reportingCurrency}
+                    transactions={displayTransactions}
+                    settings={analysisSettings}
+                  />
 
                   <BudgetOverview
+                    currency={reportingCurrency}
                     budgetStatus={budgetStatus}
+                    budgetMode={budgetMode}
+                    envelopeFunds={envelopeFunds}
+                    onAssign={handleAssignEnvelope}
                     onManageBudgets={() => setBudgetManagerOpen(true)}
+                    customCategories={customCategories}
                   />
 
                   <CategoryBreakdown
+                    currency={reportingCurrency}
                     categories={displayReport.categorySummaries}
                     budgetStatus={budgetStatus}
+                    merchantAliases={merchantAliases}
+                    customCategories={customCategories}
+                  />
+
+                  {displayReport.holderSummaries && (
+                    <HolderBreakdown
+                      currency={reportingCurrency}
+                      holders={displayReport.holderSummaries}
+                      merchantAliases={merchantAliases}
+                    />
+                  )}
+
+                  <TagReport
+                    currency={reportingCurrency}
+                    tagSummaries={tagSummaries}
+                    merchantAliases={merchantAliases}
                   />
 
-                  <MonthlyTrends transactions={displayTransactions} />
+                  <MonthlyTrends transactions={displayTransactions} settings={analysisSettings} />
 
-                  <TopExpenses transactions={displayReport.topExpenses} />
+                  <MerchantReport
+                    currency={reportingCurrency}
+                    transactions={displayTransactions}
+                    merchantAliases={merchantAliases}
+                    onAliasesChange={loadMerchantAliases}
+                  />
+
+                  {/* Recurring payments need the full history, not just the filtered period */}
+                  <div className="grid grid-cols-1 gap-6 xl:grid-cols-2">
+                    <TopExpenses
+                      currency={reportingCurrency}
+                      transactions={displayReport.topExpenses}
+                      allTransactions={displayTransactions}
+                      merchantAliases={merchantAliases}
+                      onMerchantAliasesChange={loadMerchantAliases}
+                    />
+                    <RecurringPayments
+                      currency={reportingCurrency}
+                      transactions={reportingTransactions}
+                      merchantAliases={merchantAliases}
+                    />
+                  </div>
+
+                  <ForeignSpend transactions={bookedTransactions} currency={currencySettings} />
+                  <ForeignFees transactions={bookedTransactions} currency={currencySettings} />
                 </>
               )}
+
+              {filterMatchesNothing && (
+                <div className="rounded-2xl border-2 border-gray-50 bg-white py-16 text-center shadow-xl">
+                  <h3 className="mb-2 text-xl font-bold text-gray-900">
+                    No transactions match the selected filters
+                  </h3>
+                  <p className="text-gray-600">
+                    Choose another period, tag or holder to see the analysis
+                  </p>
+                </div>
+              )}
             </div>
           )}
 
-          {!initialLoading && !report && !loading && (
+          {!initialLoading && !report && (
             <div className="rounded-2xl border-2 border-gray-50 bg-white py-24 text-center shadow-xl">
               <div className="mb-6 inline-flex h-24 w-24 items-center justify-center rounded-3xl bg-gradient-to-br from-blue-50 to-purple-50">
                 <TrendingUp className="h-12 w-12 text-blue-600" />
@@ -324,7 +814,6 @@ export default function Home() {
 
       <FileUpload
         onFileUpload={handleFileUpload}
-        loading={loading}
         isOpen={uploadModalOpen}
         onClose={() => setUploadModalOpen(false)}
       />
@@ -333,14 +822,40 @@ export default function Home() {
         isOpen={comparisonOpen}
         onClose={() => setComparisonOpen(false)}
         currentTransactions={transactions}
+        settings={analysisSettings}
       />
 
       <BudgetManager
         isOpen={budgetManagerOpen}
         onClose={() => setBudgetManagerOpen(false)}
+        transactions={tagFilteredTransactions}
+        settings={analysisSettings}
+        budgetMode={budgetMode}
         onBudgetsChange={loadBudgets}
       />
 
+      <RulesManager
+        isOpen={rulesManagerOpen}
+        onClose={() => setRulesManagerOpen(false)}
+        onRulesChange={loadCategoryRules}
+        draft={ruleDraft}
+        customCategories={customCategories}
+      />
+
+      <CategoryManager
+        isOpen={categoryManagerOpen}
+        onClose={() => setCategoryManagerOpen(false)}
+        onCategoriesChange={loadCustomCategories}
+      />
+
+      <CurrencySettings
+        isOpen={currencySettingsOpen}
+        onClose={() => setCurrencySettingsOpen(false)}
+        reportingCurrency={reportingCurrency}
+        missingRates={currencySettingsOpen ? getMissingRates(transactions, currencySettings) : []}
+        onSettingsChange={loadCurrencySettings}
+      />
+
       <BackupRestore
         isOpen={backupRestoreOpen}
         onClose={() => setBackupRestoreOpen(false)}
@@ -1,25 +1,86 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { X, Plus, Trash2, PiggyBank, ChevronDown } from 'lucide-react'
-import { getAllBudgets, saveBudget, deleteBudget } from '@/lib/db'
-import { getAllCategories } from '@/lib/categories'
-import type { Budget } from '@/lib/types'
+import { format, parse } from 'date-fns'
+import {
+  X,
+  Plus,
+  Trash2,
+  PiggyBank,
+  ChevronDown,
+  Pencil,
+  History,
+  Repeat,
+  Wand2,
+} from 'lucide-react'
+import {
+  getAllBudgets,
+  getAllBudgetRevisions,
+  saveBudget,
+  deleteBudget,
+  updateBudgetRollover,
+  saveSetting,
+} from '@/lib/db'
+import { getAllCategories, formatCategoryLabel } from '@/lib/categories'
+import type { AnalysisSettings } from '@/lib/analyzer'
+import { RATE_BASE } from '@/lib/currency'
+import { BudgetSuggestions } from './BudgetSuggestions'
+import { BUDGET_PERIODS, PERIOD_UNITS } from '@/lib/budgets'
+import type { Budget, BudgetMode, BudgetPeriod, BudgetRevision, Transaction } from '@/lib/types'
 
 interface BudgetManagerProps {
   isOpen: boolean
   onClose: () => void
+  transactions: Transaction[] // History for suggestions
+  settings: AnalysisSettings
+  budgetMode: BudgetMode
   onBudgetsChange: () => void
 }
 
-export function BudgetManager({ isOpen, onClose, onBudgetsChange }: BudgetManagerProps) {
+const PERIOD_LABELS: Record<BudgetPeriod, string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  yearly: 'Yearly',
+}
+
+const MODE_OPTIONS: { value: BudgetMode; label: string; description: string }[] = [
+  {
+    value: 'monthly',
+    label: 'Monthly Limits',
+    description: 'Each period starts fresh unless a budget rolls over',
+  },
+  {
+    value: 'envelope',
+    label: 'Envelopes',
+    description: 'Assign income to categories each period; balances always carry over',
+  },
+]
+
+export function BudgetManager({
+  isOpen,
+  onClose,
+  transactions,
+  settings,
+  budgetMode,
+  onBudgetsChange,
+}: BudgetManagerProps) {
   const [budgets, setBudgets] = useState<Budget[]>([])
+  const [revisions, setRevisions] = useState<BudgetRevision[]>([])
   const [loading, setLoading] = useState(true)
   const [selectedCategory, setSelectedCategory] = useState<string>('')
   const [amount, setAmount] = useState<string>('')
+  const [validFrom, setValidFrom] = useState(format(new Date(), 'yyyy-MM'))
+  const [period, setPeriod] = useState<BudgetPeriod>('monthly')
+  const [editing, setEditing] = useState(false)
+  const [expandedCategory, setExpandedCategory] = useState<string | null>(null)
   const [saving, setSaving] = useState(false)
+  const [suggesting, setSuggesting] = useState(false)
 
-  const categories = getAllCategories().filter((c) => c !== 'Income' && c !== 'Other')
+  const customCategories = settings.customCategories ?? []
+  const categories = getAllCategories(customCategories).filter(
+    (c) => c !== 'Income' && c !== 'Other'
+  )
 
   useEffect(() => {
     if (isOpen) {
@@ -30,8 +91,9 @@ export function BudgetManager({ isOpen, onClose, onBudgetsChange }: BudgetManage
   const loadBudgets = async () => {
     setLoading(true)
     try {
-      const data = await getAllBudgets()
+      const [data, history] = await Promise.all([getAllBudgets(), getAllBudgetRevisions()])
       setBudgets(data)
+      setRevisions(history)
     } catch (err) {
       console.error('Failed to load budgets:', err)
     } finally {
@@ -44,11 +106,15 @@ export function BudgetManager({ isOpen, onClose, onBudgetsChange }: BudgetManage
 
     setSaving(true)
     try {
-      await saveBudget(selectedCategory, parseFloat(amount))
+      await saveBudget(
+        selectedCategory,
+        parseFloat(amount),
+        parse(validFrom, 'yyyy-MM', new Date()),
+        period
+      )
       await loadBudgets()
       onBudgetsChange()
-      setSelectedCategory('')
-      setAmount('')
+      resetForm()
     } catch (err) {
       console.error('Failed to save budget:', err)
     } finally {
@@ -56,6 +122,57 @@ export function BudgetManager({ isOpen, onClose, onBudgetsChange }: BudgetManage
     }
   }
 
+  const resetForm = () => {
+    setSelectedCategory('')
+    setAmount('')
+    setValidFrom(format(new Date(), 'yyyy-MM'))
+    setPeriod('monthly')
+    setEditing(false)
+  }
+
+  const handleEditBudget = (budget: Budget) => {
+    setSelectedCategory(budget.category)
+    setAmount(String(budget.amount))
+    setValidFrom(format(new Date(), 'yyyy-MM'))
+    setPeriod(budget.period ?? 'monthly')
+    setEditing(true)
+  }
+
+  // Suggestions are monthly amounts, so existing budgets become monthly as well
+  const handleSaveSuggestions = async (accepted: { category: string; amount: number }[]) => {
+    try {
+      for (const { category, amount } of accepted) {
+        await saveBudget(category, amount, undefined, 'monthly')
+      }
+      await loadBudgets()
+      onBudgetsChange()
+      setSuggesting(false)
+    } catch (err) {
+      console.error('Failed to save suggested budgets:', err)
+    }
+  }
+
+  const handleModeChange = async (mode: BudgetMode) => {
+    try {
+      await saveSetting('budgetMode', mode)
+      onBudgetsChange()
+    } catch (err) {
+      console.error('Failed to save budget mode:', err)
+    }
+  }
+
+  // A blank or zero cap carries the whole balance
+  const handleRolloverChange = async (budget: Budget, rollover: boolean, cap: string) => {
+    const value = parseFloat(cap)
+    try {
+      await updateBudgetRollover(budget.id!, rollover, value > 0 ? value : null)
+      await loadBudgets()
+      onBudgetsChange()
+    } catch (err) {
+      console.error('Failed to save rollover:', err)
+    }
+  }
+
   const handleDeleteBudget = async (id: number) => {
     try {
       await deleteBudget(id)
@@ -69,13 +186,20 @@ export function BudgetManager({ isOpen, onClose, onBudgetsChange }: BudgetManage
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-CH', {
       style: 'currency',
-      currency: 'CHF',
+      currency: settings.currency?.reportingCurrency ?? RATE_BASE,
     }).format(amount)
   }
 
   // Get categories that don't have budgets yet
   const availableCategories = categories.filter((c) => !budgets.some((b) => b.category === c))
 
+  // Revisions replaced by a newer one for the same start were never in force
+  const getTimeline = (category: string) =>
+    revisions
+      .filter((r) => r.category === category)
+      .map((r) => ({ ...r, replaced: r.validTo !== null && r.validTo < r.validFrom }))
+      .reverse()
+
   if (!isOpen) return null
 
   return (
@@ -89,7 +213,9 @@ export function BudgetManager({ isOpen, onClose, onBudgetsChange }: BudgetManage
             </div>
             <div>
               <h2 className="text-2xl font-bold text-white">Manage Budgets</h2>
-              <p className="text-sm text-amber-100">Set monthly spending limits</p>
+              <p className="text-sm text-amber-100">
+                Set spending limits per period and change them over time
+              </p>
             </div>
           </div>
           <button onClick={onClose} className="rounded-xl p-2 transition-colors hover:bg-white/20">
@@ -103,27 +229,83 @@ export function BudgetManager({ isOpen, onClose, onBudgetsChange }: BudgetManage
             <div className="flex items-center justify-center py-12">
               <div className="h-8 w-8 animate-spin rounded-full border-4 border-amber-500 border-t-transparent"></div>
             </div>
+          ) : suggesting ? (
+            <BudgetSuggestions
+              transactions={transactions}
+              settings={settings}
+              budgets={budgets}
+              categories={categories}
+              onSave={handleSaveSuggestions}
+              onCancel={() => setSuggesting(false)}
+            />
           ) : (
             <div className="space-y-6">
+              {/* Budgeting mode */}
+              <div className="rounded-xl bg-gray-50 p-4">
+                <h3 className="mb-3 text-sm font-semibold text-gray-700">Budgeting</h3>
+                <div className="flex rounded-xl bg-gray-100 p-1">
+                  {MODE_OPTIONS.map((option) => (
+                    <button
+                      key={option.value}
+                      onClick={() => handleModeChange(option.value)}
+                      className={`flex-1 rounded-lg px-3 py-2 text-sm font-semibold transition-colors ${
+                        budgetMode === option.value
+                          ? 'bg-white text-amber-700 shadow'
+                          : 'text-gray-600 hover:text-gray-900'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+                <p className="mt-2 text-xs text-gray-500">
+                  {MODE_OPTIONS.find((o) => o.value === budgetMode)?.description}
+                </p>
+              </div>
+
               {/* Add Budget Form */}
               <div className="rounded-xl bg-gray-50 p-4">
-                <h3 className="mb-3 text-sm font-semibold text-gray-700">Add New Budget</h3>
-                <div className="flex gap-3">
-                  <div className="relative flex-1">
-                    <select
-                      value={selectedCategory}
-                      onChange={(e) => setSelectedCategory(e.target.value)}
-                      className="w-full cursor-pointer appearance-none rounded-xl border-2 border-gray-200 bg-white p-3 pr-10 text-sm transition-colors hover:border-amber-300 focus:border-amber-500 focus:outline-none"
+                <div className="mb-3 flex items-center justify-between">
+                  <h3 className="text-sm font-semibold text-gray-700">
+                    {editing
+                      ? `Change ${formatCategoryLabel(selectedCategory, customCategories)}`
+                      : 'Add New Budget'}
+                  </h3>
+                  {editing ? (
+                    <button
+                      onClick={resetForm}
+                      className="text-xs font-medium text-amber-600 hover:text-amber-800"
                     >
-                      <option value="">Select category...</option>
-                      {availableCategories.map((cat) => (
-                        <option key={cat} value={cat}>
-                          {cat}
-                        </option>
-                      ))}
-                    </select>
-                    <ChevronDown className="pointer-events-none absolute right-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
-                  </div>
+                      Cancel
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => setSuggesting(true)}
+                      className="flex items-center gap-1 text-xs font-medium text-amber-600 hover:text-amber-800"
+                    >
+                      <Wand2 className="h-3.5 w-3.5" />
+                      Suggest from history
+                    </button>
+                  )}
+                </div>
+                <div className="flex gap-3">
+                  {!editing && (
+                    <div className="relative flex-1">
+                      <select
+                        value={selectedCategory}
+                        onChange={(e) => setSelectedCategory(e.target.value)}
+                        className="w-full cursor-pointer appearance-none rounded-xl border-2 border-gray-200 bg-white p-3 pr-10 text-sm transition-colors hover:border-amber-300 focus:border-amber-500 focus:outline-none"
+                      >
+                        <option value="">Select category...</option>
+                        {availableCategories.map((cat) => (
+                          <option key={cat} value={cat}>
+                            {formatCategoryLabel(cat, customCategories)}
+                          </option>
+                        ))}
+                      </select>
+                      <ChevronDown className="pointer-events-none absolute right-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+                    </div>
+                  )}
                   <div className="w-32">
                     <input
                       type="number"
@@ -135,14 +317,38 @@ export function BudgetManager({ isOpen, onClose, onBudgetsChange }: BudgetManage
                       className="w-full rounded-xl border-2 border-gray-200 p-3 text-sm transition-colors focus:border-amber-500 focus:outline-none"
                     />
                   </div>
+                  <input
+                    type="month"
+                    value={validFrom}
+                    onChange={(e) => setValidFrom(e.target.value)}
+                    title="Valid from"
+                    className={`rounded-xl border-2 border-gray-200 p-3 text-sm transition-colors focus:border-amber-500 focus:outline-none ${
+                      editing ? 'flex-1' : 'w-36'
+                    }`}
+                  />
                   <button
                     onClick={handleAddBudget}
-                    disabled={!selectedCategory || !amount || saving}
+                    disabled={!selectedCategory || !amount || !validFrom || saving}
                     className="rounded-xl bg-amber-500 px-4 py-3 text-white transition-colors hover:bg-amber-600 disabled:cursor-not-allowed disabled:opacity-50"
                   >
                     <Plus className="h-5 w-5" />
                   </button>
                 </div>
+                <div className="mt-3 flex rounded-xl bg-gray-100 p-1">
+                  {BUDGET_PERIODS.map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => setPeriod(option)}
+                      className={`flex-1 rounded-lg px-3 py-1.5 text-xs font-semibold transition-colors ${
+                        period === option
+                          ? 'bg-white text-amber-700 shadow'
+                          : 'text-gray-600 hover:text-gray-900'
+                      }`}
+                    >
+                      {PERIOD_LABELS[option]}
+                    </button>
+                  ))}
+                </div>
               </div>
 
               {/* Budget List */}
@@ -155,25 +361,111 @@ export function BudgetManager({ isOpen, onClose, onBudgetsChange }: BudgetManage
               ) : (
                 <div className="space-y-2">
                   <h3 className="text-sm font-semibold text-gray-700">Your Budgets</h3>
-                  {budgets.map((budget) => (
-                    <div
-                      key={budget.id}
-                      className="flex items-center justify-between rounded-xl border border-gray-200 bg-white p-4 transition-colors hover:border-gray-300"
-                    >
-                      <div>
-                        <p className="font-semibold text-gray-900">{budget.category}</p>
-                        <p className="font-bold text-amber-600">
-                          {formatCurrency(budget.amount)}/month
-                        </p>
-                      </div>
-                      <button
-                        onClick={() => handleDeleteBudget(budget.id!)}
-                        className="group rounded-lg p-2 transition-colors hover:bg-red-50"
+                  {budgets.map((budget) => {
+                    const timeline = getTimeline(budget.category)
+                    const isExpanded = expandedCategory === budget.category
+                    return (
+                      <div
+                        key={budget.id}
+                        className="rounded-xl border border-gray-200 bg-white p-4 transition-colors hover:border-gray-300"
                       >
-                        <Trash2 className="h-5 w-5 text-gray-400 group-hover:text-red-500" />
-                      </button>
-                    </div>
-                  ))}
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <p className="font-semibold text-gray-900">
+                              {formatCategoryLabel(budget.category, customCategories)}
+                            </p>
+                            <p className="font-bold text-amber-600">
+                              {`${formatCurrency(budget.amount)}/${PERIOD_UNITS[budget.period ?? 'monthly']}`}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-1">
+                            {timeline.length > 0 && (
+                              <button
+                                onClick={() =>
+                                  setExpandedCategory(isExpanded ? null : budget.category)
+                                }
+                                title="Revision history"
+                                className={`rounded-lg p-2 transition-colors hover:bg-amber-50 ${
+                                  isExpanded ? 'text-amber-600' : 'text-gray-400'
+                                }`}
+                              >
+                                <History className="h-5 w-5" />
+                              </button>
+                            )}
+                            <button
+                              onClick={() => handleEditBudget(budget)}
+                              title="Change amount"
+                              className="group rounded-lg p-2 transition-colors hover:bg-amber-50"
+                            >
+                              <Pencil className="h-5 w-5 text-gray-400 group-hover:text-amber-600" />
+                            </button>
+                            <button
+                              onClick={() => handleDeleteBudget(budget.id!)}
+                              className="group rounded-lg p-2 transition-colors hover:bg-red-50"
+                            >
+                              <Trash2 className="h-5 w-5 text-gray-400 group-hover:text-red-500" />
+                            </button>
+                          </div>
+                        </div>
+
+                        {/* Rollover, envelopes always carry their balance */}
+                        {budgetMode === 'monthly' && (
+                          <div className="mt-3 flex items-center gap-3 text-sm">
+                            <label className="flex cursor-pointer items-center gap-2 text-gray-700">
+                              <input
+                                type="checkbox"
+                                checked={!!budget.rollover}
+                                onChange={(e) =>
+                                  handleRolloverChange(
+                                    budget,
+                                    e.target.checked,
+                                    String(budget.rolloverCap ?? '')
+                                  )
+                                }
+                                className="h-4 w-4 accent-amber-500"
+                              />
+                              <Repeat className="h-4 w-4 text-gray-400" />
+                              Roll over
+                            </label>
+                            {budget.rollover && (
+                              <input
+                                key={budget.rolloverCap ?? 'none'}
+                                type="number"
+                                min="0"
+                                step="50"
+                                defaultValue={budget.rolloverCap ?? ''}
+                                onBlur={(e) => handleRolloverChange(budget, true, e.target.value)}
+                                placeholder="No cap"
+                                title="Largest balance carried either way"
+                                className="w-28 rounded-lg border-2 border-gray-200 px-2 py-1 text-sm transition-colors focus:border-amber-500 focus:outline-none"
+                              />
+                            )}
+                          </div>
+                        )}
+
+                        {/* Revision timeline, newest first */}
+                        {isExpanded && (
+                          <ol className="mt-3 space-y-2 border-l-2 border-amber-200 pl-4">
+                            {timeline.map((revision) => (
+                              <li
+                                key={revision.id}
+                                className={`text-sm ${revision.replaced ? 'text-gray-400 line-through' : 'text-gray-700'}`}
+                              >
+                                <span className="font-semibold">
+                                  {formatCurrency(revision.amount)}
+                                </span>{' '}
+                                {revision.replaced
+                                  ? `replaced, set ${format(revision.createdDate, 'MMM d, yyyy')}`
+                                  : revision.validTo
+                                    ? `${format(revision.validFrom, 'MMM yyyy')} – ${format(revision.validTo, 'MMM yyyy')}`
+                                    : `since ${format(revision.validFrom, 'MMM yyyy')}`}
+                              </li>
+                            ))}
+                          </ol>
+                        )}
+                      </div>
+                    )
+                  })}
                 </div>
               )}
             </div>
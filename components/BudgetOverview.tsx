@@ -1,12 +1,19 @@
 'use client'
 
-import { useMemo } from 'react'
-import { PiggyBank, Settings, AlertTriangle } from 'lucide-react'
-import type { BudgetWithSpending } from '@/lib/types'
+import { useMemo, useState } from 'react'
+import { PiggyBank, Settings, AlertTriangle, History, Wallet } from 'lucide-react'
+import { formatCategoryLabel } from '@/lib/categories'
+import { formatPeriodLabel, getElapsedDays } from '@/lib/budgets'
+import type { BudgetMode, BudgetWithSpending, CustomCategory, EnvelopeFunds } from '@/lib/types'
 
 interface BudgetOverviewProps {
   budgetStatus: BudgetWithSpending[]
+  budgetMode: BudgetMode
+  envelopeFunds: EnvelopeFunds | null // Only in envelope mode
+  onAssign: (category: string, periodKey: string, amount: number) => void
   onManageBudgets: () => void
+  currency: string // Reporting currency
+  customCategories: CustomCategory[]
 }
 
 const STATUS_COLORS = {
@@ -36,16 +43,31 @@ const STATUS_COLORS = {
   },
 }
 
-export function BudgetOverview({ budgetStatus, onManageBudgets }: BudgetOverviewProps) {
+export function BudgetOverview({
+  budgetStatus,
+  budgetMode,
+  envelopeFunds,
+  onAssign,
+  onManageBudgets,
+  currency,
+  customCategories,
+}: BudgetOverviewProps) {
+  const [expandedCategory, setExpandedCategory] = useState<string | null>(null)
+  const title = budgetMode === 'envelope' ? 'Envelopes' : 'Budgets'
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-CH', {
       style: 'currency',
-      currency: 'CHF',
+      currency,
     }).format(amount)
   }
 
   const summary = useMemo(() => {
-    const totalBudget = budgetStatus.reduce((sum, b) => sum + b.budget.amount, 0)
+    // Carried balances add to what is available this month
+    const totalBudget = budgetStatus.reduce(
+      (sum, b) => sum + b.budget.amount + (b.carriedIn ?? 0),
+      0
+    )
     const totalSpent = budgetStatus.reduce((sum, b) => sum + b.spent, 0)
     const totalRemaining = totalBudget - totalSpent
     const overBudgetCount = budgetStatus.filter((b) => b.status === 'over').length
@@ -64,7 +86,7 @@ export function BudgetOverview({ budgetStatus, onManageBudgets }: BudgetOverview
             <div className="rounded-xl bg-amber-100 p-2">
               <PiggyBank className="h-6 w-6 text-amber-600" />
             </div>
-            <h2 className="text-2xl font-bold text-gray-900">Monthly Budgets</h2>
+            <h2 className="text-2xl font-bold text-gray-900">{title}</h2>
           </div>
           <button
             onClick={onManageBudgets}
@@ -77,7 +99,9 @@ export function BudgetOverview({ budgetStatus, onManageBudgets }: BudgetOverview
         <div className="py-8 text-center">
           <PiggyBank className="mx-auto mb-4 h-16 w-16 text-gray-300" />
           <p className="mb-2 font-medium text-gray-600">No budgets configured</p>
-          <p className="text-sm text-gray-500">Set monthly budgets to track your spending limits</p>
+          <p className="text-sm text-gray-500">
+            Set weekly, monthly or yearly budgets to track your spending limits
+          </p>
         </div>
       </div>
     )
@@ -92,7 +116,7 @@ export function BudgetOverview({ budgetStatus, onManageBudgets }: BudgetOverview
             <PiggyBank className="h-6 w-6 text-amber-600" />
           </div>
           <div>
-            <h2 className="text-2xl font-bold text-gray-900">Monthly Budgets</h2>
+            <h2 className="text-2xl font-bold text-gray-900">{title}</h2>
             <p className="text-sm text-gray-600">
               {formatCurrency(summary.totalSpent)} of {formatCurrency(summary.totalBudget)} spent
             </p>
@@ -138,6 +162,37 @@ export function BudgetOverview({ budgetStatus, onManageBudgets }: BudgetOverview
         </div>
       </div>
 
+      {/* Income not yet assigned to an envelope */}
+      {envelopeFunds && (
+        <div
+          className={`mb-6 flex items-center justify-between rounded-xl border p-4 ${
+            envelopeFunds.readyToAssign >= 0
+              ? 'border-green-200 bg-green-50'
+              : 'border-red-200 bg-red-50'
+          }`}
+        >
+          <div className="flex items-center gap-3">
+            <Wallet
+              className={`h-5 w-5 ${envelopeFunds.readyToAssign >= 0 ? 'text-green-600' : 'text-red-500'}`}
+            />
+            <div>
+              <p className="text-sm font-semibold text-gray-900">
+                {envelopeFunds.readyToAssign >= 0 ? 'Ready to Assign' : 'Assigned More Than Income'}
+              </p>
+              <p className="text-xs text-gray-600">
+                {formatCurrency(envelopeFunds.income)} income,{' '}
+                {formatCurrency(envelopeFunds.assigned)} assigned to date
+              </p>
+            </div>
+          </div>
+          <p
+            className={`text-2xl font-bold ${envelopeFunds.readyToAssign >= 0 ? 'text-green-700' : 'text-red-600'}`}
+          >
+            {formatCurrency(Math.abs(envelopeFunds.readyToAssign))}
+          </p>
+        </div>
+      )}
+
       {/* Alerts */}
       {(summary.overBudgetCount > 0 || summary.warningCount > 0) && (
         <div
@@ -156,7 +211,7 @@ export function BudgetOverview({ budgetStatus, onManageBudgets }: BudgetOverview
             {summary.overBudgetCount > 0 &&
               `${summary.overBudgetCount} budget${summary.overBudgetCount > 1 ? 's' : ''} exceeded`}
             {summary.overBudgetCount > 0 && summary.warningCount > 0 && ', '}
-            {summary.warningCount > 0 && `${summary.warningCount} approaching limit`}
+            {summary.warningCount > 0 && `${summary.warningCount} on pace to reach the limit`}
           </p>
         </div>
       )}
@@ -166,6 +221,16 @@ export function BudgetOverview({ budgetStatus, onManageBudgets }: BudgetOverview
         {budgetStatus.map((item) => {
           const colors = STATUS_COLORS[item.status]
           const percentCapped = Math.min(item.percentUsed, 100)
+          const isExpanded = expandedCategory === item.budget.category
+          const period = item.budget.period ?? 'monthly'
+          const { elapsed, total } = getElapsedDays(item.periodStart, item.periodEnd)
+          const isRunning = elapsed > 0 && elapsed < total
+          // Expected and projected spending as shares of the bar
+          const available = item.budget.amount + (item.carriedIn ?? 0)
+          const toPercent = (amount: number) =>
+            available > 0 ? Math.min((amount / available) * 100, 100) : 100
+          const pace = item.spent - item.expectedSpend
+          const periodKey = item.ledger?.[item.ledger.length - 1]?.periodKey
 
           return (
             <div
@@ -173,18 +238,57 @@ export function BudgetOverview({ budgetStatus, onManageBudgets }: BudgetOverview
               className={`rounded-xl border p-4 ${colors.border} ${colors.light}`}
             >
               <div className="mb-2 flex items-center justify-between">
-                <span className="font-semibold text-gray-900">{item.budget.category}</span>
-                <span className={`text-sm font-bold ${colors.text}`}>
-                  {item.percentUsed.toFixed(0)}%
-                </span>
+                <div>
+                  <span className="font-semibold text-gray-900">
+                    {formatCategoryLabel(item.budget.category, customCategories)}
+                  </span>
+                  <p className="text-xs text-gray-500">
+                    {formatPeriodLabel(period, item.periodStart)}
+                    {elapsed === 0
+                      ? ', not started'
+                      : elapsed < total
+                        ? `, day ${elapsed} of ${total}`
+                        : ', ended'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {item.ledger && (
+                    <button
+                      onClick={() => setExpandedCategory(isExpanded ? null : item.budget.category)}
+                      title="Balance history"
+                      className={`rounded-lg p-1 transition-colors hover:bg-white ${
+                        isExpanded ? 'text-amber-600' : 'text-gray-400'
+                      }`}
+                    >
+                      <History className="h-4 w-4" />
+                    </button>
+                  )}
+                  <span className={`text-sm font-bold ${colors.text}`}>
+                    {item.percentUsed.toFixed(0)}%
+                  </span>
+                </div>
               </div>
 
               {/* Progress Bar */}
-              <div className="mb-2 h-3 overflow-hidden rounded-full bg-white">
+              <div className="relative mb-2 h-3 overflow-hidden rounded-full bg-white">
+                {isRunning && (
+                  <div
+                    title="Projected by the end of the period"
+                    className={`absolute inset-y-0 left-0 ${colors.bg} opacity-30 transition-all duration-500`}
+                    style={{ width: `${toPercent(item.projectedSpend)}%` }}
+                  />
+                )}
                 <div
-                  className={`h-full ${colors.bg} transition-all duration-500`}
+                  className={`relative h-full ${colors.bg} transition-all duration-500`}
                   style={{ width: `${percentCapped}%` }}
                 />
+                {isRunning && (
+                  <div
+                    title="Expected by today"
+                    className="absolute inset-y-0 w-0.5 bg-gray-900/40"
+                    style={{ left: `${toPercent(item.expectedSpend)}%` }}
+                  />
+                )}
               </div>
 
               <div className="flex items-center justify-between text-sm">
@@ -197,6 +301,98 @@ export function BudgetOverview({ budgetStatus, onManageBudgets }: BudgetOverview
                     : `${formatCurrency(Math.abs(item.remaining))} over`}
                 </span>
               </div>
+
+              {/* Pace against the expected spending so far */}
+              {isRunning && (
+                <div className="mt-1 flex items-center justify-between text-xs text-gray-500">
+                  <span>
+                    {Math.abs(pace) < 0.005
+                      ? 'On pace'
+                      : `${formatCurrency(Math.abs(pace))} ${pace > 0 ? 'ahead of' : 'behind'} pace`}
+                  </span>
+                  <span
+                    className={item.projectedSpend > available ? 'font-semibold text-red-600' : ''}
+                  >
+                    {formatCurrency(item.projectedSpend)} projected
+                  </span>
+                </div>
+              )}
+
+              {/* Carried balance and envelope funding */}
+              {(!!item.carriedIn || budgetMode === 'envelope') && (
+                <div className="mt-2 flex items-center justify-between gap-3 text-xs text-gray-500">
+                  <span>
+                    {item.carriedIn
+                      ? `${formatCurrency(Math.abs(item.carriedIn))} ${
+                          item.carriedIn > 0 ? 'carried over' : 'overspent last period'
+                        }`
+                      : 'Nothing carried over'}
+                  </span>
+                  {budgetMode === 'envelope' && (
+                    <label className="flex items-center gap-2">
+                      Assigned
+                      <input
+                        key={`${item.budget.category}-${item.budget.amount}`}
+                        type="number"
+                        min="0"
+                        step="50"
+                        defaultValue={item.budget.amount}
+                        onBlur={(e) => {
+                          const value = parseFloat(e.target.value)
+                          if (periodKey && value >= 0 && value !== item.budget.amount) {
+                            onAssign(item.budget.category, periodKey, value)
+                          }
+                        }}
+                        className="w-24 rounded-lg border border-gray-200 bg-white px-2 py-1 text-right text-xs text-gray-900 focus:border-amber-500 focus:outline-none"
+                      />
+                    </label>
+                  )}
+                </div>
+              )}
+
+              {/* Period-by-period balances, newest first */}
+              {isExpanded && item.ledger && (
+                <div className="mt-3 max-h-60 overflow-y-auto rounded-lg bg-white">
+                  <table className="w-full text-xs">
+                    <thead className="sticky top-0 bg-white">
+                      <tr className="border-b border-gray-200 text-gray-500">
+                        <th className="px-3 py-2 text-left font-semibold">Period</th>
+                        <th className="px-3 py-2 text-right font-semibold">
+                          {budgetMode === 'envelope' ? 'Assigned' : 'Budget'}
+                        </th>
+                        <th className="px-3 py-2 text-right font-semibold">Carried In</th>
+                        <th className="px-3 py-2 text-right font-semibold">Spent</th>
+                        <th className="px-3 py-2 text-right font-semibold">Carried Out</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {[...item.ledger].reverse().map((entry) => (
+                        <tr key={entry.periodKey} className="border-b border-gray-100">
+                          <td className="px-3 py-2 text-gray-700">
+                            {formatPeriodLabel(period, entry.periodStart)}
+                          </td>
+                          <td className="px-3 py-2 text-right text-gray-700">
+                            {formatCurrency(entry.amount)}
+                          </td>
+                          <td className="px-3 py-2 text-right text-gray-700">
+                            {formatCurrency(entry.carriedIn)}
+                          </td>
+                          <td className="px-3 py-2 text-right text-gray-700">
+                            {formatCurrency(entry.spent)}
+                          </td>
+                          <td
+                            className={`px-3 py-2 text-right font-semibold ${
+                              entry.carriedOut >= 0 ? 'text-gray-900' : 'text-red-600'
+                            }`}
+                          >
+                            {formatCurrency(entry.carriedOut)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
             </div>
           )
         })}
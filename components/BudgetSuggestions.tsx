@@ -0,0 +1,243 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { format, parse } from 'date-fns'
+import { Wand2 } from 'lucide-react'
+import { SUGGESTION_MONTHS, suggestBudgets, type SuggestionMethod } from '@/lib/suggestions'
+import { PERIOD_UNITS } from '@/lib/budgets'
+import { formatCategoryLabel } from '@/lib/categories'
+import type { AnalysisSettings } from '@/lib/analyzer'
+import { RATE_BASE } from '@/lib/currency'
+import type { Budget, Transaction } from '@/lib/types'
+
+interface BudgetSuggestionsProps {
+  transactions: Transaction[]
+  settings: AnalysisSettings
+  budgets: Budget[]
+  categories: string[] // Categories that can have a budget
+  onSave: (budgets: { category: string; amount: number }[]) => Promise<void>
+  onCancel: () => void
+}
+
+const METHOD_OPTIONS: { value: SuggestionMethod; label: string }[] = [
+  { value: 'median', label: 'Median' },
+  { value: 'trimmed-mean', label: 'Trimmed Mean' },
+  { value: 'percentile', label: 'Percentile' },
+]
+
+export function BudgetSuggestions({
+  transactions,
+  settings,
+  budgets,
+  categories,
+  onSave,
+  onCancel,
+}: BudgetSuggestionsProps) {
+  const [months, setMonths] = useState(6)
+  const [method, setMethod] = useState<SuggestionMethod>('median')
+  const [percentile, setPercentile] = useState('75')
+  const [savingsRate, setSavingsRate] = useState('10')
+  // Edits to the suggested amounts and suggestions left out, by category
+  const [edited, setEdited] = useState<Record<string, string>>({})
+  const [excluded, setExcluded] = useState<Set<string>>(new Set())
+  const [saving, setSaving] = useState(false)
+
+  const report = useMemo(
+    () =>
+      suggestBudgets(
+        transactions,
+        {
+          months,
+          method,
+          percentile: Math.min(Math.max(parseFloat(percentile) || 0, 0), 100),
+          savingsRate: Math.min(Math.max(parseFloat(savingsRate) || 0, 0), 100) / 100,
+        },
+        new Date(),
+        settings
+      ),
+    [transactions, settings, months, method, percentile, savingsRate]
+  )
+  const suggestions = report.suggestions.filter((s) => categories.includes(s.category))
+
+  const rows = suggestions.map((suggestion) => {
+    const existing = budgets.find((b) => b.category === suggestion.category)
+    const amount = parseFloat(edited[suggestion.category] ?? String(suggestion.amount))
+    // Saving an unchanged monthly budget would only add a revision
+    const unchanged = existing?.amount === amount && (existing.period ?? 'monthly') === 'monthly'
+    const accepted = !excluded.has(suggestion.category) && amount > 0 && !unchanged
+    return { suggestion, existing, amount, accepted }
+  })
+  const accepted = rows.filter((r) => r.accepted)
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-CH', {
+      style: 'currency',
+      currency: settings.currency?.reportingCurrency ?? RATE_BASE,
+    }).format(amount)
+  }
+
+  const toggle = (category: string) => {
+    const next = new Set(excluded)
+    if (next.has(category)) {
+      next.delete(category)
+    } else {
+      next.add(category)
+    }
+    setExcluded(next)
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      await onSave(accepted.map((r) => ({ category: r.suggestion.category, amount: r.amount })))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Options */}
+      <div className="space-y-3 rounded-xl bg-gray-50 p-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-gray-700">Suggest from History</h3>
+          <button
+            onClick={onCancel}
+            className="text-xs font-medium text-amber-600 hover:text-amber-800"
+          >
+            Cancel
+          </button>
+        </div>
+        <div className="flex rounded-xl bg-gray-100 p-1">
+          {SUGGESTION_MONTHS.map((option) => (
+            <button
+              key={option}
+              onClick={() => setMonths(option)}
+              className={`flex-1 rounded-lg px-3 py-1.5 text-xs font-semibold transition-colors ${
+                months === option
+                  ? 'bg-white text-amber-700 shadow'
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              Last {option} months
+            </button>
+          ))}
+        </div>
+        <div className="flex rounded-xl bg-gray-100 p-1">
+          {METHOD_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setMethod(option.value)}
+              className={`flex-1 rounded-lg px-3 py-1.5 text-xs font-semibold transition-colors ${
+                method === option.value
+                  ? 'bg-white text-amber-700 shadow'
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-3 text-sm text-gray-700">
+          {method === 'percentile' && (
+            <label className="flex flex-1 items-center gap-2">
+              Percentile
+              <input
+                type="number"
+                min="0"
+                max="100"
+                step="5"
+                value={percentile}
+                onChange={(e) => setPercentile(e.target.value)}
+                className="w-20 rounded-lg border-2 border-gray-200 px-2 py-1 text-sm transition-colors focus:border-amber-500 focus:outline-none"
+              />
+            </label>
+          )}
+          <label className="flex flex-1 items-center gap-2">
+            Save
+            <input
+              type="number"
+              min="0"
+              max="100"
+              step="5"
+              value={savingsRate}
+              onChange={(e) => setSavingsRate(e.target.value)}
+              className="w-20 rounded-lg border-2 border-gray-200 px-2 py-1 text-sm transition-colors focus:border-amber-500 focus:outline-none"
+            />
+            % of income
+          </label>
+        </div>
+        {report.months.length > 0 && (
+          <p className="text-xs text-gray-500">
+            {format(parse(report.months[0], 'yyyy-MM', new Date()), 'MMM yyyy')} –{' '}
+            {format(
+              parse(report.months[report.months.length - 1], 'yyyy-MM', new Date()),
+              'MMM yyyy'
+            )}
+            : {formatCurrency(report.averageIncome)} income and{' '}
+            {formatCurrency(report.typicalSpending)} typical spending per month
+            {report.scale < 1 &&
+              `, suggestions reduced by ${Math.round((1 - report.scale) * 100)}% to reach the savings rate`}
+          </p>
+        )}
+      </div>
+
+      {/* Suggestions */}
+      {rows.length === 0 ? (
+        <div className="py-8 text-center">
+          <Wand2 className="mx-auto mb-3 h-12 w-12 text-gray-300" />
+          <p className="font-medium text-gray-600">No suggestions</p>
+          <p className="text-sm text-gray-500">
+            Suggestions need at least one complete month of spending
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {rows.map(({ suggestion, existing, amount, accepted: isAccepted }) => (
+            <div
+              key={suggestion.category}
+              className={`flex items-center gap-3 rounded-xl border p-3 transition-colors ${
+                isAccepted ? 'border-amber-200 bg-amber-50' : 'border-gray-200 bg-white'
+              }`}
+            >
+              <input
+                type="checkbox"
+                checked={!excluded.has(suggestion.category)}
+                onChange={() => toggle(suggestion.category)}
+                className="h-4 w-4 accent-amber-500"
+              />
+              <div className="min-w-0 flex-1">
+                <p className="truncate font-semibold text-gray-900">
+                  {formatCategoryLabel(suggestion.category, settings.customCategories ?? [])}
+                </p>
+                <p className="text-xs text-gray-500">
+                  Typically {formatCurrency(suggestion.typical)}
+                  {existing &&
+                    `, budget now ${formatCurrency(existing.amount)}/${PERIOD_UNITS[existing.period ?? 'monthly']}`}
+                </p>
+              </div>
+              <input
+                type="number"
+                min="0"
+                step="10"
+                value={edited[suggestion.category] ?? suggestion.amount}
+                onChange={(e) => setEdited({ ...edited, [suggestion.category]: e.target.value })}
+                className={`w-28 rounded-lg border-2 px-2 py-1 text-right text-sm transition-colors focus:border-amber-500 focus:outline-none ${
+                  amount > 0 ? 'border-gray-200' : 'border-red-300'
+                }`}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <button
+        onClick={handleSave}
+        disabled={accepted.length === 0 || saving}
+        className="w-full rounded-xl bg-amber-500 py-3 font-semibold text-white transition-colors hover:bg-amber-600 disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        Save {accepted.length} monthly budget{accepted.length === 1 ? '' : 's'}
+      </button>
+    </div>
+  )
+}
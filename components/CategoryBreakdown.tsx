@@ -2,13 +2,24 @@
 
 import { useState, useMemo } from 'react'
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from 'recharts'
-import { ChevronRight, Filter, X } from 'lucide-react'
+import { ChevronRight, CornerDownRight, Filter, Layers, X } from 'lucide-react'
 import { CategoryDetails } from './CategoryDetails'
-import type { CategorySummary, BudgetWithSpending } from '@/lib/types'
+import { rollUpCategories } from '@/lib/analyzer'
+import { getParentCategory } from '@/lib/categories'
+import type {
+  CategorySummary,
+  CategoryGroup,
+  BudgetWithSpending,
+  MerchantAlias,
+  CustomCategory,
+} from '@/lib/types'
 
 interface CategoryBreakdownProps {
   categories: CategorySummary[]
   budgetStatus?: BudgetWithSpending[]
+  merchantAliases?: MerchantAlias[]
+  currency: string // Reporting currency
+  customCategories: CustomCategory[]
 }
 
 const COLORS = [
@@ -36,15 +47,31 @@ const BUDGET_STATUS_COLORS = {
   over: 'bg-red-500',
 }
 
-export function CategoryBreakdown({ categories, budgetStatus = [] }: CategoryBreakdownProps) {
+export function CategoryBreakdown({
+  categories,
+  budgetStatus = [],
+  merchantAliases,
+  currency,
+  customCategories,
+}: CategoryBreakdownProps) {
   const [selectedCategory, setSelectedCategory] = useState<CategorySummary | null>(null)
   const [excludedCategories, setExcludedCategories] = useState<Set<string>>(new Set())
   const [showFilterPanel, setShowFilterPanel] = useState(false)
+  const [groupSubcategories, setGroupSubcategories] = useState(false)
+
+  const hasSubcategories = categories.some(
+    (cat) => getParentCategory(cat.category, customCategories) !== null
+  )
+
+  // Either leaf categories or parents with their subcategories rolled up
+  const displayedCategories = useMemo((): (CategorySummary | CategoryGroup)[] => {
+    return groupSubcategories ? rollUpCategories(categories, customCategories) : categories
+  }, [categories, groupSubcategories, customCategories])
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-CH', {
       style: 'currency',
-      currency: 'CHF',
+      currency,
     }).format(amount)
   }
 
@@ -55,14 +82,14 @@ export function CategoryBreakdown({ categories, budgetStatus = [] }: CategoryBre
 
   // Filter categories and recalculate percentages
   const filteredCategories = useMemo(() => {
-    const filtered = categories.filter((cat) => !excludedCategories.has(cat.category))
+    const filtered = displayedCategories.filter((cat) => !excludedCategories.has(cat.category))
     const totalSpent = filtered.reduce((sum, cat) => sum + cat.totalSpent, 0)
 
     return filtered.map((cat) => ({
       ...cat,
       percentage: totalSpent > 0 ? (cat.totalSpent / totalSpent) * 100 : 0,
     }))
-  }, [categories, excludedCategories])
+  }, [displayedCategories, excludedCategories])
 
   const chartData = filteredCategories.map((cat) => ({
     name: cat.category,
@@ -90,8 +117,10 @@ export function CategoryBreakdown({ categories, budgetStatus = [] }: CategoryBre
     <>
       {selectedCategory && (
         <CategoryDetails
+          currency={currency}
           category={selectedCategory.category}
           transactions={selectedCategory.transactions}
+          merchantAliases={merchantAliases}
           onClose={() => setSelectedCategory(null)}
         />
       )}
@@ -102,22 +131,41 @@ export function CategoryBreakdown({ categories, budgetStatus = [] }: CategoryBre
             <h2 className="mb-2 text-3xl font-bold text-gray-900">Spending by Category</h2>
             <p className="text-gray-600">Click any category to explore transactions</p>
           </div>
-          <button
-            onClick={() => setShowFilterPanel(!showFilterPanel)}
-            className={`flex items-center gap-2 rounded-xl px-4 py-2 font-semibold transition-all ${
-              excludedCategories.size > 0
-                ? 'border-2 border-blue-300 bg-blue-100 text-blue-700'
-                : 'border-2 border-transparent bg-gray-100 text-gray-700 hover:bg-gray-200'
-            }`}
-          >
-            <Filter className="h-4 w-4" />
-            Filter
-            {excludedCategories.size > 0 && (
-              <span className="rounded-full bg-blue-600 px-2 py-0.5 text-xs text-white">
-                {excludedCategories.size}
-              </span>
+          <div className="flex gap-2">
+            {hasSubcategories && (
+              <button
+                onClick={() => {
+                  setGroupSubcategories(!groupSubcategories)
+                  setExcludedCategories(new Set())
+                }}
+                title="Roll subcategories up into their parent category"
+                className={`flex items-center gap-2 rounded-xl px-4 py-2 font-semibold transition-all ${
+                  groupSubcategories
+                    ? 'border-2 border-blue-300 bg-blue-100 text-blue-700'
+                    : 'border-2 border-transparent bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                <Layers className="h-4 w-4" />
+                Group
+              </button>
             )}
-          </button>
+            <button
+              onClick={() => setShowFilterPanel(!showFilterPanel)}
+              className={`flex items-center gap-2 rounded-xl px-4 py-2 font-semibold transition-all ${
+                excludedCategories.size > 0
+                  ? 'border-2 border-blue-300 bg-blue-100 text-blue-700'
+                  : 'border-2 border-transparent bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              <Filter className="h-4 w-4" />
+              Filter
+              {excludedCategories.size > 0 && (
+                <span className="rounded-full bg-blue-600 px-2 py-0.5 text-xs text-white">
+                  {excludedCategories.size}
+                </span>
+              )}
+            </button>
+          </div>
         </div>
 
         {/* Filter Panel */}
@@ -135,7 +183,7 @@ export function CategoryBreakdown({ categories, budgetStatus = [] }: CategoryBre
               )}
             </div>
             <div className="flex flex-wrap gap-2">
-              {categories.map((cat, index) => {
+              {displayedCategories.map((cat, index) => {
                 const isExcluded = excludedCategories.has(cat.category)
                 return (
                   <button
@@ -218,64 +266,91 @@ export function CategoryBreakdown({ categories, budgetStatus = [] }: CategoryBre
           <div className="max-h-[500px] space-y-2 overflow-y-auto lg:col-span-2">
             {filteredCategories.map((category, index) => {
               const budget = getBudgetForCategory(category.category)
+              const subcategories = 'subcategories' in category ? category.subcategories : []
               return (
-                <button
-                  key={category.category}
-                  onClick={() => setSelectedCategory(category)}
-                  className="group flex w-full flex-col rounded-xl border-2 border-transparent p-4 transition-all hover:border-gray-200 hover:bg-gray-50"
-                >
-                  <div className="flex w-full items-center justify-between">
-                    <div className="flex flex-1 items-center gap-3">
-                      <div
-                        className="h-5 w-5 flex-shrink-0 rounded-lg shadow-sm"
-                        style={{ backgroundColor: COLORS[index % COLORS.length] }}
-                      />
-                      <div className="flex-1 text-left">
-                        <p className="text-sm font-semibold text-gray-800 group-hover:text-gray-900">
-                          {category.category}
-                        </p>
-                        <p className="text-xs text-gray-500">
-                          {category.count} transactions • {category.percentage.toFixed(1)}%
+                <div key={category.category}>
+                  <button
+                    onClick={() => setSelectedCategory(category)}
+                    className="group flex w-full flex-col rounded-xl border-2 border-transparent p-4 transition-all hover:border-gray-200 hover:bg-gray-50"
+                  >
+                    <div className="flex w-full items-center justify-between">
+                      <div className="flex flex-1 items-center gap-3">
+                        <div
+                          className="h-5 w-5 flex-shrink-0 rounded-lg shadow-sm"
+                          style={{ backgroundColor: COLORS[index % COLORS.length] }}
+                        />
+                        <div className="flex-1 text-left">
+                          <p className="text-sm font-semibold text-gray-800 group-hover:text-gray-900">
+                            {category.category}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {category.count} transactions • {category.percentage.toFixed(1)}%
+                            {(category.refunded ?? 0) > 0 &&
+                              ` • ${formatCurrency(category.refunded!)} refunded`}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <p className="text-sm font-bold text-gray-900">
+                          {formatCurrency(category.totalSpent)}
                         </p>
+                        <ChevronRight className="h-4 w-4 text-gray-400 group-hover:text-blue-600" />
                       </div>
                     </div>
-                    <div className="flex items-center gap-2">
-                      <p className="text-sm font-bold text-gray-900">
-                        {formatCurrency(category.totalSpent)}
-                      </p>
-                      <ChevronRight className="h-4 w-4 text-gray-400 group-hover:text-blue-600" />
-                    </div>
-                  </div>
-                  {/* Budget Progress Indicator */}
-                  {budget && (
-                    <div className="mt-2 w-full">
-                      <div className="mb-1 flex items-center justify-between text-xs">
-                        <span
-                          className={`font-medium ${
-                            budget.status === 'over'
-                              ? 'text-red-600'
-                              : budget.status === 'warning'
-                                ? 'text-yellow-600'
-                                : budget.status === 'early'
-                                  ? 'text-blue-600'
-                                  : 'text-green-600'
-                          }`}
-                        >
-                          {budget.percentUsed.toFixed(0)}% of budget
-                        </span>
-                        <span className="text-gray-500">
-                          {formatCurrency(budget.budget.amount)} limit
-                        </span>
-                      </div>
-                      <div className="h-1.5 overflow-hidden rounded-full bg-gray-200">
-                        <div
-                          className={`h-full ${BUDGET_STATUS_COLORS[budget.status]} transition-all`}
-                          style={{ width: `${Math.min(budget.percentUsed, 100)}%` }}
-                        />
+                    {/* Budget Progress Indicator */}
+                    {budget && (
+                      <div className="mt-2 w-full">
+                        <div className="mb-1 flex items-center justify-between text-xs">
+                          <span
+                            className={`font-medium ${
+                              budget.status === 'over'
+                                ? 'text-red-600'
+                                : budget.status === 'warning'
+                                  ? 'text-yellow-600'
+                                  : budget.status === 'early'
+                                    ? 'text-blue-600'
+                                    : 'text-green-600'
+                            }`}
+                          >
+                            {budget.percentUsed.toFixed(0)}% of budget
+                          </span>
+                          <span className="text-gray-500">
+                            {formatCurrency(budget.budget.amount)} limit
+                          </span>
+                        </div>
+                        <div className="h-1.5 overflow-hidden rounded-full bg-gray-200">
+                          <div
+                            className={`h-full ${BUDGET_STATUS_COLORS[budget.status]} transition-all`}
+                            style={{ width: `${Math.min(budget.percentUsed, 100)}%` }}
+                          />
+                        </div>
                       </div>
+                    )}
+                  </button>
+                  {/* Drill into subcategories */}
+                  {subcategories.length > 0 && (
+                    <div className="mb-2 ml-12 space-y-1">
+                      {subcategories.map((sub) => (
+                        <button
+                          key={sub.category}
+                          onClick={() => setSelectedCategory(sub)}
+                          className="flex w-full items-center justify-between rounded-lg px-3 py-1.5 text-sm transition-colors hover:bg-gray-50"
+                        >
+                          <span className="flex items-center gap-2 text-gray-700">
+                            <CornerDownRight className="h-3 w-3 text-gray-400" />
+                            {sub.category}
+                            <span className="text-xs text-gray-500">
+                              {((sub.totalSpent / category.totalSpent) * 100).toFixed(0)}%
+                            </span>
+                          </span>
+                          <span className="font-semibold text-gray-700">
+                            {formatCurrency(sub.totalSpent)}
+                          </span>
+                        </button>
+                      ))}
                     </div>
                   )}
-                </button>
+                </div>
               )
             })}
           </div>
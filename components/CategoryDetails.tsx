@@ -1,25 +1,42 @@
 'use client'
 
+import { useState } from 'react'
 import { format } from 'date-fns'
-import { X, TrendingDown } from 'lucide-react'
-import type { Transaction } from '@/lib/types'
+import { X, TrendingDown, Store } from 'lucide-react'
+import { MerchantDetails } from './MerchantDetails'
+import { summarizeMerchants } from '@/lib/merchants'
+import type { MerchantAlias, Transaction } from '@/lib/types'
+
+const TOP_MERCHANTS = 5
 
 interface CategoryDetailsProps {
   category: string
   transactions: Transaction[]
+  merchantAliases?: MerchantAlias[]
   onClose: () => void
+  currency: string // Reporting currency
 }
 
-export function CategoryDetails({ category, transactions, onClose }: CategoryDetailsProps) {
+export function CategoryDetails({
+  category,
+  transactions,
+  merchantAliases,
+  onClose,
+  currency,
+}: CategoryDetailsProps) {
+  const [selectedMerchant, setSelectedMerchant] = useState<string | null>(null)
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-CH', {
       style: 'currency',
-      currency: 'CHF',
+      currency,
     }).format(amount)
   }
 
   const totalSpent = transactions.reduce((sum, t) => sum + (t.debit || 0), 0)
   const avgTransaction = totalSpent / transactions.length
+  const merchants = summarizeMerchants(transactions, merchantAliases)
+  const merchantSummary = merchants.find((m) => m.merchant === selectedMerchant)
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
@@ -53,6 +70,27 @@ export function CategoryDetails({ category, transactions, onClose }: CategoryDet
         </div>
 
         <div className="max-h-[calc(90vh-220px)] overflow-y-auto p-6">
+          {merchants.length > 1 && (
+            <div className="mb-6">
+              <h3 className="mb-3 text-sm font-semibold text-gray-700">Top merchants</h3>
+              <div className="flex flex-wrap gap-2">
+                {merchants.slice(0, TOP_MERCHANTS).map((merchant) => (
+                  <button
+                    key={merchant.merchant}
+                    onClick={() => setSelectedMerchant(merchant.merchant)}
+                    className="flex items-center gap-2 rounded-lg border border-gray-200 px-3 py-2 text-sm transition-colors hover:border-amber-300 hover:bg-amber-50"
+                  >
+                    <Store className="h-4 w-4 text-amber-500" />
+                    <span className="font-semibold text-gray-900">{merchant.merchant}</span>
+                    <span className="text-gray-500">
+                      {merchant.count}× • {formatCurrency(merchant.totalSpent)}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div className="space-y-3">
             {transactions
               .sort((a, b) => (b.debit || 0) - (a.debit || 0))
@@ -101,6 +139,14 @@ export function CategoryDetails({ category, transactions, onClose }: CategoryDet
           </div>
         </div>
       </div>
+
+      {merchantSummary && (
+        <MerchantDetails
+          currency={currency}
+          summary={merchantSummary}
+          onClose={() => setSelectedMerchant(null)}
+        />
+      )}
     </div>
   )
 }
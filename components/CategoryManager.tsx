@@ -0,0 +1,224 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { X, Plus, Trash2, FolderTree, ChevronDown, CornerDownRight } from 'lucide-react'
+import { getAllCustomCategories, saveCustomCategory, deleteCustomCategory } from '@/lib/db'
+import { getAllCategories, getParentCategory, validateCategory } from '@/lib/categories'
+import type { CustomCategory } from '@/lib/types'
+
+interface CategoryManagerProps {
+  isOpen: boolean
+  onClose: () => void
+  onCategoriesChange: () => void
+}
+
+export function CategoryManager({ isOpen, onClose, onCategoriesChange }: CategoryManagerProps) {
+  const [customCategories, setCustomCategories] = useState<CustomCategory[]>([])
+  const [loading, setLoading] = useState(true)
+  const [name, setName] = useState('')
+  const [parent, setParent] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  // Only top-level categories can have subcategories
+  const parentOptions = getAllCategories(customCategories).filter(
+    (c) => getParentCategory(c, customCategories) === null
+  )
+
+  useEffect(() => {
+    if (isOpen) {
+      loadCategories()
+    }
+  }, [isOpen])
+
+  const loadCategories = async () => {
+    setLoading(true)
+    try {
+      const data = await getAllCustomCategories()
+      setCustomCategories(data)
+    } catch (err) {
+      console.error('Failed to load categories:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const formError = name.trim() ? validateCategory(name, parent || null, customCategories) : null
+
+  const handleAddCategory = async () => {
+    if (!name.trim() || formError) return
+
+    setSaving(true)
+    try {
+      await saveCustomCategory(name, parent || null)
+      await loadCategories()
+      onCategoriesChange()
+      setName('')
+    } catch (err) {
+      console.error('Failed to save category:', err)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDeleteCategory = async (category: CustomCategory) => {
+    const children = customCategories.filter((c) => c.parent === category.name)
+    if (
+      children.length > 0 &&
+      !confirm(`Delete "${category.name}" and its ${children.length} subcategories?`)
+    ) {
+      return
+    }
+
+    try {
+      await deleteCustomCategory(category.id!)
+      await loadCategories()
+      onCategoriesChange()
+    } catch (err) {
+      console.error('Failed to delete category:', err)
+    }
+  }
+
+  // Group custom categories under their parent, built-in or custom
+  const groups = parentOptions
+    .map((category) => ({
+      category,
+      custom: customCategories.find((c) => c.name === category),
+      children: customCategories.filter((c) => c.parent === category),
+    }))
+    .filter((g) => g.custom || g.children.length > 0)
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm">
+      <div className="flex max-h-[90vh] w-full max-w-lg flex-col overflow-hidden rounded-2xl bg-white shadow-2xl">
+        {/* Header */}
+        <div className="flex items-center justify-between border-b bg-gradient-to-r from-emerald-500 to-teal-500 p-6">
+          <div className="flex items-center gap-3">
+            <div className="rounded-xl bg-white/20 p-2">
+              <FolderTree className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-white">Manage Categories</h2>
+              <p className="text-sm text-emerald-100">Add your own categories and subcategories</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="rounded-xl p-2 transition-colors hover:bg-white/20">
+            <X className="h-6 w-6 text-white" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="h-8 w-8 animate-spin rounded-full border-4 border-emerald-500 border-t-transparent"></div>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {/* Add Category Form */}
+              <div className="rounded-xl bg-gray-50 p-4">
+                <h3 className="mb-3 text-sm font-semibold text-gray-700">Add New Category</h3>
+                <div className="flex gap-3">
+                  <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleAddCategory()}
+                    placeholder="e.g. Childcare"
+                    className="flex-1 rounded-xl border-2 border-gray-200 p-3 text-sm transition-colors focus:border-emerald-500 focus:outline-none"
+                  />
+                  <div className="relative w-44">
+                    <select
+                      value={parent}
+                      onChange={(e) => setParent(e.target.value)}
+                      className="w-full cursor-pointer appearance-none rounded-xl border-2 border-gray-200 bg-white p-3 pr-10 text-sm transition-colors hover:border-emerald-300 focus:border-emerald-500 focus:outline-none"
+                    >
+                      <option value="">Top level</option>
+                      {parentOptions.map((cat) => (
+                        <option key={cat} value={cat}>
+                          Under {cat}
+                        </option>
+                      ))}
+                    </select>
+                    <ChevronDown className="pointer-events-none absolute right-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+                  </div>
+                  <button
+                    onClick={handleAddCategory}
+                    disabled={!name.trim() || !!formError || saving}
+                    className="rounded-xl bg-emerald-500 px-4 py-3 text-white transition-colors hover:bg-emerald-600 disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    <Plus className="h-5 w-5" />
+                  </button>
+                </div>
+                {formError && <p className="mt-2 text-xs text-red-600">{formError}</p>}
+              </div>
+
+              {/* Category List */}
+              {groups.length === 0 ? (
+                <div className="py-8 text-center">
+                  <FolderTree className="mx-auto mb-3 h-12 w-12 text-gray-300" />
+                  <p className="font-medium text-gray-600">No custom categories</p>
+                  <p className="text-sm text-gray-500">
+                    Add a category, or split a built-in one into subcategories
+                  </p>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <h3 className="text-sm font-semibold text-gray-700">Your Categories</h3>
+                  {groups.map((group) => (
+                    <div
+                      key={group.category}
+                      className="rounded-xl border border-gray-200 bg-white p-4 transition-colors hover:border-gray-300"
+                    >
+                      <div className="flex items-center justify-between">
+                        <p className="font-semibold text-gray-900">
+                          {group.category}
+                          {!group.custom && (
+                            <span className="ml-2 text-xs font-normal text-gray-500">built-in</span>
+                          )}
+                        </p>
+                        {group.custom && (
+                          <button
+                            onClick={() => handleDeleteCategory(group.custom!)}
+                            className="group rounded-lg p-2 transition-colors hover:bg-red-50"
+                          >
+                            <Trash2 className="h-4 w-4 text-gray-400 group-hover:text-red-500" />
+                          </button>
+                        )}
+                      </div>
+                      {group.children.map((child) => (
+                        <div key={child.id} className="flex items-center justify-between pl-2">
+                          <p className="flex items-center gap-2 text-sm text-gray-700">
+                            <CornerDownRight className="h-4 w-4 text-gray-400" />
+                            {child.name}
+                          </p>
+                          <button
+                            onClick={() => handleDeleteCategory(child)}
+                            className="group rounded-lg p-2 transition-colors hover:bg-red-50"
+                          >
+                            <Trash2 className="h-4 w-4 text-gray-400 group-hover:text-red-500" />
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="border-t bg-gray-50 p-4">
+          <button
+            onClick={onClose}
+            className="w-full rounded-xl bg-gray-200 py-3 font-semibold text-gray-700 transition-colors hover:bg-gray-300"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
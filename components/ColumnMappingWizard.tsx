@@ -0,0 +1,308 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { format } from 'date-fns'
+import { Columns, AlertTriangle, Check } from 'lucide-react'
+import {
+  getHeaderFingerprint,
+  guessColumnMapping,
+  guessDateFormat,
+  type BankFormat,
+  type DateFormat,
+  type MappableField,
+  type NumberFormat,
+} from '@/lib/formats'
+import { mapCSVRows, type CSVPreview } from '@/lib/parser'
+
+interface ColumnMappingWizardProps {
+  fileName: string
+  preview: CSVPreview
+  onConfirm: (fingerprint: string, bankFormat: BankFormat) => void
+  onCancel: () => void
+}
+
+// 'signedAmount' maps to the amount column with amountMode 'signed'
+type ColumnAssignment = MappableField | 'signedAmount' | ''
+
+const FIELD_OPTIONS: { value: ColumnAssignment; label: string }[] = [
+  { value: '', label: 'Ignore' },
+  { value: 'purchaseDate', label: 'Date' },
+  { value: 'bookedDate', label: 'Booking date' },
+  { value: 'bookingText', label: 'Description' },
+  { value: 'signedAmount', label: 'Amount (signed, negative = debit)' },
+  { value: 'amount', label: 'Amount (unsigned)' },
+  { value: 'debit', label: 'Debit' },
+  { value: 'credit', label: 'Credit' },
+  { value: 'currency', label: 'Currency' },
+  { value: 'sector', label: 'Sector' },
+  { value: 'originalCurrency', label: 'Original currency' },
+  { value: 'rate', label: 'Exchange rate' },
+  { value: 'accountNumber', label: 'Account number' },
+  { value: 'cardNumber', label: 'Card number' },
+  { value: 'accountHolder', label: 'Account holder' },
+]
+
+const DATE_FORMATS: DateFormat[] = ['DD.MM.YYYY', 'YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY']
+
+const NUMBER_FORMATS: { value: NumberFormat; label: string }[] = [
+  { value: 'swiss', label: "1'234.56 (Swiss)" },
+  { value: 'decimal-point', label: '1,234.56' },
+  { value: 'decimal-comma', label: '1.234,56' },
+]
+
+function initialAssignments(headers: string[]): Record<string, ColumnAssignment> {
+  const guessed = guessColumnMapping(headers)
+  const assignments: Record<string, ColumnAssignment> = {}
+  headers.forEach((h) => (assignments[h] = ''))
+
+  for (const [field, header] of Object.entries(guessed)) {
+    // A lone amount column without debit/credit columns is most likely signed
+    const signed = field === 'amount' && !guessed.debit && !guessed.credit
+    assignments[header] = signed ? 'signedAmount' : (field as MappableField)
+  }
+
+  return assignments
+}
+
+export function ColumnMappingWizard({
+  fileName,
+  preview,
+  onConfirm,
+  onCancel,
+}: ColumnMappingWizardProps) {
+  const [assignments, setAssignments] = useState(() => initialAssignments(preview.headers))
+  const [dateFormat, setDateFormat] = useState<DateFormat>(() => {
+    const dateHeader = Object.keys(assignments).find((h) => assignments[h] === 'purchaseDate')
+    return guessDateFormat(dateHeader ? preview.rows.map((r) => r[dateHeader] || '') : [])
+  })
+  const [numberFormat, setNumberFormat] = useState<NumberFormat>('swiss')
+  const [defaultCurrency, setDefaultCurrency] = useState('CHF')
+  const [name, setName] = useState(fileName.replace(/\.[^.]+$/, ''))
+
+  const fingerprint = useMemo(() => getHeaderFingerprint(preview.headers), [preview.headers])
+
+  const bankFormat = useMemo((): BankFormat => {
+    const columns: BankFormat['columns'] = {}
+    let amountMode: BankFormat['amountMode'] = 'split'
+
+    for (const [header, assignment] of Object.entries(assignments)) {
+      if (assignment === 'signedAmount') {
+        columns.amount = header
+        amountMode = 'signed'
+      } else if (assignment) {
+        columns[assignment] = header
+      }
+    }
+
+    return {
+      id: `custom:${fingerprint}`,
+      name: name.trim() || fileName,
+      headerSignature: preview.headers,
+      columns,
+      dateFormat,
+      numberFormat,
+      amountMode,
+      defaultCurrency: defaultCurrency.trim().toUpperCase() || undefined,
+    }
+  }, [
+    assignments,
+    dateFormat,
+    numberFormat,
+    defaultCurrency,
+    name,
+    fileName,
+    fingerprint,
+    preview.headers,
+  ])
+
+  const validationError = useMemo(() => {
+    const { columns } = bankFormat
+    if (!columns.purchaseDate) return 'Assign a column to Date'
+    if (!columns.bookingText) return 'Assign a column to Description'
+    if (!columns.amount && !columns.debit && !columns.credit) {
+      return 'Assign an amount column, or Debit and/or Credit columns'
+    }
+    const assigned = Object.values(assignments).filter(Boolean)
+    if (new Set(assigned).size !== assigned.length) return 'Each field can only be assigned once'
+    return null
+  }, [bankFormat, assignments])
+
+  const mappedPreview = useMemo(
+    () => (validationError ? null : mapCSVRows(preview.rows, bankFormat)),
+    [validationError, preview.rows, bankFormat]
+  )
+
+  const formatCurrency = (amount: number, currency: string) => {
+    return new Intl.NumberFormat('en-CH', {
+      style: 'currency',
+      currency: /^[A-Z]{3}$/.test(currency) ? currency : 'CHF',
+    }).format(amount)
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <div className="rounded-xl bg-blue-100 p-2">
+          <Columns className="h-6 w-6 text-blue-600" />
+        </div>
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Map CSV Columns</h2>
+          <p className="text-sm text-gray-600">
+            This export is not recognized yet. Assign each column once - the mapping is saved for
+            next time.
+          </p>
+        </div>
+      </div>
+
+      {/* Column assignment with sample rows */}
+      <div className="overflow-x-auto rounded-xl border border-gray-200">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              {preview.headers.map((header) => (
+                <th key={header} className="min-w-[160px] px-3 py-2 text-left align-top">
+                  <p className="mb-1 font-semibold text-gray-700">{header}</p>
+                  <select
+                    value={assignments[header]}
+                    onChange={(e) =>
+                      setAssignments((prev) => ({
+                        ...prev,
+                        [header]: e.target.value as ColumnAssignment,
+                      }))
+                    }
+                    className={`w-full rounded-lg border-2 px-2 py-1 text-xs focus:outline-none ${
+                      assignments[header]
+                        ? 'border-blue-300 bg-blue-50 text-blue-700'
+                        : 'border-gray-200 bg-white text-gray-500'
+                    }`}
+                  >
+                    {FIELD_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {preview.rows.map((row, index) => (
+              <tr key={index} className="border-t border-gray-100">
+                {preview.headers.map((header) => (
+                  <td key={header} className="whitespace-nowrap px-3 py-2 text-gray-600">
+                    {row[header]}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Formats */}
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+        <div>
+          <label className="mb-1 block text-xs font-semibold text-gray-500">Mapping name</label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="w-full rounded-lg border-2 border-gray-200 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none"
+          />
+        </div>
+        <div>
+          <label className="mb-1 block text-xs font-semibold text-gray-500">Date format</label>
+          <select
+            value={dateFormat}
+            onChange={(e) => setDateFormat(e.target.value as DateFormat)}
+            className="w-full rounded-lg border-2 border-gray-200 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none"
+          >
+            {DATE_FORMATS.map((f) => (
+              <option key={f} value={f}>
+                {f}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="mb-1 block text-xs font-semibold text-gray-500">Number format</label>
+          <select
+            value={numberFormat}
+            onChange={(e) => setNumberFormat(e.target.value as NumberFormat)}
+            className="w-full rounded-lg border-2 border-gray-200 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none"
+          >
+            {NUMBER_FORMATS.map((f) => (
+              <option key={f.value} value={f.value}>
+                {f.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="mb-1 block text-xs font-semibold text-gray-500">Default currency</label>
+          <input
+            type="text"
+            value={defaultCurrency}
+            onChange={(e) => setDefaultCurrency(e.target.value)}
+            maxLength={3}
+            className="w-full rounded-lg border-2 border-gray-200 px-3 py-2 text-sm uppercase focus:border-blue-500 focus:outline-none"
+          />
+        </div>
+      </div>
+
+      {/* Result preview */}
+      {validationError || !mappedPreview ? (
+        <div className="flex items-center gap-2 rounded-xl border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-700">
+          <AlertTriangle className="h-5 w-5 flex-shrink-0" />
+          <span>{validationError}</span>
+        </div>
+      ) : (
+        <div className="rounded-xl border border-gray-200 p-4">
+          <p className="mb-2 text-xs font-semibold uppercase tracking-wide text-gray-500">
+            Preview
+          </p>
+          <div className="space-y-1">
+            {mappedPreview.transactions.map((t, index) => (
+              <div key={index} className="flex items-center justify-between text-sm">
+                <span className="w-28 text-gray-500">{format(t.purchaseDate, 'MMM d, yyyy')}</span>
+                <span className="flex-1 truncate px-2 text-gray-900">{t.bookingText}</span>
+                <span
+                  className={`font-semibold ${(t.debit || 0) > 0 ? 'text-red-600' : 'text-green-600'}`}
+                >
+                  {formatCurrency((t.debit || 0) - (t.credit || 0), t.currency)}
+                </span>
+              </div>
+            ))}
+          </div>
+          {mappedPreview.diagnostics.length > 0 && (
+            <div className="mt-3 flex items-center gap-2 text-sm text-yellow-700">
+              <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+              <span>
+                {mappedPreview.diagnostics.length} value(s) in the sample could not be read - check
+                the date and number formats
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-3">
+        <button
+          onClick={onCancel}
+          className="rounded-xl bg-gray-200 px-6 py-3 font-semibold text-gray-700 transition-colors hover:bg-gray-300"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onConfirm(fingerprint, bankFormat)}
+          disabled={!!validationError}
+          className="flex items-center gap-2 rounded-xl bg-gradient-to-r from-blue-600 to-purple-600 px-6 py-3 font-semibold text-white shadow-lg transition-all hover:from-blue-700 hover:to-purple-700 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          <Check className="h-5 w-5" />
+          Save Mapping &amp; Import
+        </button>
+      </div>
+    </div>
+  )
+}
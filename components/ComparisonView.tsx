@@ -5,13 +5,15 @@ import { X, GitCompare, TrendingUp, TrendingDown, Minus, ChevronDown } from 'luc
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
 import { format, startOfWeek, endOfWeek, startOfMonth, endOfMonth, getWeek } from 'date-fns'
 import { getAllAnalyses, type SavedAnalysis } from '@/lib/db'
-import { categorizeTransaction } from '@/lib/analyzer'
+import { categorizeTransaction, type AnalysisSettings } from '@/lib/analyzer'
+import { convertTransactions, RATE_BASE } from '@/lib/currency'
 import type { Transaction } from '@/lib/types'
 
 interface ComparisonViewProps {
   isOpen: boolean
   onClose: () => void
   currentTransactions?: Transaction[]
+  settings: AnalysisSettings // Category overrides of the current transactions, and rules
 }
 
 type PeriodType = 'monthly' | 'weekly'
@@ -31,7 +33,12 @@ interface CategoryComparison {
   percentChange: number
 }
 
-export function ComparisonView({ isOpen, onClose, currentTransactions }: ComparisonViewProps) {
+export function ComparisonView({
+  isOpen,
+  onClose,
+  currentTransactions,
+  settings,
+}: ComparisonViewProps) {
   const [analyses, setAnalyses] = useState<SavedAnalysis[]>([])
   const [selectedAnalysis, setSelectedAnalysis] = useState<SavedAnalysis | null>(null)
   const [periodType, setPeriodType] = useState<PeriodType>('monthly')
@@ -60,6 +67,7 @@ export function ComparisonView({ isOpen, onClose, currentTransactions }: Compari
           uploadDate: new Date(),
           transactions: currentTransactions,
           report: null as any, // Not needed for comparison
+          categoryOverrides: Object.fromEntries(settings.categoryOverrides ?? new Map()),
         })
       } else if (data.length > 0) {
         setSelectedAnalysis(data[0])
@@ -131,7 +139,7 @@ export function ComparisonView({ isOpen, onClose, currentTransactions }: Compari
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-CH', {
       style: 'currency',
-      currency: 'CHF',
+      currency: settings.currency?.reportingCurrency ?? RATE_BASE,
     }).format(amount)
   }
 
@@ -147,16 +155,17 @@ export function ComparisonView({ isOpen, onClose, currentTransactions }: Compari
     const period = availablePeriods.find((p) => p.key === periodKey)
     if (!period) return []
 
-    return selectedAnalysis.transactions.filter((t) => {
+    const inPeriod = selectedAnalysis.transactions.filter((t) => {
       const date = new Date(t.purchaseDate)
       if (isNaN(date.getTime())) return false
       return date >= period.start && date <= period.end
     })
+    return convertTransactions(inPeriod, settings.currency)
   }
 
   // Calculate comparison data
   const comparisonData = useMemo(() => {
-    if (!selectedPeriod1 || !selectedPeriod2) return null
+    if (!selectedAnalysis || !selectedPeriod1 || !selectedPeriod2) return null
 
     const transactions1 = getTransactionsForPeriod(selectedPeriod1)
     const transactions2 = getTransactionsForPeriod(selectedPeriod2)
@@ -170,17 +179,21 @@ export function ComparisonView({ isOpen, onClose, currentTransactions }: Compari
     const totalDiff = total2 - total1
     const totalPercentChange = total1 > 0 ? ((total2 - total1) / total1) * 100 : 0
 
-    // Category breakdown
+    // Category breakdown, with the manual categories saved with the analysis
+    const analysisSettings = {
+      ...settings,
+      categoryOverrides: new Map(Object.entries(selectedAnalysis.categoryOverrides)),
+    }
     const categoryMap1 = new Map<string, number>()
     const categoryMap2 = new Map<string, number>()
 
     transactions1.forEach((t) => {
-      const cat = categorizeTransaction(t)
+      const cat = categorizeTransaction(t, analysisSettings)
       categoryMap1.set(cat, (categoryMap1.get(cat) || 0) + (t.debit || 0))
     })
 
     transactions2.forEach((t) => {
-      const cat = categorizeTransaction(t)
+      const cat = categorizeTransaction(t, analysisSettings)
       categoryMap2.set(cat, (categoryMap2.get(cat) || 0) + (t.debit || 0))
     })
 
@@ -215,7 +228,7 @@ export function ComparisonView({ isOpen, onClose, currentTransactions }: Compari
       transactionCount2: transactions2.length,
       categoryComparisons,
     }
-  }, [selectedPeriod1, selectedPeriod2, selectedAnalysis, availablePeriods])
+  }, [selectedPeriod1, selectedPeriod2, selectedAnalysis, availablePeriods, settings])
 
   // Prepare chart data
   const chartData = useMemo(() => {
@@ -277,6 +290,9 @@ export function ComparisonView({ isOpen, onClose, currentTransactions }: Compari
                             uploadDate: new Date(),
                             transactions: currentTransactions,
                             report: null as any,
+                            categoryOverrides: Object.fromEntries(
+                              settings.categoryOverrides ?? new Map()
+                            ),
                           })
                         } else {
                           const selected = analyses.find((a) => a.id === id)
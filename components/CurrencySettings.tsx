@@ -0,0 +1,284 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import { X, Plus, Trash2, Coins, Upload, ChevronDown, AlertTriangle } from 'lucide-react'
+import { getAllExchangeRates, saveExchangeRates, deleteExchangeRates, saveSetting } from '@/lib/db'
+import { COMMON_CURRENCIES, RATE_BASE, parseExchangeRatesCSV } from '@/lib/currency'
+import type { ExchangeRate } from '@/lib/types'
+
+interface CurrencySettingsProps {
+  isOpen: boolean
+  onClose: () => void
+  reportingCurrency: string
+  missingRates: string[] // Booked currencies that cannot be converted
+  onSettingsChange: () => void
+}
+
+export function CurrencySettings({
+  isOpen,
+  onClose,
+  reportingCurrency,
+  missingRates,
+  onSettingsChange,
+}: CurrencySettingsProps) {
+  const [rates, setRates] = useState<ExchangeRate[]>([])
+  const [loading, setLoading] = useState(true)
+  const [date, setDate] = useState('')
+  const [currency, setCurrency] = useState('')
+  const [rate, setRate] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    if (isOpen) {
+      loadRates()
+    }
+  }, [isOpen])
+
+  const loadRates = async () => {
+    setLoading(true)
+    try {
+      const data = await getAllExchangeRates()
+      setRates(data)
+    } catch (err) {
+      console.error('Failed to load exchange rates:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // One row per currency with its latest rate
+  const tables = Array.from(new Set(rates.map((r) => r.currency)))
+    .sort()
+    .map((code) => {
+      const entries = rates
+        .filter((r) => r.currency === code)
+        .sort((a, b) => a.date.localeCompare(b.date))
+      return { currency: code, entries, latest: entries[entries.length - 1] }
+    })
+
+  const currencyOptions = Array.from(
+    new Set([...COMMON_CURRENCIES, ...tables.map((t) => t.currency)])
+  ).sort()
+
+  const handleCurrencyChange = async (code: string) => {
+    try {
+      await saveSetting('reportingCurrency', code)
+      onSettingsChange()
+    } catch (err) {
+      console.error('Failed to save reporting currency:', err)
+    }
+  }
+
+  const handleAddRate = async () => {
+    const value = parseFloat(rate)
+    if (!date || !/^[A-Za-z]{3}$/.test(currency) || !(value > 0)) return
+
+    try {
+      await saveExchangeRates([{ date, currency: currency.toUpperCase(), rate: value }])
+      await loadRates()
+      onSettingsChange()
+      setRate('')
+    } catch (err) {
+      console.error('Failed to save exchange rate:', err)
+    }
+  }
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    setError(null)
+    try {
+      const imported = parseExchangeRatesCSV(await file.text())
+      if (imported.length === 0) {
+        setError('The file contains no rates')
+        return
+      }
+      await saveExchangeRates(imported)
+      await loadRates()
+      onSettingsChange()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import rates')
+    }
+  }
+
+  const handleDeleteCurrency = async (code: string) => {
+    if (!confirm(`Delete all ${code} rates?`)) return
+
+    try {
+      await deleteExchangeRates(code)
+      await loadRates()
+      onSettingsChange()
+    } catch (err) {
+      console.error('Failed to delete exchange rates:', err)
+    }
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm">
+      <div className="flex max-h-[90vh] w-full max-w-2xl flex-col overflow-hidden rounded-2xl bg-white shadow-2xl">
+        {/* Header */}
+        <div className="flex items-center justify-between border-b bg-gradient-to-r from-yellow-500 to-amber-500 p-6">
+          <div className="flex items-center gap-3">
+            <div className="rounded-xl bg-white/20 p-2">
+              <Coins className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-white">Currency</h2>
+              <p className="text-sm text-yellow-100">Reporting currency and exchange rates</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="rounded-xl p-2 transition-colors hover:bg-white/20">
+            <X className="h-6 w-6 text-white" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="h-8 w-8 animate-spin rounded-full border-4 border-yellow-500 border-t-transparent"></div>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {/* Reporting currency */}
+              <div className="rounded-xl bg-gray-50 p-4">
+                <h3 className="mb-3 text-sm font-semibold text-gray-700">Reporting Currency</h3>
+                <div className="relative w-40">
+                  <select
+                    value={reportingCurrency}
+                    onChange={(e) => handleCurrencyChange(e.target.value)}
+                    className="w-full cursor-pointer appearance-none rounded-xl border-2 border-gray-200 bg-white p-3 pr-10 text-sm transition-colors hover:border-yellow-300 focus:border-yellow-500 focus:outline-none"
+                  >
+                    {currencyOptions.map((code) => (
+                      <option key={code} value={code}>
+                        {code}
+                      </option>
+                    ))}
+                  </select>
+                  <ChevronDown className="pointer-events-none absolute right-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+                </div>
+                {missingRates.length > 0 && (
+                  <p className="mt-3 flex items-start gap-2 text-xs text-yellow-700">
+                    <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                    No rates to convert {missingRates.join(', ')} to {reportingCurrency}. These
+                    amounts are shown unconverted.
+                  </p>
+                )}
+              </div>
+
+              {/* Add or import rates */}
+              <div className="rounded-xl bg-gray-50 p-4">
+                <h3 className="mb-1 text-sm font-semibold text-gray-700">Exchange Rates</h3>
+                <p className="mb-3 text-xs text-gray-500">
+                  {RATE_BASE} per unit of the currency, one rate per day
+                </p>
+                <div className="flex gap-3">
+                  <input
+                    type="date"
+                    value={date}
+                    onChange={(e) => setDate(e.target.value)}
+                    className="rounded-xl border-2 border-gray-200 p-3 text-sm transition-colors focus:border-yellow-500 focus:outline-none"
+                  />
+                  <input
+                    type="text"
+                    value={currency}
+                    onChange={(e) => setCurrency(e.target.value)}
+                    placeholder="EUR"
+                    maxLength={3}
+                    className="w-20 rounded-xl border-2 border-gray-200 p-3 text-sm uppercase transition-colors focus:border-yellow-500 focus:outline-none"
+                  />
+                  <input
+                    type="number"
+                    step="0.0001"
+                    min="0"
+                    value={rate}
+                    onChange={(e) => setRate(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleAddRate()}
+                    placeholder="0.9412"
+                    className="min-w-0 flex-1 rounded-xl border-2 border-gray-200 p-3 text-sm transition-colors focus:border-yellow-500 focus:outline-none"
+                  />
+                  <button
+                    onClick={handleAddRate}
+                    disabled={!date || currency.length !== 3 || !(parseFloat(rate) > 0)}
+                    className="rounded-xl bg-yellow-500 px-4 py-3 text-white transition-colors hover:bg-yellow-600 disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    <Plus className="h-5 w-5" />
+                  </button>
+                </div>
+
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv,.txt"
+                  onChange={handleImport}
+                  className="hidden"
+                />
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="mt-3 flex w-full items-center justify-center gap-2 rounded-xl border-2 border-dashed border-gray-300 p-3 text-sm font-medium text-gray-600 transition-colors hover:border-yellow-400 hover:bg-yellow-50"
+                >
+                  <Upload className="h-4 w-4" />
+                  Import CSV (date, currency, rate)
+                </button>
+                {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+              </div>
+
+              {/* Rate tables */}
+              {tables.length === 0 ? (
+                <div className="py-8 text-center">
+                  <Coins className="mx-auto mb-3 h-12 w-12 text-gray-300" />
+                  <p className="font-medium text-gray-600">No exchange rates</p>
+                  <p className="text-sm text-gray-500">
+                    Add rates to report in another currency and compare card rates
+                  </p>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {tables.map((table) => (
+                    <div
+                      key={table.currency}
+                      className="flex items-center justify-between rounded-xl border border-gray-200 bg-white p-4 transition-colors hover:border-gray-300"
+                    >
+                      <div>
+                        <p className="font-semibold text-gray-900">
+                          {table.currency}{' '}
+                          <span className="font-normal text-gray-600">
+                            {table.latest.rate} {RATE_BASE} on {table.latest.date}
+                          </span>
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {table.entries.length} rates since {table.entries[0].date}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => handleDeleteCurrency(table.currency)}
+                        className="group rounded-lg p-2 transition-colors hover:bg-red-50"
+                      >
+                        <Trash2 className="h-4 w-4 text-gray-400 group-hover:text-red-500" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="border-t bg-gray-50 p-4">
+          <button
+            onClick={onClose}
+            className="w-full rounded-xl bg-gray-200 py-3 font-semibold text-gray-700 transition-colors hover:bg-gray-300"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
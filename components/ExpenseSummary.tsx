@@ -6,13 +6,14 @@ import type { ExpenseReport } from '@/lib/types'
 
 interface ExpenseSummaryProps {
   report: ExpenseReport
+  currency: string // Reporting currency
 }
 
-export function ExpenseSummary({ report }: ExpenseSummaryProps) {
+export function ExpenseSummary({ report, currency }: ExpenseSummaryProps) {
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-CH', {
       style: 'currency',
-      currency: 'CHF',
+      currency,
     }).format(amount)
   }
 
@@ -2,21 +2,37 @@
 
 import { useRef, useState } from 'react'
 import { Upload, FileText, Loader2, X, AlertTriangle } from 'lucide-react'
+import { getBankFormats, registerBankFormat, type BankFormat } from '@/lib/formats'
+import {
+  isSupportedFile,
+  parseFile,
+  previewCSV,
+  SUPPORTED_EXTENSIONS,
+  type CSVPreview,
+  type ParseResult,
+} from '@/lib/parser'
+import { saveColumnMapping } from '@/lib/db'
+import type { Transaction } from '@/lib/types'
+import { ColumnMappingWizard } from './ColumnMappingWizard'
+import { ParseReview } from './ParseReview'
 
 const MAX_FILE_SIZE = 10 * 1024 * 1024 // 10MB
 
 interface FileUploadProps {
-  onFileUpload: (file: File) => void
-  loading?: boolean
+  onFileUpload: (fileName: string, transactions: Transaction[]) => void
   isOpen: boolean
   onClose: () => void
 }
 
-export function FileUpload({ onFileUpload, loading = false, isOpen, onClose }: FileUploadProps) {
+export function FileUpload({ onFileUpload, isOpen, onClose }: FileUploadProps) {
   const fileInputRef = useRef<HTMLInputElement>(null)
   const [dragActive, setDragActive] = useState(false)
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
   const [fileError, setFileError] = useState<string | null>(null)
+  const [mappingPreview, setMappingPreview] = useState<CSVPreview | null>(null)
+  const [pendingFile, setPendingFile] = useState<File | null>(null)
+  const [parseResult, setParseResult] = useState<ParseResult | null>(null)
+  const [loading, setLoading] = useState(false)
 
   const handleDrag = (e: React.DragEvent) => {
     e.preventDefault()
@@ -45,7 +61,7 @@ export function FileUpload({ onFileUpload, loading = false, isOpen, onClose }: F
     }
   }
 
-  const handleFile = (file: File) => {
+  const handleFile = async (file: File) => {
     setFileError(null)
 
     if (file.size > MAX_FILE_SIZE) {
@@ -53,22 +69,120 @@ export function FileUpload({ onFileUpload, loading = false, isOpen, onClose }: F
       return
     }
 
-    if (!(file.type === 'text/csv' || file.name.endsWith('.csv'))) {
-      setFileError('Please upload a CSV file.')
+    if (!isSupportedFile(file)) {
+      setFileError('Please upload a CSV, camt XML, MT940 or OFX/QFX file.')
       return
     }
 
+    // Unknown CSV exports go through the column mapping step first
+    if (file.type === 'text/csv' || file.name.toLowerCase().endsWith('.csv')) {
+      try {
+        const preview = await previewCSV(file)
+        if (!preview.format && preview.headers.length > 0) {
+          setPendingFile(file)
+          setMappingPreview(preview)
+          return
+        }
+      } catch (err) {
+        console.error('Failed to preview CSV:', err)
+      }
+    }
+
+    await importFile(file)
+  }
+
+  // Parse the file and, if some rows had problems, let the user review them first
+  const importFile = async (file: File) => {
     setSelectedFile(file)
-    onFileUpload(file)
+    setLoading(true)
+
+    try {
+      const result = await parseFile(file)
+      if (result.diagnostics.length > 0) {
+        setPendingFile(file)
+        setParseResult(result)
+        return
+      }
+      onFileUpload(file.name, result.transactions)
+      onClose()
+    } catch (err) {
+      setSelectedFile(null)
+      setFileError(err instanceof Error ? err.message : 'Failed to parse file')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleReviewConfirm = (transactions: Transaction[]) => {
+    if (!pendingFile) return
+
+    onFileUpload(pendingFile.name, transactions)
+    setPendingFile(null)
+    setParseResult(null)
     onClose()
   }
 
+  const handleReviewCancel = () => {
+    setSelectedFile(null)
+    setPendingFile(null)
+    setParseResult(null)
+  }
+
+  const handleMappingConfirm = async (fingerprint: string, bankFormat: BankFormat) => {
+    if (!pendingFile) return
+
+    try {
+      await saveColumnMapping(fingerprint, bankFormat)
+    } catch (err) {
+      console.error('Failed to save column mapping:', err)
+    }
+    registerBankFormat(bankFormat)
+
+    setMappingPreview(null)
+    await importFile(pendingFile)
+  }
+
+  const handleMappingCancel = () => {
+    setPendingFile(null)
+    setMappingPreview(null)
+  }
+
   const onButtonClick = () => {
     fileInputRef.current?.click()
   }
 
   if (!isOpen) return null
 
+  if (parseResult && pendingFile) {
+    return (
+      <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+        <div className="max-h-[90vh] w-full max-w-3xl overflow-y-auto rounded-2xl bg-white p-8 shadow-2xl">
+          <ParseReview
+            fileName={pendingFile.name}
+            result={parseResult}
+            onConfirm={handleReviewConfirm}
+            onCancel={handleReviewCancel}
+          />
+        </div>
+      </div>
+    )
+  }
+
+  if (mappingPreview && pendingFile) {
+    return (
+      <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+        <div className="max-h-[90vh] w-full max-w-5xl overflow-y-auto rounded-2xl bg-white p-8 shadow-2xl">
+          <ColumnMappingWizard
+            fileName={pendingFile.name}
+            preview={mappingPreview}
+            onConfirm={handleMappingConfirm}
+            onCancel={handleMappingCancel}
+          />
+        </div>
+      </div>
+    )
+  }
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
       <div className="relative w-full max-w-2xl rounded-2xl bg-white p-8 shadow-2xl">
@@ -93,7 +207,7 @@ export function FileUpload({ onFileUpload, loading = false, isOpen, onClose }: F
           <input
             ref={fileInputRef}
             type="file"
-            accept=".csv"
+            accept={SUPPORTED_EXTENSIONS.join(',')}
             onChange={handleChange}
             className="hidden"
             disabled={loading}
@@ -123,7 +237,7 @@ export function FileUpload({ onFileUpload, loading = false, isOpen, onClose }: F
             ) : (
               <>
                 <Upload className="mx-auto mb-6 h-20 w-20 text-gray-400" />
-                <p className="mb-3 text-2xl font-bold text-gray-800">Upload your expense CSV</p>
+                <p className="mb-3 text-2xl font-bold text-gray-800">Upload your bank statement</p>
                 <p className="mb-6 text-base text-gray-600">
                   Drag and drop your file here, or click to browse
                 </p>
@@ -146,7 +260,11 @@ export function FileUpload({ onFileUpload, loading = false, isOpen, onClose }: F
 
         <div className="mt-6 text-center text-sm text-gray-500">
           <p>
-            Supported format: CSV files with columns for account, date, description, amount, etc.
+            Supported formats:{' '}
+            {getBankFormats()
+              .map((f) => f.name)
+              .join(', ')}{' '}
+            CSV exports, ISO 20022 camt.053/054 XML, SWIFT MT940 and OFX/QFX statements
           </p>
         </div>
       </div>
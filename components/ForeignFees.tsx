@@ -0,0 +1,157 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Plane, Globe, CreditCard, AlertTriangle } from 'lucide-react'
+import { analyzeForeignFees, type FeeGroup } from '@/lib/fees'
+import type { CurrencySettings } from '@/lib/currency'
+import type { Transaction } from '@/lib/types'
+
+type FeeView = 'trip' | 'currency' | 'card'
+
+interface ForeignFeesProps {
+  transactions: Transaction[] // Booked amounts, before conversion to the reporting currency
+  currency: CurrencySettings
+}
+
+const VIEWS: { value: FeeView; label: string; icon: typeof Plane }[] = [
+  { value: 'trip', label: 'By Trip', icon: Plane },
+  { value: 'currency', label: 'By Currency', icon: Globe },
+  { value: 'card', label: 'By Card', icon: CreditCard },
+]
+
+export function ForeignFees({ transactions, currency }: ForeignFeesProps) {
+  const [view, setView] = useState<FeeView>('trip')
+
+  const report = useMemo(() => analyzeForeignFees(transactions, currency), [transactions, currency])
+
+  const groups: FeeGroup[] =
+    view === 'trip' ? report.byTrip : view === 'currency' ? report.byCurrency : report.byCard
+  const Icon = VIEWS.find((v) => v.value === view)!.icon
+  const hasMissingRates = report.purchases.some((p) => p.fxMarkup === null)
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-CH', {
+      style: 'currency',
+      currency: currency.reportingCurrency,
+    }).format(amount)
+  }
+
+  if (report.purchases.length === 0 && report.unmatchedSurcharges.length === 0) return null
+
+  return (
+    <div className="rounded-2xl border-2 border-gray-50 bg-white p-8 shadow-xl">
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="mb-2 text-3xl font-bold text-gray-900">Card Costs Abroad</h2>
+          <p className="text-gray-600">
+            Surcharges and exchange-rate markup on purchases in foreign currencies
+          </p>
+        </div>
+        <div className="flex gap-6 text-right">
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">Fees</p>
+            <p className="text-2xl font-bold text-red-600">{formatCurrency(report.totalFees)}</p>
+          </div>
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">Markup</p>
+            <p className="text-2xl font-bold text-red-600">{formatCurrency(report.totalMarkup)}</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="mb-6 flex gap-2">
+        {VIEWS.map(({ value, label, icon: ViewIcon }) => (
+          <button
+            key={value}
+            onClick={() => setView(value)}
+            className={`flex items-center gap-2 rounded-xl px-4 py-2 text-sm font-medium transition-colors ${
+              view === value
+                ? 'bg-sky-500 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            <ViewIcon className="h-4 w-4" />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b-2 border-gray-200">
+              <th className="px-4 py-3 text-left text-sm font-bold uppercase tracking-wide text-gray-700">
+                {VIEWS.find((v) => v.value === view)!.label.replace('By ', '')}
+              </th>
+              <th className="px-4 py-3 text-right text-sm font-bold uppercase tracking-wide text-gray-700">
+                Spent
+              </th>
+              <th className="px-4 py-3 text-right text-sm font-bold uppercase tracking-wide text-gray-700">
+                Fees
+              </th>
+              <th className="px-4 py-3 text-right text-sm font-bold uppercase tracking-wide text-gray-700">
+                Markup
+              </th>
+              <th className="px-4 py-3 text-right text-sm font-bold uppercase tracking-wide text-gray-700">
+                Cost
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {groups.map((group) => (
+              <tr key={group.key} className="border-b border-gray-100">
+                <td className="px-4 py-3">
+                  <div className="flex items-center gap-3">
+                    <Icon className="h-5 w-5 flex-shrink-0 text-sky-500" />
+                    <div>
+                      <p className="font-semibold text-gray-900">{group.label}</p>
+                      <p className="text-xs text-gray-500">{group.purchases.length} purchases</p>
+                    </div>
+                  </div>
+                </td>
+                <td className="px-4 py-3 text-right text-sm text-gray-700">
+                  {formatCurrency(group.spent)}
+                </td>
+                <td className="px-4 py-3 text-right text-sm text-gray-700">
+                  {formatCurrency(group.fees)}
+                </td>
+                <td className="px-4 py-3 text-right text-sm text-gray-700">
+                  {formatCurrency(group.fxMarkup)}
+                </td>
+                <td className="px-4 py-3 text-right">
+                  <span className="font-bold text-gray-900">{formatCurrency(group.totalCost)}</span>
+                  <span
+                    className={`ml-2 text-xs font-semibold ${
+                      group.costPercent > 0 ? 'text-red-600' : 'text-green-600'
+                    }`}
+                  >
+                    {group.costPercent.toFixed(2)}%
+                  </span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {(report.unmatchedSurcharges.length > 0 || hasMissingRates) && (
+        <div className="mt-4 space-y-1">
+          {report.unmatchedSurcharges.length > 0 && (
+            <p className="flex items-start gap-2 text-xs text-yellow-700">
+              <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+              {report.unmatchedSurcharges.length} surcharges could not be attributed to a purchase.
+              They are included in the total fees only.
+            </p>
+          )}
+          {hasMissingRates && (
+            <p className="flex items-start gap-2 text-xs text-yellow-700">
+              <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+              Some purchases have no reference rate, so their markup is not included. Add exchange
+              rates in the currency settings.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
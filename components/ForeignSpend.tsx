@@ -0,0 +1,132 @@
+'use client'
+
+import { useMemo } from 'react'
+import { Globe } from 'lucide-react'
+import { convertAmount, summarizeForeignSpend, type CurrencySettings } from '@/lib/currency'
+import type { Transaction } from '@/lib/types'
+
+interface ForeignSpendProps {
+  transactions: Transaction[] // Booked amounts, before conversion to the reporting currency
+  currency: CurrencySettings
+}
+
+export function ForeignSpend({ transactions, currency }: ForeignSpendProps) {
+  const summaries = useMemo(
+    () => summarizeForeignSpend(transactions, currency.rates),
+    [transactions, currency]
+  )
+
+  // Total charged in the reporting currency, null when a rate is missing
+  const charged = useMemo(() => {
+    const amounts = summaries.flatMap((s) =>
+      s.transactions.map((t) =>
+        convertAmount(
+          t.debit || 0,
+          t.currency,
+          currency.reportingCurrency,
+          t.purchaseDate,
+          currency.rates
+        )
+      )
+    )
+    return amounts.every((a) => a !== null) ? amounts.reduce((sum: number, a) => sum + a!, 0) : null
+  }, [summaries, currency])
+
+  const formatAmount = (amount: number, code: string) => {
+    return new Intl.NumberFormat('en-CH', {
+      style: 'currency',
+      currency: code,
+    }).format(amount)
+  }
+
+  if (summaries.length === 0) return null
+
+  return (
+    <div className="rounded-2xl border-2 border-gray-50 bg-white p-8 shadow-xl">
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="mb-2 text-3xl font-bold text-gray-900">Foreign Spending</h2>
+          <p className="text-gray-600">Rate paid on purchases abroad versus the reference rate</p>
+        </div>
+        {charged !== null && (
+          <div className="text-right">
+            <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">Charged</p>
+            <p className="text-2xl font-bold text-gray-900">
+              {formatAmount(charged, currency.reportingCurrency)}
+            </p>
+          </div>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b-2 border-gray-200">
+              <th className="px-4 py-3 text-left text-sm font-bold uppercase tracking-wide text-gray-700">
+                Currency
+              </th>
+              <th className="px-4 py-3 text-right text-sm font-bold uppercase tracking-wide text-gray-700">
+                Spent
+              </th>
+              <th className="px-4 py-3 text-right text-sm font-bold uppercase tracking-wide text-gray-700">
+                Charged
+              </th>
+              <th className="px-4 py-3 text-right text-sm font-bold uppercase tracking-wide text-gray-700">
+                Rate Paid
+              </th>
+              <th className="px-4 py-3 text-right text-sm font-bold uppercase tracking-wide text-gray-700">
+                Reference
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {summaries.map((summary) => {
+              const difference =
+                summary.referenceRate !== null
+                  ? (summary.effectiveRate / summary.referenceRate - 1) * 100
+                  : null
+              return (
+                <tr
+                  key={`${summary.originalCurrency}-${summary.bookedCurrency}`}
+                  className="border-b border-gray-100"
+                >
+                  <td className="px-4 py-3">
+                    <div className="flex items-center gap-3">
+                      <Globe className="h-5 w-5 flex-shrink-0 text-sky-500" />
+                      <div>
+                        <p className="font-semibold text-gray-900">{summary.originalCurrency}</p>
+                        <p className="text-xs text-gray-500">{summary.count} purchases</p>
+                      </div>
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 text-right text-sm text-gray-700">
+                    {formatAmount(summary.originalTotal, summary.originalCurrency)}
+                  </td>
+                  <td className="px-4 py-3 text-right font-semibold text-gray-900">
+                    {formatAmount(summary.bookedTotal, summary.bookedCurrency)}
+                  </td>
+                  <td className="px-4 py-3 text-right text-sm text-gray-700">
+                    {summary.effectiveRate.toFixed(4)}
+                    {difference !== null && (
+                      <span
+                        className={`ml-2 text-xs font-semibold ${
+                          difference > 0 ? 'text-red-600' : 'text-green-600'
+                        }`}
+                      >
+                        {difference > 0 ? '+' : ''}
+                        {difference.toFixed(2)}%
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-right text-sm text-gray-500">
+                    {summary.referenceRate !== null ? summary.referenceRate.toFixed(4) : 'No rates'}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
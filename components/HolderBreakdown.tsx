@@ -0,0 +1,152 @@
+'use client'
+
+import { useState } from 'react'
+import { CreditCard, Users } from 'lucide-react'
+import { CategoryDetails } from './CategoryDetails'
+import type { CategorySummary, HolderSummary, MerchantAlias } from '@/lib/types'
+
+interface HolderBreakdownProps {
+  holders: HolderSummary[]
+  merchantAliases?: MerchantAlias[]
+  currency: string // Reporting currency
+}
+
+// Categories shown as rows; the rest are summed into one line
+const MAX_CATEGORIES = 8
+
+export function HolderBreakdown({ holders, merchantAliases, currency }: HolderBreakdownProps) {
+  const [selected, setSelected] = useState<{ holder: string; summary: CategorySummary } | null>(
+    null
+  )
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-CH', {
+      style: 'currency',
+      currency,
+    }).format(amount)
+  }
+
+  if (holders.length < 2) return null
+
+  // Same rows for every holder, ordered by household spending
+  const householdTotals = new Map<string, number>()
+  holders.forEach((h) =>
+    h.categorySummaries.forEach((c) =>
+      householdTotals.set(c.category, (householdTotals.get(c.category) ?? 0) + c.totalSpent)
+    )
+  )
+  const categories = Array.from(householdTotals.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([category]) => category)
+  const shown = categories.slice(0, MAX_CATEGORIES)
+  const hasRest = categories.length > MAX_CATEGORIES
+
+  const restTotal = (holder: HolderSummary) =>
+    holder.categorySummaries
+      .filter((c) => !shown.includes(c.category))
+      .reduce((sum, c) => sum + c.totalSpent, 0)
+
+  return (
+    <>
+      {selected && (
+        <CategoryDetails
+          currency={currency}
+          category={`${selected.summary.category} – ${selected.holder}`}
+          transactions={selected.summary.transactions}
+          merchantAliases={merchantAliases}
+          onClose={() => setSelected(null)}
+        />
+      )}
+
+      <div className="rounded-2xl border-2 border-gray-50 bg-white p-8 shadow-xl">
+        <div className="mb-8">
+          <h2 className="mb-2 text-3xl font-bold text-gray-900">Spending by Cardholder</h2>
+          <p className="text-gray-600">
+            Category breakdown per person, click an amount to see the transactions
+          </p>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b-2 border-gray-200">
+                <th className="px-4 py-3 text-left text-sm font-bold uppercase tracking-wide text-gray-700">
+                  Category
+                </th>
+                {holders.map((holder) => (
+                  <th key={holder.holder} className="px-4 py-3 text-right align-top">
+                    <div className="flex items-center justify-end gap-2 text-sm font-bold uppercase tracking-wide text-gray-700">
+                      <Users className="h-4 w-4 text-blue-500" />
+                      {holder.holder}
+                    </div>
+                    {holder.cards.length > 0 && (
+                      <p className="mt-1 flex items-center justify-end gap-1 text-xs font-normal text-gray-500">
+                        <CreditCard className="h-3 w-3" />
+                        {holder.cards.join(', ')}
+                      </p>
+                    )}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {shown.map((category) => (
+                <tr key={category} className="border-b border-gray-100">
+                  <td className="px-4 py-3 text-sm font-medium text-gray-900">{category}</td>
+                  {holders.map((holder) => {
+                    const summary = holder.categorySummaries.find((c) => c.category === category)
+                    return (
+                      <td key={holder.holder} className="px-4 py-3 text-right">
+                        {summary ? (
+                          <button
+                            onClick={() => setSelected({ holder: holder.holder, summary })}
+                            className="w-full text-right transition-colors hover:text-blue-600"
+                          >
+                            <span className="text-sm font-semibold">
+                              {formatCurrency(summary.totalSpent)}
+                            </span>
+                            <div className="mt-1 h-1.5 w-full rounded-full bg-gray-100">
+                              <div
+                                className="ml-auto h-1.5 rounded-full bg-blue-500"
+                                style={{
+                                  width: `${Math.max(0, Math.min(summary.percentage, 100))}%`,
+                                }}
+                              />
+                            </div>
+                          </button>
+                        ) : (
+                          <span className="text-sm text-gray-300">–</span>
+                        )}
+                      </td>
+                    )
+                  })}
+                </tr>
+              ))}
+              {hasRest && (
+                <tr className="border-b border-gray-100">
+                  <td className="px-4 py-3 text-sm font-medium text-gray-500">Other categories</td>
+                  {holders.map((holder) => (
+                    <td key={holder.holder} className="px-4 py-3 text-right text-sm text-gray-500">
+                      {formatCurrency(restTotal(holder))}
+                    </td>
+                  ))}
+                </tr>
+              )}
+              <tr>
+                <td className="px-4 py-3 text-sm font-bold uppercase tracking-wide text-gray-700">
+                  Total
+                </td>
+                {holders.map((holder) => (
+                  <td key={holder.holder} className="px-4 py-3 text-right">
+                    <p className="font-bold text-gray-900">{formatCurrency(holder.totalSpent)}</p>
+                    <p className="text-xs text-gray-500">{holder.transactionCount} transactions</p>
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,107 @@
+'use client'
+
+import { useState } from 'react'
+import { Users, CreditCard, ChevronDown, Check } from 'lucide-react'
+import type { HolderOption } from '@/lib/holders'
+import type { HolderFilter } from '@/lib/types'
+
+interface HolderSelectorProps {
+  options: HolderOption[]
+  selected: HolderFilter | null
+  onChange: (filter: HolderFilter | null) => void
+}
+
+export function HolderSelector({ options, selected, onChange }: HolderSelectorProps) {
+  const [isOpen, setIsOpen] = useState(false)
+
+  function select(filter: HolderFilter | null): void {
+    onChange(filter)
+    setIsOpen(false)
+  }
+
+  function isSelected(filter: HolderFilter | null): boolean {
+    return filter === null
+      ? selected === null
+      : selected?.type === filter.type && selected.value === filter.value
+  }
+
+  function getDisplayLabel(): string {
+    if (!selected) return 'All cardholders'
+    if (selected.type === 'card') {
+      const holder = options.find((o) => o.cards.includes(selected.value))
+      return holder ? `${holder.holder} ${selected.value}` : selected.value
+    }
+    return selected.value
+  }
+
+  const optionClass = (filter: HolderFilter | null) =>
+    `flex w-full items-center justify-between gap-3 rounded-lg px-3 py-2 text-left text-sm font-medium transition-colors ${
+      isSelected(filter) ? 'bg-blue-100 text-blue-700' : 'text-gray-700 hover:bg-gray-100'
+    }`
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 rounded-xl bg-white/20 px-4 py-2.5 font-semibold text-white backdrop-blur-sm transition-colors hover:bg-white/30"
+      >
+        {selected?.type === 'card' ? (
+          <CreditCard className="h-4 w-4" />
+        ) : (
+          <Users className="h-4 w-4" />
+        )}
+        <span className="max-w-[240px] truncate">{getDisplayLabel()}</span>
+        <ChevronDown className={`h-4 w-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {/* Dropdown */}
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 top-full z-50 mt-2 min-w-[260px] rounded-xl border border-gray-200 bg-white shadow-2xl">
+            <div className="max-h-80 overflow-y-auto p-2">
+              <button onClick={() => select(null)} className={optionClass(null)}>
+                All cardholders
+                {isSelected(null) && <Check className="h-4 w-4" />}
+              </button>
+              {options.map((option) => {
+                const holderFilter: HolderFilter = { type: 'holder', value: option.holder }
+                return (
+                  <div key={option.holder} className="mt-1 border-t border-gray-100 pt-1">
+                    <button
+                      onClick={() => select(holderFilter)}
+                      className={optionClass(holderFilter)}
+                    >
+                      <span className="flex items-center gap-2">
+                        <Users className="h-4 w-4" />
+                        {option.holder}
+                      </span>
+                      {isSelected(holderFilter) && <Check className="h-4 w-4" />}
+                    </button>
+                    {option.cards.length > 1 &&
+                      option.cards.map((card) => {
+                        const cardFilter: HolderFilter = { type: 'card', value: card }
+                        return (
+                          <button
+                            key={card}
+                            onClick={() => select(cardFilter)}
+                            className={`${optionClass(cardFilter)} pl-9`}
+                          >
+                            <span className="flex items-center gap-2">
+                              <CreditCard className="h-4 w-4" />
+                              {card}
+                            </span>
+                            {isSelected(cardFilter) && <Check className="h-4 w-4" />}
+                          </button>
+                        )
+                      })}
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,185 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { format, isSameMonth } from 'date-fns'
+import { Lightbulb, TrendingUp, Zap, Copy, Sparkles, ChevronRight } from 'lucide-react'
+import { CategoryDetails } from './CategoryDetails'
+import { detectAnomalies, type Anomaly, type AnomalySensitivity } from '@/lib/anomalies'
+import { categorizeTransaction, type AnalysisSettings } from '@/lib/analyzer'
+import { getSetting, saveSetting } from '@/lib/db'
+import { RATE_BASE } from '@/lib/currency'
+import type { Transaction } from '@/lib/types'
+
+interface InsightsPanelProps {
+  transactions: Transaction[]
+  settings: AnalysisSettings
+}
+
+const SENSITIVITIES: AnomalySensitivity[] = ['low', 'medium', 'high']
+
+// Flags shown before "Show all"
+const INITIAL_COUNT = 5
+
+const TYPE_STYLES = {
+  'category-spike': { icon: TrendingUp, color: 'text-red-600', bg: 'bg-red-50' },
+  'merchant-spike': { icon: Zap, color: 'text-orange-600', bg: 'bg-orange-50' },
+  duplicate: { icon: Copy, color: 'text-yellow-600', bg: 'bg-yellow-50' },
+  'new-merchant': { icon: Sparkles, color: 'text-blue-600', bg: 'bg-blue-50' },
+}
+
+export function InsightsPanel({ transactions, settings }: InsightsPanelProps) {
+  const [sensitivity, setSensitivity] = useState<AnomalySensitivity>('medium')
+  const [showAll, setShowAll] = useState(false)
+  const [selected, setSelected] = useState<Anomaly | null>(null)
+
+  useEffect(() => {
+    getSetting('anomalySensitivity')
+      .then((value) => {
+        if (value && SENSITIVITIES.includes(value as AnomalySensitivity)) {
+          setSensitivity(value as AnomalySensitivity)
+        }
+      })
+      .catch((err) => console.error('Failed to load anomaly sensitivity:', err))
+  }, [])
+
+  const anomalies = useMemo(
+    () => detectAnomalies(transactions, sensitivity, settings),
+    [transactions, sensitivity, settings]
+  )
+  const visible = showAll ? anomalies : anomalies.slice(0, INITIAL_COUNT)
+  const currency = settings.currency?.reportingCurrency ?? RATE_BASE
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-CH', {
+      style: 'currency',
+      currency,
+    }).format(amount)
+  }
+
+  const handleSensitivityChange = async (value: AnomalySensitivity) => {
+    setSensitivity(value)
+    try {
+      await saveSetting('anomalySensitivity', value)
+    } catch (err) {
+      console.error('Failed to save anomaly sensitivity:', err)
+    }
+  }
+
+  const describe = (anomaly: Anomaly): { title: string; explanation: string } => {
+    const expected = formatCurrency(anomaly.expected ?? 0)
+    const amount = formatCurrency(anomaly.amount)
+    switch (anomaly.type) {
+      case 'category-spike':
+        return {
+          title: `${anomaly.category} spending spiked in ${format(anomaly.date, 'MMMM yyyy')}`,
+          explanation: `${amount} spent, against an average of ${expected} over the previous months.`,
+        }
+      case 'merchant-spike':
+        return {
+          title: `Unusually large charge at ${anomaly.merchant}`,
+          explanation: `${amount} on ${format(anomaly.date, 'MMM d, yyyy')}, while a charge here is usually ${expected}.`,
+        }
+      case 'duplicate':
+        return {
+          title: `Possible duplicate charge at ${anomaly.merchant}`,
+          explanation: `${anomaly.transactions.length} charges of ${expected} on ${format(anomaly.date, 'MMM d, yyyy')} with the same card.`,
+        }
+      case 'new-merchant':
+        return {
+          title: `First charge at ${anomaly.merchant}`,
+          explanation: `${amount} on ${format(anomaly.date, 'MMM d, yyyy')} at a merchant you have not paid before.`,
+        }
+    }
+  }
+
+  // Category spending of the flagged month
+  const selectedTransactions = selected
+    ? transactions.filter(
+        (t) =>
+          (t.debit || 0) > 0 &&
+          isSameMonth(t.purchaseDate, selected.date) &&
+          categorizeTransaction(t, settings) === selected.category
+      )
+    : []
+
+  return (
+    <>
+      {selected && (
+        <CategoryDetails
+          currency={currency}
+          category={`${selected.category} – ${format(selected.date, 'MMMM yyyy')}`}
+          transactions={selectedTransactions}
+          merchantAliases={settings.merchantAliases}
+          onClose={() => setSelected(null)}
+        />
+      )}
+
+      <div className="rounded-2xl border-2 border-gray-50 bg-white p-8 shadow-xl">
+        <div className="mb-8 flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h2 className="mb-2 text-3xl font-bold text-gray-900">Insights</h2>
+            <p className="text-gray-600">Unusual activity worth a second look</p>
+          </div>
+          <div className="flex rounded-xl bg-gray-100 p-1" title="Sensitivity">
+            {SENSITIVITIES.map((value) => (
+              <button
+                key={value}
+                onClick={() => handleSensitivityChange(value)}
+                className={`rounded-lg px-3 py-1 text-sm font-semibold capitalize transition-all ${
+                  sensitivity === value
+                    ? 'bg-white text-purple-700 shadow'
+                    : 'text-gray-600 hover:text-gray-800'
+                }`}
+              >
+                {value}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {anomalies.length === 0 ? (
+          <div className="py-8 text-center">
+            <Lightbulb className="mx-auto mb-3 h-12 w-12 text-gray-300" />
+            <p className="font-medium text-gray-600">Nothing unusual found</p>
+            <p className="text-sm text-gray-500">Try a higher sensitivity to see smaller changes</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {visible.map((anomaly) => {
+              const style = TYPE_STYLES[anomaly.type]
+              const Icon = style.icon
+              const { title, explanation } = describe(anomaly)
+              return (
+                <button
+                  key={anomaly.id}
+                  onClick={() => setSelected(anomaly)}
+                  className="group flex w-full items-start justify-between gap-4 rounded-xl border border-gray-200 p-4 text-left transition-colors hover:border-purple-300 hover:bg-purple-50"
+                >
+                  <div className="flex min-w-0 items-start gap-3">
+                    <div className={`rounded-lg p-2 ${style.bg}`}>
+                      <Icon className={`h-4 w-4 ${style.color}`} />
+                    </div>
+                    <div className="min-w-0">
+                      <p className="font-semibold text-gray-900">{title}</p>
+                      <p className="text-sm text-gray-600">{explanation}</p>
+                      <p className="mt-1 text-xs text-gray-500">{anomaly.category}</p>
+                    </div>
+                  </div>
+                  <ChevronRight className="mt-2 h-4 w-4 flex-shrink-0 text-gray-400 group-hover:text-purple-600" />
+                </button>
+              )
+            })}
+            {anomalies.length > INITIAL_COUNT && (
+              <button
+                onClick={() => setShowAll(!showAll)}
+                className="w-full rounded-xl py-2 text-sm font-medium text-purple-600 transition-colors hover:bg-purple-50"
+              >
+                {showAll ? 'Show less' : `Show all ${anomalies.length} insights`}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </>
+  )
+}
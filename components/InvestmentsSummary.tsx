@@ -17,6 +17,7 @@ import type { Transaction } from '@/lib/types'
 
 interface InvestmentsSummaryProps {
   transactions: Transaction[]
+  currency: string // Reporting currency
 }
 
 const PLATFORM_COLORS: Record<string, string> = {
@@ -28,11 +29,11 @@ const PLATFORM_COLORS: Record<string, string> = {
 
 const CHART_COLORS = ['#0052FF', '#5741D9', '#F0B90B', '#10B981', '#EF4444', '#8B5CF6']
 
-export function InvestmentsSummary({ transactions }: InvestmentsSummaryProps) {
+export function InvestmentsSummary({ transactions, currency }: InvestmentsSummaryProps) {
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-CH', {
       style: 'currency',
-      currency: 'CHF',
+      currency,
     }).format(amount)
   }
 
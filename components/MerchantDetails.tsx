@@ -0,0 +1,221 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
+import { X, Store, Pencil } from 'lucide-react'
+import { saveMerchantAlias, deleteMerchantAlias } from '@/lib/db'
+import type { MerchantSummary } from '@/lib/types'
+
+interface MerchantDetailsProps {
+  summary: MerchantSummary
+  onClose: () => void
+  // Renaming is only offered when the caller reloads the aliases afterwards
+  onAliasesChange?: () => void
+  currency: string // Reporting currency
+}
+
+export function MerchantDetails({
+  summary,
+  onClose,
+  onAliasesChange,
+  currency,
+}: MerchantDetailsProps) {
+  const [renaming, setRenaming] = useState(false)
+  const [newName, setNewName] = useState(summary.merchant)
+  const [saving, setSaving] = useState(false)
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-CH', {
+      style: 'currency',
+      currency,
+    }).format(amount)
+  }
+
+  const formatDate = (date: Date) => (isNaN(date.getTime()) ? '-' : format(date, 'MMM d, yyyy'))
+
+  // Every name merged into this merchant gets an alias; renaming back to itself removes it
+  const handleRename = async () => {
+    const merchant = newName.trim()
+    if (!merchant || !onAliasesChange) return
+
+    setSaving(true)
+    try {
+      await Promise.all(
+        summary.names.map((name) =>
+          name.toLowerCase() === merchant.toLowerCase()
+            ? deleteMerchantAlias(name)
+            : saveMerchantAlias(name, merchant)
+        )
+      )
+      onAliasesChange()
+      onClose()
+    } catch (err) {
+      console.error('Failed to save merchant alias:', err)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const transactions = [...summary.transactions].sort(
+    (a, b) => b.purchaseDate.getTime() - a.purchaseDate.getTime()
+  )
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm">
+      <div className="flex max-h-[90vh] w-full max-w-4xl flex-col overflow-hidden rounded-2xl bg-white shadow-2xl">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-amber-500 to-orange-600 p-6 text-white">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="rounded-xl bg-white/20 p-2">
+                <Store className="h-6 w-6 text-white" />
+              </div>
+              <div>
+                <h2 className="text-2xl font-bold">{summary.merchant}</h2>
+                <p className="text-sm text-amber-100">
+                  {summary.count} visits • {formatDate(summary.firstDate)} –{' '}
+                  {formatDate(summary.lastDate)}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="rounded-xl p-2 transition-colors hover:bg-white/20"
+            >
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+
+          <div className="mt-4 grid grid-cols-3 gap-4">
+            <div className="rounded-lg bg-white/10 p-3">
+              <p className="text-sm text-amber-100">Total Spent</p>
+              <p className="text-xl font-bold">{formatCurrency(summary.totalSpent)}</p>
+            </div>
+            <div className="rounded-lg bg-white/10 p-3">
+              <p className="text-sm text-amber-100">Average Ticket</p>
+              <p className="text-xl font-bold">{formatCurrency(summary.averageTicket)}</p>
+            </div>
+            <div className="rounded-lg bg-white/10 p-3">
+              <p className="text-sm text-amber-100">Visits per Month</p>
+              <p className="text-xl font-bold">{summary.visitsPerMonth.toFixed(1)}</p>
+            </div>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 space-y-6 overflow-y-auto p-6">
+          <div>
+            <div className="mb-2 flex items-center justify-between">
+              <h3 className="text-sm font-semibold text-gray-700">Booking names</h3>
+              {onAliasesChange && !renaming && (
+                <button
+                  onClick={() => setRenaming(true)}
+                  className="flex items-center gap-1 text-sm font-medium text-amber-600 hover:text-amber-700"
+                >
+                  <Pencil className="h-4 w-4" />
+                  Rename
+                </button>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {summary.names.map((name) => (
+                <span
+                  key={name}
+                  className="rounded-lg bg-gray-100 px-2 py-1 text-xs font-medium text-gray-700"
+                >
+                  {name}
+                </span>
+              ))}
+            </div>
+            {renaming && (
+              <div className="mt-3 flex gap-3">
+                <input
+                  type="text"
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+                  placeholder="Merchant name"
+                  className="flex-1 rounded-xl border-2 border-gray-200 px-4 py-2 focus:border-amber-500 focus:outline-none"
+                />
+                <button
+                  onClick={handleRename}
+                  disabled={!newName.trim() || saving}
+                  className="rounded-xl bg-amber-500 px-4 py-2 font-semibold text-white transition-colors hover:bg-amber-600 disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            )}
+          </div>
+
+          <div>
+            <h3 className="mb-2 text-sm font-semibold text-gray-700">Spending over time</h3>
+            <div className="h-[220px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart
+                  data={summary.monthlyTotals}
+                  margin={{ top: 10, right: 20, left: 10, bottom: 5 }}
+                >
+                  <CartesianGrid strokeDasharray="3 3" stroke="#f3f4f6" vertical={false} />
+                  <XAxis
+                    dataKey="month"
+                    tick={{ fontSize: 11, fill: '#6b7280' }}
+                    stroke="#9ca3af"
+                    tickLine={false}
+                  />
+                  <YAxis
+                    tick={{ fontSize: 12, fill: '#6b7280' }}
+                    stroke="#9ca3af"
+                    tickLine={false}
+                  />
+                  <Tooltip
+                    formatter={(value: number) => [formatCurrency(value), 'Spent']}
+                    contentStyle={{
+                      backgroundColor: 'white',
+                      border: '2px solid #e5e7eb',
+                      borderRadius: '12px',
+                      padding: '12px',
+                      fontSize: '14px',
+                      fontWeight: '600',
+                    }}
+                  />
+                  <Bar dataKey="totalSpent" fill="#f59e0b" radius={[6, 6, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="mb-2 text-sm font-semibold text-gray-700">Transactions</h3>
+            <div className="divide-y divide-gray-100 rounded-xl border border-gray-200">
+              {transactions.map((transaction, index) => (
+                <div key={index} className="flex items-center justify-between gap-4 px-4 py-3">
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-medium text-gray-900">
+                      {transaction.bookingText}
+                    </p>
+                    <p className="text-xs text-gray-500">{formatDate(transaction.purchaseDate)}</p>
+                  </div>
+                  <p className="flex-shrink-0 font-semibold text-red-600">
+                    {formatCurrency(transaction.debit || 0)}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="border-t bg-gray-50 p-4">
+          <button
+            onClick={onClose}
+            className="w-full rounded-xl bg-gray-200 py-3 font-semibold text-gray-700 transition-colors hover:bg-gray-300"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
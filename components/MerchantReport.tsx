@@ -0,0 +1,122 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { ChevronRight, Store } from 'lucide-react'
+import { MerchantDetails } from './MerchantDetails'
+import { summarizeMerchants } from '@/lib/merchants'
+import type { MerchantAlias, Transaction } from '@/lib/types'
+
+interface MerchantReportProps {
+  transactions: Transaction[]
+  merchantAliases: MerchantAlias[]
+  onAliasesChange: () => void
+  currency: string // Reporting currency
+}
+
+export function MerchantReport({
+  transactions,
+  merchantAliases,
+  onAliasesChange,
+  currency,
+}: MerchantReportProps) {
+  const [selectedMerchant, setSelectedMerchant] = useState<string | null>(null)
+
+  const summaries = useMemo(
+    () => summarizeMerchants(transactions, merchantAliases),
+    [transactions, merchantAliases]
+  )
+  const selected = summaries.find((s) => s.merchant === selectedMerchant)
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-CH', {
+      style: 'currency',
+      currency,
+    }).format(amount)
+  }
+
+  if (summaries.length === 0) return null
+
+  return (
+    <>
+      {selected && (
+        <MerchantDetails
+          currency={currency}
+          summary={selected}
+          onClose={() => setSelectedMerchant(null)}
+          onAliasesChange={onAliasesChange}
+        />
+      )}
+
+      <div className="rounded-2xl border-2 border-gray-50 bg-white p-8 shadow-xl">
+        <div className="mb-8">
+          <h2 className="mb-2 text-3xl font-bold text-gray-900">Spending by Merchant</h2>
+          <p className="text-gray-600">
+            {summaries.length} merchants, with store numbers and locations merged
+          </p>
+        </div>
+
+        <div className="max-h-[480px] overflow-auto">
+          <table className="w-full">
+            <thead className="sticky top-0 bg-white">
+              <tr className="border-b-2 border-gray-200">
+                <th className="px-4 py-3 text-left text-sm font-bold uppercase tracking-wide text-gray-700">
+                  Merchant
+                </th>
+                <th className="px-4 py-3 text-right text-sm font-bold uppercase tracking-wide text-gray-700">
+                  Visits
+                </th>
+                <th className="px-4 py-3 text-right text-sm font-bold uppercase tracking-wide text-gray-700">
+                  Per Month
+                </th>
+                <th className="px-4 py-3 text-right text-sm font-bold uppercase tracking-wide text-gray-700">
+                  Avg Ticket
+                </th>
+                <th className="px-4 py-3 text-right text-sm font-bold uppercase tracking-wide text-gray-700">
+                  Total
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {summaries.map((summary) => (
+                <tr
+                  key={summary.merchant}
+                  onClick={() => setSelectedMerchant(summary.merchant)}
+                  className="group cursor-pointer border-b border-gray-100 transition-colors hover:bg-amber-50"
+                >
+                  <td className="px-4 py-3">
+                    <div className="flex items-center gap-3">
+                      <Store className="h-5 w-5 flex-shrink-0 text-amber-500" />
+                      <div className="min-w-0">
+                        <p className="truncate font-semibold text-gray-900">{summary.merchant}</p>
+                        {summary.names.length > 1 && (
+                          <p className="truncate text-xs text-gray-500">
+                            {summary.names.join(', ')}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 text-right text-sm text-gray-700">{summary.count}</td>
+                  <td className="px-4 py-3 text-right text-sm text-gray-700">
+                    {summary.visitsPerMonth.toFixed(1)}
+                  </td>
+                  <td className="px-4 py-3 text-right text-sm text-gray-700">
+                    {formatCurrency(summary.averageTicket)}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    <div className="flex items-center justify-end gap-2">
+                      <span className="font-bold text-gray-900">
+                        {formatCurrency(summary.totalSpent)}
+                      </span>
+                      <ChevronRight className="h-4 w-4 text-gray-400 group-hover:text-amber-600" />
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -2,8 +2,9 @@
 
 import { useState, useMemo, useEffect, useCallback } from 'react'
 import {
-  BarChart,
+  ComposedChart,
   Bar,
+  Area,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -11,7 +12,7 @@ import {
   ResponsiveContainer,
   Cell,
 } from 'recharts'
-import type { Transaction } from '@/lib/types'
+import type { CustomCategory, Transaction } from '@/lib/types'
 import {
   format,
   startOfWeek,
@@ -23,13 +24,18 @@ import {
   isSameDay,
   isSameMonth,
   getYear,
+  subMonths,
 } from 'date-fns'
-import { categorizeTransaction } from '@/lib/analyzer'
+import { categorizeTransaction, type AnalysisSettings } from '@/lib/analyzer'
+import { getParentCategory, getTopLevelCategory } from '@/lib/categories'
 import { getChartPreferences, saveChartPreferences } from '@/lib/db'
-import { Filter, X, ChevronLeft, ZoomIn } from 'lucide-react'
+import { forecastCashFlow, FORECAST_HORIZONS, MIN_HISTORY_MONTHS } from '@/lib/forecast'
+import { Filter, X, ChevronLeft, ZoomIn, Layers, TrendingUp } from 'lucide-react'
+import { RATE_BASE } from '@/lib/currency'
 
 interface MonthlyStackedChartProps {
   transactions: Transaction[]
+  settings: AnalysisSettings
 }
 
 type Granularity = 'daily' | 'weekly' | 'monthly' | 'yearly'
@@ -60,6 +66,15 @@ const CATEGORY_COLORS: Record<string, string> = {
   Other: '#9ca3af',
 }
 
+// Subcategories share their parent's color
+function getCategoryColor(category: string, customCategories: CustomCategory[]): string {
+  return (
+    CATEGORY_COLORS[category] ||
+    CATEGORY_COLORS[getParentCategory(category, customCategories) ?? ''] ||
+    '#9ca3af'
+  )
+}
+
 interface PeriodData {
   label: string
   periodKey: string
@@ -70,22 +85,36 @@ interface PeriodData {
 interface ChartDataPoint {
   label: string
   periodKey: string
-  [key: string]: string | number | { category: string; value: number }[]
+  forecast?: boolean
+  band?: [number, number] // Expected spending range of forecast months
+  [key: string]:
+    | string
+    | number
+    | boolean
+    | number[]
+    | { category: string; value: number }[]
+    | undefined
 }
 
-export function MonthlyTrends({ transactions }: MonthlyStackedChartProps) {
+// Months of actual spending shown before the forecast
+const FORECAST_HISTORY_MONTHS = 12
+
+export function MonthlyTrends({ transactions, settings }: MonthlyStackedChartProps) {
   const [zoomState, setZoomState] = useState<ZoomState>({ level: 'yearly' })
   const [excludedCategories, setExcludedCategories] = useState<Set<string>>(new Set())
   const [showFilterPanel, setShowFilterPanel] = useState(false)
   const [selectedDay, setSelectedDay] = useState<string | null>(null)
   const [preferencesLoaded, setPreferencesLoaded] = useState(false)
+  const [groupSubcategories, setGroupSubcategories] = useState(false)
+  const [forecastMonths, setForecastMonths] = useState<number | null>(null) // null hides the forecast
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-CH', {
       style: 'currency',
-      currency: 'CHF',
+      currency: settings.currency?.reportingCurrency ?? RATE_BASE,
     }).format(amount)
   }
+  const customCategories = settings.customCategories ?? []
 
   // Load saved preferences on mount
   useEffect(() => {
@@ -160,16 +189,27 @@ export function MonthlyTrends({ transactions }: MonthlyStackedChartProps) {
     [zoomState, excludedCategories, savePreferences]
   )
 
+  // Category a transaction is charted under, rolled up to its parent when grouping
+  const getChartCategory = useCallback(
+    (transaction: Transaction) => {
+      const category = categorizeTransaction(transaction, settings)
+      return groupSubcategories
+        ? getTopLevelCategory(category, settings.customCategories ?? [])
+        : category
+    },
+    [groupSubcategories, settings]
+  )
+
   // Get all unique categories from transactions
   const allCategories = useMemo(() => {
     const categories = new Set<string>()
     transactions
       .filter((t) => (t.debit || 0) > 0)
       .forEach((t) => {
-        categories.add(categorizeTransaction(t))
+        categories.add(getChartCategory(t))
       })
     return Array.from(categories).sort()
-  }, [transactions])
+  }, [transactions, getChartCategory])
 
   // Get transactions for selected day
   const dayTransactions = useMemo(() => {
@@ -183,18 +223,34 @@ export function MonthlyTrends({ transactions }: MonthlyStackedChartProps) {
       })
       .map((t) => ({
         ...t,
-        category: categorizeTransaction(t),
+        category: categorizeTransaction(t, settings),
       }))
       .sort((a, b) => (b.debit || 0) - (a.debit || 0))
-  }, [selectedDay, transactions])
+  }, [selectedDay, transactions, settings])
+
+  const forecast = useMemo(
+    () => (forecastMonths ? forecastCashFlow(transactions, forecastMonths, settings) : []),
+    [transactions, forecastMonths, settings]
+  )
+  const isForecasting = forecast.length > 0
 
   const { chartData, maxCategories } = useMemo(() => {
     const periodData = new Map<string, Record<string, number>>()
+    // The forecast continues the monthly view of the last year
+    const level = isForecasting ? 'monthly' : zoomState.level
 
     // Filter transactions based on zoom level
     let filteredTransactions = transactions.filter((t) => (t.debit || 0) > 0)
 
-    if (zoomState.level === 'monthly' && zoomState.selectedYear) {
+    if (isForecasting) {
+      const historyStart = subMonths(
+        new Date(forecast[0].monthKey + '-01'),
+        FORECAST_HISTORY_MONTHS
+      )
+      filteredTransactions = filteredTransactions.filter(
+        (t) => !isNaN(t.purchaseDate.getTime()) && t.purchaseDate >= historyStart
+      )
+    } else if (zoomState.level === 'monthly' && zoomState.selectedYear) {
       const selectedYearNum = parseInt(zoomState.selectedYear)
       filteredTransactions = filteredTransactions.filter((t) => {
         if (!t.purchaseDate || isNaN(t.purchaseDate.getTime())) return false
@@ -230,13 +286,13 @@ export function MonthlyTrends({ transactions }: MonthlyStackedChartProps) {
         return
       }
 
-      const category = categorizeTransaction(transaction)
+      const category = getChartCategory(transaction)
       if (excludedCategories.has(category)) {
         return
       }
 
       let periodKey: string
-      switch (zoomState.level) {
+      switch (level) {
         case 'daily':
           periodKey = format(transaction.purchaseDate, 'yyyy-MM-dd')
           break
@@ -262,6 +318,30 @@ export function MonthlyTrends({ transactions }: MonthlyStackedChartProps) {
       periodRecord[category] = (periodRecord[category] || 0) + (transaction.debit || 0)
     })
 
+    // Forecast months are keyed like actual months and marked when charted
+    const forecastKeys = new Set<string>()
+    const bands = new Map<string, [number, number]>()
+    forecast.forEach((month) => {
+      const categories: Record<string, number> = {}
+      let excluded = 0
+      month.categories.forEach(({ category, amount }) => {
+        const chartCategory = groupSubcategories
+          ? getTopLevelCategory(category, settings.customCategories ?? [])
+          : category
+        if (excludedCategories.has(chartCategory)) {
+          excluded += amount
+          return
+        }
+        categories[chartCategory] = (categories[chartCategory] || 0) + amount
+      })
+      periodData.set(month.monthKey, categories)
+      forecastKeys.add(month.monthKey)
+      bands.set(month.monthKey, [
+        Math.max(0, month.spending.low - excluded),
+        Math.max(0, month.spending.high - excluded),
+      ])
+    })
+
     // Find max categories
     let maxCats = 0
     periodData.forEach((categories) => {
@@ -270,7 +350,7 @@ export function MonthlyTrends({ transactions }: MonthlyStackedChartProps) {
 
     // Format labels based on zoom level
     const formatLabel = (key: string): string => {
-      switch (zoomState.level) {
+      switch (level) {
         case 'daily':
           return format(new Date(key), 'EEE, MMM d')
         case 'weekly': {
@@ -324,6 +404,10 @@ export function MonthlyTrends({ transactions }: MonthlyStackedChartProps) {
         label: pd.label,
         periodKey: pd.periodKey,
         segments: pd.segments,
+        ...(forecastKeys.has(pd.periodKey) && {
+          forecast: true,
+          band: bands.get(pd.periodKey),
+        }),
       }
 
       pd.segments.forEach((segment, index) => {
@@ -335,9 +419,19 @@ export function MonthlyTrends({ transactions }: MonthlyStackedChartProps) {
     })
 
     return { chartData: data, maxCategories: maxCats }
-  }, [transactions, zoomState, excludedCategories])
+  }, [
+    transactions,
+    zoomState,
+    excludedCategories,
+    getChartCategory,
+    forecast,
+    isForecasting,
+    groupSubcategories,
+    settings.customCategories,
+  ])
 
   const handleBarClick = (data: ChartDataPoint) => {
+    if (isForecasting) return
     if (zoomState.level === 'yearly') {
       // Zoom into months of this year
       updateZoomState({
@@ -414,28 +508,45 @@ export function MonthlyTrends({ transactions }: MonthlyStackedChartProps) {
 
     const data = payload[0].payload
     const segments = data.segments as { category: string; value: number }[]
+    const band = data.band
 
     return (
       <div className="max-h-80 overflow-auto rounded-xl border-2 border-gray-200 bg-white p-4 shadow-lg">
-        <p className="mb-2 font-bold text-gray-900">{label}</p>
+        <p className="mb-2 font-bold text-gray-900">
+          {label}
+          {data.forecast && (
+            <span className="ml-2 text-xs font-medium text-purple-600">Forecast</span>
+          )}
+        </p>
         {segments.map((segment, i) => (
           <div key={i} className="flex items-center gap-2 py-1 text-sm">
             <div
               className="h-3 w-3 flex-shrink-0 rounded-sm"
-              style={{ backgroundColor: CATEGORY_COLORS[segment.category] || '#9ca3af' }}
+              style={{ backgroundColor: getCategoryColor(segment.category, customCategories) }}
             />
             <span className="text-gray-600">{segment.category}:</span>
             <span className="font-semibold">{formatCurrency(segment.value)}</span>
           </div>
         ))}
-        <p className="mt-2 border-t border-gray-100 pt-2 text-xs text-purple-600">
-          {zoomState.level === 'daily' ? 'Click to see transactions' : 'Click to zoom in'}
-        </p>
+        {band ? (
+          <p className="mt-2 border-t border-gray-100 pt-2 text-xs text-gray-600">
+            Likely between {formatCurrency(band[0])} and {formatCurrency(band[1])}
+          </p>
+        ) : (
+          !isForecasting && (
+            <p className="mt-2 border-t border-gray-100 pt-2 text-xs text-purple-600">
+              {zoomState.level === 'daily' ? 'Click to see transactions' : 'Click to zoom in'}
+            </p>
+          )
+        )}
       </div>
     )
   }
 
   const getTitle = () => {
+    if (isForecasting) {
+      return 'Cash-Flow Forecast'
+    }
     if (zoomState.level === 'daily' && zoomState.selectedWeek) {
       const weekStart = new Date(zoomState.selectedWeek)
       const weekEnd = endOfWeek(weekStart, { weekStartsOn: 1 })
@@ -500,8 +611,15 @@ export function MonthlyTrends({ transactions }: MonthlyStackedChartProps) {
         <div>
           <h2 className="mb-2 text-3xl font-bold text-gray-900">{getTitle()}</h2>
 
+          {isForecasting && (
+            <p className="text-gray-600">
+              Last {FORECAST_HISTORY_MONTHS} months and the next {forecast.length}, from recurring
+              payments and seasonal averages
+            </p>
+          )}
+
           {/* Breadcrumb Navigation */}
-          {zoomState.level !== 'yearly' && (
+          {!isForecasting && zoomState.level !== 'yearly' && (
             <div className="flex items-center gap-2 text-sm">
               {getBreadcrumb().map((part, index) => (
                 <span key={index} className="flex items-center gap-2">
@@ -521,7 +639,7 @@ export function MonthlyTrends({ transactions }: MonthlyStackedChartProps) {
             </div>
           )}
 
-          {zoomState.level === 'yearly' && (
+          {!isForecasting && zoomState.level === 'yearly' && (
             <p className="flex items-center gap-2 text-gray-600">
               <ZoomIn className="h-4 w-4" />
               Click any bar to zoom in
@@ -530,8 +648,41 @@ export function MonthlyTrends({ transactions }: MonthlyStackedChartProps) {
         </div>
 
         <div className="flex items-center gap-3">
+          {/* Forecast horizon */}
+          {forecastMonths && (
+            <div className="flex rounded-xl bg-gray-100 p-1">
+              {FORECAST_HORIZONS.map((months) => (
+                <button
+                  key={months}
+                  onClick={() => setForecastMonths(months)}
+                  className={`rounded-lg px-3 py-1 text-sm font-semibold transition-all ${
+                    forecastMonths === months
+                      ? 'bg-white text-purple-700 shadow'
+                      : 'text-gray-600 hover:text-gray-800'
+                  }`}
+                >
+                  {months}m
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Forecast Button */}
+          <button
+            onClick={() => setForecastMonths(forecastMonths ? null : FORECAST_HORIZONS[1])}
+            title="Project the coming months from your history"
+            className={`flex items-center gap-2 rounded-xl px-4 py-2 text-sm font-semibold transition-all ${
+              forecastMonths
+                ? 'bg-purple-100 text-purple-700'
+                : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+            }`}
+          >
+            <TrendingUp className="h-4 w-4" />
+            Forecast
+          </button>
+
           {/* Zoom Out Button */}
-          {zoomState.level !== 'yearly' && (
+          {!isForecasting && zoomState.level !== 'yearly' && (
             <button
               onClick={handleZoomOut}
               className="flex items-center gap-2 rounded-xl bg-purple-100 px-4 py-2 text-sm font-semibold text-purple-700 transition-all hover:bg-purple-200"
@@ -541,6 +692,20 @@ export function MonthlyTrends({ transactions }: MonthlyStackedChartProps) {
             </button>
           )}
 
+          {/* Group Button */}
+          <button
+            onClick={() => setGroupSubcategories(!groupSubcategories)}
+            title="Roll subcategories up into their parent category"
+            className={`flex items-center gap-2 rounded-xl px-4 py-2 text-sm font-semibold transition-all ${
+              groupSubcategories
+                ? 'bg-purple-100 text-purple-700'
+                : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+            }`}
+          >
+            <Layers className="h-4 w-4" />
+            Group
+          </button>
+
           {/* Filter Button */}
           <button
             onClick={() => updateShowFilterPanel(!showFilterPanel)}
@@ -590,7 +755,7 @@ export function MonthlyTrends({ transactions }: MonthlyStackedChartProps) {
                 >
                   <div
                     className={`h-3 w-3 rounded-sm ${isExcluded ? 'opacity-30' : ''}`}
-                    style={{ backgroundColor: CATEGORY_COLORS[category] || '#9ca3af' }}
+                    style={{ backgroundColor: getCategoryColor(category, customCategories) }}
                   />
                   {category}
                   {isExcluded && <X className="h-3 w-3" />}
@@ -620,7 +785,7 @@ export function MonthlyTrends({ transactions }: MonthlyStackedChartProps) {
 
       <div className="h-[500px]">
         <ResponsiveContainer width="100%" height="100%">
-          <BarChart
+          <ComposedChart
             data={chartData}
             margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
             onClick={(e) => {
@@ -628,7 +793,7 @@ export function MonthlyTrends({ transactions }: MonthlyStackedChartProps) {
                 handleBarClick(e.activePayload[0].payload as ChartDataPoint)
               }
             }}
-            style={{ cursor: 'pointer' }}
+            style={{ cursor: isForecasting ? 'default' : 'pointer' }}
           >
             <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" vertical={false} />
             <XAxis
@@ -637,9 +802,9 @@ export function MonthlyTrends({ transactions }: MonthlyStackedChartProps) {
               stroke="#9ca3af"
               tickLine={false}
               interval={0}
-              angle={zoomState.level === 'daily' ? -45 : 0}
-              textAnchor={zoomState.level === 'daily' ? 'end' : 'middle'}
-              height={zoomState.level === 'daily' ? 80 : 30}
+              angle={zoomState.level === 'daily' && !isForecasting ? -45 : 0}
+              textAnchor={zoomState.level === 'daily' && !isForecasting ? 'end' : 'middle'}
+              height={zoomState.level === 'daily' && !isForecasting ? 80 : 30}
             />
             <YAxis
               tick={{ fontSize: 12, fill: '#6b7280' }}
@@ -664,15 +829,85 @@ export function MonthlyTrends({ transactions }: MonthlyStackedChartProps) {
                 {chartData.map((entry, entryIndex) => (
                   <Cell
                     key={`cell-${entryIndex}`}
-                    fill={CATEGORY_COLORS[entry[`slot${slotIndex}Category`] as string] || '#9ca3af'}
+                    fill={getCategoryColor(
+                      entry[`slot${slotIndex}Category`] as string,
+                      customCategories
+                    )}
+                    fillOpacity={entry.forecast ? 0.45 : 1}
                   />
                 ))}
               </Bar>
             ))}
-          </BarChart>
+            {isForecasting && (
+              <Area
+                dataKey="band"
+                stroke="#8b5cf6"
+                strokeDasharray="4 4"
+                fill="#8b5cf6"
+                fillOpacity={0.12}
+                isAnimationActive={false}
+                connectNulls={false}
+              />
+            )}
+          </ComposedChart>
         </ResponsiveContainer>
       </div>
 
+      {forecastMonths && !isForecasting && (
+        <p className="mt-4 text-center text-sm text-gray-500">
+          At least {MIN_HISTORY_MONTHS} complete months of history are needed for a forecast
+        </p>
+      )}
+
+      {/* Forecast table */}
+      {isForecasting && (
+        <div className="mt-6 overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b-2 border-gray-200">
+                <th className="px-4 py-3 text-left text-sm font-bold uppercase tracking-wide text-gray-700">
+                  Month
+                </th>
+                <th className="px-4 py-3 text-right text-sm font-bold uppercase tracking-wide text-gray-700">
+                  Income
+                </th>
+                <th className="px-4 py-3 text-right text-sm font-bold uppercase tracking-wide text-gray-700">
+                  Spending
+                </th>
+                <th className="px-4 py-3 text-right text-sm font-bold uppercase tracking-wide text-gray-700">
+                  Net Flow
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {forecast.map((month) => (
+                <tr key={month.monthKey} className="border-b border-gray-100">
+                  <td className="px-4 py-3 text-sm font-medium text-gray-900">{month.month}</td>
+                  {[month.income, month.spending, month.netFlow].map((range, i) => (
+                    <td key={i} className="px-4 py-3 text-right">
+                      <p
+                        className={`text-sm font-semibold ${
+                          i === 2
+                            ? range.expected >= 0
+                              ? 'text-green-600'
+                              : 'text-red-600'
+                            : 'text-gray-900'
+                        }`}
+                      >
+                        {formatCurrency(range.expected)}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {formatCurrency(range.low)} – {formatCurrency(range.high)}
+                      </p>
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
       {/* Legend */}
       <div className="mt-6 flex flex-wrap justify-center gap-4">
         {Object.entries(CATEGORY_COLORS)
@@ -729,7 +964,7 @@ export function MonthlyTrends({ transactions }: MonthlyStackedChartProps) {
                     >
                       <div
                         className="h-3 w-3 flex-shrink-0 rounded-sm"
-                        style={{ backgroundColor: CATEGORY_COLORS[t.category] || '#9ca3af' }}
+                        style={{ backgroundColor: getCategoryColor(t.category, customCategories) }}
                       />
                       <div className="min-w-0 flex-1">
                         <p className="truncate font-medium text-gray-900">{t.bookingText}</p>
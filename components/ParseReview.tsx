@@ -0,0 +1,292 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { format } from 'date-fns'
+import { AlertTriangle, Check, ClipboardCheck } from 'lucide-react'
+import type { ParseAction, ParseDiagnostic, ParseResult } from '@/lib/parser'
+import type { Transaction } from '@/lib/types'
+
+interface ParseReviewProps {
+  fileName: string
+  result: ParseResult
+  onConfirm: (transactions: Transaction[]) => void
+  onCancel: () => void
+}
+
+interface ProblemRow {
+  row: number
+  transaction: Transaction
+  diagnostics: ParseDiagnostic[]
+  skippedByParser: boolean
+}
+
+interface RowFix {
+  date?: string // yyyy-MM-dd from the date input
+  amount?: string
+  direction?: 'debit' | 'credit'
+}
+
+type Decision = 'accept' | 'skip'
+
+const ACTION_LABELS: Record<ParseAction, string> = {
+  skipped: 'Row skipped',
+  'used-booking-date': 'Used booking date',
+  'used-purchase-date': 'Used transaction date',
+  'left-empty': 'Value ignored',
+}
+
+const DATE_FIELDS = ['purchaseDate', 'bookedDate']
+const AMOUNT_FIELDS = ['amount', 'debit', 'credit']
+
+function parseInputDate(value: string): Date | null {
+  const [year, month, day] = value.split('-').map((p) => parseInt(p, 10))
+  if (!year || !month || !day) return null
+  return new Date(year, month - 1, day)
+}
+
+function parseInputAmount(value: string): number | null {
+  const parsed = parseFloat(value)
+  return isNaN(parsed) || parsed <= 0 ? null : parsed
+}
+
+// A row the parser skipped can only be imported once every skipped value has been fixed
+function isResolved(problem: ProblemRow, fix: RowFix | undefined): boolean {
+  return problem.diagnostics
+    .filter((d) => d.action === 'skipped')
+    .every((d) =>
+      DATE_FIELDS.includes(d.field)
+        ? !!fix?.date && parseInputDate(fix.date) !== null
+        : !!fix?.amount && parseInputAmount(fix.amount) !== null
+    )
+}
+
+function applyFix(problem: ProblemRow, fix: RowFix | undefined): Transaction {
+  const transaction = { ...problem.transaction }
+  if (!fix) return transaction
+
+  const date = fix.date ? parseInputDate(fix.date) : null
+  if (date) {
+    if (problem.diagnostics.some((d) => d.field === 'bookedDate')) {
+      transaction.bookedDate = date
+    } else {
+      transaction.purchaseDate = date
+      if (isNaN(transaction.bookedDate.getTime())) {
+        transaction.bookedDate = date
+      }
+    }
+  }
+
+  const amount = fix.amount ? parseInputAmount(fix.amount) : null
+  if (amount !== null) {
+    const isCredit = fix.direction === 'credit'
+    transaction.amount = amount
+    transaction.debit = isCredit ? null : amount
+    transaction.credit = isCredit ? amount : null
+  }
+
+  return transaction
+}
+
+export function ParseReview({ fileName, result, onConfirm, onCancel }: ParseReviewProps) {
+  const problemRows = useMemo(() => {
+    const byRow = new Map<number, ProblemRow>()
+    for (const diagnostic of result.diagnostics) {
+      const existing = byRow.get(diagnostic.row)
+      if (existing) {
+        existing.diagnostics.push(diagnostic)
+        existing.skippedByParser ||= diagnostic.action === 'skipped'
+      } else {
+        byRow.set(diagnostic.row, {
+          row: diagnostic.row,
+          transaction: diagnostic.transaction,
+          diagnostics: [diagnostic],
+          skippedByParser: diagnostic.action === 'skipped',
+        })
+      }
+    }
+    return Array.from(byRow.values()).sort((a, b) => a.row - b.row)
+  }, [result.diagnostics])
+
+  const [decisions, setDecisions] = useState<Map<number, Decision>>(
+    () => new Map(problemRows.map((p) => [p.row, p.skippedByParser ? 'skip' : 'accept']))
+  )
+  const [fixes, setFixes] = useState<Map<number, RowFix>>(new Map())
+
+  const updateFix = (problem: ProblemRow, changes: RowFix) => {
+    const fix = { ...fixes.get(problem.row), ...changes }
+    setFixes(new Map(fixes).set(problem.row, fix))
+    // Fixing a row implies importing it
+    if (isResolved(problem, fix)) {
+      setDecisions(new Map(decisions).set(problem.row, 'accept'))
+    }
+  }
+
+  const finalTransactions = useMemo(() => {
+    const problemByTransaction = new Map(problemRows.map((p) => [p.transaction, p]))
+    const isImported = (p: ProblemRow) =>
+      decisions.get(p.row) === 'accept' && isResolved(p, fixes.get(p.row))
+
+    const kept = result.transactions.flatMap((t) => {
+      const problem = problemByTransaction.get(t)
+      if (!problem) return [t]
+      return isImported(problem) ? [applyFix(problem, fixes.get(problem.row))] : []
+    })
+    const recovered = problemRows
+      .filter((p) => p.skippedByParser && isImported(p))
+      .map((p) => applyFix(p, fixes.get(p.row)))
+
+    return [...kept, ...recovered]
+  }, [result.transactions, problemRows, decisions, fixes])
+
+  const skippedCount = problemRows.filter((p) => p.skippedByParser).length
+
+  // Parsed rows are shown as booked, before any conversion to the reporting currency
+  const formatCurrency = (amount: number, currency: string) => {
+    return new Intl.NumberFormat('en-CH', {
+      style: 'currency',
+      currency: currency || 'CHF',
+    }).format(amount)
+  }
+
+  const formatDate = (date: Date) => (isNaN(date.getTime()) ? '—' : format(date, 'MMM d, yyyy'))
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <div className="rounded-xl bg-yellow-100 p-2">
+          <ClipboardCheck className="h-6 w-6 text-yellow-600" />
+        </div>
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Review Import</h2>
+          <p className="text-sm text-gray-600">
+            {fileName}: {problemRows.length} row(s) had values that could not be read
+            {skippedCount > 0 && `, ${skippedCount} of them were skipped`}. Fix, skip or accept each
+            row before analysis.
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {problemRows.map((problem) => {
+          const fix = fixes.get(problem.row)
+          const decision = decisions.get(problem.row)
+          const resolved = isResolved(problem, fix)
+          const needsDate = problem.diagnostics.some((d) => DATE_FIELDS.includes(d.field))
+          const needsAmount = problem.diagnostics.some((d) => AMOUNT_FIELDS.includes(d.field))
+          const t = problem.transaction
+
+          return (
+            <div
+              key={problem.row}
+              className={`rounded-xl border-2 p-4 ${
+                decision === 'skip' ? 'border-gray-200 bg-gray-50 opacity-75' : 'border-yellow-200'
+              }`}
+            >
+              <div className="mb-2 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="truncate font-semibold text-gray-900">
+                    Row {problem.row}: {t.bookingText || 'No description'}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {formatDate(t.purchaseDate)} ·{' '}
+                    {formatCurrency((t.debit || 0) - (t.credit || 0), t.currency)}
+                  </p>
+                </div>
+                <div className="flex flex-shrink-0 gap-2">
+                  <button
+                    onClick={() => setDecisions(new Map(decisions).set(problem.row, 'accept'))}
+                    disabled={!resolved}
+                    className={`rounded-lg px-3 py-1 text-sm font-semibold transition-colors disabled:cursor-not-allowed disabled:opacity-50 ${
+                      decision === 'accept'
+                        ? 'bg-green-600 text-white'
+                        : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                    }`}
+                  >
+                    Accept
+                  </button>
+                  <button
+                    onClick={() => setDecisions(new Map(decisions).set(problem.row, 'skip'))}
+                    className={`rounded-lg px-3 py-1 text-sm font-semibold transition-colors ${
+                      decision === 'skip'
+                        ? 'bg-gray-700 text-white'
+                        : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                    }`}
+                  >
+                    Skip
+                  </button>
+                </div>
+              </div>
+
+              <ul className="mb-2 space-y-1 text-sm">
+                {problem.diagnostics.map((d) => (
+                  <li key={d.field} className="flex items-center gap-2 text-yellow-700">
+                    <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                    <span>
+                      {d.column}
+                      {d.value && <code className="mx-1 rounded bg-yellow-50 px-1">{d.value}</code>}
+                      : {d.problem} - {ACTION_LABELS[d.action]}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+
+              {(needsDate || needsAmount) && (
+                <div className="flex flex-wrap items-center gap-3 text-sm">
+                  <span className="font-semibold text-gray-500">Fix:</span>
+                  {needsDate && (
+                    <input
+                      type="date"
+                      value={fix?.date || ''}
+                      onChange={(e) => updateFix(problem, { date: e.target.value })}
+                      className="rounded-lg border-2 border-gray-200 px-2 py-1 focus:border-blue-500 focus:outline-none"
+                    />
+                  )}
+                  {needsAmount && (
+                    <>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        placeholder="Amount"
+                        value={fix?.amount || ''}
+                        onChange={(e) => updateFix(problem, { amount: e.target.value })}
+                        className="w-32 rounded-lg border-2 border-gray-200 px-2 py-1 focus:border-blue-500 focus:outline-none"
+                      />
+                      <select
+                        value={fix?.direction || 'debit'}
+                        onChange={(e) =>
+                          updateFix(problem, { direction: e.target.value as 'debit' | 'credit' })
+                        }
+                        className="rounded-lg border-2 border-gray-200 px-2 py-1 focus:border-blue-500 focus:outline-none"
+                      >
+                        <option value="debit">Debit</option>
+                        <option value="credit">Credit</option>
+                      </select>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="flex justify-end gap-3">
+        <button
+          onClick={onCancel}
+          className="rounded-xl bg-gray-200 px-6 py-3 font-semibold text-gray-700 transition-colors hover:bg-gray-300"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onConfirm(finalTransactions)}
+          disabled={finalTransactions.length === 0}
+          className="flex items-center gap-2 rounded-xl bg-gradient-to-r from-blue-600 to-purple-600 px-6 py-3 font-semibold text-white shadow-lg transition-all hover:from-blue-700 hover:to-purple-700 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          <Check className="h-5 w-5" />
+          Import {finalTransactions.length} Transactions
+        </button>
+      </div>
+    </div>
+  )
+}
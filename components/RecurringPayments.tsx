@@ -0,0 +1,126 @@
+'use client'
+
+import { useMemo } from 'react'
+import { format } from 'date-fns'
+import { Repeat, AlertTriangle, TrendingUp, TrendingDown } from 'lucide-react'
+import { detectRecurringPayments, type RecurrenceFrequency } from '@/lib/recurring'
+import type { MerchantAlias, Transaction } from '@/lib/types'
+
+interface RecurringPaymentsProps {
+  transactions: Transaction[]
+  merchantAliases?: MerchantAlias[] // Payments are grouped by merchant, so aliases regroup them
+  currency: string // Reporting currency
+}
+
+const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  yearly: 'Yearly',
+}
+
+export function RecurringPayments({
+  transactions,
+  merchantAliases,
+  currency,
+}: RecurringPaymentsProps) {
+  const payments = useMemo(
+    () => detectRecurringPayments(transactions, merchantAliases),
+    [transactions, merchantAliases]
+  )
+  const totalAnnualCost = payments.reduce((sum, p) => sum + p.annualCost, 0)
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-CH', {
+      style: 'currency',
+      currency,
+    }).format(amount)
+  }
+
+  return (
+    <div className="rounded-2xl border-2 border-gray-50 bg-white p-8 shadow-xl">
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="mb-2 text-3xl font-bold text-gray-900">Recurring Payments</h2>
+          <p className="text-gray-600">Subscriptions and other regular charges</p>
+        </div>
+        {payments.length > 0 && (
+          <div className="text-right">
+            <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">Per year</p>
+            <p className="text-2xl font-bold text-gray-900">{formatCurrency(totalAnnualCost)}</p>
+          </div>
+        )}
+      </div>
+
+      {payments.length === 0 ? (
+        <div className="py-12 text-center text-gray-500">
+          <Repeat className="mx-auto mb-4 h-16 w-16 text-gray-300" />
+          <p>No recurring payments found</p>
+          <p className="mt-2 text-sm">Upload a longer history to detect subscriptions</p>
+        </div>
+      ) : (
+        <div className="max-h-[640px] space-y-3 overflow-y-auto">
+          {payments.map((payment) => {
+            const latestChange = payment.priceChanges[payment.priceChanges.length - 1]
+            return (
+              <div
+                key={`${payment.merchant}-${payment.frequency}`}
+                className="rounded-xl border border-gray-200 p-4 transition-colors hover:border-gray-300"
+              >
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="truncate font-semibold text-gray-900">{payment.merchant}</p>
+                    <p className="text-xs text-gray-500">
+                      {payment.occurrences.length} payments · next expected{' '}
+                      {format(payment.nextExpectedDate, 'MMM d, yyyy')}
+                    </p>
+                  </div>
+                  <div className="flex-shrink-0 text-right">
+                    <p className="font-bold text-gray-900">{formatCurrency(payment.lastAmount)}</p>
+                    <span className="inline-flex items-center rounded-lg bg-blue-100 px-2 py-0.5 text-xs font-semibold text-blue-700">
+                      {FREQUENCY_LABELS[payment.frequency]}
+                    </span>
+                  </div>
+                </div>
+
+                <div className="mt-2 flex flex-wrap items-center gap-3 text-xs">
+                  <span className="text-gray-600">
+                    {formatCurrency(payment.annualCost)} per year
+                  </span>
+                  {latestChange && (
+                    <span
+                      className={`flex items-center gap-1 font-medium ${
+                        latestChange.newAmount > latestChange.previousAmount
+                          ? 'text-red-600'
+                          : 'text-green-600'
+                      }`}
+                    >
+                      {latestChange.newAmount > latestChange.previousAmount ? (
+                        <TrendingUp className="h-3 w-3" />
+                      ) : (
+                        <TrendingDown className="h-3 w-3" />
+                      )}
+                      was {formatCurrency(latestChange.previousAmount)} until{' '}
+                      {format(latestChange.date, 'MMM yyyy')}
+                    </span>
+                  )}
+                  {payment.missedOccurrences.length > 0 && (
+                    <span
+                      className="flex items-center gap-1 font-medium text-yellow-700"
+                      title={payment.missedOccurrences
+                        .map((d) => format(d, 'MMM d, yyyy'))
+                        .join(', ')}
+                    >
+                      <AlertTriangle className="h-3 w-3" />
+                      {payment.missedOccurrences.length} missed
+                    </span>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,85 @@
+'use client'
+
+import { useMemo } from 'react'
+import { format } from 'date-fns'
+import { Undo2, AlertTriangle } from 'lucide-react'
+import { getMatches, type AnalysisSettings } from '@/lib/analyzer'
+import type { Transaction } from '@/lib/types'
+
+interface RefundsPanelProps {
+  transactions: Transaction[]
+  settings: AnalysisSettings // Refunds are matched by merchant, and transfers are never refunds
+  currency: string // Reporting currency
+}
+
+export function RefundsPanel({ transactions, settings, currency }: RefundsPanelProps) {
+  const refunds = useMemo(
+    () => getMatches(transactions, settings).refunds,
+    [transactions, settings]
+  )
+  const matched = refunds.filter((r) => r.original)
+  const totalRefunded = matched.reduce((sum, r) => sum + r.amount, 0)
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-CH', {
+      style: 'currency',
+      currency,
+    }).format(amount)
+  }
+
+  if (refunds.length === 0) return null
+
+  return (
+    <div className="rounded-2xl border-2 border-gray-50 bg-white p-8 shadow-xl">
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="mb-2 text-3xl font-bold text-gray-900">Refunds</h2>
+          <p className="text-gray-600">
+            Matched refunds reduce spending in the category of the original purchase
+          </p>
+        </div>
+        <div className="text-right">
+          <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">Refunded</p>
+          <p className="text-2xl font-bold text-green-600">{formatCurrency(totalRefunded)}</p>
+        </div>
+      </div>
+
+      <div className="max-h-[480px] space-y-3 overflow-y-auto">
+        {refunds.map(({ refund, original, amount, partial }) => (
+          <div
+            key={refund.id}
+            className="flex items-start justify-between gap-4 rounded-xl border border-gray-200 p-4"
+          >
+            <div className="flex min-w-0 items-start gap-3">
+              <div className={`rounded-lg p-2 ${original ? 'bg-green-50' : 'bg-yellow-50'}`}>
+                {original ? (
+                  <Undo2 className="h-4 w-4 text-green-600" />
+                ) : (
+                  <AlertTriangle className="h-4 w-4 text-yellow-600" />
+                )}
+              </div>
+              <div className="min-w-0">
+                <p className="truncate font-semibold text-gray-900">{refund.bookingText}</p>
+                <p className="text-xs text-gray-500">
+                  {format(refund.purchaseDate, 'MMM d, yyyy')}
+                </p>
+                {original ? (
+                  <p className="mt-1 text-xs text-gray-600">
+                    {partial ? 'Partial refund' : 'Refund'} of {original.bookingText} on{' '}
+                    {format(original.purchaseDate, 'MMM d, yyyy')} (
+                    {formatCurrency(original.debit || 0)})
+                  </p>
+                ) : (
+                  <p className="mt-1 text-xs font-medium text-yellow-700">
+                    No matching purchase found, counted as income
+                  </p>
+                )}
+              </div>
+            </div>
+            <p className="flex-shrink-0 font-bold text-green-600">+{formatCurrency(amount)}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
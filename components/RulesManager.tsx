@@ -0,0 +1,453 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  X,
+  Plus,
+  Trash2,
+  ListFilter,
+  ChevronDown,
+  ArrowUp,
+  ArrowDown,
+  Pencil,
+  Power,
+} from 'lucide-react'
+import {
+  getAllCategoryRules,
+  saveCategoryRule,
+  updateCategoryRule,
+  deleteCategoryRule,
+  reorderCategoryRules,
+} from '@/lib/db'
+import { getAllCategories, formatCategoryLabel } from '@/lib/categories'
+import { hasConditions, validatePattern } from '@/lib/rules'
+import type { CategoryRule, CustomCategory, RuleConditions } from '@/lib/types'
+
+export type RuleDraft = Omit<CategoryRule, 'id' | 'priority' | 'createdDate'>
+
+interface RulesManagerProps {
+  isOpen: boolean
+  onClose: () => void
+  onRulesChange: () => void
+  draft?: RuleDraft | null // Pre-fills the form, e.g. from a transaction
+  customCategories: CustomCategory[]
+}
+
+interface RuleForm {
+  name: string
+  category: string
+  bookingText: string
+  bookingTextMatch: 'contains' | 'regex'
+  sector: string
+  minAmount: string
+  maxAmount: string
+  cardNumber: string
+  accountHolder: string
+}
+
+const EMPTY_FORM: RuleForm = {
+  name: '',
+  category: '',
+  bookingText: '',
+  bookingTextMatch: 'contains',
+  sector: '',
+  minAmount: '',
+  maxAmount: '',
+  cardNumber: '',
+  accountHolder: '',
+}
+
+function toForm(rule: RuleDraft): RuleForm {
+  const { conditions } = rule
+  return {
+    name: rule.name,
+    category: rule.category,
+    bookingText: conditions.bookingText ?? '',
+    bookingTextMatch: conditions.bookingTextMatch ?? 'contains',
+    sector: conditions.sector ?? '',
+    minAmount: conditions.minAmount?.toString() ?? '',
+    maxAmount: conditions.maxAmount?.toString() ?? '',
+    cardNumber: conditions.cardNumber ?? '',
+    accountHolder: conditions.accountHolder ?? '',
+  }
+}
+
+function toConditions(form: RuleForm): RuleConditions {
+  const conditions: RuleConditions = {}
+  if (form.bookingText.trim()) {
+    conditions.bookingText = form.bookingText.trim()
+    conditions.bookingTextMatch = form.bookingTextMatch
+  }
+  if (form.sector.trim()) conditions.sector = form.sector.trim()
+  if (form.minAmount !== '') conditions.minAmount = parseFloat(form.minAmount)
+  if (form.maxAmount !== '') conditions.maxAmount = parseFloat(form.maxAmount)
+  if (form.cardNumber.trim()) conditions.cardNumber = form.cardNumber.trim()
+  if (form.accountHolder.trim()) conditions.accountHolder = form.accountHolder.trim()
+  return conditions
+}
+
+function describeConditions(conditions: RuleConditions): string {
+  const parts: string[] = []
+  if (conditions.bookingText) {
+    parts.push(
+      conditions.bookingTextMatch === 'regex'
+        ? `text matches /${conditions.bookingText}/`
+        : `text contains "${conditions.bookingText}"`
+    )
+  }
+  if (conditions.sector) parts.push(`sector is "${conditions.sector}"`)
+  if (conditions.minAmount !== undefined) parts.push(`amount ≥ ${conditions.minAmount}`)
+  if (conditions.maxAmount !== undefined) parts.push(`amount ≤ ${conditions.maxAmount}`)
+  if (conditions.cardNumber) parts.push(`card ${conditions.cardNumber}`)
+  if (conditions.accountHolder) parts.push(`holder "${conditions.accountHolder}"`)
+  return parts.join(' and ')
+}
+
+export function RulesManager({
+  isOpen,
+  onClose,
+  onRulesChange,
+  draft,
+  customCategories,
+}: RulesManagerProps) {
+  const [rules, setRules] = useState<CategoryRule[]>([])
+  const [loading, setLoading] = useState(true)
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM)
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const categories = getAllCategories(customCategories)
+
+  useEffect(() => {
+    if (isOpen) {
+      loadRules()
+      setForm(draft ? toForm(draft) : EMPTY_FORM)
+      setEditingId(null)
+    }
+  }, [isOpen, draft])
+
+  const loadRules = async () => {
+    setLoading(true)
+    try {
+      const data = await getAllCategoryRules()
+      setRules(data)
+    } catch (err) {
+      console.error('Failed to load rules:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const conditions = toConditions(form)
+  const patternError =
+    form.bookingTextMatch === 'regex' && form.bookingText.trim()
+      ? validatePattern(form.bookingText.trim())
+      : null
+  const formError = !form.category
+    ? 'Select a category'
+    : !hasConditions(conditions)
+      ? 'Add at least one condition'
+      : patternError
+        ? `Invalid pattern: ${patternError}`
+        : null
+
+  const updateForm = (changes: Partial<RuleForm>) => setForm((prev) => ({ ...prev, ...changes }))
+
+  const handleSaveRule = async () => {
+    if (formError) return
+
+    setSaving(true)
+    try {
+      const rule: RuleDraft = {
+        name: form.name.trim() || `${describeConditions(conditions)} → ${form.category}`,
+        category: form.category,
+        enabled: true,
+        conditions,
+      }
+      if (editingId !== null) {
+        await updateCategoryRule(editingId, rule)
+      } else {
+        await saveCategoryRule(rule)
+      }
+      await loadRules()
+      onRulesChange()
+      setForm(EMPTY_FORM)
+      setEditingId(null)
+    } catch (err) {
+      console.error('Failed to save rule:', err)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleEdit = (rule: CategoryRule) => {
+    setForm(toForm(rule))
+    setEditingId(rule.id!)
+  }
+
+  const handleToggle = async (rule: CategoryRule) => {
+    try {
+      await updateCategoryRule(rule.id!, { enabled: !rule.enabled })
+      await loadRules()
+      onRulesChange()
+    } catch (err) {
+      console.error('Failed to update rule:', err)
+    }
+  }
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const target = index + direction
+    if (target < 0 || target >= rules.length) return
+
+    const reordered = [...rules]
+    ;[reordered[index], reordered[target]] = [reordered[target], reordered[index]]
+    try {
+      await reorderCategoryRules(reordered.map((r) => r.id!))
+      await loadRules()
+      onRulesChange()
+    } catch (err) {
+      console.error('Failed to reorder rules:', err)
+    }
+  }
+
+  const handleDeleteRule = async (id: number) => {
+    try {
+      await deleteCategoryRule(id)
+      await loadRules()
+      onRulesChange()
+    } catch (err) {
+      console.error('Failed to delete rule:', err)
+    }
+  }
+
+  if (!isOpen) return null
+
+  const inputClass =
+    'w-full rounded-xl border-2 border-gray-200 bg-white p-2 text-sm transition-colors focus:border-indigo-500 focus:outline-none'
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm">
+      <div className="flex max-h-[90vh] w-full max-w-2xl flex-col overflow-hidden rounded-2xl bg-white shadow-2xl">
+        {/* Header */}
+        <div className="flex items-center justify-between border-b bg-gradient-to-r from-indigo-500 to-blue-500 p-6">
+          <div className="flex items-center gap-3">
+            <div className="rounded-xl bg-white/20 p-2">
+              <ListFilter className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-white">Categorization Rules</h2>
+              <p className="text-sm text-indigo-100">
+                Rules are checked from top to bottom, before the built-in categories
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="rounded-xl p-2 transition-colors hover:bg-white/20">
+            <X className="h-6 w-6 text-white" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="h-8 w-8 animate-spin rounded-full border-4 border-indigo-500 border-t-transparent"></div>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {/* Rule Form */}
+              <div className="space-y-3 rounded-xl bg-gray-50 p-4">
+                <h3 className="text-sm font-semibold text-gray-700">
+                  {editingId !== null ? 'Edit Rule' : 'Add New Rule'}
+                </h3>
+                <div className="flex gap-3">
+                  <select
+                    value={form.bookingTextMatch}
+                    onChange={(e) =>
+                      updateForm({ bookingTextMatch: e.target.value as 'contains' | 'regex' })
+                    }
+                    className={`${inputClass} w-40`}
+                  >
+                    <option value="contains">Text contains</option>
+                    <option value="regex">Text matches regex</option>
+                  </select>
+                  <input
+                    type="text"
+                    value={form.bookingText}
+                    onChange={(e) => updateForm({ bookingText: e.target.value })}
+                    placeholder="e.g. NETFLIX"
+                    className={inputClass}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <input
+                    type="text"
+                    value={form.sector}
+                    onChange={(e) => updateForm({ sector: e.target.value })}
+                    placeholder="Sector equals"
+                    className={inputClass}
+                  />
+                  <div className="flex gap-2">
+                    <input
+                      type="number"
+                      value={form.minAmount}
+                      onChange={(e) => updateForm({ minAmount: e.target.value })}
+                      placeholder="Min amount"
+                      min="0"
+                      className={inputClass}
+                    />
+                    <input
+                      type="number"
+                      value={form.maxAmount}
+                      onChange={(e) => updateForm({ maxAmount: e.target.value })}
+                      placeholder="Max amount"
+                      min="0"
+                      className={inputClass}
+                    />
+                  </div>
+                  <input
+                    type="text"
+                    value={form.cardNumber}
+                    onChange={(e) => updateForm({ cardNumber: e.target.value })}
+                    placeholder="Card number"
+                    className={inputClass}
+                  />
+                  <input
+                    type="text"
+                    value={form.accountHolder}
+                    onChange={(e) => updateForm({ accountHolder: e.target.value })}
+                    placeholder="Account holder"
+                    className={inputClass}
+                  />
+                </div>
+                <div className="flex gap-3">
+                  <div className="relative flex-1">
+                    <select
+                      value={form.category}
+                      onChange={(e) => updateForm({ category: e.target.value })}
+                      className={`${inputClass} cursor-pointer appearance-none pr-10`}
+                    >
+                      <option value="">Assign category...</option>
+                      {categories.map((cat) => (
+                        <option key={cat} value={cat}>
+                          {formatCategoryLabel(cat, customCategories)}
+                        </option>
+                      ))}
+                    </select>
+                    <ChevronDown className="pointer-events-none absolute right-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+                  </div>
+                  <input
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => updateForm({ name: e.target.value })}
+                    placeholder="Rule name (optional)"
+                    className={`${inputClass} flex-1`}
+                  />
+                  <button
+                    onClick={handleSaveRule}
+                    disabled={!!formError || saving}
+                    title={formError ?? undefined}
+                    className="rounded-xl bg-indigo-500 px-4 py-2 text-white transition-colors hover:bg-indigo-600 disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    <Plus className="h-5 w-5" />
+                  </button>
+                </div>
+                {formError && (form.bookingText || form.category) && (
+                  <p className="text-xs text-gray-500">{formError}</p>
+                )}
+                {editingId !== null && (
+                  <button
+                    onClick={() => {
+                      setForm(EMPTY_FORM)
+                      setEditingId(null)
+                    }}
+                    className="text-xs font-semibold text-gray-500 hover:text-gray-700"
+                  >
+                    Cancel editing
+                  </button>
+                )}
+              </div>
+
+              {/* Rule List */}
+              {rules.length === 0 ? (
+                <div className="py-8 text-center">
+                  <ListFilter className="mx-auto mb-3 h-12 w-12 text-gray-300" />
+                  <p className="font-medium text-gray-600">No rules yet</p>
+                  <p className="text-sm text-gray-500">
+                    Add a rule above or create one from a transaction
+                  </p>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <h3 className="text-sm font-semibold text-gray-700">Your Rules</h3>
+                  {rules.map((rule, index) => (
+                    <div
+                      key={rule.id}
+                      className={`flex items-center justify-between gap-3 rounded-xl border border-gray-200 bg-white p-4 transition-colors hover:border-gray-300 ${
+                        rule.enabled ? '' : 'opacity-50'
+                      }`}
+                    >
+                      <div className="min-w-0">
+                        <p className="truncate font-semibold text-gray-900">{rule.name}</p>
+                        <p className="truncate text-xs text-gray-500">
+                          {describeConditions(rule.conditions)}
+                        </p>
+                        <p className="text-sm font-bold text-indigo-600">{rule.category}</p>
+                      </div>
+                      <div className="flex flex-shrink-0 items-center gap-1">
+                        <button
+                          onClick={() => handleMove(index, -1)}
+                          disabled={index === 0}
+                          className="rounded-lg p-2 transition-colors hover:bg-gray-100 disabled:opacity-30"
+                        >
+                          <ArrowUp className="h-4 w-4 text-gray-500" />
+                        </button>
+                        <button
+                          onClick={() => handleMove(index, 1)}
+                          disabled={index === rules.length - 1}
+                          className="rounded-lg p-2 transition-colors hover:bg-gray-100 disabled:opacity-30"
+                        >
+                          <ArrowDown className="h-4 w-4 text-gray-500" />
+                        </button>
+                        <button
+                          onClick={() => handleToggle(rule)}
+                          title={rule.enabled ? 'Disable' : 'Enable'}
+                          className="rounded-lg p-2 transition-colors hover:bg-gray-100"
+                        >
+                          <Power
+                            className={`h-4 w-4 ${rule.enabled ? 'text-green-600' : 'text-gray-400'}`}
+                          />
+                        </button>
+                        <button
+                          onClick={() => handleEdit(rule)}
+                          className="rounded-lg p-2 transition-colors hover:bg-gray-100"
+                        >
+                          <Pencil className="h-4 w-4 text-gray-500" />
+                        </button>
+                        <button
+                          onClick={() => handleDeleteRule(rule.id!)}
+                          className="group rounded-lg p-2 transition-colors hover:bg-red-50"
+                        >
+                          <Trash2 className="h-4 w-4 text-gray-400 group-hover:text-red-500" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="border-t bg-gray-50 p-4">
+          <button
+            onClick={onClose}
+            className="w-full rounded-xl bg-gray-200 py-3 font-semibold text-gray-700 transition-colors hover:bg-gray-300"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
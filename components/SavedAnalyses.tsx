@@ -20,6 +20,7 @@ import {
   getStorageInfo,
   type SavedAnalysis,
 } from '@/lib/db'
+import { RATE_BASE } from '@/lib/currency'
 
 interface SavedAnalysesProps {
   onLoad: (analysis: SavedAnalysis) => void
@@ -192,7 +193,7 @@ export function SavedAnalyses({ onLoad, refreshTrigger }: SavedAnalysesProps) {
                             <span className="font-semibold text-green-600">
                               {new Intl.NumberFormat('en-CH', {
                                 style: 'currency',
-                                currency: 'CHF',
+                                currency: analysis.currency ?? RATE_BASE,
                               }).format(analysis.report.totalSpent)}
                             </span>
                           </div>
@@ -0,0 +1,82 @@
+'use client'
+
+import { useState } from 'react'
+import { Tag, ChevronDown, X, Check } from 'lucide-react'
+
+interface TagFilterProps {
+  tags: string[]
+  selectedTags: string[]
+  onChange: (selectedTags: string[]) => void
+}
+
+export function TagFilter({ tags, selectedTags, onChange }: TagFilterProps) {
+  const [isOpen, setIsOpen] = useState(false)
+
+  function toggleTag(tag: string): void {
+    onChange(
+      selectedTags.includes(tag) ? selectedTags.filter((t) => t !== tag) : [...selectedTags, tag]
+    )
+  }
+
+  function getDisplayLabel(): string {
+    if (selectedTags.length === 0) return 'All Tags'
+    return selectedTags.map((tag) => `#${tag}`).join(' + ')
+  }
+
+  return (
+    <div className="relative">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className={`flex items-center gap-2 rounded-xl px-4 py-2.5 font-semibold transition-all ${
+            selectedTags.length > 0
+              ? 'border-2 border-green-300 bg-green-100 text-green-700'
+              : 'border-2 border-gray-200 bg-white text-gray-700 hover:border-gray-300'
+          }`}
+        >
+          <Tag className="h-4 w-4" />
+          <span className="max-w-[240px] truncate">{getDisplayLabel()}</span>
+          <ChevronDown className={`h-4 w-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </button>
+
+        {selectedTags.length > 0 && (
+          <button
+            onClick={() => onChange([])}
+            className="rounded-lg p-2 text-gray-500 transition-colors hover:bg-gray-100 hover:text-gray-700"
+            title="Clear filter"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+
+      {/* Dropdown */}
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <div className="absolute left-0 top-full z-50 mt-2 min-w-[220px] rounded-xl border border-gray-200 bg-white shadow-2xl">
+            <div className="max-h-80 overflow-y-auto p-2">
+              <p className="px-3 py-2 text-xs font-semibold uppercase tracking-wide text-gray-500">
+                Show transactions tagged with all of
+              </p>
+              {tags.map((tag) => (
+                <button
+                  key={tag}
+                  onClick={() => toggleTag(tag)}
+                  className={`flex w-full items-center justify-between rounded-lg px-3 py-2 text-left text-sm font-medium transition-colors ${
+                    selectedTags.includes(tag)
+                      ? 'bg-green-100 text-green-700'
+                      : 'text-gray-700 hover:bg-gray-100'
+                  }`}
+                >
+                  #{tag}
+                  {selectedTags.includes(tag) && <Check className="h-4 w-4" />}
+                </button>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
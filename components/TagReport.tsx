@@ -0,0 +1,126 @@
+'use client'
+
+import { useState } from 'react'
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
+import { ChevronRight, Tag } from 'lucide-react'
+import { CategoryDetails } from './CategoryDetails'
+import type { MerchantAlias, TagSummary } from '@/lib/types'
+
+interface TagReportProps {
+  tagSummaries: TagSummary[]
+  merchantAliases?: MerchantAlias[]
+  currency: string // Reporting currency
+}
+
+export function TagReport({ tagSummaries, merchantAliases, currency }: TagReportProps) {
+  const [selectedTag, setSelectedTag] = useState<string | null>(null)
+  const [detailsTag, setDetailsTag] = useState<TagSummary | null>(null)
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-CH', {
+      style: 'currency',
+      currency,
+    }).format(amount)
+  }
+
+  if (tagSummaries.length === 0) return null
+
+  // Chart the selected tag, or the largest one
+  const charted = tagSummaries.find((s) => s.tag === selectedTag) ?? tagSummaries[0]
+
+  return (
+    <>
+      {detailsTag && (
+        <CategoryDetails
+          currency={currency}
+          category={`#${detailsTag.tag}`}
+          transactions={detailsTag.transactions}
+          merchantAliases={merchantAliases}
+          onClose={() => setDetailsTag(null)}
+        />
+      )}
+
+      <div className="rounded-2xl border-2 border-gray-50 bg-white p-8 shadow-xl">
+        <div className="mb-8">
+          <h2 className="mb-2 text-3xl font-bold text-gray-900">Spending by Tag</h2>
+          <p className="text-gray-600">Transactions with several tags count towards each of them</p>
+        </div>
+
+        <div className="grid grid-cols-1 gap-8 lg:grid-cols-5">
+          <div className="max-h-[400px] space-y-2 overflow-y-auto lg:col-span-2">
+            {tagSummaries.map((summary) => (
+              <div
+                key={summary.tag}
+                className={`flex items-center justify-between rounded-xl border-2 p-4 transition-all ${
+                  summary.tag === charted.tag
+                    ? 'border-green-200 bg-green-50'
+                    : 'border-transparent hover:border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                <button
+                  onClick={() => setSelectedTag(summary.tag)}
+                  className="flex flex-1 items-center gap-3 text-left"
+                >
+                  <Tag className="h-5 w-5 flex-shrink-0 text-green-600" />
+                  <div>
+                    <p className="text-sm font-semibold text-gray-800">#{summary.tag}</p>
+                    <p className="text-xs text-gray-500">
+                      {summary.count} transactions • {summary.monthlyTotals.length} month(s)
+                    </p>
+                  </div>
+                </button>
+                <button
+                  onClick={() => setDetailsTag(summary)}
+                  title="Show transactions"
+                  className="group flex items-center gap-2"
+                >
+                  <p className="text-sm font-bold text-gray-900">
+                    {formatCurrency(summary.totalSpent)}
+                  </p>
+                  <ChevronRight className="h-4 w-4 text-gray-400 group-hover:text-green-600" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="lg:col-span-3">
+            <h3 className="mb-4 text-lg font-semibold text-gray-800">#{charted.tag} over time</h3>
+            <div className="h-[340px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart
+                  data={charted.monthlyTotals}
+                  margin={{ top: 10, right: 20, left: 10, bottom: 5 }}
+                >
+                  <CartesianGrid strokeDasharray="3 3" stroke="#f3f4f6" vertical={false} />
+                  <XAxis
+                    dataKey="month"
+                    tick={{ fontSize: 11, fill: '#6b7280' }}
+                    stroke="#9ca3af"
+                    tickLine={false}
+                  />
+                  <YAxis
+                    tick={{ fontSize: 12, fill: '#6b7280' }}
+                    stroke="#9ca3af"
+                    tickLine={false}
+                  />
+                  <Tooltip
+                    formatter={(value: number) => [formatCurrency(value), 'Spent']}
+                    contentStyle={{
+                      backgroundColor: 'white',
+                      border: '2px solid #e5e7eb',
+                      borderRadius: '12px',
+                      padding: '12px',
+                      fontSize: '14px',
+                      fontWeight: '600',
+                    }}
+                  />
+                  <Bar dataKey="totalSpent" fill="#10b981" radius={[6, 6, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -1,23 +1,52 @@
 'use client'
 
+import { useState } from 'react'
 import { format } from 'date-fns'
 import { ArrowUpRight } from 'lucide-react'
-import type { Transaction } from '@/lib/types'
+import { MerchantDetails } from './MerchantDetails'
+import { getMerchantName, summarizeMerchants } from '@/lib/merchants'
+import type { MerchantAlias, Transaction } from '@/lib/types'
 
 interface TopExpensesProps {
   transactions: Transaction[]
+  allTransactions?: Transaction[] // Merchant details cover these instead of just the top 10
+  merchantAliases?: MerchantAlias[]
+  onMerchantAliasesChange?: () => void
+  currency: string // Reporting currency
 }
 
-export function TopExpenses({ transactions }: TopExpensesProps) {
+export function TopExpenses({
+  transactions,
+  allTransactions = transactions,
+  merchantAliases,
+  onMerchantAliasesChange,
+  currency,
+}: TopExpensesProps) {
+  const [selectedMerchant, setSelectedMerchant] = useState<string | null>(null)
+  const merchantSummary = selectedMerchant
+    ? summarizeMerchants(allTransactions, merchantAliases).find(
+        (s) => s.merchant === selectedMerchant
+      )
+    : undefined
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-CH', {
       style: 'currency',
-      currency: 'CHF',
+      currency,
     }).format(amount)
   }
 
   return (
     <div className="rounded-2xl border-2 border-gray-50 bg-white p-8 shadow-xl">
+      {merchantSummary && (
+        <MerchantDetails
+          currency={currency}
+          summary={merchantSummary}
+          onClose={() => setSelectedMerchant(null)}
+          onAliasesChange={onMerchantAliasesChange}
+        />
+      )}
+
       <div className="mb-8">
         <h2 className="mb-2 text-3xl font-bold text-gray-900">Top 10 Expenses</h2>
         <p className="text-gray-600">Your highest transactions this period</p>
@@ -54,10 +83,17 @@ export function TopExpenses({ transactions }: TopExpensesProps) {
                 </td>
                 <td className="px-6 py-4">
                   <div>
-                    <p className="text-base font-semibold text-gray-900 transition-colors group-hover:text-blue-600">
-                      {transaction.bookingText}
-                    </p>
-                    <p className="mt-1 text-sm text-gray-500">{transaction.accountHolder}</p>
+                    <button
+                      onClick={() =>
+                        setSelectedMerchant(getMerchantName(transaction, merchantAliases))
+                      }
+                      title="Show merchant"
+                      className="text-left text-base font-semibold text-gray-900 transition-colors group-hover:text-blue-600"
+                    >
+                      {getMerchantName(transaction, merchantAliases)}
+                    </button>
+                    <p className="mt-1 text-sm text-gray-500">{transaction.bookingText}</p>
+                    <p className="text-sm text-gray-500">{transaction.accountHolder}</p>
                   </div>
                 </td>
                 <td className="px-6 py-4">
@@ -3,18 +3,24 @@
 import { useState, useEffect, useCallback } from 'react'
 import { X, Plus, FileUp, AlertTriangle, CheckCircle, History, Layers, Upload } from 'lucide-react'
 import { getAllAnalyses, saveAnalysis, type SavedAnalysis } from '@/lib/db'
-import { parseCSV } from '@/lib/parser'
-import { analyzeExpenses } from '@/lib/analyzer'
+import { parseFile, isSupportedFile, SUPPORTED_EXTENSIONS, type ParseResult } from '@/lib/parser'
+import { analyzeExpenses, type AnalysisSettings } from '@/lib/analyzer'
 import { mergeTransactions, type MergeResult } from '@/lib/merge'
+import { RATE_BASE } from '@/lib/currency'
 import type { Transaction } from '@/lib/types'
+import { ParseReview } from './ParseReview'
 
 interface TransactionHistoryBuilderProps {
-  onHistoryBuilt?: (transactions: Transaction[]) => void
+  settings: AnalysisSettings // Categorization of the saved report, besides the base's overrides
+  onHistoryBuilt?: (transactions: Transaction[], categoryOverrides: Map<string, string>) => void
 }
 
 type Step = 'select-base' | 'upload' | 'preview' | 'complete'
 
-export function TransactionHistoryBuilder({ onHistoryBuilt }: TransactionHistoryBuilderProps) {
+export function TransactionHistoryBuilder({
+  settings,
+  onHistoryBuilt,
+}: TransactionHistoryBuilderProps) {
   const [isOpen, setIsOpen] = useState(false)
   const [step, setStep] = useState<Step>('select-base')
   const [analyses, setAnalyses] = useState<SavedAnalysis[]>([])
@@ -28,6 +34,10 @@ export function TransactionHistoryBuilder({ onHistoryBuilt }: TransactionHistory
   const [uploadedFiles, setUploadedFiles] = useState<File[]>([])
   const [dragActive, setDragActive] = useState(false)
 
+  // Files with problem rows wait for review, one at a time, before anything is merged
+  const [pendingReviews, setPendingReviews] = useState<{ file: File; result: ParseResult }[]>([])
+  const [reviewedTransactions, setReviewedTransactions] = useState<Transaction[]>([])
+
   // Merge result
   const [mergeResult, setMergeResult] = useState<MergeResult | null>(null)
   const [historyName, setHistoryName] = useState('')
@@ -53,6 +63,8 @@ export function TransactionHistoryBuilder({ onHistoryBuilt }: TransactionHistory
     setSelectedBase(null)
     setBaseTransactions([])
     setUploadedFiles([])
+    setPendingReviews([])
+    setReviewedTransactions([])
     setMergeResult(null)
     setHistoryName('')
   }
@@ -83,9 +95,7 @@ export function TransactionHistoryBuilder({ onHistoryBuilt }: TransactionHistory
     e.stopPropagation()
     setDragActive(false)
 
-    const files = Array.from(e.dataTransfer.files).filter(
-      (f) => f.type === 'text/csv' || f.name.endsWith('.csv')
-    )
+    const files = Array.from(e.dataTransfer.files).filter(isSupportedFile)
     if (files.length > 0) {
       setUploadedFiles((prev) => [...prev, ...files])
     }
@@ -107,17 +117,24 @@ export function TransactionHistoryBuilder({ onHistoryBuilt }: TransactionHistory
 
     setLoading(true)
     try {
-      // Parse all uploaded files
+      // Parse all uploaded files; files with problem rows are reviewed before merging
       let allNewTransactions: Transaction[] = []
+      const reviews: { file: File; result: ParseResult }[] = []
       for (const file of uploadedFiles) {
-        const parsed = await parseCSV(file)
-        allNewTransactions = [...allNewTransactions, ...parsed]
+        const result = await parseFile(file)
+        if (result.diagnostics.length > 0) {
+          reviews.push({ file, result })
+        } else {
+          allNewTransactions = [...allNewTransactions, ...result.transactions]
+        }
       }
 
-      // Merge with base transactions
-      const result = mergeTransactions(baseTransactions, allNewTransactions)
-      setMergeResult(result)
-      setStep('preview')
+      if (reviews.length > 0) {
+        setReviewedTransactions(allNewTransactions)
+        setPendingReviews(reviews)
+      } else {
+        mergeWithBase(allNewTransactions)
+      }
     } catch (err) {
       console.error('Failed to merge:', err)
     } finally {
@@ -125,20 +142,55 @@ export function TransactionHistoryBuilder({ onHistoryBuilt }: TransactionHistory
     }
   }
 
+  const mergeWithBase = (newTransactions: Transaction[]) => {
+    const result = mergeTransactions(baseTransactions, newTransactions)
+    setMergeResult(result)
+    setStep('preview')
+  }
+
+  const handleReviewConfirm = (transactions: Transaction[]) => {
+    const collected = [...reviewedTransactions, ...transactions]
+    const remaining = pendingReviews.slice(1)
+    setPendingReviews(remaining)
+    setReviewedTransactions(remaining.length > 0 ? collected : [])
+    if (remaining.length === 0) {
+      mergeWithBase(collected)
+    }
+  }
+
+  // Cancelling a review goes back to the file list without merging anything
+  const handleReviewCancel = () => {
+    setPendingReviews([])
+    setReviewedTransactions([])
+  }
+
   const handleSaveHistory = async () => {
     if (!mergeResult) return
 
     setLoading(true)
     try {
-      // Re-analyze with merged transactions
-      const report = analyzeExpenses(mergeResult.merged)
+      // Re-analyze with merged transactions, keeping the base analysis' manual categories.
+      // Transfers and refunds are matched again on the merged history.
+      const overrides = new Map(Object.entries(selectedBase?.categoryOverrides ?? {}))
+      const report = analyzeExpenses(mergeResult.merged, {
+        ...settings,
+        categoryOverrides: overrides,
+        matches: undefined,
+      })
 
       // Save as new analysis
-      await saveAnalysis('Merged History', mergeResult.merged, report, historyName)
+      await saveAnalysis(
+        'Merged History',
+        mergeResult.merged,
+        report,
+        historyName,
+        overrides,
+        settings.currency?.reportingCurrency ?? RATE_BASE
+      )
 
       // Notify parent if callback provided
       if (onHistoryBuilt) {
-        onHistoryBuilt(mergeResult.merged)
+        onHistoryBuilt(mergeResult.merged, overrides)
       }
 
       setStep('complete')
@@ -152,7 +204,7 @@ export function TransactionHistoryBuilder({ onHistoryBuilt }: TransactionHistory
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-CH', {
       style: 'currency',
-      currency: 'CHF',
+      currency: settings.currency?.reportingCurrency ?? RATE_BASE,
     }).format(amount)
   }
 
@@ -283,13 +335,25 @@ export function TransactionHistoryBuilder({ onHistoryBuilt }: TransactionHistory
                 </div>
               )}
 
+              {/* Step 2: Review files with problem rows */}
+              {step === 'upload' && pendingReviews.length > 0 && (
+                <ParseReview
+                  key={pendingReviews[0].file.name + pendingReviews.length}
+                  fileName={pendingReviews[0].file.name}
+                  result={pendingReviews[0].result}
+                  onConfirm={handleReviewConfirm}
+                  onCancel={handleReviewCancel}
+                />
+              )}
+
               {/* Step 2: Upload Files */}
-              {step === 'upload' && (
+              {step === 'upload' && pendingReviews.length === 0 && (
                 <div className="space-y-4">
                   <div>
                     <h3 className="mb-2 text-lg font-semibold text-gray-900">Upload CSV Files</h3>
                     <p className="mb-4 text-sm text-gray-600">
-                      Add one or more CSV files to merge into your history.
+                      Add one or more statement files (CSV, camt XML, MT940, OFX/QFX) to merge into
+                      your history.
                       {selectedBase &&
                         ` Starting with ${selectedBase.transactions.length} existing transactions.`}
                     </p>
@@ -314,7 +378,7 @@ export function TransactionHistoryBuilder({ onHistoryBuilt }: TransactionHistory
                       Browse Files
                       <input
                         type="file"
-                        accept=".csv"
+                        accept={SUPPORTED_EXTENSIONS.join(',')}
                         multiple
                         onChange={handleFileInput}
                         className="hidden"
@@ -2,37 +2,71 @@
 
 import { useState, useMemo } from 'react'
 import { format } from 'date-fns'
-import { Table, ChevronDown, Search, Filter, X } from 'lucide-react'
-import { categorizeTransaction } from '@/lib/analyzer'
-import { getAllCategories } from '@/lib/categories'
+import {
+  Table,
+  ChevronDown,
+  Search,
+  Filter,
+  X,
+  Wand2,
+  Sparkles,
+  Tag,
+  Plus,
+  Minus,
+} from 'lucide-react'
+import { categorizeTransaction, explainCategory, type AnalysisSettings } from '@/lib/analyzer'
+import { getAllCategories, formatCategoryLabel } from '@/lib/categories'
+import { addTags, removeTags, getTagNames, parseTagInput } from '@/lib/tags'
+import { RATE_BASE } from '@/lib/currency'
 import type { Transaction } from '@/lib/types'
 
 interface TransactionsTableProps {
   transactions: Transaction[]
-  onUpdateCategories: (categoryOverrides: Map<number, string>) => void
+  categoryOverrides: Map<string, string> // Transaction id -> category
+  settings: AnalysisSettings
+  onUpdateCategories: (categoryOverrides: Map<string, string>) => void
+  onCreateRule?: (transaction: Transaction, category: string) => void
+  learnedExampleCount?: number
+  onResetLearning?: () => void
+  transactionTags?: Map<string, string[]> // Transaction id -> tags
+  onUpdateTags?: (changes: Map<string, string[]>) => void // Only the changed tag lists
 }
 
 interface TransactionWithCategory extends Transaction {
   category: string
+  confidence?: number // Set when the category was learned from earlier overrides
 }
 
-export function TransactionsTable({ transactions, onUpdateCategories }: TransactionsTableProps) {
+const NO_TAGS = new Map<string, string[]>()
+
+export function TransactionsTable({
+  transactions,
+  categoryOverrides,
+  settings,
+  onUpdateCategories,
+  onCreateRule,
+  learnedExampleCount = 0,
+  onResetLearning,
+  transactionTags = NO_TAGS,
+  onUpdateTags,
+}: TransactionsTableProps) {
   const [isOpen, setIsOpen] = useState(false)
   const [searchTerm, setSearchTerm] = useState('')
   const [categoryFilter, setCategoryFilter] = useState<string>('all')
-  const [editingId, setEditingId] = useState<number | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [tagFilter, setTagFilter] = useState<string>('all')
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [bulkTagInput, setBulkTagInput] = useState('')
+  const [taggingId, setTaggingId] = useState<string | null>(null)
+  const [tagInput, setTagInput] = useState('')
 
   // Add category to each transaction
-  const transactionsWithCategories = useMemo(() => {
-    return transactions.map((t, idx) => ({
-      ...t,
-      id: idx,
-      category: categorizeTransaction(t),
-    })) as (TransactionWithCategory & { id: number })[]
-  }, [transactions])
-
-  const [localTransactions, setLocalTransactions] = useState(transactionsWithCategories)
-  const [overrides, setOverrides] = useState<Map<number, string>>(new Map())
+  const localTransactions = useMemo((): TransactionWithCategory[] => {
+    return transactions.map((t) => {
+      const { category, source, confidence } = explainCategory(t, settings)
+      return { ...t, category, confidence: source === 'learned' ? confidence : undefined }
+    })
+  }, [transactions, settings])
 
   // Filter transactions
   const filteredTransactions = useMemo(() => {
@@ -42,32 +76,34 @@ export function TransactionsTable({ transactions, onUpdateCategories }: Transact
         t.sector.toLowerCase().includes(searchTerm.toLowerCase())
 
       const matchesCategory = categoryFilter === 'all' || t.category === categoryFilter
+      const matchesTag =
+        tagFilter === 'all' || (transactionTags.get(t.id) ?? []).includes(tagFilter)
 
-      return matchesSearch && matchesCategory
+      return matchesSearch && matchesCategory && matchesTag
     })
-  }, [localTransactions, searchTerm, categoryFilter])
+  }, [localTransactions, searchTerm, categoryFilter, tagFilter, transactionTags])
 
-  const categories = getAllCategories()
+  const tagNames = useMemo(() => getTagNames(transactionTags), [transactionTags])
+
+  const customCategories = settings.customCategories ?? []
+  const categories = getAllCategories(customCategories)
   const uniqueCategories = useMemo(() => {
     return Array.from(new Set(localTransactions.map((t) => t.category))).sort()
   }, [localTransactions])
 
-  const handleCategoryChange = (id: number, newCategory: string) => {
-    const updated = localTransactions.map((t) =>
-      t.id === id ? { ...t, category: newCategory } : t
-    )
-    setLocalTransactions(updated)
+  const handleCategoryChange = (transaction: Transaction, newCategory: string) => {
     setEditingId(null)
 
-    // Track the override
-    const newOverrides = new Map(overrides)
-    const originalCategory = categorizeTransaction(transactions[id])
-    if (newCategory !== originalCategory) {
-      newOverrides.set(id, newCategory)
+    // Track the override, unless the category is the one the transaction gets without it
+    const newOverrides = new Map(categoryOverrides)
+    if (
+      newCategory !==
+      categorizeTransaction(transaction, { ...settings, categoryOverrides: undefined })
+    ) {
+      newOverrides.set(transaction.id, newCategory)
     } else {
-      newOverrides.delete(id)
+      newOverrides.delete(transaction.id)
     }
-    setOverrides(newOverrides)
 
     // Notify parent component
     onUpdateCategories(newOverrides)
@@ -76,16 +112,47 @@ export function TransactionsTable({ transactions, onUpdateCategories }: Transact
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-CH', {
       style: 'currency',
-      currency: 'CHF',
+      currency: settings.currency?.reportingCurrency ?? RATE_BASE,
     }).format(amount)
   }
 
   const handleReset = () => {
-    setLocalTransactions(transactionsWithCategories)
-    setOverrides(new Map())
     onUpdateCategories(new Map())
   }
 
+  const handleAddTags = (transactionIds: string[], input: string) => {
+    const changes = addTags(transactionTags, transactionIds, parseTagInput(input))
+    if (changes.size > 0) onUpdateTags?.(changes)
+  }
+
+  const handleRemoveTags = (transactionIds: string[], tags: string[]) => {
+    const changes = removeTags(transactionTags, transactionIds, tags)
+    if (changes.size > 0) onUpdateTags?.(changes)
+  }
+
+  const handleSingleTagSubmit = (transactionId: string) => {
+    handleAddTags([transactionId], tagInput)
+    setTaggingId(null)
+    setTagInput('')
+  }
+
+  const toggleSelected = (transactionId: string) => {
+    const next = new Set(selectedIds)
+    if (next.has(transactionId)) {
+      next.delete(transactionId)
+    } else {
+      next.add(transactionId)
+    }
+    setSelectedIds(next)
+  }
+
+  const allFilteredSelected =
+    filteredTransactions.length > 0 && filteredTransactions.every((t) => selectedIds.has(t.id))
+
+  const toggleSelectAll = () => {
+    setSelectedIds(allFilteredSelected ? new Set() : new Set(filteredTransactions.map((t) => t.id)))
+  }
+
   return (
     <>
       <button
@@ -149,6 +216,36 @@ export function TransactionsTable({ transactions, onUpdateCategories }: Transact
                 >
                   Reset All
                 </button>
+
+                {onUpdateTags && tagNames.length > 0 && (
+                  <div className="relative">
+                    <Tag className="absolute left-3 top-1/2 h-5 w-5 -translate-y-1/2 transform text-green-200" />
+                    <select
+                      value={tagFilter}
+                      onChange={(e) => setTagFilter(e.target.value)}
+                      className="cursor-pointer appearance-none rounded-lg border border-white/30 bg-white/20 py-2 pl-10 pr-8 text-white focus:outline-none focus:ring-2 focus:ring-white/50"
+                    >
+                      <option value="all" className="text-gray-900">
+                        All Tags
+                      </option>
+                      {tagNames.map((tag) => (
+                        <option key={tag} value={tag} className="text-gray-900">
+                          #{tag}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                {onResetLearning && learnedExampleCount > 0 && (
+                  <button
+                    onClick={onResetLearning}
+                    title={`Forget ${learnedExampleCount} learned example(s)`}
+                    className="rounded-lg border border-white/30 bg-white/20 px-4 py-2 text-white transition-colors hover:bg-white/30"
+                  >
+                    Reset Learning
+                  </button>
+                )}
               </div>
             </div>
 
@@ -157,10 +254,64 @@ export function TransactionsTable({ transactions, onUpdateCategories }: Transact
                 Showing {filteredTransactions.length} of {localTransactions.length} transactions
               </div>
 
+              {/* Bulk tagging */}
+              {onUpdateTags && selectedIds.size > 0 && (
+                <div className="mb-4 flex flex-wrap items-center gap-3 rounded-xl border border-green-200 bg-green-50 p-3">
+                  <span className="text-sm font-semibold text-green-800">
+                    {selectedIds.size} selected
+                  </span>
+                  <input
+                    type="text"
+                    value={bulkTagInput}
+                    onChange={(e) => setBulkTagInput(e.target.value)}
+                    placeholder="Tags, comma separated"
+                    className="flex-1 rounded-lg border border-green-200 px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+                  />
+                  <button
+                    onClick={() => {
+                      handleAddTags(Array.from(selectedIds), bulkTagInput)
+                      setBulkTagInput('')
+                    }}
+                    disabled={parseTagInput(bulkTagInput).length === 0}
+                    className="flex items-center gap-1 rounded-lg bg-green-600 px-3 py-1.5 text-sm font-semibold text-white transition-colors hover:bg-green-700 disabled:opacity-50"
+                  >
+                    <Plus className="h-4 w-4" />
+                    Add
+                  </button>
+                  <button
+                    onClick={() => {
+                      handleRemoveTags(Array.from(selectedIds), parseTagInput(bulkTagInput))
+                      setBulkTagInput('')
+                    }}
+                    disabled={parseTagInput(bulkTagInput).length === 0}
+                    className="flex items-center gap-1 rounded-lg bg-gray-200 px-3 py-1.5 text-sm font-semibold text-gray-700 transition-colors hover:bg-gray-300 disabled:opacity-50"
+                  >
+                    <Minus className="h-4 w-4" />
+                    Remove
+                  </button>
+                  <button
+                    onClick={() => setSelectedIds(new Set())}
+                    className="text-sm font-medium text-green-700 hover:text-green-900"
+                  >
+                    Clear selection
+                  </button>
+                </div>
+              )}
+
               <div className="overflow-x-auto">
                 <table className="w-full">
                   <thead className="sticky top-0 bg-gray-50">
                     <tr className="border-b border-gray-200">
+                      {onUpdateTags && (
+                        <th className="w-10 px-4 py-3">
+                          <input
+                            type="checkbox"
+                            checked={allFilteredSelected}
+                            onChange={toggleSelectAll}
+                            title="Select all shown transactions"
+                          />
+                        </th>
+                      )}
                       <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">
                         Date
                       </th>
@@ -173,9 +324,15 @@ export function TransactionsTable({ transactions, onUpdateCategories }: Transact
                       <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">
                         Category
                       </th>
+                      {onUpdateTags && (
+                        <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">
+                          Tags
+                        </th>
+                      )}
                       <th className="px-4 py-3 text-right text-sm font-semibold text-gray-700">
                         Amount
                       </th>
+                      {onCreateRule && <th className="w-12 px-4 py-3" />}
                     </tr>
                   </thead>
                   <tbody>
@@ -184,6 +341,15 @@ export function TransactionsTable({ transactions, onUpdateCategories }: Transact
                         key={transaction.id}
                         className="border-b border-gray-100 transition-colors hover:bg-gray-50"
                       >
+                        {onUpdateTags && (
+                          <td className="px-4 py-3">
+                            <input
+                              type="checkbox"
+                              checked={selectedIds.has(transaction.id)}
+                              onChange={() => toggleSelected(transaction.id)}
+                            />
+                          </td>
+                        )}
                         <td className="px-4 py-3 text-sm text-gray-600">
                           {transaction.purchaseDate && !isNaN(transaction.purchaseDate.getTime())
                             ? format(transaction.purchaseDate, 'MMM d, yyyy')
@@ -208,14 +374,14 @@ export function TransactionsTable({ transactions, onUpdateCategories }: Transact
                           {editingId === transaction.id ? (
                             <select
                               value={transaction.category}
-                              onChange={(e) => handleCategoryChange(transaction.id, e.target.value)}
+                              onChange={(e) => handleCategoryChange(transaction, e.target.value)}
                               onBlur={() => setEditingId(null)}
                               autoFocus
                               className="w-full rounded-lg border border-blue-300 px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
                             >
                               {categories.map((cat) => (
                                 <option key={cat} value={cat}>
-                                  {cat}
+                                  {formatCategoryLabel(cat, customCategories)}
                                 </option>
                               ))}
                             </select>
@@ -225,10 +391,68 @@ export function TransactionsTable({ transactions, onUpdateCategories }: Transact
                               className="group flex w-full items-center justify-between gap-2 rounded-lg bg-blue-50 px-3 py-1.5 text-blue-700 transition-colors hover:bg-blue-100"
                             >
                               <span className="text-sm font-medium">{transaction.category}</span>
+                              {transaction.confidence !== undefined && (
+                                <span
+                                  title="Learned from your earlier category changes"
+                                  className="ml-auto inline-flex items-center gap-1 rounded bg-purple-100 px-1.5 py-0.5 text-xs font-medium text-purple-700"
+                                >
+                                  <Sparkles className="h-3 w-3" />
+                                  {Math.round(transaction.confidence * 100)}%
+                                </span>
+                              )}
                               <ChevronDown className="h-4 w-4 text-blue-500 group-hover:text-blue-700" />
                             </button>
                           )}
                         </td>
+                        {onUpdateTags && (
+                          <td className="px-4 py-3">
+                            <div className="flex flex-wrap items-center gap-1">
+                              {(transactionTags.get(transaction.id) ?? []).map((tag) => (
+                                <span
+                                  key={tag}
+                                  className="inline-flex items-center gap-1 rounded-full bg-green-100 px-2 py-0.5 text-xs font-medium text-green-800"
+                                >
+                                  #{tag}
+                                  <button
+                                    onClick={() => handleRemoveTags([transaction.id], [tag])}
+                                    className="hover:text-green-950"
+                                  >
+                                    <X className="h-3 w-3" />
+                                  </button>
+                                </span>
+                              ))}
+                              {taggingId === transaction.id ? (
+                                <input
+                                  type="text"
+                                  value={tagInput}
+                                  onChange={(e) => setTagInput(e.target.value)}
+                                  onKeyDown={(e) => {
+                                    if (e.key === 'Enter') handleSingleTagSubmit(transaction.id)
+                                    if (e.key === 'Escape') {
+                                      setTagInput('')
+                                      setTaggingId(null)
+                                    }
+                                  }}
+                                  onBlur={() => handleSingleTagSubmit(transaction.id)}
+                                  placeholder="tag"
+                                  autoFocus
+                                  className="w-24 rounded border border-green-300 px-2 py-0.5 text-xs focus:outline-none focus:ring-1 focus:ring-green-500"
+                                />
+                              ) : (
+                                <button
+                                  onClick={() => {
+                                    setTaggingId(transaction.id)
+                                    setTagInput('')
+                                  }}
+                                  title="Add tag"
+                                  className="rounded-full p-1 text-gray-400 transition-colors hover:bg-green-50 hover:text-green-600"
+                                >
+                                  <Plus className="h-3 w-3" />
+                                </button>
+                              )}
+                            </div>
+                          </td>
+                        )}
                         <td className="px-4 py-3 text-right">
                           <span
                             className={`text-sm font-semibold ${
@@ -238,6 +462,17 @@ export function TransactionsTable({ transactions, onUpdateCategories }: Transact
                             {formatCurrency((transaction.debit || 0) - (transaction.credit || 0))}
                           </span>
                         </td>
+                        {onCreateRule && (
+                          <td className="px-4 py-3 text-right">
+                            <button
+                              onClick={() => onCreateRule(transaction, transaction.category)}
+                              title="Create rule from this transaction"
+                              className="rounded-lg p-1.5 text-gray-400 transition-colors hover:bg-indigo-50 hover:text-indigo-600"
+                            >
+                              <Wand2 className="h-4 w-4" />
+                            </button>
+                          </td>
+                        )}
                       </tr>
                     ))}
                   </tbody>
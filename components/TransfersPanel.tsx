@@ -0,0 +1,109 @@
+'use client'
+
+import { useMemo } from 'react'
+import { format } from 'date-fns'
+import { ArrowLeftRight, ArrowRight, Check, X } from 'lucide-react'
+import { detectTransfers } from '@/lib/transfers'
+import type { Transaction, TransferDecision, TransferStatus } from '@/lib/types'
+
+interface TransfersPanelProps {
+  transactions: Transaction[]
+  transferDecisions: TransferDecision[]
+  onDecide: (pairId: string, status: TransferStatus) => void
+  currency: string // Reporting currency
+}
+
+export function TransfersPanel({
+  transactions,
+  transferDecisions,
+  onDecide,
+  currency,
+}: TransfersPanelProps) {
+  const pairs = useMemo(
+    () => detectTransfers(transactions, transferDecisions),
+    [transactions, transferDecisions]
+  )
+  const totalTransferred = pairs.filter((p) => p.excluded).reduce((sum, p) => sum + p.amount, 0)
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-CH', {
+      style: 'currency',
+      currency,
+    }).format(amount)
+  }
+
+  const describeSide = (t: Transaction) => (
+    <div className="min-w-0 flex-1">
+      <p className="truncate text-sm font-semibold text-gray-900">{t.bookingText}</p>
+      <p className="text-xs text-gray-500">
+        {t.cardNumber || t.accountNumber || 'Unknown account'} •{' '}
+        {format(t.purchaseDate, 'MMM d, yyyy')}
+      </p>
+    </div>
+  )
+
+  if (pairs.length === 0) return null
+
+  return (
+    <div className="rounded-2xl border-2 border-gray-50 bg-white p-8 shadow-xl">
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="mb-2 text-3xl font-bold text-gray-900">Internal Transfers</h2>
+          <p className="text-gray-600">
+            Payments between your own accounts and cards are left out of spending and income once
+            confirmed, or when both sides read as a transfer
+          </p>
+        </div>
+        <div className="text-right">
+          <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">Excluded</p>
+          <p className="text-2xl font-bold text-gray-900">{formatCurrency(totalTransferred)}</p>
+        </div>
+      </div>
+
+      <div className="max-h-[480px] space-y-3 overflow-y-auto">
+        {pairs.map((pair) => (
+          <div
+            key={pair.id}
+            className="flex flex-col gap-4 rounded-xl border border-gray-200 p-4 lg:flex-row lg:items-center"
+          >
+            <div className="flex min-w-0 flex-1 items-center gap-3">
+              {describeSide(pair.debit)}
+              <ArrowRight className="h-5 w-5 flex-shrink-0 text-gray-400" />
+              {describeSide(pair.credit)}
+            </div>
+
+            <div className="flex flex-shrink-0 items-center gap-3">
+              <span className="font-bold text-gray-900">{formatCurrency(pair.amount)}</span>
+              {pair.confirmed ? (
+                <span className="inline-flex items-center gap-1 rounded-lg bg-green-100 px-2 py-1 text-xs font-semibold text-green-700">
+                  <Check className="h-3 w-3" />
+                  Confirmed
+                </span>
+              ) : (
+                <>
+                  {!pair.excluded && (
+                    <span className="text-xs font-medium text-gray-500">Still counted</span>
+                  )}
+                  <button
+                    onClick={() => onDecide(pair.id, 'confirmed')}
+                    className="flex items-center gap-1 rounded-lg bg-cyan-600 px-3 py-1.5 text-sm font-semibold text-white transition-colors hover:bg-cyan-700"
+                  >
+                    <ArrowLeftRight className="h-4 w-4" />
+                    Confirm
+                  </button>
+                </>
+              )}
+              <button
+                onClick={() => onDecide(pair.id, 'rejected')}
+                title="Not a transfer"
+                className="rounded-lg p-2 text-gray-400 transition-colors hover:bg-red-50 hover:text-red-600"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
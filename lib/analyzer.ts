@@ -1,13 +1,43 @@
-import { format, startOfMonth, endOfMonth, isWithinInterval } from 'date-fns'
+import { addDays, differenceInCalendarDays, format, parse, subMilliseconds } from 'date-fns'
 import type {
   Transaction,
   ExpenseReport,
   CategorySummary,
+  CategoryGroup,
   MonthlyAnalysis,
   Budget,
+  BudgetRevision,
   BudgetWithSpending,
   BudgetStatus,
+  BudgetMode,
+  BudgetPeriod,
+  BudgetLedgerEntry,
+  EnvelopeAssignment,
+  EnvelopeFunds,
+  HolderSummary,
+  CategoryRule,
+  MerchantAlias,
+  TransferDecision,
+  CustomCategory,
 } from './types'
+import { findMatchingRule } from './rules'
+import { predict, MIN_CONFIDENCE, type ClassifierModel } from './classifier'
+import { getSubcategories, getTopLevelCategory } from './categories'
+import { getTransferIds } from './transfers'
+import { matchRefunds, type RefundMatch } from './refunds'
+import { getHolderName } from './holders'
+import {
+  PACE_EARLY_PERCENT,
+  PACE_HISTORY_PERIODS,
+  buildBudgetLedger,
+  getBudgetAmount,
+  getElapsedDays,
+  getEnvelopeFunds,
+  getPeriodKey,
+  getPeriodRange,
+  projectSpending,
+} from './budgets'
+import { convertTransactions, type CurrencySettings } from './currency'
 
 export interface TransactionWithCategory extends Transaction {
   manualCategory?: string
@@ -103,12 +133,114 @@ const SECTOR_CATEGORY_MAP: { [key: string]: string } = {
   'Professional Services - Not Elsewhere Classified': 'Professional Services',
 }
 
-export function categorizeTransaction(transaction: Transaction | TransactionWithCategory): string {
-  // Check for manual category override first
-  if ('manualCategory' in transaction && transaction.manualCategory) {
-    return transaction.manualCategory
+// Where a transaction's category came from
+export type CategorySource = 'manual' | 'rule' | 'builtin' | 'learned'
+
+export interface CategoryAssignment {
+  category: string
+  source: CategorySource
+  confidence?: number // Only for learned categories
+}
+
+/**
+ * User settings that decide how transactions are categorized and counted. Pass the
+ * same settings to every analysis so the views agree with each other.
+ */
+export interface AnalysisSettings {
+  categoryOverrides?: Map<string, string> // Transaction id -> category
+  rules?: CategoryRule[]
+  classifier?: ClassifierModel // Learned from earlier overrides
+  merchantAliases?: MerchantAlias[] // Refunds are matched by merchant
+  transferDecisions?: TransferDecision[]
+  currency?: CurrencySettings // Amounts are reported in the booked currency without it
+  matches?: HistoryMatches // Found within the analyzed transactions without it
+  customCategories?: CustomCategory[] // Subcategories roll up into their parents
+}
+
+/**
+ * Transfers and refunds found on the full history, so that a pair is still
+ * recognized when a filter leaves only one of its sides
+ */
+export interface HistoryMatches {
+  transferIds: Set<string>
+  refunds: RefundMatch[] // Including refunds without a purchase
+}
+
+/**
+ * Find transfers and refunds once on the full history, to pass to the analyses of
+ * filtered transactions through the settings. Refund amounts are in the reporting
+ * currency of the settings.
+ */
+export function findHistoryMatches(
+  sourceTransactions: Transaction[],
+  settings: AnalysisSettings = {}
+): HistoryMatches {
+  const transactions = convertTransactions(sourceTransactions, settings.currency)
+  const transferIds = getTransferIds(transactions, settings.transferDecisions)
+  const refunds = matchRefunds(
+    transactions.filter((t) => !transferIds.has(t.id)),
+    settings.merchantAliases
+  )
+  return { transferIds, refunds }
+}
+
+/**
+ * Matches for the transactions: those of the settings when given, limited to refunds
+ * received among the transactions, otherwise found within the transactions
+ */
+export function getMatches(
+  transactions: Transaction[],
+  settings: AnalysisSettings = {}
+): HistoryMatches {
+  if (!settings.matches) return findHistoryMatches(transactions, settings)
+  const ids = new Set(transactions.map((t) => t.id))
+  return {
+    transferIds: settings.matches.transferIds,
+    refunds: settings.matches.refunds.filter((m) => ids.has(m.refund.id)),
+  }
+}
+
+/**
+ * Categorize a transaction and report how the category was decided:
+ * manual override, then user rules, then the built-in heuristics, and finally
+ * the learned classifier for transactions the heuristics leave as 'Other'.
+ */
+export function explainCategory(
+  transaction: Transaction | TransactionWithCategory,
+  settings: AnalysisSettings = {}
+): CategoryAssignment {
+  const manualCategory =
+    ('manualCategory' in transaction && transaction.manualCategory) ||
+    settings.categoryOverrides?.get(transaction.id)
+  if (manualCategory) {
+    return { category: manualCategory, source: 'manual' }
+  }
+
+  // User-defined rules take precedence over the built-in heuristics
+  const rule = findMatchingRule(transaction, settings.rules ?? [])
+  if (rule) {
+    return { category: rule.category, source: 'rule' }
   }
 
+  const category = categorizeByHeuristics(transaction)
+  if (category === 'Other' && settings.classifier) {
+    const prediction = predict(transaction, settings.classifier)
+    if (prediction && prediction.confidence >= MIN_CONFIDENCE) {
+      return { ...prediction, source: 'learned' }
+    }
+  }
+
+  return { category, source: 'builtin' }
+}
+
+export function categorizeTransaction(
+  transaction: Transaction | TransactionWithCategory,
+  settings: AnalysisSettings = {}
+): string {
+  return explainCategory(transaction, settings).category
+}
+
+function categorizeByHeuristics(transaction: Transaction): string {
   const text = transaction.bookingText.toLowerCase()
   const sector = transaction.sector.trim()
   const upperText = transaction.bookingText.toUpperCase()
@@ -269,69 +401,74 @@ export function categorizeTransaction(transaction: Transaction | TransactionWith
 }
 
 export function analyzeExpenses(
-  transactions: Transaction[],
-  categoryOverrides?: Map<number, string>
+  sourceTransactions: Transaction[],
+  settings: AnalysisSettings = {}
 ): ExpenseReport {
-  // Apply category overrides if provided
-  const transactionsWithOverrides = categoryOverrides
-    ? transactions.map(
-        (t, idx) =>
-          ({
-            ...t,
-            manualCategory: categoryOverrides.get(idx),
-          }) as TransactionWithCategory
-      )
-    : transactions
+  // All amounts in the report are in the reporting currency
+  const transactions = convertTransactions(sourceTransactions, settings.currency)
+
+  // Money moved between own accounts is neither spending nor income
+  const matches = getMatches(transactions, settings)
+  const transferIds = matches.transferIds
+  const expenses = transactions.filter((t) => (t.debit || 0) > 0 && !transferIds.has(t.id))
+
+  // Matched refunds reduce spending in the category of the purchase instead of counting as income
+  const refunds = matches.refunds.filter((m) => m.original)
+  const refundAmounts = new Map(refunds.map((m) => [m.refund.id, m.amount]))
 
-  const expenses = transactionsWithOverrides.filter((t) => (t.debit || 0) > 0)
-  const income = transactionsWithOverrides.filter((t) => (t.credit || 0) > 0)
+  const income = transactions.filter(
+    (t) => (t.credit || 0) > 0 && !transferIds.has(t.id) && !refundAmounts.has(t.id)
+  )
 
-  const totalSpent = expenses.reduce((sum, t) => sum + (t.debit || 0), 0)
+  const totalRefunded = refunds.reduce((sum, m) => sum + m.amount, 0)
+  const totalSpent = expenses.reduce((sum, t) => sum + (t.debit || 0), 0) - totalRefunded
   const totalIncome = income.reduce((sum, t) => sum + (t.credit || 0), 0)
 
   const categoryMap = new Map<string, Transaction[]>()
+  const categoryById = new Map<string, string>()
   expenses.forEach((transaction) => {
-    const category = categorizeTransaction(transaction)
+    const category = categorizeTransaction(transaction, settings)
     if (!categoryMap.has(category)) {
       categoryMap.set(category, [])
     }
-    // Store original transaction without override
-    const originalTx = transactions[transactionsWithOverrides.indexOf(transaction)]
-    categoryMap.get(category)!.push(originalTx)
+    categoryById.set(transaction.id, category)
+    categoryMap.get(category)!.push(transaction)
+  })
+  // The purchase of a refund may be outside the analyzed transactions
+  refunds.forEach((m) => {
+    if (!categoryById.has(m.original!.id)) {
+      categoryById.set(m.original!.id, categorizeTransaction(m.original!, settings))
+    }
   })
 
-  const categorySummaries: CategorySummary[] = Array.from(categoryMap.entries())
-    .map(([category, txns]) => {
-      const categoryTotalSpent = txns.reduce((sum, t) => sum + (t.debit || 0), 0)
-      return {
-        category,
-        totalSpent: categoryTotalSpent,
-        count: txns.length,
-        percentage: (categoryTotalSpent / (categoryTotalSpent > 0 ? categoryTotalSpent : 1)) * 100,
-        averageTransaction: categoryTotalSpent / txns.length,
-        transactions: txns,
-      }
-    })
-    .sort((a, b) => b.totalSpent - a.totalSpent)
-
-  const totalCategorySpent = categorySummaries.reduce((sum, c) => sum + c.totalSpent, 0)
-  categorySummaries.forEach((cat) => {
-    cat.percentage = totalCategorySpent > 0 ? (cat.totalSpent / totalCategorySpent) * 100 : 0
+  const refundedByCategory = new Map<string, number>()
+  refunds.forEach((m) => {
+    const category = categoryById.get(m.original!.id)!
+    refundedByCategory.set(category, (refundedByCategory.get(category) ?? 0) + m.amount)
   })
 
+  const categorySummaries = buildCategorySummaries(categoryMap, refundedByCategory)
+
+  const holderSummaries = summarizeHolders(
+    transactions,
+    Array.from(categoryMap.values()).flat(),
+    income,
+    categoryById,
+    refunds
+  )
+
   const monthlyMap = new Map<string, Transaction[]>()
-  transactionsWithOverrides.forEach((transaction, idx) => {
+  transactions.forEach((transaction) => {
     try {
       if (!transaction.purchaseDate || isNaN(transaction.purchaseDate.getTime())) {
         return
       }
+      if (transferIds.has(transaction.id)) return
       const monthKey = format(transaction.purchaseDate, 'yyyy-MM')
       if (!monthlyMap.has(monthKey)) {
         monthlyMap.set(monthKey, [])
       }
-      // Store original transaction
-      const originalTx = transactions[idx]
-      monthlyMap.get(monthKey)!.push(originalTx)
+      monthlyMap.get(monthKey)!.push(transaction)
     } catch (_error) {
       console.warn('Invalid date for transaction:', transaction)
     }
@@ -340,11 +477,12 @@ export function analyzeExpenses(
   const monthlyAnalysis: MonthlyAnalysis[] = Array.from(monthlyMap.entries())
     .sort((a, b) => a[0].localeCompare(b[0])) // Sort by yyyy-MM key (chronological)
     .map(([monthKey, txns]) => {
-      const spent = txns
-        .filter((t) => (t.debit || 0) > 0)
-        .reduce((sum, t) => sum + (t.debit || 0), 0)
+      const refunded = txns.reduce((sum, t) => sum + (refundAmounts.get(t.id) ?? 0), 0)
+      const spent =
+        txns.filter((t) => (t.debit || 0) > 0).reduce((sum, t) => sum + (t.debit || 0), 0) -
+        refunded
       const income = txns
-        .filter((t) => (t.credit || 0) > 0)
+        .filter((t) => (t.credit || 0) > 0 && !refundAmounts.has(t.id))
         .reduce((sum, t) => sum + (t.credit || 0), 0)
 
       return {
@@ -359,7 +497,7 @@ export function analyzeExpenses(
 
   const topExpenses = [...expenses].sort((a, b) => (b.debit || 0) - (a.debit || 0)).slice(0, 10)
 
-  const dates = transactionsWithOverrides
+  const dates = transactions
     .map((t) => t.purchaseDate)
     .filter((d) => d && !isNaN(d.getTime()))
     .sort((a, b) => a.getTime() - b.getTime())
@@ -377,65 +515,393 @@ export function analyzeExpenses(
     monthlyAnalysis,
     topExpenses,
     largestCategory: categorySummaries[0] || null,
+    holderSummaries,
   }
 }
 
 /**
- * Calculate budget status by comparing budgets against actual spending
+ * Category summaries sorted by spending, with matched refunds subtracted per category
  */
-export function calculateBudgetStatus(
-  transactions: Transaction[],
-  budgets: Budget[],
-  month?: Date
-): BudgetWithSpending[] {
-  if (budgets.length === 0) return []
+function buildCategorySummaries(
+  categoryMap: Map<string, Transaction[]>,
+  refundedByCategory: Map<string, number>
+): CategorySummary[] {
+  // Refunds of purchases outside the analyzed transactions can be all a category has
+  const categories = new Set([...categoryMap.keys(), ...refundedByCategory.keys()])
+  const categorySummaries: CategorySummary[] = Array.from(categories)
+    .map((category) => {
+      const txns = categoryMap.get(category) ?? []
+      const refunded = refundedByCategory.get(category) ?? 0
+      const categoryTotalSpent = txns.reduce((sum, t) => sum + (t.debit || 0), 0) - refunded
+      return {
+        category,
+        totalSpent: categoryTotalSpent,
+        count: txns.length,
+        percentage: 0,
+        averageTransaction: txns.length > 0 ? categoryTotalSpent / txns.length : 0,
+        transactions: txns,
+        ...(refunded > 0 && { refunded }),
+      }
+    })
+    .sort((a, b) => b.totalSpent - a.totalSpent)
+
+  const totalCategorySpent = categorySummaries.reduce((sum, c) => sum + c.totalSpent, 0)
+  categorySummaries.forEach((cat) => {
+    cat.percentage = totalCategorySpent > 0 ? (cat.totalSpent / totalCategorySpent) * 100 : 0
+  })
+  return categorySummaries
+}
 
-  // Default to current month if not specified
-  const targetMonth = month || new Date()
-  const monthStart = startOfMonth(targetMonth)
-  const monthEnd = endOfMonth(targetMonth)
+/**
+ * Totals and category breakdown per cardholder, using the categories and refunds of the full report
+ */
+function summarizeHolders(
+  transactions: Transaction[],
+  expenses: Transaction[],
+  income: Transaction[],
+  categoryById: Map<string, string>,
+  refunds: RefundMatch[]
+): HolderSummary[] {
+  const holders = Array.from(new Set(transactions.map(getHolderName)))
+
+  return holders
+    .map((holder) => {
+      const own = (t: Transaction) => getHolderName(t) === holder
+      const holderTransactions = transactions.filter(own)
+
+      const categoryMap = new Map<string, Transaction[]>()
+      expenses.filter(own).forEach((t) => {
+        const category = categoryById.get(t.id)!
+        categoryMap.set(category, [...(categoryMap.get(category) ?? []), t])
+      })
+      const refundedByCategory = new Map<string, number>()
+      refunds
+        .filter((m) => own(m.original!))
+        .forEach((m) => {
+          const category = categoryById.get(m.original!.id)!
+          refundedByCategory.set(category, (refundedByCategory.get(category) ?? 0) + m.amount)
+        })
+
+      const categorySummaries = buildCategorySummaries(categoryMap, refundedByCategory)
+      return {
+        holder,
+        cards: Array.from(
+          new Set(holderTransactions.map((t) => t.cardNumber.trim()).filter(Boolean))
+        ).sort(),
+        accounts: Array.from(
+          new Set(holderTransactions.map((t) => t.accountNumber.trim()).filter(Boolean))
+        ).sort(),
+        totalSpent: categorySummaries.reduce((sum, c) => sum + c.totalSpent, 0),
+        totalIncome: income.filter(own).reduce((sum, t) => sum + (t.credit || 0), 0),
+        transactionCount: holderTransactions.length,
+        categorySummaries,
+      }
+    })
+    .sort((a, b) => b.totalSpent - a.totalSpent)
+}
 
-  // Filter transactions to the target month
-  const monthTransactions = transactions.filter((t) => {
-    const date = new Date(t.purchaseDate)
-    if (isNaN(date.getTime())) return false
-    return isWithinInterval(date, { start: monthStart, end: monthEnd })
+/**
+ * Merge subcategory summaries into their parent categories. Each group keeps the
+ * child summaries so views can drill back down.
+ */
+export function rollUpCategories(
+  summaries: CategorySummary[],
+  customCategories: CustomCategory[]
+): CategoryGroup[] {
+  const groups = new Map<string, CategorySummary[]>()
+  summaries.forEach((summary) => {
+    const parent = getTopLevelCategory(summary.category, customCategories)
+    groups.set(parent, [...(groups.get(parent) ?? []), summary])
   })
 
-  // Calculate spending by category
-  const categorySpending = new Map<string, number>()
-  monthTransactions.forEach((t) => {
+  return Array.from(groups.entries())
+    .map(([category, members]) => {
+      const transactions = members.flatMap((m) => m.transactions)
+      const totalSpent = members.reduce((sum, m) => sum + m.totalSpent, 0)
+      const refunded = members.reduce((sum, m) => sum + (m.refunded ?? 0), 0)
+      const subcategories = members.filter((m) => m.category !== category)
+      return {
+        category,
+        totalSpent,
+        count: transactions.length,
+        percentage: members.reduce((sum, m) => sum + m.percentage, 0),
+        averageTransaction: transactions.length > 0 ? totalSpent / transactions.length : 0,
+        transactions,
+        ...(refunded > 0 && { refunded }),
+        subcategories,
+      }
+    })
+    .sort((a, b) => b.totalSpent - a.totalSpent)
+}
+
+/**
+ * Spending per day and category, for budgets. Transfers are left out and matched
+ * refunds give budget back to the category of the purchase on the day received.
+ * Categories follow the settings as in analyzeExpenses.
+ */
+function getBudgetSpending(
+  transactions: Transaction[],
+  settings: AnalysisSettings
+): Map<string, Map<string, number>> {
+  const spending = new Map<string, Map<string, number>>()
+  const add = (date: Date, category: string, amount: number) => {
+    const dayKey = format(date, 'yyyy-MM-dd')
+    const day = spending.get(dayKey) || new Map<string, number>()
+    day.set(category, (day.get(category) || 0) + amount)
+    spending.set(dayKey, day)
+  }
+  const categoryOf = (t: Transaction) => categorizeTransaction(t, settings)
+
+  const transferIds = getTransferIds(transactions, settings.transferDecisions)
+  const valid = transactions.filter(
+    (t) => !transferIds.has(t.id) && !isNaN(new Date(t.purchaseDate).getTime())
+  )
+  valid.forEach((t) => {
     if ((t.debit || 0) > 0) {
-      const category = categorizeTransaction(t)
-      categorySpending.set(category, (categorySpending.get(category) || 0) + (t.debit || 0))
+      add(new Date(t.purchaseDate), categoryOf(t), t.debit || 0)
     }
   })
+  matchRefunds(valid, settings.merchantAliases).forEach((m) => {
+    if (!m.original) return
+    add(new Date(m.refund.purchaseDate), categoryOf(m.original), -m.amount)
+  })
+  return spending
+}
+
+/** Spending of a budget category including its subcategories, per budget period */
+function getCategorySeries(
+  spending: Map<string, Map<string, number>>,
+  category: string,
+  period: BudgetPeriod,
+  customCategories: CustomCategory[]
+): Map<string, number> {
+  const categories = [category, ...getSubcategories(category, customCategories)]
+  const series = new Map<string, number>()
+  spending.forEach((day, dayKey) => {
+    const amount = categories.reduce((sum, c) => sum + (day.get(c) || 0), 0)
+    if (amount === 0) return
+    const periodKey = getPeriodKey(period, parse(dayKey, 'yyyy-MM-dd', new Date()))
+    series.set(periodKey, (series.get(periodKey) || 0) + amount)
+  })
+  return series
+}
+
+/** Daily spending of a budget category in complete periods before the date, newest first */
+function getPastPeriods(
+  spending: Map<string, Map<string, number>>,
+  category: string,
+  period: BudgetPeriod,
+  before: Date,
+  since: Date, // First day with spending; earlier periods are incomplete
+  customCategories: CustomCategory[]
+): number[][] {
+  const categories = [category, ...getSubcategories(category, customCategories)]
+  const periods: number[][] = []
+  for (
+    let range = getPeriodRange(period, subMilliseconds(before, 1));
+    periods.length < PACE_HISTORY_PERIODS && range.start >= since;
+    range = getPeriodRange(period, subMilliseconds(range.start, 1))
+  ) {
+    const { start } = range
+    const days = differenceInCalendarDays(range.end, start) + 1
+    periods.push(
+      Array.from({ length: days }, (_, d) => {
+        const day = spending.get(format(addDays(start, d), 'yyyy-MM-dd'))
+        return day ? categories.reduce((sum, c) => sum + (day.get(c) || 0), 0) : 0
+      })
+    )
+  }
+  return periods
+}
+
+/** Ledgers of the budgets whose balances carry over, keyed by category */
+function buildLedgers(
+  spending: Map<string, Map<string, number>>,
+  budgets: Budget[],
+  until: Date,
+  revisions: BudgetRevision[],
+  mode: BudgetMode,
+  assignments: EnvelopeAssignment[],
+  customCategories: CustomCategory[]
+): Map<string, BudgetLedgerEntry[]> {
+  const ledgers = new Map<string, BudgetLedgerEntry[]>()
+  budgets.forEach((budget) => {
+    if (mode === 'monthly' && !budget.rollover) return
+
+    // Envelopes keep their whole balance; assignments only count in envelope mode
+    const carried = mode === 'envelope' ? { ...budget, rolloverCap: null } : budget
+    const assigned =
+      mode === 'envelope'
+        ? new Map(
+            assignments
+              .filter((a) => a.category === budget.category)
+              .map((a) => [a.month, a.amount])
+          )
+        : undefined
+    ledgers.set(
+      budget.category,
+      buildBudgetLedger(
+        carried,
+        revisions,
+        getCategorySeries(spending, budget.category, budget.period ?? 'monthly', customCategories),
+        until,
+        assigned
+      )
+    )
+  })
+  return ledgers
+}
+
+/**
+ * Calculate budget status by comparing budgets against actual spending.
+ * Each budget is evaluated over its own period (week, month, quarter or year)
+ * containing the date, which defaults to today. A budget on a parent category
+ * also counts spending in its subcategories.
+ * Status follows the projected spending by the end of the period rather than the
+ * share spent so far, see projectSpending.
+ * With revisions, each budget uses the amount in force at the end of the period
+ * and budgets that were not in force yet are left out. Budgets with rollover, and
+ * every budget in envelope mode, add the balance carried from earlier periods, so
+ * the whole history of transactions should be passed in.
+ */
+export function calculateBudgetStatus(
+  sourceTransactions: Transaction[],
+  budgets: Budget[],
+  date: Date = new Date(),
+  revisions: BudgetRevision[] = [],
+  mode: BudgetMode = 'monthly',
+  assignments: EnvelopeAssignment[] = [],
+  settings: AnalysisSettings = {}
+): BudgetWithSpending[] {
+  if (budgets.length === 0) return []
+  const transactions = convertTransactions(sourceTransactions, settings.currency)
+
+  const customCategories = settings.customCategories ?? []
+  const spending = getBudgetSpending(transactions, settings)
+  const ledgers = buildLedgers(
+    spending,
+    budgets,
+    date,
+    revisions,
+    mode,
+    assignments,
+    customCategories
+  )
+  const firstDay = Array.from(spending.keys()).sort()[0]
+  const since = firstDay ? parse(firstDay, 'yyyy-MM-dd', new Date()) : date
 
-  // Calculate budget status for each budget
   return budgets
-    .map((budget) => {
-      const spent = categorySpending.get(budget.category) || 0
-      const remaining = budget.amount - spent
-      const percentUsed = budget.amount > 0 ? (spent / budget.amount) * 100 : 0
+    .flatMap((budget): BudgetWithSpending[] => {
+      const period = budget.period ?? 'monthly'
+      const { start: periodStart, end: periodEnd } = getPeriodRange(period, date)
+      const periodKey = getPeriodKey(period, date)
+
+      // Carried budgets take amount and balance from their ledger, the others use
+      // the amount in force at the end of the period
+      const ledger = ledgers.get(budget.category)
+      const entry = ledger?.[ledger.length - 1]
+      let amount: number | null
+      let carriedIn: number | undefined
+      if (ledger) {
+        if (!entry || entry.periodKey !== periodKey) return []
+        amount = entry.amount
+        carriedIn = entry.carriedIn
+      } else {
+        amount = getBudgetAmount(budget, revisions, periodEnd)
+        if (amount === null) return []
+      }
+
+      const spent =
+        getCategorySeries(spending, budget.category, period, customCategories).get(periodKey) || 0
+      const available = amount + (carriedIn ?? 0)
+      const remaining = available - spent
+      const percentUsed = available > 0 ? (spent / available) * 100 : 0
+
+      const { elapsed, total } = getElapsedDays(periodStart, periodEnd, date)
+      const { expectedSpend, projectedSpend } = projectSpending(
+        spent,
+        available,
+        elapsed / total,
+        getPastPeriods(spending, budget.category, period, periodStart, since, customCategories)
+      )
 
       let status: BudgetStatus
-      if (percentUsed > 100) {
+      if (remaining < 0) {
         status = 'over'
-      } else if (percentUsed >= 75) {
+      } else if (projectedSpend > available) {
         status = 'warning'
-      } else if (percentUsed >= 50) {
+      } else if (projectedSpend >= (available * PACE_EARLY_PERCENT) / 100) {
         status = 'early'
       } else {
         status = 'healthy'
       }
 
-      return {
-        budget,
-        spent,
-        remaining,
-        percentUsed,
-        status,
-      }
+      return [
+        {
+          budget: { ...budget, amount },
+          spent,
+          remaining,
+          percentUsed,
+          status,
+          periodStart,
+          periodEnd,
+          expectedSpend,
+          projectedSpend,
+          ...(ledger && { carriedIn, ledger }),
+        },
+      ]
     })
     .sort((a, b) => b.percentUsed - a.percentUsed) // Sort by most used first
 }
+
+/**
+ * Income received up to the end of the month containing the date, and amounts
+ * assigned to envelope periods starting by then. Matched refunds give budget back
+ * to their category and do not count as income.
+ */
+export function calculateEnvelopeFunds(
+  sourceTransactions: Transaction[],
+  budgets: Budget[],
+  date: Date = new Date(),
+  revisions: BudgetRevision[] = [],
+  assignments: EnvelopeAssignment[] = [],
+  settings: AnalysisSettings = {}
+): EnvelopeFunds {
+  const transactions = convertTransactions(sourceTransactions, settings.currency)
+
+  const transferIds = getTransferIds(transactions, settings.transferDecisions)
+  const valid = transactions.filter(
+    (t) => !transferIds.has(t.id) && !isNaN(new Date(t.purchaseDate).getTime())
+  )
+  const refundIds = new Set(
+    matchRefunds(valid, settings.merchantAliases)
+      .filter((m) => m.original)
+      .map((m) => m.refund.id)
+  )
+  const incomeByMonth = new Map<string, number>()
+  valid.forEach((t) => {
+    if ((t.credit || 0) > 0 && !refundIds.has(t.id)) {
+      const monthKey = format(new Date(t.purchaseDate), 'yyyy-MM')
+      incomeByMonth.set(monthKey, (incomeByMonth.get(monthKey) || 0) + (t.credit || 0))
+    }
+  })
+
+  const assignedByMonth = new Map<string, number>()
+  const spending = getBudgetSpending(transactions, settings)
+  buildLedgers(
+    spending,
+    budgets,
+    date,
+    revisions,
+    'envelope',
+    assignments,
+    settings.customCategories ?? []
+  ).forEach((ledger) =>
+    ledger.forEach((entry) => {
+      const monthKey = format(entry.periodStart, 'yyyy-MM')
+      assignedByMonth.set(monthKey, (assignedByMonth.get(monthKey) || 0) + entry.amount)
+    })
+  )
+
+  return getEnvelopeFunds(incomeByMonth, assignedByMonth, date)
+}
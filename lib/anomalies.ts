@@ -0,0 +1,213 @@
+/**
+ * Flags unusual activity: category spikes against the trailing months, merchants
+ * charging far more than usual, duplicate charges and large first-time merchants.
+ */
+import { differenceInCalendarDays, format, startOfMonth, subMonths } from 'date-fns'
+import type { Transaction } from './types'
+import { categorizeTransaction, getMatches, type AnalysisSettings } from './analyzer'
+import { getMerchantName } from './merchants'
+
+export type AnomalyType = 'category-spike' | 'merchant-spike' | 'duplicate' | 'new-merchant'
+
+export type AnomalySensitivity = 'low' | 'medium' | 'high'
+
+export interface Anomaly {
+  id: string
+  type: AnomalyType
+  date: Date
+  category: string
+  merchant: string | null // Null for category spikes
+  amount: number
+  expected: number | null // Trailing average or usual charge, when there is one
+  transactions: Transaction[]
+}
+
+interface Thresholds {
+  factor: number // How many times the usual amount counts as unusual
+  minExcess: number // Smallest amount above the usual one worth flagging
+  newMerchantAmount: number
+}
+
+export const SENSITIVITY_THRESHOLDS: Record<AnomalySensitivity, Thresholds> = {
+  low: { factor: 3, minExcess: 200, newMerchantAmount: 1000 },
+  medium: { factor: 2, minExcess: 100, newMerchantAmount: 500 },
+  high: { factor: 1.5, minExcess: 50, newMerchantAmount: 250 },
+}
+
+// Months a category is compared against
+export const TRAILING_MONTHS = 3
+
+// Earlier charges needed before a merchant has a usual amount
+const MIN_MERCHANT_HISTORY = 3
+
+// Every merchant is new at the start of the data, so first-time merchants are only flagged after this
+const NEW_MERCHANT_GRACE_DAYS = 30
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid]
+}
+
+function isUnusual(amount: number, expected: number, thresholds: Thresholds): boolean {
+  return amount > expected * thresholds.factor && amount - expected >= thresholds.minExcess
+}
+
+/**
+ * Months whose category spending is well above the average of the trailing months.
+ * Only months with a full trailing window inside the data are checked.
+ */
+function detectCategorySpikes(
+  expenses: Transaction[],
+  thresholds: Thresholds,
+  settings: AnalysisSettings
+): Anomaly[] {
+  const firstMonth = startOfMonth(
+    expenses.reduce((a, b) => (a.purchaseDate < b.purchaseDate ? a : b)).purchaseDate
+  )
+  const byCategory = new Map<string, Map<string, Transaction[]>>()
+  expenses.forEach((t) => {
+    const category = categorizeTransaction(t, settings)
+    const monthKey = format(t.purchaseDate, 'yyyy-MM')
+    if (!byCategory.has(category)) byCategory.set(category, new Map())
+    const months = byCategory.get(category)!
+    months.set(monthKey, [...(months.get(monthKey) ?? []), t])
+  })
+
+  const total = (txns: Transaction[] = []) => txns.reduce((sum, t) => sum + (t.debit || 0), 0)
+  const anomalies: Anomaly[] = []
+  byCategory.forEach((months, category) => {
+    months.forEach((txns, monthKey) => {
+      const month = new Date(monthKey + '-01')
+      if (subMonths(month, TRAILING_MONTHS) < firstMonth) return
+
+      const trailing =
+        Array.from({ length: TRAILING_MONTHS }, (_, i) =>
+          total(months.get(format(subMonths(month, i + 1), 'yyyy-MM')))
+        ).reduce((sum, v) => sum + v, 0) / TRAILING_MONTHS
+      const amount = total(txns)
+      if (!isUnusual(amount, trailing, thresholds)) return
+
+      anomalies.push({
+        id: `category-spike:${category}:${monthKey}`,
+        type: 'category-spike',
+        date: month,
+        category,
+        merchant: null,
+        amount,
+        expected: trailing,
+        transactions: [...txns].sort((a, b) => (b.debit || 0) - (a.debit || 0)),
+      })
+    })
+  })
+  return anomalies
+}
+
+/**
+ * Charges far above the usual charge at the merchant, and large charges at a merchant
+ * that never appeared before
+ */
+function detectMerchantAnomalies(
+  expenses: Transaction[],
+  thresholds: Thresholds,
+  settings: AnalysisSettings
+): Anomaly[] {
+  const dataStart = expenses.reduce((a, b) =>
+    a.purchaseDate < b.purchaseDate ? a : b
+  ).purchaseDate
+  const byMerchant = new Map<string, Transaction[]>()
+  expenses.forEach((t) => {
+    const merchant = getMerchantName(t, settings.merchantAliases)
+    byMerchant.set(merchant, [...(byMerchant.get(merchant) ?? []), t])
+  })
+
+  const anomalies: Anomaly[] = []
+  byMerchant.forEach((group, merchant) => {
+    const sorted = [...group].sort((a, b) => a.purchaseDate.getTime() - b.purchaseDate.getTime())
+
+    const first = sorted[0]
+    if (
+      differenceInCalendarDays(first.purchaseDate, dataStart) >= NEW_MERCHANT_GRACE_DAYS &&
+      (first.debit || 0) >= thresholds.newMerchantAmount
+    ) {
+      anomalies.push({
+        id: `new-merchant:${first.id}`,
+        type: 'new-merchant',
+        date: first.purchaseDate,
+        category: categorizeTransaction(first, settings),
+        merchant,
+        amount: first.debit || 0,
+        expected: null,
+        transactions: [first],
+      })
+    }
+
+    sorted.slice(MIN_MERCHANT_HISTORY).forEach((t, i) => {
+      const usual = median(sorted.slice(0, MIN_MERCHANT_HISTORY + i).map((p) => p.debit || 0))
+      if (!isUnusual(t.debit || 0, usual, thresholds)) return
+      anomalies.push({
+        id: `merchant-spike:${t.id}`,
+        type: 'merchant-spike',
+        date: t.purchaseDate,
+        category: categorizeTransaction(t, settings),
+        merchant,
+        amount: t.debit || 0,
+        expected: usual,
+        transactions: [t],
+      })
+    })
+  })
+  return anomalies
+}
+
+/**
+ * Charges with the same amount at the same merchant, card and day
+ */
+function detectDuplicates(expenses: Transaction[], settings: AnalysisSettings): Anomaly[] {
+  const groups = new Map<string, Transaction[]>()
+  expenses.forEach((t) => {
+    const key = [
+      format(t.purchaseDate, 'yyyy-MM-dd'),
+      t.cardNumber || t.accountNumber,
+      getMerchantName(t, settings.merchantAliases),
+      Math.round((t.debit || 0) * 100),
+    ].join('|')
+    groups.set(key, [...(groups.get(key) ?? []), t])
+  })
+
+  return Array.from(groups.values())
+    .filter((group) => group.length > 1)
+    .map((group) => ({
+      id: `duplicate:${group[0].id}`,
+      type: 'duplicate' as const,
+      date: group[0].purchaseDate,
+      category: categorizeTransaction(group[0], settings),
+      merchant: getMerchantName(group[0], settings.merchantAliases),
+      amount: group.reduce((sum, t) => sum + (t.debit || 0), 0),
+      expected: group[0].debit || 0,
+      transactions: group,
+    }))
+}
+
+/**
+ * Unusual activity in the transactions, latest first. Transfers between own
+ * accounts are not spending and are never flagged.
+ */
+export function detectAnomalies(
+  transactions: Transaction[],
+  sensitivity: AnomalySensitivity = 'medium',
+  settings: AnalysisSettings = {}
+): Anomaly[] {
+  const { transferIds } = getMatches(transactions, settings)
+  const expenses = transactions.filter(
+    (t) => (t.debit || 0) > 0 && !isNaN(t.purchaseDate.getTime()) && !transferIds.has(t.id)
+  )
+  if (expenses.length === 0) return []
+
+  const thresholds = SENSITIVITY_THRESHOLDS[sensitivity]
+  return [
+    ...detectCategorySpikes(expenses, thresholds, settings),
+    ...detectMerchantAnomalies(expenses, thresholds, settings),
+    ...detectDuplicates(expenses, settings),
+  ].sort((a, b) => b.date.getTime() - a.date.getTime())
+}
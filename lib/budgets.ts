@@ -0,0 +1,252 @@
+/**
+ * Budget periods, effective-dated budget amounts and carried balances. Every change
+ * to a budget is kept as a revision, so past periods are measured against the
+ * amount that was in force at the time.
+ */
+import {
+  addMilliseconds,
+  differenceInCalendarDays,
+  endOfMonth,
+  endOfQuarter,
+  endOfWeek,
+  endOfYear,
+  format,
+  parse,
+  startOfDay,
+  startOfMonth,
+  startOfQuarter,
+  startOfWeek,
+  startOfYear,
+  subDays,
+} from 'date-fns'
+import type {
+  Budget,
+  BudgetLedgerEntry,
+  BudgetPeriod,
+  BudgetRevision,
+  EnvelopeFunds,
+} from './types'
+
+export const BUDGET_PERIODS: BudgetPeriod[] = ['weekly', 'monthly', 'quarterly', 'yearly']
+
+// Amounts are shown per period, as in "CHF 400/month"
+export const PERIOD_UNITS: Record<BudgetPeriod, string> = {
+  weekly: 'week',
+  monthly: 'month',
+  quarterly: 'quarter',
+  yearly: 'year',
+}
+
+// Complete past periods that shape the spending pace of a budget
+export const PACE_HISTORY_PERIODS = 12
+export const MIN_PACE_PERIODS = 3
+
+// Projected share of the budget from which a budget is close to its limit
+export const PACE_EARLY_PERCENT = 90
+
+/**
+ * First and last moment of the budget period containing the date. Weeks start on
+ * Monday, like the weekly charts.
+ */
+export function getPeriodRange(period: BudgetPeriod, date: Date): { start: Date; end: Date } {
+  switch (period) {
+    case 'weekly':
+      return {
+        start: startOfWeek(date, { weekStartsOn: 1 }),
+        end: endOfWeek(date, { weekStartsOn: 1 }),
+      }
+    case 'quarterly':
+      return { start: startOfQuarter(date), end: endOfQuarter(date) }
+    case 'yearly':
+      return { start: startOfYear(date), end: endOfYear(date) }
+    default:
+      return { start: startOfMonth(date), end: endOfMonth(date) }
+  }
+}
+
+/**
+ * Sortable key of the period containing the date: the first day of a week
+ * (yyyy-MM-dd), otherwise the first month of the period (yyyy-MM)
+ */
+export function getPeriodKey(period: BudgetPeriod, date: Date): string {
+  return format(getPeriodRange(period, date).start, period === 'weekly' ? 'yyyy-MM-dd' : 'yyyy-MM')
+}
+
+/**
+ * Name of the period starting on the date, such as "Q2 2025"
+ */
+export function formatPeriodLabel(period: BudgetPeriod, start: Date): string {
+  switch (period) {
+    case 'weekly':
+      return `Week of ${format(start, 'MMM d, yyyy')}`
+    case 'quarterly':
+      return format(start, 'QQQ yyyy')
+    case 'yearly':
+      return format(start, 'yyyy')
+    default:
+      return format(start, 'MMM yyyy')
+  }
+}
+
+/**
+ * Days of the period that have passed on the date, counting the day itself
+ */
+export function getElapsedDays(
+  start: Date,
+  end: Date,
+  date: Date = new Date()
+): { elapsed: number; total: number } {
+  const total = differenceInCalendarDays(end, start) + 1
+  const elapsed = Math.min(Math.max(differenceInCalendarDays(date, start) + 1, 0), total)
+  return { elapsed, total }
+}
+
+function byValidFrom(a: BudgetRevision, b: BudgetRevision): number {
+  return (
+    a.validFrom.getTime() - b.validFrom.getTime() ||
+    a.createdDate.getTime() - b.createdDate.getTime()
+  )
+}
+
+/**
+ * Revisions of one category with their end dates derived from the revision that
+ * follows, oldest first
+ */
+export function scheduleRevisions(revisions: BudgetRevision[]): BudgetRevision[] {
+  const sorted = [...revisions].sort(byValidFrom)
+  return sorted.map((revision, i) => {
+    const next = sorted[i + 1]
+    return { ...revision, validTo: next ? subDays(startOfDay(next.validFrom), 1) : null }
+  })
+}
+
+/**
+ * Revision of the category in force on the date, if any
+ */
+export function getRevisionOn(
+  revisions: BudgetRevision[],
+  category: string,
+  date: Date
+): BudgetRevision | undefined {
+  const day = startOfDay(date)
+  return revisions.find(
+    (r) =>
+      r.category === category &&
+      startOfDay(r.validFrom) <= day &&
+      (r.validTo === null || r.validTo >= day)
+  )
+}
+
+/**
+ * Budget amount in force on the date. Budgets without revisions always use their
+ * amount; with revisions, null means the budget was not in force yet.
+ */
+export function getBudgetAmount(
+  budget: Budget,
+  revisions: BudgetRevision[],
+  date: Date
+): number | null {
+  if (!revisions.some((r) => r.category === budget.category)) return budget.amount
+  return getRevisionOn(revisions, budget.category, date)?.amount ?? null
+}
+
+/**
+ * Period-by-period balances of a budget whose balance carries over, from its first
+ * period up to and including the one containing the until date. Periods the budget
+ * was not in force start over from zero. Assignments replace the budget amount in
+ * envelope mode.
+ */
+export function buildBudgetLedger(
+  budget: Budget,
+  revisions: BudgetRevision[],
+  spendingByPeriod: Map<string, number>, // Period key -> spending in the category
+  until: Date,
+  assignments: Map<string, number> = new Map() // Period key -> assigned amount
+): BudgetLedgerEntry[] {
+  const period = budget.period ?? 'monthly'
+  const starts = [
+    ...spendingByPeriod.keys(),
+    ...assignments.keys(),
+    ...revisions
+      .filter((r) => r.category === budget.category)
+      .map((r) => getPeriodKey(period, r.validFrom)),
+  ].sort()
+  if (starts.length === 0) return []
+
+  const first = parse(starts[0], starts[0].length > 7 ? 'yyyy-MM-dd' : 'yyyy-MM', new Date())
+  const cap = budget.rolloverCap ?? null
+  const entries: BudgetLedgerEntry[] = []
+  let carriedIn = 0
+  for (
+    let range = getPeriodRange(period, first);
+    range.start <= until;
+    range = getPeriodRange(period, addMilliseconds(range.end, 1))
+  ) {
+    const periodKey = getPeriodKey(period, range.start)
+    const amount = assignments.get(periodKey) ?? getBudgetAmount(budget, revisions, range.end)
+    if (amount === null) {
+      carriedIn = 0
+      continue
+    }
+
+    const spent = spendingByPeriod.get(periodKey) ?? 0
+    const balance = amount + carriedIn - spent
+    const carriedOut = cap === null ? balance : Math.max(-cap, Math.min(cap, balance))
+    entries.push({ periodKey, periodStart: range.start, amount, carriedIn, spent, carriedOut })
+    carriedIn = carriedOut
+  }
+  return entries
+}
+
+/**
+ * Income received and amounts assigned to envelopes up to the end of the month;
+ * what is left can still be assigned
+ */
+export function getEnvelopeFunds(
+  incomeByMonth: Map<string, number>,
+  assignedByMonth: Map<string, number>,
+  until: Date
+): EnvelopeFunds {
+  const untilKey = format(until, 'yyyy-MM')
+  const upTo = (series: Map<string, number>) =>
+    Array.from(series.entries())
+      .filter(([monthKey]) => monthKey <= untilKey)
+      .reduce((sum, [, amount]) => sum + amount, 0)
+
+  const income = upTo(incomeByMonth)
+  const assigned = upTo(assignedByMonth)
+  return { income, assigned, readyToAssign: income - assigned }
+}
+
+/**
+ * Expected spending by now and projected spending by the end of the period. The
+ * expected share of the period follows when in past periods the category was
+ * spent, or the elapsed fraction without enough history. The rest of the period
+ * is projected at the usual spending per period, or at the budget.
+ */
+export function projectSpending(
+  spent: number,
+  available: number,
+  fraction: number, // Elapsed share of the period, from 0 to 1
+  pastPeriods: number[][] // Daily spending of complete past periods
+): { expectedSpend: number; projectedSpend: number } {
+  const sum = (amounts: number[]) => amounts.reduce((total, amount) => total + amount, 0)
+  const hasHistory = pastPeriods.length >= MIN_PACE_PERIODS
+  const totals = pastPeriods.map(sum)
+
+  // Share spent by the same point of each past period with any spending
+  const shares = pastPeriods
+    .filter((_, i) => totals[i] > 0)
+    .map((days) => sum(days.slice(0, Math.round(fraction * days.length))) / sum(days))
+  const expectedShare =
+    hasHistory && shares.length > 0
+      ? shares.reduce((sum, share) => sum + share, 0) / shares.length
+      : fraction
+
+  const baseline = hasHistory ? sum(totals) / totals.length : Math.max(available, 0)
+
+  return {
+    expectedSpend: Math.max(available, 0) * expectedShare,
+    projectedSpend: fraction >= 1 ? spent : spent + (1 - expectedShare) * baseline,
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * ISO 20022 camt.053 (account statement) and camt.054 (debit/credit notification) import.
+ * Each booked entry (Ntry) becomes one Transaction.
+ */
+import type { Transaction } from './types'
+import type { ParseAction, ParseDiagnostic, ParseResult } from './parser'
+import { assignTransactionIds } from './merge'
+
+type EntryIssue = Omit<ParseDiagnostic, 'row' | 'transaction'>
+
+// Walk a path of child element local names, ignoring XML namespaces
+function find(parent: Element | null, path: string): Element | null {
+  let current: Element | null = parent
+  for (const name of path.split('/')) {
+    if (!current) return null
+    current = Array.from(current.children).find((c) => c.localName === name) ?? null
+  }
+  return current
+}
+
+function text(parent: Element | null, path: string): string {
+  return find(parent, path)?.textContent?.trim() ?? ''
+}
+
+function children(parent: Element | null, name: string): Element[] {
+  if (!parent) return []
+  return Array.from(parent.children).filter((c) => c.localName === name)
+}
+
+// Dates are either <Dt>YYYY-MM-DD</Dt> or <DtTm>YYYY-MM-DDThh:mm:ss</DtTm>
+function dateText(dateElement: Element | null): string {
+  return text(dateElement, 'Dt') || text(dateElement, 'DtTm')
+}
+
+function parseCamtDate(value: string): Date | null {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})/)
+  if (!match) return null
+  const [year, month, day] = match.slice(1).map((p) => parseInt(p, 10))
+  const date = new Date(year, month - 1, day)
+  // Reject dates that rolled over, e.g. 2024-02-31
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null
+}
+
+// Party names moved under <Pty> in camt.053.001.08 and later
+function partyName(related: Element | null, role: 'Cdtr' | 'Dbtr'): string {
+  return text(related, `${role}/Nm`) || text(related, `${role}/Pty/Nm`)
+}
+
+/**
+ * Map a booked entry onto a Transaction. The value date is the purchase date and
+ * the booking date the booked date; when one cannot be read the other is used, and
+ * an entry with neither is reported as skipped instead of being dated today.
+ */
+function entryToTransaction(
+  entry: Element,
+  account: Element | null
+): { transaction: Omit<Transaction, 'id'>; issues: EntryIssue[] } | null {
+  const amountElement = find(entry, 'Amt')
+  const amount = parseFloat(amountElement?.textContent ?? '')
+  if (isNaN(amount)) return null
+
+  const isCredit = text(entry, 'CdtDbtInd') === 'CRDT'
+  const details = find(entry, 'NtryDtls/TxDtls')
+
+  // The counterparty is the creditor for outgoing payments and the debtor for incoming ones
+  const counterparty = partyName(find(details, 'RltdPties'), isCredit ? 'Dbtr' : 'Cdtr')
+  const remittance = children(find(details, 'RmtInf'), 'Ustrd')
+    .map((u) => u.textContent?.trim() ?? '')
+    .filter(Boolean)
+    .join(' ')
+  const additionalInfo = text(entry, 'AddtlNtryInf') || text(details, 'AddtlTxInf')
+  const bookingText =
+    [counterparty, remittance].filter(Boolean).join(' - ') || additionalInfo || 'Unknown'
+
+  // ValDt is optional, so only an unreadable one is reported when the booking date is there
+  const rawBookedDate = dateText(find(entry, 'BookgDt'))
+  const rawValueDate = dateText(find(entry, 'ValDt'))
+  const bookedDate = parseCamtDate(rawBookedDate)
+  const valueDate = parseCamtDate(rawValueDate)
+  const issues: EntryIssue[] = []
+  const report = (
+    column: string,
+    field: 'purchaseDate' | 'bookedDate',
+    value: string,
+    action: ParseAction
+  ) => {
+    const problem = value ? 'Not a valid date (expected YYYY-MM-DD)' : 'Missing date'
+    issues.push({ column, field, value, problem, action })
+  }
+  if (!valueDate && !bookedDate) {
+    report('ValDt', 'purchaseDate', rawValueDate, 'skipped')
+  } else if (!valueDate && rawValueDate) {
+    report('ValDt', 'purchaseDate', rawValueDate, 'used-booking-date')
+  } else if (!bookedDate) {
+    report('BookgDt', 'bookedDate', rawBookedDate, 'used-purchase-date')
+  }
+
+  // Foreign currency payments carry the instructed amount and exchange rate, on the
+  // transaction or on the entry. Amt is the booked amount, so without an instructed
+  // amount there is no original currency.
+  const instructed = find(details, 'AmtDtls/InstdAmt') ?? find(entry, 'AmtDtls/InstdAmt')
+  const instructedAmount = parseFloat(text(instructed, 'Amt'))
+  const originalCurrency = isNaN(instructedAmount)
+    ? ''
+    : (find(instructed, 'Amt')?.getAttribute('Ccy') ?? '')
+  const exchangeRate = parseFloat(text(instructed, 'CcyXchg/XchgRate'))
+
+  const transaction: Omit<Transaction, 'id'> = {
+    accountNumber: text(account, 'Id/IBAN') || text(account, 'Id/Othr/Id'),
+    cardNumber: '',
+    accountHolder: text(account, 'Ownr/Nm'),
+    purchaseDate: valueDate ?? bookedDate ?? new Date(NaN),
+    bookingText,
+    sector: 'Other',
+    amount: originalCurrency ? instructedAmount : amount,
+    originalCurrency,
+    rate: isNaN(exchangeRate) ? null : exchangeRate,
+    currency: amountElement?.getAttribute('Ccy') || 'CHF',
+    debit: isCredit ? null : amount,
+    credit: isCredit ? amount : null,
+    bookedDate: bookedDate ?? valueDate ?? new Date(NaN),
+  }
+
+  return { transaction, issues }
+}
+
+/**
+ * Parse a camt.053 or camt.054 XML document into transactions.
+ * Only booked entries are imported; pending (PDNG) and informational entries are skipped.
+ * Entries without a readable date are left out and reported in the diagnostics, with
+ * row numbers counting the booked entries of the document.
+ */
+export function parseCamtXML(xml: string): ParseResult {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml')
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid XML document')
+  }
+
+  const root = doc.documentElement
+  const message =
+    find(root, 'BkToCstmrStmt') ??
+    find(root, 'BkToCstmrDbtCdtNtfctn') ??
+    find(root, 'BkToCstmrAcctRpt')
+  if (root.localName !== 'Document' || !message) {
+    throw new Error('Not a camt.053 or camt.054 document')
+  }
+
+  const reports = [
+    ...children(message, 'Stmt'),
+    ...children(message, 'Ntfctn'),
+    ...children(message, 'Rpt'),
+  ]
+
+  const parsed: ({ row: number } & NonNullable<ReturnType<typeof entryToTransaction>>)[] = []
+  let row = 0
+  for (const report of reports) {
+    const account = find(report, 'Acct')
+    for (const entry of children(report, 'Ntry')) {
+      // <Sts> is a plain code before camt.053.001.08 and wrapped in <Cd> afterwards;
+      // textContent covers both
+      const status = text(entry, 'Sts')
+      if (status && status !== 'BOOK') continue
+
+      row++
+      const result = entryToTransaction(entry, account)
+      if (result) parsed.push({ row, ...result })
+    }
+  }
+
+  // Ids are assigned over all entries so they stay the same whether or not a skipped one is fixed
+  const withIds = assignTransactionIds(parsed.map((p) => p.transaction))
+  const transactions: Transaction[] = []
+  const diagnostics: ParseDiagnostic[] = []
+  parsed.forEach(({ row, issues }, index) => {
+    const transaction = withIds[index]
+    diagnostics.push(...issues.map((issue) => ({ ...issue, row, transaction })))
+    if (!issues.some((issue) => issue.action === 'skipped')) {
+      transactions.push(transaction)
+    }
+  })
+
+  return { transactions, diagnostics }
+}
+
+/**
+ * Check whether text content looks like an ISO 20022 camt message
+ */
+export function isCamtContent(content: string): boolean {
+  return /urn:iso:std:iso:20022:tech:xsd:camt\.05[234]/.test(content.slice(0, 2000))
+}
@@ -1,4 +1,6 @@
-// All available categories for manual selection
+import type { CustomCategory } from './types'
+
+// Built-in categories; these are always top-level
 export const CATEGORIES = [
   'Restaurants & Dining',
   'Groceries',
@@ -23,6 +25,60 @@ export const CATEGORIES = [
 
 export type Category = (typeof CATEGORIES)[number]
 
-export function getAllCategories(): readonly string[] {
-  return CATEGORIES
+/**
+ * All categories for manual selection, each top-level category followed by its
+ * subcategories
+ */
+export function getAllCategories(customCategories: CustomCategory[]): readonly string[] {
+  const topLevel = [
+    ...CATEGORIES,
+    ...customCategories.filter((c) => c.parent === null).map((c) => c.name),
+  ]
+  return topLevel.flatMap((category) => [category, ...getSubcategories(category, customCategories)])
+}
+
+export function getParentCategory(
+  category: string,
+  customCategories: CustomCategory[]
+): string | null {
+  return customCategories.find((c) => c.name === category)?.parent ?? null
+}
+
+export function getSubcategories(category: string, customCategories: CustomCategory[]): string[] {
+  return customCategories.filter((c) => c.parent === category).map((c) => c.name)
+}
+
+export function getTopLevelCategory(category: string, customCategories: CustomCategory[]): string {
+  return getParentCategory(category, customCategories) ?? category
+}
+
+/**
+ * Label for category pickers, e.g. "Groceries › Bakery"
+ */
+export function formatCategoryLabel(category: string, customCategories: CustomCategory[]): string {
+  const parent = getParentCategory(category, customCategories)
+  return parent ? `${parent} › ${category}` : category
+}
+
+/**
+ * Check a new category against the existing ones; returns an error message or null
+ */
+export function validateCategory(
+  name: string,
+  parent: string | null,
+  customCategories: CustomCategory[]
+): string | null {
+  const trimmed = name.trim()
+  if (!trimmed) return 'Name is required'
+  const existing = getAllCategories(customCategories)
+  if (existing.some((c) => c.toLowerCase() === trimmed.toLowerCase())) {
+    return 'A category with this name already exists'
+  }
+  if (parent !== null) {
+    if (!existing.includes(parent)) return 'Parent category does not exist'
+    if (getParentCategory(parent, customCategories) !== null) {
+      return 'Subcategories cannot have subcategories'
+    }
+  }
+  return null
 }
@@ -0,0 +1,129 @@
+/**
+ * Offline naive Bayes classifier learned from manual category overrides.
+ * Tokens come from the booking text and sector; the model is rebuilt from the stored
+ * training examples, so changing an override replaces its earlier example.
+ */
+import type { Transaction } from './types'
+
+export interface TrainingExample {
+  transactionId: string
+  bookingText: string
+  sector: string
+  category: string
+  createdDate: Date
+}
+
+export interface ClassifierModel {
+  exampleCount: number
+  categoryCounts: Record<string, number> // Examples per category
+  tokenCounts: Record<string, Record<string, number>> // Category -> token -> occurrences
+  tokenTotals: Record<string, number> // Tokens seen per category
+  vocabulary: Set<string>
+}
+
+export interface Prediction {
+  category: string
+  confidence: number // Posterior probability, 0-1
+}
+
+// Predictions below this confidence are not used for categorization
+export const MIN_CONFIDENCE = 0.6
+
+const STOP_WORDS = new Set(['the', 'and', 'for', 'von', 'und', 'der', 'die', 'das', 'des'])
+
+export function tokenize(transaction: Pick<Transaction, 'bookingText' | 'sector'>): string[] {
+  const words = transaction.bookingText
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((w) => w.length >= 3 && !/^\d+$/.test(w) && !STOP_WORDS.has(w))
+
+  const sector = transaction.sector.trim().toLowerCase()
+  return sector && sector !== 'other' ? [...words, `sector:${sector}`] : words
+}
+
+export function toTrainingExample(transaction: Transaction, category: string): TrainingExample {
+  return {
+    transactionId: transaction.id,
+    bookingText: transaction.bookingText,
+    sector: transaction.sector,
+    category,
+    createdDate: new Date(),
+  }
+}
+
+/**
+ * Work out which training examples an override change adds or removes.
+ * Changed overrides replace the example for their transaction.
+ */
+export function diffTrainingExamples(
+  transactions: Transaction[],
+  previous: Map<string, string>,
+  next: Map<string, string>
+): { added: TrainingExample[]; removedIds: string[] } {
+  const added = transactions
+    .filter((t) => next.has(t.id) && next.get(t.id) !== previous.get(t.id))
+    .map((t) => toTrainingExample(t, next.get(t.id)!))
+  const removedIds = Array.from(previous.keys()).filter((id) => !next.has(id))
+
+  return { added, removedIds }
+}
+
+export function createEmptyModel(): ClassifierModel {
+  return {
+    exampleCount: 0,
+    categoryCounts: {},
+    tokenCounts: {},
+    tokenTotals: {},
+    vocabulary: new Set(),
+  }
+}
+
+export function buildModel(examples: TrainingExample[]): ClassifierModel {
+  const model = createEmptyModel()
+
+  for (const example of examples) {
+    const { category } = example
+    model.exampleCount++
+    model.categoryCounts[category] = (model.categoryCounts[category] ?? 0) + 1
+    model.tokenCounts[category] ??= {}
+
+    for (const token of tokenize(example)) {
+      model.tokenCounts[category][token] = (model.tokenCounts[category][token] ?? 0) + 1
+      model.tokenTotals[category] = (model.tokenTotals[category] ?? 0) + 1
+      model.vocabulary.add(token)
+    }
+  }
+
+  return model
+}
+
+/**
+ * Predict a category with Laplace-smoothed naive Bayes. Returns null when the model
+ * is empty or none of the transaction's tokens have been seen before.
+ */
+export function predict(
+  transaction: Pick<Transaction, 'bookingText' | 'sector'>,
+  model: ClassifierModel
+): Prediction | null {
+  const tokens = tokenize(transaction).filter((t) => model.vocabulary.has(t))
+  if (model.exampleCount === 0 || tokens.length === 0) return null
+
+  const vocabularySize = model.vocabulary.size
+  const scores = Object.keys(model.categoryCounts).map((category) => {
+    const counts = model.tokenCounts[category] ?? {}
+    const total = model.tokenTotals[category] ?? 0
+    let logScore = Math.log(model.categoryCounts[category] / model.exampleCount)
+    for (const token of tokens) {
+      logScore += Math.log(((counts[token] ?? 0) + 1) / (total + vocabularySize))
+    }
+    return { category, logScore }
+  })
+
+  // Normalize log scores into probabilities
+  const maxScore = Math.max(...scores.map((s) => s.logScore))
+  const weights = scores.map((s) => ({ ...s, weight: Math.exp(s.logScore - maxScore) }))
+  const sum = weights.reduce((acc, w) => acc + w.weight, 0)
+  const best = weights.reduce((a, b) => (b.weight > a.weight ? b : a))
+
+  return { category: best.category, confidence: best.weight / sum }
+}
@@ -0,0 +1,218 @@
+/**
+ * Reporting currency and exchange rates. Rates are reference rates in CHF per unit
+ * of a currency, one per day; amounts are converted with the rate of their date.
+ */
+import { format, isValid, parse } from 'date-fns'
+import type { ExchangeRate, Transaction } from './types'
+
+// Currency the rate table is quoted in
+export const RATE_BASE = 'CHF'
+
+export const COMMON_CURRENCIES = ['CHF', 'EUR', 'USD', 'GBP', 'JPY', 'CAD', 'AUD', 'SEK']
+
+export interface ForeignCurrencySummary {
+  originalCurrency: string
+  bookedCurrency: string
+  count: number
+  originalTotal: number
+  bookedTotal: number
+  effectiveRate: number // Booked currency paid per unit of the original currency
+  referenceRate: number | null // From the rate table, null without rates
+  transactions: Transaction[]
+}
+
+// Currency -> rates sorted by date
+export type RateTable = Map<string, ExchangeRate[]>
+
+export interface CurrencySettings {
+  reportingCurrency: string
+  rates: RateTable
+}
+
+/**
+ * Group rates by currency for conversion
+ */
+export function buildRateTable(rates: ExchangeRate[]): RateTable {
+  const table: RateTable = new Map()
+  rates.forEach((r) => {
+    table.set(r.currency, [...(table.get(r.currency) ?? []), r])
+  })
+  table.forEach((list) => list.sort((a, b) => a.date.localeCompare(b.date)))
+  return table
+}
+
+/**
+ * CHF per unit of a currency on a date: the latest rate on or before it, otherwise
+ * the earliest one after it. Null when the table has no rates for the currency.
+ */
+export function getRate(currency: string, date: Date, table: RateTable): number | null {
+  if (currency === RATE_BASE) return 1
+  const rates = table.get(currency)
+  if (!rates || rates.length === 0) return null
+
+  const day = isValid(date) ? format(date, 'yyyy-MM-dd') : rates[rates.length - 1].date
+  let low = 0
+  let high = rates.length - 1
+  let found = -1
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2)
+    if (rates[mid].date <= day) {
+      found = mid
+      low = mid + 1
+    } else {
+      high = mid - 1
+    }
+  }
+  return rates[Math.max(found, 0)].rate
+}
+
+/**
+ * Convert an amount between currencies, or null when a rate is missing
+ */
+export function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  date: Date,
+  table: RateTable
+): number | null {
+  if (from === to) return amount
+  const fromRate = getRate(from, date, table)
+  const toRate = getRate(to, date, table)
+  return fromRate === null || toRate === null ? null : (amount * fromRate) / toRate
+}
+
+/**
+ * Transaction in the reporting currency. Purchases made in the reporting currency
+ * keep their original amount; without settings or a rate the transaction is left
+ * as it is.
+ */
+export function convertTransaction(
+  transaction: Transaction,
+  currency?: CurrencySettings
+): Transaction {
+  if (!currency) return transaction
+  const target = currency.reportingCurrency
+  if (transaction.currency === target) return transaction
+
+  const paidInTarget = transaction.originalCurrency === target && transaction.amount > 0
+  const convert = (value: number | null) =>
+    value === null
+      ? null
+      : paidInTarget
+        ? transaction.amount
+        : convertAmount(
+            value,
+            transaction.currency,
+            target,
+            transaction.purchaseDate,
+            currency.rates
+          )
+
+  const debit = convert(transaction.debit)
+  const credit = convert(transaction.credit)
+  if (
+    (transaction.debit !== null && debit === null) ||
+    (transaction.credit !== null && credit === null)
+  ) {
+    return transaction
+  }
+  return { ...transaction, debit, credit, currency: target }
+}
+
+export function convertTransactions(
+  transactions: Transaction[],
+  currency?: CurrencySettings
+): Transaction[] {
+  return transactions.map((t) => convertTransaction(t, currency))
+}
+
+/**
+ * Currencies that transactions are booked in but that cannot be converted
+ */
+export function getMissingRates(transactions: Transaction[], currency: CurrencySettings): string[] {
+  const missing = new Set<string>()
+  transactions.forEach((t) => {
+    if (convertTransaction(t, currency).currency !== currency.reportingCurrency) {
+      missing.add(t.currency)
+    }
+  })
+  return Array.from(missing).sort()
+}
+
+/**
+ * Parse a CSV of daily rates with date, currency and rate columns. Dates are
+ * yyyy-MM-dd or dd.MM.yyyy; a header row is skipped.
+ */
+export function parseExchangeRatesCSV(content: string): ExchangeRate[] {
+  const lines = content.split(/\r?\n/).filter((line) => line.trim())
+  const delimiter = lines[0]?.includes(';') ? ';' : ','
+
+  return lines.flatMap((line, index) => {
+    const [rawDate, rawCurrency, rawRate] = line.split(delimiter).map((v) => v.trim())
+    const rate = parseFloat((rawRate ?? '').replace(/'/g, ''))
+    const date = /^\d{4}-\d{2}-\d{2}$/.test(rawDate)
+      ? parse(rawDate, 'yyyy-MM-dd', new Date())
+      : parse(rawDate, 'dd.MM.yyyy', new Date())
+
+    if (!isValid(date) || isNaN(rate)) {
+      if (index === 0) return [] // Header row
+      throw new Error(`Line ${index + 1}: expected date, currency and rate`)
+    }
+    if (!/^[A-Za-z]{3}$/.test(rawCurrency) || rate <= 0) {
+      throw new Error(`Line ${index + 1}: invalid currency or rate`)
+    }
+    return [{ date: format(date, 'yyyy-MM-dd'), currency: rawCurrency.toUpperCase(), rate }]
+  })
+}
+
+/**
+ * Card purchases in a foreign currency, grouped by original and booked currency,
+ * with the rate actually paid next to the reference rate. Works on the booked
+ * amounts, before conversion to the reporting currency.
+ */
+export function summarizeForeignSpend(
+  transactions: Transaction[],
+  rates: RateTable
+): ForeignCurrencySummary[] {
+  const groups = new Map<string, Transaction[]>()
+  transactions
+    .filter(
+      (t) =>
+        (t.debit || 0) > 0 &&
+        t.amount > 0 &&
+        t.originalCurrency &&
+        t.originalCurrency !== t.currency
+    )
+    .forEach((t) => {
+      const key = `${t.originalCurrency}|${t.currency}`
+      groups.set(key, [...(groups.get(key) ?? []), t])
+    })
+
+  return Array.from(groups.values())
+    .map((txns) => {
+      const { originalCurrency, currency: bookedCurrency } = txns[0]
+      const originalTotal = txns.reduce((sum, t) => sum + t.amount, 0)
+      const bookedTotal = txns.reduce((sum, t) => sum + (t.debit || 0), 0)
+
+      // Reference cost of each purchase at the rate of its day
+      const referenceCosts = txns.map((t) =>
+        convertAmount(t.amount, originalCurrency, bookedCurrency, t.purchaseDate, rates)
+      )
+      const referenceTotal = referenceCosts.every((c) => c !== null)
+        ? referenceCosts.reduce((sum: number, c) => sum + c!, 0)
+        : null
+
+      return {
+        originalCurrency,
+        bookedCurrency,
+        count: txns.length,
+        originalTotal,
+        bookedTotal,
+        effectiveRate: bookedTotal / originalTotal,
+        referenceRate: referenceTotal === null ? null : referenceTotal / originalTotal,
+        transactions: txns,
+      }
+    })
+    .sort((a, b) => b.bookedTotal - a.bookedTotal)
+}
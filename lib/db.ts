@@ -1,5 +1,25 @@
 import Dexie, { Table } from 'dexie'
-import type { Transaction, ExpenseReport, Budget } from './types'
+import { startOfMonth } from 'date-fns'
+import type {
+  Transaction,
+  ExpenseReport,
+  Budget,
+  BudgetPeriod,
+  BudgetRevision,
+  CategoryRule,
+  CustomCategory,
+  TransactionTags,
+  MerchantAlias,
+  TransferDecision,
+  TransferStatus,
+  ExchangeRate,
+  EnvelopeAssignment,
+} from './types'
+import type { BankFormat } from './formats'
+import { assignTransactionIds } from './merge'
+import type { TrainingExample } from './classifier'
+import { getRevisionOn, scheduleRevisions } from './budgets'
+import { RATE_BASE } from './currency'
 
 export interface SavedAnalysis {
   id?: number
@@ -8,6 +28,8 @@ export interface SavedAnalysis {
   uploadDate: Date
   transactions: Transaction[]
   report: ExpenseReport
+  categoryOverrides: Record<string, string> // Transaction id -> manually chosen category
+  currency?: string // Currency of the report's amounts; CHF for analyses saved before it was stored
 }
 
 export interface ChartPreferences {
@@ -20,10 +42,35 @@ export interface ChartPreferences {
   showFilterPanel: boolean
 }
 
+// User-defined mapping for a CSV export that matched no built-in bank format
+export interface ColumnMapping {
+  id?: number
+  fingerprint: string // Header fingerprint, see getHeaderFingerprint
+  format: BankFormat
+  createdDate: Date
+}
+
+// Single app-wide setting such as the reporting currency
+export interface AppSetting {
+  key: string
+  value: string
+}
+
 export class ExpenseDatabase extends Dexie {
   analyses!: Table<SavedAnalysis>
   budgets!: Table<Budget>
   chartPreferences!: Table<ChartPreferences>
+  columnMappings!: Table<ColumnMapping>
+  categoryRules!: Table<CategoryRule>
+  trainingExamples!: Table<TrainingExample>
+  customCategories!: Table<CustomCategory>
+  transactionTags!: Table<TransactionTags>
+  merchantAliases!: Table<MerchantAlias>
+  transferDecisions!: Table<TransferDecision>
+  exchangeRates!: Table<ExchangeRate>
+  settings!: Table<AppSetting>
+  budgetRevisions!: Table<BudgetRevision>
+  envelopeAssignments!: Table<EnvelopeAssignment>
 
   constructor() {
     super('ExpenseAnalyzerDB')
@@ -39,6 +86,160 @@ export class ExpenseDatabase extends Dexie {
       budgets: '++id, category, createdDate',
       chartPreferences: '++id',
     })
+    this.version(4).stores({
+      analyses: '++id, name, fileName, uploadDate',
+      budgets: '++id, category, createdDate',
+      chartPreferences: '++id',
+      columnMappings: '++id, &fingerprint',
+    })
+    // Transactions saved before stable ids existed get them on upgrade
+    this.version(5)
+      .stores({
+        analyses: '++id, name, fileName, uploadDate',
+        budgets: '++id, category, createdDate',
+        chartPreferences: '++id',
+        columnMappings: '++id, &fingerprint',
+      })
+      .upgrade((tx) =>
+        tx
+          .table<SavedAnalysis>('analyses')
+          .toCollection()
+          .modify((analysis) => {
+            analysis.transactions = assignTransactionIds(analysis.transactions)
+          })
+      )
+    // Analyses saved before overrides were persisted have none
+    this.version(6)
+      .stores({
+        analyses: '++id, name, fileName, uploadDate',
+        budgets: '++id, category, createdDate',
+        chartPreferences: '++id',
+        columnMappings: '++id, &fingerprint',
+      })
+      .upgrade((tx) =>
+        tx
+          .table<SavedAnalysis>('analyses')
+          .toCollection()
+          .modify((analysis) => {
+            analysis.categoryOverrides ??= {}
+          })
+      )
+    this.version(7).stores({
+      analyses: '++id, name, fileName, uploadDate',
+      budgets: '++id, category, createdDate',
+      chartPreferences: '++id',
+      columnMappings: '++id, &fingerprint',
+      categoryRules: '++id, priority, category',
+    })
+    this.version(8).stores({
+      analyses: '++id, name, fileName, uploadDate',
+      budgets: '++id, category, createdDate',
+      chartPreferences: '++id',
+      columnMappings: '++id, &fingerprint',
+      categoryRules: '++id, priority, category',
+      trainingExamples: '&transactionId, category',
+    })
+    this.version(9).stores({
+      analyses: '++id, name, fileName, uploadDate',
+      budgets: '++id, category, createdDate',
+      chartPreferences: '++id',
+      columnMappings: '++id, &fingerprint',
+      categoryRules: '++id, priority, category',
+      trainingExamples: '&transactionId, category',
+      customCategories: '++id, &name, parent',
+    })
+    this.version(10).stores({
+      analyses: '++id, name, fileName, uploadDate',
+      budgets: '++id, category, createdDate',
+      chartPreferences: '++id',
+      columnMappings: '++id, &fingerprint',
+      categoryRules: '++id, priority, category',
+      trainingExamples: '&transactionId, category',
+      customCategories: '++id, &name, parent',
+      transactionTags: '&transactionId, *tags',
+    })
+    this.version(11).stores({
+      analyses: '++id, name, fileName, uploadDate',
+      budgets: '++id, category, createdDate',
+      chartPreferences: '++id',
+      columnMappings: '++id, &fingerprint',
+      categoryRules: '++id, priority, category',
+      trainingExamples: '&transactionId, category',
+      customCategories: '++id, &name, parent',
+      transactionTags: '&transactionId, *tags',
+      merchantAliases: '++id, &name',
+    })
+    this.version(12).stores({
+      analyses: '++id, name, fileName, uploadDate',
+      budgets: '++id, category, createdDate',
+      chartPreferences: '++id',
+      columnMappings: '++id, &fingerprint',
+      categoryRules: '++id, priority, category',
+      trainingExamples: '&transactionId, category',
+      customCategories: '++id, &name, parent',
+      transactionTags: '&transactionId, *tags',
+      merchantAliases: '++id, &name',
+      transferDecisions: '&pairId',
+    })
+    this.version(13).stores({
+      analyses: '++id, name, fileName, uploadDate',
+      budgets: '++id, category, createdDate',
+      chartPreferences: '++id',
+      columnMappings: '++id, &fingerprint',
+      categoryRules: '++id, priority, category',
+      trainingExamples: '&transactionId, category',
+      customCategories: '++id, &name, parent',
+      transactionTags: '&transactionId, *tags',
+      merchantAliases: '++id, &name',
+      transferDecisions: '&pairId',
+      exchangeRates: '[currency+date], currency',
+      settings: '&key',
+    })
+    // Existing budgets start their history in the month they were created
+    this.version(14)
+      .stores({
+        analyses: '++id, name, fileName, uploadDate',
+        budgets: '++id, category, createdDate',
+        chartPreferences: '++id',
+        columnMappings: '++id, &fingerprint',
+        categoryRules: '++id, priority, category',
+        trainingExamples: '&transactionId, category',
+        customCategories: '++id, &name, parent',
+        transactionTags: '&transactionId, *tags',
+        merchantAliases: '++id, &name',
+        transferDecisions: '&pairId',
+        exchangeRates: '[currency+date], currency',
+        settings: '&key',
+        budgetRevisions: '++id, category, validFrom',
+      })
+      .upgrade(async (tx) => {
+        const budgets = await tx.table<Budget>('budgets').toArray()
+        await tx.table<BudgetRevision>('budgetRevisions').bulkAdd(
+          budgets.map((b) => ({
+            category: b.category,
+            amount: b.amount,
+            validFrom: startOfMonth(b.createdDate),
+            validTo: null,
+            createdDate: b.createdDate,
+          }))
+        )
+      })
+    this.version(15).stores({
+      analyses: '++id, name, fileName, uploadDate',
+      budgets: '++id, category, createdDate',
+      chartPreferences: '++id',
+      columnMappings: '++id, &fingerprint',
+      categoryRules: '++id, priority, category',
+      trainingExamples: '&transactionId, category',
+      customCategories: '++id, &name, parent',
+      transactionTags: '&transactionId, *tags',
+      merchantAliases: '++id, &name',
+      transferDecisions: '&pairId',
+      exchangeRates: '[currency+date], currency',
+      settings: '&key',
+      budgetRevisions: '++id, category, validFrom',
+      envelopeAssignments: '[category+month], category',
+    })
   }
 }
 
@@ -48,7 +249,9 @@ export async function saveAnalysis(
   fileName: string,
   transactions: Transaction[],
   report: ExpenseReport,
-  customName?: string
+  customName?: string,
+  categoryOverrides: Map<string, string> = new Map(),
+  currency: string = RATE_BASE
 ): Promise<number> {
   const name = customName || `${fileName} - ${new Date().toLocaleDateString()}`
 
@@ -58,6 +261,8 @@ export async function saveAnalysis(
     uploadDate: new Date(),
     transactions,
     report,
+    categoryOverrides: Object.fromEntries(categoryOverrides),
+    currency,
   })
 
   return id
@@ -102,20 +307,44 @@ export async function getStorageInfo(): Promise<{
 }
 
 // Budget CRUD functions
-export async function saveBudget(category: string, amount: number): Promise<number> {
-  // Check if budget for this category already exists
-  const existing = await db.budgets.where('category').equals(category).first()
-  if (existing) {
-    // Update existing budget
-    await db.budgets.update(existing.id!, { amount })
-    return existing.id!
-  }
+/**
+ * Set the budget of a category from validFrom on, which defaults to the start of
+ * the current month. Earlier amounts stay in the revision history. Without a
+ * period, a new budget is monthly and an existing one keeps its period.
+ */
+export async function saveBudget(
+  category: string,
+  amount: number,
+  validFrom: Date = startOfMonth(new Date()),
+  period?: BudgetPeriod
+): Promise<number> {
+  return db.transaction('rw', db.budgets, db.budgetRevisions, async () => {
+    const revisions = await db.budgetRevisions.where('category').equals(category).toArray()
+    const scheduled = scheduleRevisions([
+      ...revisions,
+      { category, amount, validFrom, validTo: null, createdDate: new Date() },
+    ])
+    await db.budgetRevisions.where('category').equals(category).delete()
+    await db.budgetRevisions.bulkAdd(scheduled.map(({ id: _rid, ...rest }) => rest))
+
+    // The budget itself carries the amount in force today, or the upcoming one
+    const current = getRevisionOn(scheduled, category, new Date()) ?? scheduled[0]
+
+    // Check if budget for this category already exists
+    const existing = await db.budgets.where('category').equals(category).first()
+    if (existing) {
+      // Update existing budget
+      await db.budgets.update(existing.id!, { amount: current.amount, ...(period && { period }) })
+      return existing.id!
+    }
 
-  // Create new budget
-  return await db.budgets.add({
-    category,
-    amount,
-    createdDate: new Date(),
+    // Create new budget
+    return await db.budgets.add({
+      category,
+      amount: current.amount,
+      createdDate: new Date(),
+      period: period ?? 'monthly',
+    })
   })
 }
 
@@ -127,16 +356,78 @@ export async function getBudget(id: number): Promise<Budget | undefined> {
   return await db.budgets.get(id)
 }
 
-export async function updateBudget(id: number, amount: number): Promise<void> {
-  await db.budgets.update(id, { amount })
+export async function updateBudget(
+  id: number,
+  amount: number,
+  validFrom?: Date,
+  period?: BudgetPeriod
+): Promise<void> {
+  const budget = await db.budgets.get(id)
+  if (!budget) throw new Error('Budget not found')
+  await saveBudget(budget.category, amount, validFrom, period)
 }
 
 export async function deleteBudget(id: number): Promise<void> {
-  await db.budgets.delete(id)
+  const budget = await db.budgets.get(id)
+  if (!budget) return
+  await deleteBudgetByCategory(budget.category)
 }
 
+/**
+ * Delete the budget of a category together with its revision history and envelope
+ */
 export async function deleteBudgetByCategory(category: string): Promise<void> {
-  await db.budgets.where('category').equals(category).delete()
+  await db.transaction('rw', [db.budgets, db.budgetRevisions, db.envelopeAssignments], async () => {
+    await db.budgets.where('category').equals(category).delete()
+    await db.budgetRevisions.where('category').equals(category).delete()
+    await db.envelopeAssignments.where('category').equals(category).delete()
+  })
+}
+
+/**
+ * Let unspent or overspent amounts carry into the next month, with an optional
+ * cap on the balance carried either way
+ */
+export async function updateBudgetRollover(
+  id: number,
+  rollover: boolean,
+  rolloverCap: number | null = null
+): Promise<void> {
+  await db.budgets.update(id, { rollover, rolloverCap })
+}
+
+/**
+ * Revisions of all budgets, oldest first per category
+ */
+export async function getAllBudgetRevisions(): Promise<BudgetRevision[]> {
+  const revisions = await db.budgetRevisions.toArray()
+  return revisions.sort(
+    (a, b) =>
+      a.category.localeCompare(b.category) ||
+      a.validFrom.getTime() - b.validFrom.getTime() ||
+      a.createdDate.getTime() - b.createdDate.getTime()
+  )
+}
+
+// Envelope assignment functions
+/**
+ * Assign an amount to a category envelope for a month (yyyy-MM), replacing the
+ * previous assignment
+ */
+export async function saveEnvelopeAssignment(
+  category: string,
+  month: string,
+  amount: number
+): Promise<void> {
+  await db.envelopeAssignments.put({ category, month, amount })
+}
+
+export async function getAllEnvelopeAssignments(): Promise<EnvelopeAssignment[]> {
+  return await db.envelopeAssignments.toArray()
+}
+
+export async function deleteEnvelopeAssignment(category: string, month: string): Promise<void> {
+  await db.envelopeAssignments.delete([category, month])
 }
 
 // Chart Preferences functions (singleton - only one preferences record)
@@ -158,6 +449,187 @@ export async function clearChartPreferences(): Promise<void> {
   await db.chartPreferences.clear()
 }
 
+// Column mapping functions (keyed by header fingerprint)
+export async function saveColumnMapping(fingerprint: string, format: BankFormat): Promise<number> {
+  const existing = await db.columnMappings.where('fingerprint').equals(fingerprint).first()
+  if (existing) {
+    await db.columnMappings.update(existing.id!, { format })
+    return existing.id!
+  }
+
+  return await db.columnMappings.add({
+    fingerprint,
+    format,
+    createdDate: new Date(),
+  })
+}
+
+export async function getColumnMapping(fingerprint: string): Promise<ColumnMapping | undefined> {
+  return await db.columnMappings.where('fingerprint').equals(fingerprint).first()
+}
+
+export async function getAllColumnMappings(): Promise<ColumnMapping[]> {
+  return await db.columnMappings.toArray()
+}
+
+export async function deleteColumnMapping(id: number): Promise<void> {
+  await db.columnMappings.delete(id)
+}
+
+// Categorization rule CRUD functions
+export async function saveCategoryRule(
+  rule: Omit<CategoryRule, 'id' | 'priority' | 'createdDate'>
+): Promise<number> {
+  // New rules are checked last
+  const last = await db.categoryRules.orderBy('priority').last()
+  return await db.categoryRules.add({
+    ...rule,
+    priority: last ? last.priority + 1 : 0,
+    createdDate: new Date(),
+  })
+}
+
+export async function updateCategoryRule(
+  id: number,
+  changes: Partial<Omit<CategoryRule, 'id' | 'createdDate'>>
+): Promise<void> {
+  await db.categoryRules.update(id, changes)
+}
+
+export async function getAllCategoryRules(): Promise<CategoryRule[]> {
+  return await db.categoryRules.orderBy('priority').toArray()
+}
+
+export async function deleteCategoryRule(id: number): Promise<void> {
+  await db.categoryRules.delete(id)
+}
+
+/**
+ * Store a new rule order; ids are given from highest to lowest priority
+ */
+export async function reorderCategoryRules(ids: number[]): Promise<void> {
+  await db.transaction('rw', db.categoryRules, async () => {
+    await Promise.all(ids.map((id, index) => db.categoryRules.update(id, { priority: index })))
+  })
+}
+
+// Classifier training data: one example per manually recategorized transaction
+export async function saveTrainingExamples(examples: TrainingExample[]): Promise<void> {
+  await db.trainingExamples.bulkPut(examples)
+}
+
+export async function deleteTrainingExamples(transactionIds: string[]): Promise<void> {
+  await db.trainingExamples.bulkDelete(transactionIds)
+}
+
+export async function getAllTrainingExamples(): Promise<TrainingExample[]> {
+  return await db.trainingExamples.toArray()
+}
+
+export async function clearTrainingExamples(): Promise<void> {
+  await db.trainingExamples.clear()
+}
+
+// Custom category functions
+export async function saveCustomCategory(name: string, parent: string | null): Promise<number> {
+  return await db.customCategories.add({
+    name: name.trim(),
+    parent,
+    createdDate: new Date(),
+  })
+}
+
+export async function getAllCustomCategories(): Promise<CustomCategory[]> {
+  return await db.customCategories.orderBy('name').toArray()
+}
+
+/**
+ * Delete a category together with its subcategories
+ */
+export async function deleteCustomCategory(id: number): Promise<void> {
+  await db.transaction('rw', db.customCategories, async () => {
+    const category = await db.customCategories.get(id)
+    if (!category) return
+    await db.customCategories.where('parent').equals(category.name).delete()
+    await db.customCategories.delete(id)
+  })
+}
+
+// Transaction tag functions
+/**
+ * Store tag lists by transaction id; an empty list removes the entry
+ */
+export async function saveTransactionTags(entries: TransactionTags[]): Promise<void> {
+  await db.transaction('rw', db.transactionTags, async () => {
+    await db.transactionTags.bulkPut(entries.filter((e) => e.tags.length > 0))
+    await db.transactionTags.bulkDelete(
+      entries.filter((e) => e.tags.length === 0).map((e) => e.transactionId)
+    )
+  })
+}
+
+export async function getAllTransactionTags(): Promise<TransactionTags[]> {
+  return await db.transactionTags.toArray()
+}
+
+// Merchant alias functions
+/**
+ * Map a normalized merchant name to another merchant, replacing an existing alias
+ */
+export async function saveMerchantAlias(name: string, merchant: string): Promise<number> {
+  return await db.transaction('rw', db.merchantAliases, async () => {
+    const existing = await db.merchantAliases.where('name').equals(name).first()
+    return await db.merchantAliases.put({
+      id: existing?.id,
+      name,
+      merchant: merchant.trim(),
+      createdDate: existing?.createdDate ?? new Date(),
+    })
+  })
+}
+
+export async function getAllMerchantAliases(): Promise<MerchantAlias[]> {
+  return await db.merchantAliases.orderBy('name').toArray()
+}
+
+export async function deleteMerchantAlias(name: string): Promise<void> {
+  await db.merchantAliases.where('name').equals(name).delete()
+}
+
+// Transfer decision functions
+export async function saveTransferDecision(pairId: string, status: TransferStatus): Promise<void> {
+  await db.transferDecisions.put({ pairId, status, createdDate: new Date() })
+}
+
+export async function getAllTransferDecisions(): Promise<TransferDecision[]> {
+  return await db.transferDecisions.toArray()
+}
+
+// Exchange rate functions
+/**
+ * Store daily rates, replacing existing rates of the same currency and date
+ */
+export async function saveExchangeRates(rates: ExchangeRate[]): Promise<void> {
+  await db.exchangeRates.bulkPut(rates)
+}
+
+export async function getAllExchangeRates(): Promise<ExchangeRate[]> {
+  return await db.exchangeRates.toArray()
+}
+
+export async function deleteExchangeRates(currency: string): Promise<void> {
+  await db.exchangeRates.where('currency').equals(currency).delete()
+}
+
+// Settings functions
+export async function saveSetting(key: string, value: string): Promise<void> {
+  await db.settings.put({ key, value })
+}
+
+export async function getSetting(key: string): Promise<string | undefined> {
+  return (await db.settings.get(key))?.value
+}
+
 // Backup/Restore types and functions
 export interface BackupData {
   version: number
@@ -165,6 +637,17 @@ export interface BackupData {
   analyses: SavedAnalysis[]
   budgets: Budget[]
   chartPreferences: ChartPreferences | null
+  columnMappings?: ColumnMapping[]
+  categoryRules?: CategoryRule[]
+  trainingExamples?: TrainingExample[]
+  customCategories?: CustomCategory[]
+  transactionTags?: TransactionTags[]
+  merchantAliases?: MerchantAlias[]
+  transferDecisions?: TransferDecision[]
+  exchangeRates?: ExchangeRate[]
+  settings?: AppSetting[]
+  budgetRevisions?: BudgetRevision[]
+  envelopeAssignments?: EnvelopeAssignment[]
 }
 
 /**
@@ -175,6 +658,17 @@ export async function exportAllData(): Promise<BackupData> {
   const budgets = await db.budgets.toArray()
   const chartPrefsArray = await db.chartPreferences.toArray()
   const chartPreferences = chartPrefsArray.length > 0 ? chartPrefsArray[0] : null
+  const columnMappings = await db.columnMappings.toArray()
+  const categoryRules = await db.categoryRules.toArray()
+  const trainingExamples = await db.trainingExamples.toArray()
+  const customCategories = await db.customCategories.toArray()
+  const transactionTags = await db.transactionTags.toArray()
+  const merchantAliases = await db.merchantAliases.toArray()
+  const transferDecisions = await db.transferDecisions.toArray()
+  const exchangeRates = await db.exchangeRates.toArray()
+  const settings = await db.settings.toArray()
+  const budgetRevisions = await db.budgetRevisions.toArray()
+  const envelopeAssignments = await db.envelopeAssignments.toArray()
 
   return {
     version: 1,
@@ -182,6 +676,17 @@ export async function exportAllData(): Promise<BackupData> {
     analyses,
     budgets,
     chartPreferences,
+    columnMappings,
+    categoryRules,
+    trainingExamples,
+    customCategories,
+    transactionTags,
+    merchantAliases,
+    transferDecisions,
+    exchangeRates,
+    settings,
+    budgetRevisions,
+    envelopeAssignments,
   }
 }
 
@@ -230,13 +735,27 @@ export async function importAllData(backup: BackupData): Promise<{
   await db.analyses.clear()
   await db.budgets.clear()
   await db.chartPreferences.clear()
+  await db.columnMappings.clear()
+  await db.categoryRules.clear()
+  await db.trainingExamples.clear()
+  await db.customCategories.clear()
+  await db.transactionTags.clear()
+  await db.merchantAliases.clear()
+  await db.transferDecisions.clear()
+  await db.exchangeRates.clear()
+  await db.settings.clear()
+  await db.budgetRevisions.clear()
+  await db.envelopeAssignments.clear()
 
   // Import analyses (remove ids and convert date strings to Date objects)
   const analysesToImport = backup.analyses.map((a) => {
     const { id: _id, ...rest } = a
     // Convert all date strings back to Date objects
-    const revived = reviveDates(rest)
-    return revived as SavedAnalysis
+    const revived = reviveDates(rest) as SavedAnalysis
+    // Backups made before stable transaction ids or persisted overrides existed
+    revived.transactions = assignTransactionIds(revived.transactions)
+    revived.categoryOverrides ??= {}
+    return revived
   })
   if (analysesToImport.length > 0) {
     await db.analyses.bulkAdd(analysesToImport)
@@ -258,6 +777,85 @@ export async function importAllData(backup: BackupData): Promise<{
     await db.chartPreferences.add(rest as ChartPreferences)
   }
 
+  // Import column mappings (optional in older backups)
+  const mappingsToImport = (backup.columnMappings ?? []).map((m) => {
+    const { id: _mid, ...rest } = m
+    return reviveDates(rest) as ColumnMapping
+  })
+  if (mappingsToImport.length > 0) {
+    await db.columnMappings.bulkAdd(mappingsToImport)
+  }
+
+  // Import categorization rules (optional in older backups)
+  const rulesToImport = (backup.categoryRules ?? []).map((r) => {
+    const { id: _rid, ...rest } = r
+    return reviveDates(rest) as CategoryRule
+  })
+  if (rulesToImport.length > 0) {
+    await db.categoryRules.bulkAdd(rulesToImport)
+  }
+
+  // Import classifier training examples (optional in older backups)
+  const examplesToImport = reviveDates(backup.trainingExamples ?? [])
+  if (examplesToImport.length > 0) {
+    await db.trainingExamples.bulkAdd(examplesToImport)
+  }
+
+  // Import custom categories (optional in older backups)
+  const categoriesToImport = (backup.customCategories ?? []).map((c) => {
+    const { id: _cid, ...rest } = c
+    return reviveDates(rest) as CustomCategory
+  })
+  if (categoriesToImport.length > 0) {
+    await db.customCategories.bulkAdd(categoriesToImport)
+  }
+
+  // Import transaction tags (optional in older backups)
+  const tagsToImport = backup.transactionTags ?? []
+  if (tagsToImport.length > 0) {
+    await db.transactionTags.bulkAdd(tagsToImport)
+  }
+
+  // Import merchant aliases (optional in older backups)
+  const aliasesToImport = (backup.merchantAliases ?? []).map((a) => {
+    const { id: _aid, ...rest } = a
+    return reviveDates(rest) as MerchantAlias
+  })
+  if (aliasesToImport.length > 0) {
+    await db.merchantAliases.bulkAdd(aliasesToImport)
+  }
+
+  // Import transfer decisions (optional in older backups)
+  const decisionsToImport = reviveDates(backup.transferDecisions ?? [])
+  if (decisionsToImport.length > 0) {
+    await db.transferDecisions.bulkAdd(decisionsToImport)
+  }
+
+  // Import exchange rates and settings (optional in older backups)
+  const ratesToImport = backup.exchangeRates ?? []
+  if (ratesToImport.length > 0) {
+    await db.exchangeRates.bulkAdd(ratesToImport)
+  }
+  const settingsToImport = backup.settings ?? []
+  if (settingsToImport.length > 0) {
+    await db.settings.bulkAdd(settingsToImport)
+  }
+
+  // Import budget revisions (optional in older backups, whose budgets have no history)
+  const revisionsToImport = (backup.budgetRevisions ?? []).map((r) => {
+    const { id: _rid, ...rest } = r
+    return reviveDates(rest) as BudgetRevision
+  })
+  if (revisionsToImport.length > 0) {
+    await db.budgetRevisions.bulkAdd(revisionsToImport)
+  }
+
+  // Import envelope assignments (optional in older backups)
+  const assignmentsToImport = backup.envelopeAssignments ?? []
+  if (assignmentsToImport.length > 0) {
+    await db.envelopeAssignments.bulkAdd(assignmentsToImport)
+  }
+
   return {
     analysesCount: analysesToImport.length,
     budgetsCount: budgetsToImport.length,
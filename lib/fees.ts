@@ -0,0 +1,221 @@
+/**
+ * What cards cost abroad: "Surcharge abroad" fees are attributed to the foreign
+ * purchases they were charged for, and the exchange rate applied is compared with
+ * the reference rate to find the markup hidden in the converted amount. Purchases
+ * are analyzed in the booked amounts; only the results are converted to the
+ * reporting currency.
+ */
+import { differenceInCalendarDays, format } from 'date-fns'
+import type { Transaction } from './types'
+import { convertAmount, type CurrencySettings } from './currency'
+import { normalizeMerchant } from './merchants'
+
+export const SURCHARGE_SECTOR = 'Surcharge abroad'
+
+// Surcharges are booked within this many days of their purchase
+const SURCHARGE_WINDOW_DAYS = 2
+
+// Typical surcharge as a share of the purchase, used to pick between candidates
+const TYPICAL_SURCHARGE_RATE = 0.0175
+
+// Foreign purchases less than this many days apart belong to the same trip
+export const TRIP_GAP_DAYS = 3
+
+export interface ForeignPurchase {
+  transaction: Transaction
+  surcharges: Transaction[]
+  appliedRate: number // Booked currency per unit of the original currency
+  spent: number // Amounts from here on are in the reporting currency
+  fees: number
+  fxMarkup: number | null // Charged amount above the reference rate, null without rates
+}
+
+export interface FeeGroup {
+  key: string
+  label: string
+  purchases: ForeignPurchase[]
+  spent: number
+  fees: number
+  fxMarkup: number
+  totalCost: number
+  costPercent: number // Fees and markup relative to the spend without them
+}
+
+export interface ForeignFeeReport {
+  purchases: ForeignPurchase[]
+  unmatchedSurcharges: Transaction[]
+  byTrip: FeeGroup[]
+  byCurrency: FeeGroup[]
+  byCard: FeeGroup[]
+  totalFees: number
+  totalMarkup: number
+}
+
+export function isSurcharge(t: Transaction): boolean {
+  return t.sector === SURCHARGE_SECTOR && (t.debit || 0) > 0
+}
+
+function isForeignPurchase(t: Transaction): boolean {
+  return (
+    !isSurcharge(t) &&
+    (t.debit || 0) > 0 &&
+    t.amount > 0 &&
+    !!t.originalCurrency &&
+    t.originalCurrency !== t.currency
+  )
+}
+
+/**
+ * Purchase a surcharge was charged for: same card, within the window, preferring
+ * a merchant named in the surcharge text and then the most typical fee rate
+ */
+function findPurchase(surcharge: Transaction, purchases: Transaction[]): Transaction | null {
+  const text = surcharge.bookingText.toLowerCase()
+  const score = (t: Transaction) => {
+    const namesMerchant = text.includes(normalizeMerchant(t.bookingText).toLowerCase())
+    const rateDistance = Math.abs((surcharge.debit || 0) / (t.debit || 1) - TYPICAL_SURCHARGE_RATE)
+    return (namesMerchant ? 0 : 1) + rateDistance
+  }
+
+  return (
+    purchases
+      .filter(
+        (t) =>
+          t.cardNumber === surcharge.cardNumber &&
+          Math.abs(differenceInCalendarDays(surcharge.purchaseDate, t.purchaseDate)) <=
+            SURCHARGE_WINDOW_DAYS
+      )
+      .sort((a, b) => score(a) - score(b))[0] ?? null
+  )
+}
+
+/**
+ * Booked amount of a transaction in the reporting currency, left as it is without
+ * a rate
+ */
+function toReporting(amount: number, t: Transaction, currency: CurrencySettings): number {
+  return (
+    convertAmount(amount, t.currency, currency.reportingCurrency, t.purchaseDate, currency.rates) ??
+    amount
+  )
+}
+
+function buildGroup(key: string, label: string, purchases: ForeignPurchase[]): FeeGroup {
+  const spent = purchases.reduce((sum, p) => sum + p.spent, 0)
+  const fees = purchases.reduce((sum, p) => sum + p.fees, 0)
+  const fxMarkup = purchases.reduce((sum, p) => sum + (p.fxMarkup ?? 0), 0)
+  const base = spent - fxMarkup
+  return {
+    key,
+    label,
+    purchases,
+    spent,
+    fees,
+    fxMarkup,
+    totalCost: fees + fxMarkup,
+    costPercent: base > 0 ? ((fees + fxMarkup) / base) * 100 : 0,
+  }
+}
+
+function groupBy(purchases: ForeignPurchase[], keyOf: (p: ForeignPurchase) => string): FeeGroup[] {
+  const groups = new Map<string, ForeignPurchase[]>()
+  purchases.forEach((p) => {
+    const key = keyOf(p)
+    groups.set(key, [...(groups.get(key) ?? []), p])
+  })
+  return Array.from(groups.entries())
+    .map(([key, members]) => buildGroup(key, key, members))
+    .sort((a, b) => b.totalCost - a.totalCost)
+}
+
+/**
+ * Consecutive foreign purchases with gaps of at most TRIP_GAP_DAYS, latest trip first
+ */
+function groupByTrip(purchases: ForeignPurchase[]): FeeGroup[] {
+  const sorted = [...purchases].sort(
+    (a, b) => a.transaction.purchaseDate.getTime() - b.transaction.purchaseDate.getTime()
+  )
+  const trips: ForeignPurchase[][] = []
+  sorted.forEach((p) => {
+    const current = trips[trips.length - 1]
+    const last = current?.[current.length - 1]
+    if (
+      last &&
+      differenceInCalendarDays(p.transaction.purchaseDate, last.transaction.purchaseDate) <=
+        TRIP_GAP_DAYS
+    ) {
+      current.push(p)
+    } else {
+      trips.push([p])
+    }
+  })
+
+  return trips.reverse().map((trip) => {
+    const start = trip[0].transaction.purchaseDate
+    const end = trip[trip.length - 1].transaction.purchaseDate
+    const currencies = Array.from(new Set(trip.map((p) => p.transaction.originalCurrency)))
+    const dates =
+      format(start, 'yyyy-MM-dd') === format(end, 'yyyy-MM-dd')
+        ? format(start, 'MMM d, yyyy')
+        : `${format(start, 'MMM d')} – ${format(end, 'MMM d, yyyy')}`
+    return buildGroup(format(start, 'yyyy-MM-dd'), `${dates} (${currencies.join(', ')})`, trip)
+  })
+}
+
+/**
+ * Fees and exchange-rate markup of foreign purchases, per trip, currency and card.
+ * Expects the booked transactions: after conversion, purchases made in the
+ * reporting currency would no longer look foreign.
+ */
+export function analyzeForeignFees(
+  transactions: Transaction[],
+  currency: CurrencySettings
+): ForeignFeeReport {
+  const valid = transactions.filter((t) => !isNaN(t.purchaseDate.getTime()))
+  const foreign = valid.filter(isForeignPurchase)
+
+  const surchargesByPurchase = new Map<string, Transaction[]>()
+  const unmatchedSurcharges: Transaction[] = []
+  valid.filter(isSurcharge).forEach((surcharge) => {
+    const purchase = findPurchase(surcharge, foreign)
+    if (purchase) {
+      surchargesByPurchase.set(purchase.id, [
+        ...(surchargesByPurchase.get(purchase.id) ?? []),
+        surcharge,
+      ])
+    } else {
+      unmatchedSurcharges.push(surcharge)
+    }
+  })
+
+  const purchases: ForeignPurchase[] = foreign.map((t) => {
+    const surcharges = surchargesByPurchase.get(t.id) ?? []
+    const reference = convertAmount(
+      t.amount,
+      t.originalCurrency,
+      t.currency,
+      t.purchaseDate,
+      currency.rates
+    )
+    return {
+      transaction: t,
+      surcharges,
+      appliedRate: t.rate ?? (t.debit || 0) / t.amount,
+      spent: toReporting(t.debit || 0, t, currency),
+      fees: surcharges.reduce((sum, s) => sum + toReporting(s.debit || 0, s, currency), 0),
+      fxMarkup: reference === null ? null : toReporting((t.debit || 0) - reference, t, currency),
+    }
+  })
+
+  return {
+    purchases,
+    unmatchedSurcharges,
+    byTrip: groupByTrip(purchases),
+    byCurrency: groupBy(purchases, (p) => p.transaction.originalCurrency),
+    byCard: groupBy(purchases, (p) => p.transaction.cardNumber || p.transaction.accountNumber),
+    totalFees: valid
+      .filter(isSurcharge)
+      .reduce((sum, t) => sum + toReporting(t.debit || 0, t, currency), 0),
+    totalMarkup: purchases.reduce((sum, p) => sum + (p.fxMarkup ?? 0), 0),
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * Cash-flow forecast: recurring payments are projected on their expected dates and
+ * everything else from seasonal monthly averages, with a band for the uncertainty.
+ */
+import { addMonths, endOfMonth, format, getDate, getDaysInMonth, startOfMonth } from 'date-fns'
+import type { Transaction } from './types'
+import { categorizeTransaction, getMatches, type AnalysisSettings } from './analyzer'
+import { detectRecurringPayments, getUpcomingDates } from './recurring'
+
+export const FORECAST_HORIZONS = [3, 6, 12]
+
+// Complete months of history needed for a forecast
+export const MIN_HISTORY_MONTHS = 2
+
+// With a full year of history each month is forecast from the same month in earlier years
+const SEASONAL_HISTORY_MONTHS = 12
+
+// Months starting or ending this many days into the data still count as complete
+const PARTIAL_MONTH_DAYS = 7
+
+// Band covering about 80% of outcomes
+const CONFIDENCE_Z = 1.28
+
+export interface ForecastRange {
+  expected: number
+  low: number
+  high: number
+}
+
+export interface ForecastMonth {
+  month: string
+  monthKey: string // yyyy-MM format for sorting
+  income: ForecastRange
+  spending: ForecastRange
+  netFlow: ForecastRange
+  recurring: number // Part of the expected spending from recurring payments
+  categories: { category: string; amount: number }[] // Largest first
+}
+
+type MonthlySeries = Map<string, number> // yyyy-MM -> amount
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0
+  const avg = mean(values)
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (values.length - 1))
+}
+
+/**
+ * Complete months covered by the data, oldest first
+ */
+function getHistoryMonths(dates: Date[]): string[] {
+  const first = dates.reduce((a, b) => (a < b ? a : b))
+  const last = dates.reduce((a, b) => (a > b ? a : b))
+
+  let start = startOfMonth(first)
+  if (getDate(first) > PARTIAL_MONTH_DAYS) start = addMonths(start, 1)
+  let end = startOfMonth(last)
+  if (getDaysInMonth(last) - getDate(last) >= PARTIAL_MONTH_DAYS) end = addMonths(end, -1)
+
+  const months: string[] = []
+  for (let month = start; month <= end; month = addMonths(month, 1)) {
+    months.push(format(month, 'yyyy-MM'))
+  }
+  return months
+}
+
+/**
+ * Expected amount for a month: the same month in earlier years once there is a
+ * full year of history, otherwise the average of all months
+ */
+function seasonalAverage(series: MonthlySeries, history: string[], monthKey: string): number {
+  const values = (keys: string[]) => keys.map((key) => series.get(key) ?? 0)
+  if (history.length >= SEASONAL_HISTORY_MONTHS) {
+    const sameMonth = history.filter((key) => key.slice(5) === monthKey.slice(5))
+    if (sameMonth.length > 0) return mean(values(sameMonth))
+  }
+  return mean(values(history))
+}
+
+/**
+ * Spread of the monthly amounts around their seasonal average
+ */
+function residualDeviation(series: MonthlySeries, history: string[]): number {
+  return standardDeviation(
+    history.map((key) => (series.get(key) ?? 0) - seasonalAverage(series, history, key))
+  )
+}
+
+function addTo(series: MonthlySeries, monthKey: string, amount: number): void {
+  series.set(monthKey, (series.get(monthKey) ?? 0) + amount)
+}
+
+/**
+ * Forecast income, spending per category and net flow for the months after the
+ * latest transaction. Returns nothing with less than MIN_HISTORY_MONTHS of history.
+ */
+export function forecastCashFlow(
+  transactions: Transaction[],
+  months: number,
+  settings: AnalysisSettings = {}
+): ForecastMonth[] {
+  // Transfers between own accounts and refunds of purchases are not cash flow
+  const matches = getMatches(transactions, settings)
+  const transferIds = matches.transferIds
+  const valid = transactions.filter(
+    (t) => !isNaN(t.purchaseDate.getTime()) && !transferIds.has(t.id)
+  )
+  if (valid.length === 0) return []
+
+  const history = getHistoryMonths(valid.map((t) => t.purchaseDate))
+  if (history.length < MIN_HISTORY_MONTHS) return []
+  const inHistory = (t: Transaction) => history.includes(format(t.purchaseDate, 'yyyy-MM'))
+
+  const refunds = matches.refunds.filter((m) => m.original)
+  const refundIds = new Set(refunds.map((m) => m.refund.id))
+  const income: MonthlySeries = new Map()
+  valid
+    .filter((t) => (t.credit || 0) > 0 && !refundIds.has(t.id) && inHistory(t))
+    .forEach((t) => addTo(income, format(t.purchaseDate, 'yyyy-MM'), t.credit || 0))
+
+  // Recurring payments that are still active are projected on their own schedule
+  const expenses = valid.filter((t) => (t.debit || 0) > 0)
+  const recurring = detectRecurringPayments(expenses, settings.merchantAliases).filter(
+    (p) => !p.missedOccurrences.some((date) => date > p.lastDate)
+  )
+  const recurringIds = new Set(recurring.flatMap((p) => p.occurrences.map((t) => t.id)))
+
+  const categorySpending = new Map<string, MonthlySeries>()
+  const otherSpending: MonthlySeries = new Map()
+  expenses
+    .filter((t) => !recurringIds.has(t.id) && inHistory(t))
+    .forEach((t) => {
+      const category = categorizeTransaction(t, settings)
+      const monthKey = format(t.purchaseDate, 'yyyy-MM')
+      if (!categorySpending.has(category)) categorySpending.set(category, new Map())
+      addTo(categorySpending.get(category)!, monthKey, t.debit || 0)
+      addTo(otherSpending, monthKey, t.debit || 0)
+    })
+
+  // Matched refunds reduce spending in the category of the purchase, as in the report.
+  // Refunds of recurring payments are left out since those are projected at their last amount.
+  refunds
+    .filter((m) => !recurringIds.has(m.original!.id) && inHistory(m.refund))
+    .forEach((m) => {
+      const category = categorizeTransaction(m.original!, settings)
+      const monthKey = format(m.refund.purchaseDate, 'yyyy-MM')
+      if (!categorySpending.has(category)) categorySpending.set(category, new Map())
+      addTo(categorySpending.get(category)!, monthKey, -m.amount)
+      addTo(otherSpending, monthKey, -m.amount)
+    })
+
+  const incomeDeviation = residualDeviation(income, history)
+  const spendingDeviation = residualDeviation(otherSpending, history)
+  const latest = valid.reduce((a, b) => (a.purchaseDate > b.purchaseDate ? a : b)).purchaseDate
+  const start = addMonths(startOfMonth(latest), 1)
+
+  return Array.from({ length: months }, (_, i) => {
+    const monthStart = addMonths(start, i)
+    const monthKey = format(monthStart, 'yyyy-MM')
+
+    const categories = new Map<string, number>()
+    categorySpending.forEach((series, category) => {
+      const amount = seasonalAverage(series, history, monthKey)
+      if (amount > 0) categories.set(category, amount)
+    })
+    let recurringTotal = 0
+    recurring.forEach((payment) => {
+      const due = getUpcomingDates(payment, monthStart, endOfMonth(monthStart)).length
+      if (due === 0) return
+      const category = categorizeTransaction(
+        payment.occurrences[payment.occurrences.length - 1],
+        settings
+      )
+      categories.set(category, (categories.get(category) ?? 0) + due * payment.lastAmount)
+      recurringTotal += due * payment.lastAmount
+    })
+
+    // Uncertainty grows the further the month is from the data
+    const widen = CONFIDENCE_Z * Math.sqrt(1 + (i + 1) / history.length)
+    const expectedIncome = seasonalAverage(income, history, monthKey)
+    const expectedSpending = Array.from(categories.values()).reduce((sum, v) => sum + v, 0)
+    const incomeMargin = incomeDeviation * widen
+    const spendingMargin = spendingDeviation * widen
+    const netMargin = Math.sqrt(incomeDeviation ** 2 + spendingDeviation ** 2) * widen
+
+    return {
+      month: format(monthStart, 'MMM yyyy'),
+      monthKey,
+      income: {
+        expected: expectedIncome,
+        low: Math.max(0, expectedIncome - incomeMargin),
+        high: expectedIncome + incomeMargin,
+      },
+      spending: {
+        expected: expectedSpending,
+        low: Math.max(recurringTotal, expectedSpending - spendingMargin),
+        high: expectedSpending + spendingMargin,
+      },
+      netFlow: {
+        expected: expectedIncome - expectedSpending,
+        low: expectedIncome - expectedSpending - netMargin,
+        high: expectedIncome - expectedSpending + netMargin,
+      },
+      recurring: recurringTotal,
+      categories: Array.from(categories.entries())
+        .map(([category, amount]) => ({ category, amount }))
+        .sort((a, b) => b.amount - a.amount),
+    }
+  })
+}
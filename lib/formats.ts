@@ -0,0 +1,209 @@
+/**
+ * Bank export format registry.
+ * Each format declares the headers that identify it, how its columns map onto
+ * Transaction fields, and the date/number conventions used by the bank.
+ */
+
+export type DateFormat = 'DD.MM.YYYY' | 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY'
+
+// swiss: 1'234.56 or 1'234,56 | decimal-point: 1,234.56 | decimal-comma: 1.234,56
+export type NumberFormat = 'swiss' | 'decimal-point' | 'decimal-comma'
+
+// split: separate debit/credit columns | signed: one amount column, negative = debit
+export type AmountMode = 'split' | 'signed'
+
+export type MappableField =
+  | 'accountNumber'
+  | 'cardNumber'
+  | 'accountHolder'
+  | 'purchaseDate'
+  | 'bookingText'
+  | 'sector'
+  | 'amount'
+  | 'originalCurrency'
+  | 'rate'
+  | 'currency'
+  | 'debit'
+  | 'credit'
+  | 'bookedDate'
+
+export interface BankFormat {
+  id: string
+  name: string
+  headerSignature: string[] // All of these headers must be present to match
+  columns: Partial<Record<MappableField, string>> // Transaction field -> CSV header
+  dateFormat: DateFormat
+  numberFormat: NumberFormat
+  amountMode: AmountMode
+  defaultCurrency?: string
+}
+
+export const UBS_CARD_FORMAT: BankFormat = {
+  id: 'ubs-card',
+  name: 'UBS Credit Card',
+  headerSignature: ['Card number', 'Purchase date', 'Booking text', 'Sector'],
+  columns: {
+    accountNumber: 'Account number',
+    cardNumber: 'Card number',
+    accountHolder: 'Account/Cardholder',
+    purchaseDate: 'Purchase date',
+    bookingText: 'Booking text',
+    sector: 'Sector',
+    amount: 'Amount',
+    originalCurrency: 'Original currency',
+    rate: 'Rate',
+    currency: 'Currency',
+    debit: 'Debit',
+    credit: 'Credit',
+    bookedDate: 'Booked',
+  },
+  dateFormat: 'DD.MM.YYYY',
+  numberFormat: 'swiss',
+  amountMode: 'split',
+  defaultCurrency: 'CHF',
+}
+
+export const UBS_ACCOUNT_FORMAT: BankFormat = {
+  id: 'ubs-account',
+  name: 'UBS Account Statement',
+  headerSignature: ['Trade date', 'Booking date', 'Value date', 'Description1'],
+  columns: {
+    purchaseDate: 'Trade date',
+    bookingText: 'Description1',
+    amount: 'Individual amount',
+    currency: 'Currency',
+    debit: 'Debit',
+    credit: 'Credit',
+    bookedDate: 'Booking date',
+  },
+  dateFormat: 'YYYY-MM-DD',
+  numberFormat: 'swiss',
+  amountMode: 'split',
+  defaultCurrency: 'CHF',
+}
+
+export const REVOLUT_FORMAT: BankFormat = {
+  id: 'revolut',
+  name: 'Revolut',
+  headerSignature: ['Started Date', 'Completed Date', 'Description', 'Amount', 'State'],
+  columns: {
+    purchaseDate: 'Started Date',
+    bookingText: 'Description',
+    amount: 'Amount',
+    currency: 'Currency',
+    bookedDate: 'Completed Date',
+  },
+  dateFormat: 'YYYY-MM-DD',
+  numberFormat: 'decimal-point',
+  amountMode: 'signed',
+}
+
+const registry: BankFormat[] = [UBS_CARD_FORMAT, UBS_ACCOUNT_FORMAT, REVOLUT_FORMAT]
+
+/**
+ * Register an additional bank format. A format with the same id replaces the existing one.
+ */
+export function registerBankFormat(format: BankFormat): void {
+  const index = registry.findIndex((f) => f.id === format.id)
+  if (index >= 0) {
+    registry[index] = format
+  } else {
+    registry.push(format)
+  }
+}
+
+export function unregisterBankFormat(id: string): void {
+  const index = registry.findIndex((f) => f.id === id)
+  if (index >= 0) {
+    registry.splice(index, 1)
+  }
+}
+
+export function getBankFormats(): readonly BankFormat[] {
+  return registry
+}
+
+/**
+ * Find the format whose header signature is fully present in the given headers.
+ * When several match, the most specific (longest signature) wins.
+ */
+export function detectFormat(headers: string[]): BankFormat | null {
+  const present = new Set(headers.map((h) => h.trim()))
+
+  let best: BankFormat | null = null
+  for (const format of registry) {
+    if (!format.headerSignature.every((h) => present.has(h))) continue
+    if (!best || format.headerSignature.length > best.headerSignature.length) {
+      best = format
+    }
+  }
+
+  return best
+}
+
+/**
+ * Stable fingerprint of a header row, used to recognise the same export again.
+ * Order-insensitive and case-insensitive.
+ */
+export function getHeaderFingerprint(headers: string[]): string {
+  return headers
+    .map((h) => h.trim().toLowerCase())
+    .filter(Boolean)
+    .sort()
+    .join('|')
+}
+
+// Header keywords (EN/DE/FR) used to pre-fill the column mapping for unknown exports
+const FIELD_KEYWORDS: [MappableField, RegExp][] = [
+  ['bookedDate', /book(ing|ed)? ?date|buchungsdatum|comptabilis/i],
+  ['purchaseDate', /date|datum|valuta/i],
+  ['bookingText', /description|text|details|beschreibung|libell|memo|payee|merchant/i],
+  ['debit', /debit|belastung|withdrawal|ausgang/i],
+  ['credit', /credit|gutschrift|deposit|eingang/i],
+  ['amount', /amount|betrag|montant|value/i],
+  ['currency', /^(currency|ccy|währung|devise|waehrung)$/i],
+  ['sector', /sector|category|kategorie|branche/i],
+  ['accountNumber', /account|konto|iban/i],
+]
+
+/**
+ * Guess which header holds each Transaction field from common header names.
+ * Each header is assigned to at most one field.
+ */
+export function guessColumnMapping(headers: string[]): Partial<Record<MappableField, string>> {
+  const columns: Partial<Record<MappableField, string>> = {}
+  const used = new Set<string>()
+
+  for (const [field, pattern] of FIELD_KEYWORDS) {
+    const header = headers.find((h) => !used.has(h) && pattern.test(h.trim()))
+    if (header) {
+      columns[field] = header
+      used.add(header)
+    }
+  }
+
+  // A lone booking date is the best available transaction date
+  if (!columns.purchaseDate && columns.bookedDate) {
+    columns.purchaseDate = columns.bookedDate
+    delete columns.bookedDate
+  }
+
+  return columns
+}
+
+/**
+ * Guess the date format from sample values. Slash dates are read as DD/MM/YYYY
+ * unless a value can only be MM/DD/YYYY.
+ */
+export function guessDateFormat(samples: string[]): DateFormat {
+  const values = samples.map((s) => s.trim()).filter(Boolean)
+
+  if (values.some((v) => /^\d{4}-\d{1,2}-\d{1,2}/.test(v))) return 'YYYY-MM-DD'
+  if (values.some((v) => /^\d{1,2}\.\d{1,2}\.\d{4}/.test(v))) return 'DD.MM.YYYY'
+
+  const slashDates = values.filter((v) => /^\d{1,2}\/\d{1,2}\/\d{4}/.test(v))
+  if (slashDates.some((v) => parseInt(v.split('/')[1], 10) > 12)) return 'MM/DD/YYYY'
+  if (slashDates.length > 0) return 'DD/MM/YYYY'
+
+  return 'DD.MM.YYYY'
+}
@@ -0,0 +1,50 @@
+/**
+ * Household dimension: who made a transaction and with which card, so a shared
+ * statement can be split per person.
+ */
+import type { HolderFilter, Transaction } from './types'
+
+export const UNKNOWN_HOLDER = 'Unknown holder'
+
+export interface HolderOption {
+  holder: string
+  cards: string[]
+}
+
+/**
+ * Cardholder of the transaction, falling back to the account for exports without holders
+ */
+export function getHolderName(t: Pick<Transaction, 'accountHolder' | 'accountNumber'>): string {
+  return t.accountHolder?.trim() || t.accountNumber?.trim() || UNKNOWN_HOLDER
+}
+
+/**
+ * Holders with their cards, sorted by name, for the header selector
+ */
+export function getHolderOptions(transactions: Transaction[]): HolderOption[] {
+  const holders = new Map<string, Set<string>>()
+  transactions.forEach((t) => {
+    const holder = getHolderName(t)
+    if (!holders.has(holder)) holders.set(holder, new Set())
+    if (t.cardNumber.trim()) holders.get(holder)!.add(t.cardNumber.trim())
+  })
+
+  return Array.from(holders.entries())
+    .map(([holder, cards]) => ({ holder, cards: Array.from(cards).sort() }))
+    .sort((a, b) => a.holder.localeCompare(b.holder))
+}
+
+/**
+ * Transactions of the selected holder or card; all transactions without a filter
+ */
+export function filterByHolder(
+  transactions: Transaction[],
+  filter: HolderFilter | null
+): Transaction[] {
+  if (!filter) return transactions
+  return transactions.filter((t) =>
+    filter.type === 'holder'
+      ? getHolderName(t) === filter.value
+      : t.cardNumber.trim() === filter.value
+  )
+}
@@ -0,0 +1,118 @@
+/**
+ * Merchant normalization: turns raw booking texts like "COOP-4521 ZUERICH HB" or
+ * "SUMUP *BAECKEREI MUELLER" into a merchant name, with user aliases on top.
+ */
+import { differenceInCalendarMonths } from 'date-fns'
+import type { Transaction, MerchantAlias, MerchantSummary } from './types'
+import { getMonthlyTotals } from './monthly'
+
+// Payment processors that prefix the actual merchant, e.g. "SUMUP *SHOP" or "TWINT Shop"
+const PROCESSOR_PREFIX =
+  /^(?:(?:sumup|twint|paypal|i?zettle|payrexx)\s*[*_:]?|(?:sq|sp|google|stripe)\s*[*_])\s*/i
+
+// Trailing location words dropped from merchant names
+const LOCATIONS = new Set([
+  'zurich',
+  'zuerich',
+  'zürich',
+  'bern',
+  'basel',
+  'geneve',
+  'genève',
+  'genf',
+  'lausanne',
+  'luzern',
+  'lucerne',
+  'winterthur',
+  'st',
+  'gallen',
+  'lugano',
+  'zug',
+  'biel',
+  'thun',
+  'chur',
+  'hb',
+  'bahnhof',
+  'ch',
+  'che',
+  'schweiz',
+  'switzerland',
+])
+
+function toDisplayCase(word: string): string {
+  // Short all-caps words are usually abbreviations such as SBB or H&M
+  if (word.length <= 3 && word === word.toUpperCase()) return word
+  return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()
+}
+
+/**
+ * Merchant name from a booking text, without processor prefixes, store numbers
+ * and locations. Falls back to the trimmed booking text.
+ */
+export function normalizeMerchant(bookingText: string): string {
+  const text = bookingText.trim().replace(PROCESSOR_PREFIX, '')
+  const tokens = text.split(/[\s\-_/,*]+/).filter(Boolean)
+
+  // Everything from the first store number on is branch information
+  const firstNumber = tokens.findIndex((t) => /\d/.test(t))
+  const words = firstNumber > 0 ? tokens.slice(0, firstNumber) : tokens.filter((t) => !/\d/.test(t))
+
+  while (words.length > 1 && LOCATIONS.has(words[words.length - 1].toLowerCase())) {
+    words.pop()
+  }
+
+  return words.length > 0 ? words.map(toDisplayCase).join(' ') : bookingText.trim()
+}
+
+/**
+ * Merchant name of a transaction, with the user's aliases applied
+ */
+export function getMerchantName(
+  transaction: Pick<Transaction, 'bookingText'>,
+  aliases: MerchantAlias[] = []
+): string {
+  const name = normalizeMerchant(transaction.bookingText)
+  return aliases.find((a) => a.name.toLowerCase() === name.toLowerCase())?.merchant ?? name
+}
+
+/**
+ * Spending per merchant, largest first
+ */
+export function summarizeMerchants(
+  transactions: Transaction[],
+  aliases: MerchantAlias[] = []
+): MerchantSummary[] {
+  const byMerchant = new Map<string, Transaction[]>()
+  transactions
+    .filter((t) => (t.debit || 0) > 0)
+    .forEach((t) => {
+      const merchant = getMerchantName(t, aliases)
+      byMerchant.set(merchant, [...(byMerchant.get(merchant) ?? []), t])
+    })
+
+  return Array.from(byMerchant.entries())
+    .map(([merchant, txns]) => {
+      const totalSpent = txns.reduce((sum, t) => sum + (t.debit || 0), 0)
+      const dates = txns
+        .map((t) => t.purchaseDate)
+        .filter((d) => !isNaN(d.getTime()))
+        .sort((a, b) => a.getTime() - b.getTime())
+      const firstDate = dates[0] ?? new Date(NaN)
+      const lastDate = dates[dates.length - 1] ?? new Date(NaN)
+      const months = dates.length > 0 ? differenceInCalendarMonths(lastDate, firstDate) + 1 : 1
+
+      return {
+        merchant,
+        totalSpent,
+        count: txns.length,
+        averageTicket: totalSpent / txns.length,
+        visitsPerMonth: txns.length / months,
+        firstDate,
+        lastDate,
+        monthlyTotals: getMonthlyTotals(txns),
+        names: Array.from(new Set(txns.map((t) => normalizeMerchant(t.bookingText)))).sort(),
+        transactions: txns,
+      }
+    })
+    .sort((a, b) => b.totalSpent - a.totalSpent)
+}
@@ -4,10 +4,13 @@ import type { Transaction } from './types'
  * Generate a unique hash for a transaction to detect duplicates.
  * Uses purchaseDate, bookingText, and debit/credit amounts.
  */
-export function getTransactionHash(t: Transaction): string {
+export function getTransactionHash(t: Omit<Transaction, 'id'>): string {
+  // Rows skipped on import for an unreadable date still need a hash
   const dateStr =
     t.purchaseDate instanceof Date
-      ? t.purchaseDate.toISOString().split('T')[0]
+      ? isNaN(t.purchaseDate.getTime())
+        ? 'invalid-date'
+        : t.purchaseDate.toISOString().split('T')[0]
       : String(t.purchaseDate)
 
   // Normalize booking text: lowercase, remove extra spaces
@@ -20,6 +23,30 @@ export function getTransactionHash(t: Transaction): string {
   return `${dateStr}|${normalizedText}|${debit}|${credit}`
 }
 
+/**
+ * Give each transaction a stable id derived from its hash, so overrides survive
+ * merging, sorting and filtering. Identical transactions (same date, text and
+ * amounts) are told apart by their order of occurrence. Existing ids are kept.
+ */
+export function assignTransactionIds<T extends Omit<Transaction, 'id'> & { id?: string }>(
+  transactions: T[]
+): (T & { id: string })[] {
+  const usedIds = new Set(transactions.map((t) => t.id).filter(Boolean))
+
+  return transactions.map((t) => {
+    if (t.id) return t as T & { id: string }
+
+    const hash = getTransactionHash(t)
+    let occurrence = 1
+    while (usedIds.has(`${hash}#${occurrence}`)) {
+      occurrence++
+    }
+    const id = `${hash}#${occurrence}`
+    usedIds.add(id)
+    return { ...t, id }
+  })
+}
+
 export interface MergeResult {
   merged: Transaction[]
   newTransactions: Transaction[]
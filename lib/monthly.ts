@@ -0,0 +1,26 @@
+/**
+ * Monthly spending totals, shared by the merchant and tag reports. Kept apart from
+ * the analyzer so that modules the analyzer depends on can use them too.
+ */
+import { format } from 'date-fns'
+import type { Transaction, MonthlyTotal } from './types'
+
+/**
+ * Spending per calendar month, oldest first. Transactions without a valid date are skipped.
+ */
+export function getMonthlyTotals(transactions: Transaction[]): MonthlyTotal[] {
+  const monthly = new Map<string, number>()
+  transactions.forEach((t) => {
+    if (isNaN(t.purchaseDate.getTime())) return
+    const monthKey = format(t.purchaseDate, 'yyyy-MM')
+    monthly.set(monthKey, (monthly.get(monthKey) ?? 0) + (t.debit || 0))
+  })
+
+  return Array.from(monthly.entries())
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([monthKey, totalSpent]) => ({
+      monthKey,
+      month: format(new Date(monthKey + '-01'), 'MMM yyyy'),
+      totalSpent,
+    }))
+}
@@ -0,0 +1,190 @@
+/**
+ * SWIFT MT940 (customer statement message) import.
+ * Each :61: statement line becomes one Transaction, described by the :86: field that follows it.
+ */
+import type { Transaction } from './types'
+import type { ParseDiagnostic, ParseResult } from './parser'
+import { assignTransactionIds } from './merge'
+
+type LineIssue = Omit<ParseDiagnostic, 'row' | 'transaction'>
+
+interface Field {
+  tag: string
+  value: string
+}
+
+// :61: value date (YYMMDD), optional entry date (MMDD), mark, optional funds code, amount
+const STATEMENT_LINE = /^(\d{6})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+,\d{0,2})/
+
+// Split the message into tagged fields; untagged lines continue the previous field
+function splitFields(content: string): Field[] {
+  const fields: Field[] = []
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trimEnd()
+    const match = line.match(/^:(\d{2}[A-Z]?):(.*)$/)
+    if (match) {
+      fields.push({ tag: match[1], value: match[2] })
+    } else if (line === '' || /^-}?$/.test(line) || line.startsWith('{')) {
+      continue
+    } else if (fields.length > 0) {
+      fields[fields.length - 1].value += '\n' + line
+    }
+  }
+  return fields
+}
+
+function validDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(year, month - 1, day)
+  // Reject dates that rolled over, e.g. 240231
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null
+}
+
+function parseYYMMDD(value: string): Date | null {
+  const year = 2000 + parseInt(value.slice(0, 2), 10)
+  const month = parseInt(value.slice(2, 4), 10)
+  const day = parseInt(value.slice(4, 6), 10)
+  return validDate(year, month, day)
+}
+
+function parseAmount(value: string): number {
+  return parseFloat(value.replace(',', '.'))
+}
+
+/**
+ * Extract a readable description from an :86: field. Structured (German/DK) variants use
+ * ?NN subfields: ?20-?29 for the purpose and ?32/?33 for the counterparty name.
+ */
+function parseDescription(value: string): string {
+  const flat = value.replace(/\n/g, '')
+  if (!/\?\d{2}/.test(flat)) {
+    return value.replace(/\n/g, ' ').replace(/\s+/g, ' ').trim()
+  }
+
+  const subfields = new Map<string, string>()
+  for (const match of flat.matchAll(/\?(\d{2})([^?]*)/g)) {
+    subfields.set(match[1], (subfields.get(match[1]) ?? '') + match[2])
+  }
+
+  const name = [subfields.get('32'), subfields.get('33')].filter(Boolean).join('').trim()
+  const purpose = Array.from({ length: 10 }, (_, i) => subfields.get(String(20 + i)) ?? '')
+    .join('')
+    .trim()
+
+  return [name, purpose].filter(Boolean).join(' - ')
+}
+
+/**
+ * Parse one or more MT940 statements into transactions. Lines with an invalid value
+ * date are left out and reported in the diagnostics, with row numbers counting the
+ * :61: lines; an invalid entry date falls back to the value date.
+ */
+export function parseMT940(content: string): ParseResult {
+  const fields = splitFields(content)
+  if (!fields.some((f) => f.tag === '61')) {
+    throw new Error('No statement lines (:61:) found')
+  }
+
+  const parsed: { row: number; transaction: Omit<Transaction, 'id'>; issues: LineIssue[] }[] = []
+  let accountNumber = ''
+  let currency = 'CHF'
+
+  fields.forEach((field, index) => {
+    switch (field.tag) {
+      case '25':
+        accountNumber = field.value.trim()
+        break
+      case '60F':
+      case '60M':
+        // e.g. C240601CHF1000,00 - the currency follows the mark and date
+        currency = field.value.slice(7, 10) || currency
+        break
+      case '61': {
+        const match = field.value.match(STATEMENT_LINE)
+        if (!match) {
+          throw new Error('Invalid statement line: ' + field.value.split('\n')[0])
+        }
+
+        const [, valueDateStr, entryDateStr, mark, , amountStr] = match
+        const issues: LineIssue[] = []
+        const purchaseDate = parseYYMMDD(valueDateStr)
+        let bookedDate = purchaseDate
+        if (!purchaseDate) {
+          issues.push({
+            column: ':61:',
+            field: 'purchaseDate',
+            value: valueDateStr,
+            problem: 'Not a valid date (expected YYMMDD)',
+            action: 'skipped',
+          })
+        } else if (entryDateStr) {
+          const month = parseInt(entryDateStr.slice(0, 2), 10)
+          const day = parseInt(entryDateStr.slice(2, 4), 10)
+          // Entry date in January for a December value date belongs to the next year
+          const year =
+            purchaseDate.getFullYear() + (month - 1 < purchaseDate.getMonth() - 6 ? 1 : 0)
+          const entryDate = validDate(year, month, day)
+          if (entryDate) {
+            bookedDate = entryDate
+          } else {
+            issues.push({
+              column: ':61:',
+              field: 'bookedDate',
+              value: entryDateStr,
+              problem: 'Not a valid date (expected MMDD)',
+              action: 'used-purchase-date',
+            })
+          }
+        }
+
+        // Reversals flip the direction: RC reverses a credit, RD reverses a debit
+        const isDebit = mark === 'D' || mark === 'RC'
+        const amount = parseAmount(amountStr)
+
+        // Supplementary details on the continuation line serve as a fallback description
+        const supplementary = field.value.split('\n').slice(1).join(' ').trim()
+        const next = fields[index + 1]
+        const description = next?.tag === '86' ? parseDescription(next.value) : ''
+
+        const transaction: Omit<Transaction, 'id'> = {
+          accountNumber,
+          cardNumber: '',
+          accountHolder: '',
+          purchaseDate: purchaseDate ?? new Date(NaN),
+          bookingText: description || supplementary || 'Unknown',
+          sector: 'Other',
+          amount,
+          originalCurrency: '',
+          rate: null,
+          currency,
+          debit: isDebit ? amount : null,
+          credit: isDebit ? null : amount,
+          bookedDate: bookedDate ?? new Date(NaN),
+        }
+        parsed.push({ row: parsed.length + 1, transaction, issues })
+        break
+      }
+    }
+  })
+
+  // Ids are assigned over all lines so they stay the same whether or not a skipped one is fixed
+  const withIds = assignTransactionIds(parsed.map((p) => p.transaction))
+  const transactions: Transaction[] = []
+  const diagnostics: ParseDiagnostic[] = []
+  parsed.forEach(({ row, issues }, index) => {
+    const transaction = withIds[index]
+    diagnostics.push(...issues.map((issue) => ({ ...issue, row, transaction })))
+    if (!issues.some((issue) => issue.action === 'skipped')) {
+      transactions.push(transaction)
+    }
+  })
+
+  return { transactions, diagnostics }
+}
+
+/**
+ * Check whether text content looks like an MT940 statement
+ */
+export function isMT940Content(content: string): boolean {
+  const head = content.slice(0, 4000)
+  return /^:20:/m.test(head) && /^:61:/m.test(head)
+}
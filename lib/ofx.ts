@@ -0,0 +1,162 @@
+/**
+ * OFX / QFX import. Handles both SGML (OFX 1.x, unclosed leaf tags) and XML (OFX 2.x) files.
+ * Each <STMTTRN> block becomes one Transaction; the sign of TRNAMT decides debit vs credit.
+ */
+import type { Transaction } from './types'
+import type { ParseAction, ParseDiagnostic, ParseResult } from './parser'
+import { assignTransactionIds } from './merge'
+
+type BlockIssue = Omit<ParseDiagnostic, 'row' | 'transaction'>
+
+// Read a leaf element value; SGML leaves end at the next tag or line break
+function leaf(block: string, tag: string): string {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'))
+  return match ? decodeEntities(match[1].trim()) : ''
+}
+
+function aggregate(content: string, tag: string): string[] {
+  return Array.from(content.matchAll(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi'))).map(
+    (m) => m[1]
+  )
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+// OFX dates: YYYYMMDD[HHMMSS[.XXX]][[gmt offset:tz name]]
+function parseOFXDate(value: string): Date | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/)
+  if (!match) return null
+  const [year, month, day] = match.slice(1).map((p) => parseInt(p, 10))
+  const date = new Date(year, month - 1, day)
+  // Reject dates that rolled over, e.g. 2024-02-31
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null
+}
+
+function parseAmount(value: string): number {
+  // Some European banks use a decimal comma
+  return parseFloat(value.replace(/\s/g, '').replace(',', '.'))
+}
+
+/**
+ * Parse an OFX or QFX document into transactions. DTUSER is the purchase date and
+ * DTPOSTED the booked date; when one cannot be read the other is used, and a block
+ * with neither is left out and reported in the diagnostics. Row numbers count the
+ * STMTTRN blocks of the document.
+ */
+export function parseOFX(content: string): ParseResult {
+  if (!/<OFX>/i.test(content)) {
+    throw new Error('Not an OFX document')
+  }
+
+  const parsed: { row: number; transaction: Omit<Transaction, 'id'>; issues: BlockIssue[] }[] = []
+  let row = 0
+
+  // Bank (STMTRS) and credit card (CCSTMTRS) statements; investment cash lines also use STMTTRN
+  const statements = [
+    ...aggregate(content, 'STMTRS'),
+    ...aggregate(content, 'CCSTMTRS'),
+    ...aggregate(content, 'INVSTMTRS'),
+  ]
+
+  for (const statement of statements) {
+    const currency = leaf(statement, 'CURDEF') || 'CHF'
+    const accountNumber = leaf(statement, 'ACCTID')
+
+    for (const block of aggregate(statement, 'STMTTRN')) {
+      row++
+      const signedAmount = parseAmount(leaf(block, 'TRNAMT'))
+      if (isNaN(signedAmount)) continue
+
+      // DTUSER is optional, so only an unreadable one is reported when DTPOSTED is there
+      const rawPosted = leaf(block, 'DTPOSTED')
+      const rawUserDate = leaf(block, 'DTUSER')
+      const posted = parseOFXDate(rawPosted)
+      const userDate = parseOFXDate(rawUserDate)
+      const issues: BlockIssue[] = []
+      const report = (
+        column: string,
+        field: 'purchaseDate' | 'bookedDate',
+        value: string,
+        action: ParseAction
+      ) => {
+        const problem = value ? 'Not a valid date (expected YYYYMMDD)' : 'Missing date'
+        issues.push({ column, field, value, problem, action })
+      }
+      if (!posted && !userDate) {
+        report('DTPOSTED', 'purchaseDate', rawPosted, 'skipped')
+      } else if (!posted) {
+        report('DTPOSTED', 'bookedDate', rawPosted, 'used-purchase-date')
+      } else if (!userDate && rawUserDate) {
+        report('DTUSER', 'purchaseDate', rawUserDate, 'used-booking-date')
+      }
+
+      const name = leaf(block, 'NAME')
+      const memo = leaf(block, 'MEMO')
+      const bookingText =
+        name && memo && !memo.startsWith(name)
+          ? `${name} - ${memo}`
+          : name || memo || leaf(block, 'TRNTYPE') || 'Unknown'
+
+      // Foreign currency, with CURRATE in statement currency per unit of CURSYM. Under
+      // <ORIGCURRENCY> TRNAMT is already converted; under <CURRENCY> it is in CURSYM.
+      // Without a usable rate the original amount is unknown.
+      const original = aggregate(block, 'ORIGCURRENCY')[0]
+      const override = aggregate(block, 'CURRENCY')[0]
+      const foreign = original ?? override ?? ''
+      const rate = parseAmount(leaf(foreign, 'CURRATE'))
+      const originalCurrency = rate > 0 ? leaf(foreign, 'CURSYM') : ''
+
+      const isDebit = signedAmount < 0
+      const stated = Math.abs(signedAmount)
+      const round = (value: number) => Math.round(value * 100) / 100
+      const amount = originalCurrency && !original ? round(stated * rate) : stated
+      const originalAmount = originalCurrency && original ? round(stated / rate) : stated
+
+      const transaction: Omit<Transaction, 'id'> = {
+        accountNumber,
+        cardNumber: '',
+        accountHolder: '',
+        purchaseDate: userDate ?? posted ?? new Date(NaN),
+        bookingText,
+        sector: 'Other',
+        amount: originalAmount,
+        originalCurrency,
+        rate: originalCurrency ? rate : null,
+        currency,
+        debit: isDebit ? amount : null,
+        credit: isDebit ? null : amount,
+        bookedDate: posted ?? userDate ?? new Date(NaN),
+      }
+      parsed.push({ row, transaction, issues })
+    }
+  }
+
+  // Ids are assigned over all blocks so they stay the same whether or not a skipped one is fixed
+  const withIds = assignTransactionIds(parsed.map((p) => p.transaction))
+  const transactions: Transaction[] = []
+  const diagnostics: ParseDiagnostic[] = []
+  parsed.forEach(({ row, issues }, index) => {
+    const transaction = withIds[index]
+    diagnostics.push(...issues.map((issue) => ({ ...issue, row, transaction })))
+    if (!issues.some((issue) => issue.action === 'skipped')) {
+      transactions.push(transaction)
+    }
+  })
+
+  return { transactions, diagnostics }
+}
+
+/**
+ * Check whether text content looks like an OFX/QFX document
+ */
+export function isOFXContent(content: string): boolean {
+  const head = content.slice(0, 2000)
+  return /OFXHEADER/i.test(head) || /<OFX>/i.test(head)
+}
@@ -1,56 +1,95 @@
 import Papa from 'papaparse'
 import type { Transaction } from './types'
+import { isCamtContent, parseCamtXML } from './camt'
+import { isMT940Content, parseMT940 } from './mt940'
+import { isOFXContent, parseOFX } from './ofx'
+import { assignTransactionIds } from './merge'
+import {
+  detectFormat,
+  type BankFormat,
+  type DateFormat,
+  type MappableField,
+  type NumberFormat,
+} from './formats'
 
-interface CSVRow {
-  'Account number': string
-  'Card number': string
-  'Account/Cardholder': string
-  'Purchase date': string
-  'Booking text': string
-  Sector: string
-  Amount: string
-  'Original currency': string
-  Rate: string
-  Currency: string
-  Debit: string
-  Credit: string
-  Booked: string
+export type CSVRow = Record<string, string>
+
+export interface CSVPreview {
+  headers: string[]
+  rows: CSVRow[]
+  format: BankFormat | null // null when no registered format matches the headers
 }
 
-function parseDate(dateStr: string): Date {
-  if (!dateStr || dateStr.trim() === '') {
-    console.warn('Empty date string, using current date as fallback')
-    return new Date()
-  }
+// File extensions accepted by parseFile
+export const SUPPORTED_EXTENSIONS = ['.csv', '.xml', '.sta', '.mt940', '.940', '.ofx', '.qfx']
 
-  const parts = dateStr.trim().split('.')
-  if (parts.length !== 3) {
-    console.warn('Invalid date format:', dateStr)
-    return new Date()
-  }
+// Whole cell text of a total row, so merchants like "SumUp" or "Consum AG" are kept
+const SUMMARY_MARKER = /^(?:(?:sub-?|grand\s+)?total|sum(?:me)?)\s*:?$/
 
-  const day = parseInt(parts[0], 10)
-  const month = parseInt(parts[1], 10)
-  const year = parseInt(parts[2], 10)
+// skipped: the row is left out of the import | fallback: another value was used instead
+export type ParseAction = 'skipped' | 'used-booking-date' | 'used-purchase-date' | 'left-empty'
 
-  if (isNaN(day) || isNaN(month) || isNaN(year)) {
-    console.warn('Invalid date components:', dateStr)
-    return new Date()
-  }
+/**
+ * A problem found while reading one value of a statement row
+ */
+export interface ParseDiagnostic {
+  row: number // Data row number, 1 = first row after the header or first statement entry
+  column: string // Header of the offending column, or element name for XML and OFX
+  field: MappableField
+  value: string // Raw value as found in the file
+  problem: string
+  action: ParseAction
+  transaction: Transaction // The row as parsed; skipped rows may hold an invalid date
+}
+
+export interface ParseResult {
+  transactions: Transaction[] // Importable rows, without skipped ones
+  diagnostics: ParseDiagnostic[]
+}
+
+export function isSupportedFile(file: File): boolean {
+  const name = file.name.toLowerCase()
+  return file.type === 'text/csv' || SUPPORTED_EXTENSIONS.some((ext) => name.endsWith(ext))
+}
+
+// Returns null for empty or malformed dates so callers can report them
+function parseDate(dateStr: string, dateFormat: DateFormat): Date | null {
+  if (!dateStr || dateStr.trim() === '') return null
+
+  // Drop any time component (e.g. "2024-06-15 10:23:11")
+  const datePart = dateStr.trim().split(/[ T]/)[0]
+  const separator = dateFormat === 'YYYY-MM-DD' ? '-' : dateFormat.includes('/') ? '/' : '.'
+  const parts = datePart.split(separator)
+  if (parts.length !== 3) return null
+
+  const [a, b, c] = parts.map((p) => parseInt(p, 10))
+  const [day, month, year] =
+    dateFormat === 'YYYY-MM-DD' ? [c, b, a] : dateFormat === 'MM/DD/YYYY' ? [b, a, c] : [a, b, c]
+
+  if (isNaN(day) || isNaN(month) || isNaN(year)) return null
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null
 
   const date = new Date(year, month - 1, day)
 
-  if (isNaN(date.getTime())) {
-    console.warn('Invalid date created:', dateStr)
-    return new Date()
-  }
+  // Reject dates that rolled over, e.g. 31.02.2024
+  if (isNaN(date.getTime()) || date.getDate() !== day) return null
 
   return date
 }
 
-function parseNumber(numStr: string): number | null {
+function parseNumber(numStr: string, numberFormat: NumberFormat): number | null {
   if (!numStr || numStr.trim() === '') return null
-  const normalized = numStr.replace(/'/g, '').replace(',', '.')
+  let normalized = numStr.trim().replace(/[\s']/g, '')
+  switch (numberFormat) {
+    case 'decimal-point':
+      normalized = normalized.replace(/,/g, '')
+      break
+    case 'decimal-comma':
+      normalized = normalized.replace(/\./g, '').replace(',', '.')
+      break
+    default:
+      normalized = normalized.replace(',', '.')
+  }
   const parsed = parseFloat(normalized)
   return isNaN(parsed) ? null : parsed
 }
@@ -81,106 +120,272 @@ function removeSepHeader(content: string): string {
   return content.replace(/^sep=.\r?\n/i, '')
 }
 
-export function parseCSV(file: File): Promise<Transaction[]> {
-  return new Promise((resolve, reject) => {
-    // First read the file to detect delimiter
-    const reader = new FileReader()
+type RowIssue = Omit<ParseDiagnostic, 'row' | 'transaction'>
+
+/**
+ * Map a parsed CSV row onto a Transaction using the column mapping of a bank format.
+ * Values that cannot be read are reported as issues instead of being guessed.
+ */
+function rowToTransaction(
+  row: CSVRow,
+  bankFormat: BankFormat
+): { transaction: Omit<Transaction, 'id'>; issues: RowIssue[] } {
+  const { columns, dateFormat, numberFormat } = bankFormat
+  const issues: RowIssue[] = []
+  const get = (field: MappableField): string => {
+    const header = columns[field]
+    return header ? (row[header] || '').trim() : ''
+  }
+  const report = (field: MappableField, problem: string, action: ParseAction) => {
+    issues.push({ column: columns[field] || field, field, value: get(field), problem, action })
+  }
 
-    reader.onload = (e) => {
-      const content = e.target?.result as string
-      const delimiter = detectDelimiter(content)
-      const cleanedContent = removeSepHeader(content)
-
-      Papa.parse<CSVRow>(cleanedContent, {
-        header: true,
-        delimiter: delimiter,
-        skipEmptyLines: true,
-        complete: (results) => {
-          try {
-            const transactions: Transaction[] = results.data
-              .filter((row) => {
-                // Skip empty rows
-                if (!row['Account number'] && !row['Purchase date'] && !row['Booking text']) {
-                  return false
-                }
-
-                // Skip total/summary rows - check multiple columns
-                const bookingText = (row['Booking text'] || '').toLowerCase()
-                const accountNumber = (row['Account number'] || '').toLowerCase()
-
-                if (
-                  bookingText.includes('total') ||
-                  bookingText.includes('sum') ||
-                  bookingText.includes('subtotal') ||
-                  bookingText.includes('grand total') ||
-                  accountNumber.includes('total')
-                ) {
-                  return false
-                }
-
-                // Skip rows that look like summary headers
-                if (!row['Purchase date'] && !row['Booking text'] && !row['Amount']) {
-                  return false
-                }
-
-                return true
-              })
-              .map((row) => {
-                const amount = parseNumber(row['Amount']) || 0
-                let debit = parseNumber(row['Debit'])
-                let credit = parseNumber(row['Credit'])
-
-                // If Debit/Credit are empty but Amount exists, determine from context
-                // Credits are typically transfers IN, debits are expenses OUT
-                if (debit === null && credit === null && amount > 0) {
-                  const bookingText = (row['Booking text'] || '').toUpperCase()
-                  // Check if it's a credit (incoming transfer)
-                  if (
-                    bookingText.includes('TRANSFER FROM') ||
-                    bookingText.includes('INCOMING') ||
-                    bookingText.includes('DEPOSIT') ||
-                    bookingText.includes('SALARY') ||
-                    bookingText.includes('REFUND')
-                  ) {
-                    credit = amount
-                  } else {
-                    // Default to debit (expense)
-                    debit = amount
-                  }
-                }
-
-                return {
-                  accountNumber: row['Account number'] || '',
-                  cardNumber: row['Card number'] || '',
-                  accountHolder: row['Account/Cardholder'] || '',
-                  purchaseDate: parseDate(row['Purchase date']),
-                  bookingText: row['Booking text'] || '',
-                  sector: row['Sector'] || 'Other',
-                  amount,
-                  originalCurrency: row['Original currency'] || '',
-                  rate: parseNumber(row['Rate']),
-                  currency: row['Currency'] || 'CHF',
-                  debit,
-                  credit,
-                  bookedDate: parseDate(row['Booked']),
-                }
-              })
-
-            resolve(transactions)
-          } catch (error) {
-            reject(new Error('Failed to parse CSV: ' + (error as Error).message))
-          }
-        },
-        error: (error: Error) => {
-          reject(new Error('CSV parsing error: ' + error.message))
-        },
-      })
+  const readNumber = (field: MappableField, action: ParseAction): number | null => {
+    const value = get(field)
+    const parsed = parseNumber(value, numberFormat)
+    if (value && parsed === null) {
+      report(field, 'Not a number', action)
     }
+    return parsed
+  }
+
+  const rawAmount = readNumber('amount', 'skipped')
+  let debit: number | null = null
+  let credit: number | null = null
+
+  if (bankFormat.amountMode === 'signed') {
+    if (rawAmount !== null && rawAmount < 0) {
+      debit = Math.abs(rawAmount)
+    } else if (rawAmount !== null && rawAmount > 0) {
+      credit = rawAmount
+    }
+  } else {
+    // Some banks export debits as negative numbers
+    const parsedDebit = readNumber('debit', 'skipped')
+    const parsedCredit = readNumber('credit', 'skipped')
+    debit = parsedDebit !== null ? Math.abs(parsedDebit) : null
+    credit = parsedCredit !== null ? Math.abs(parsedCredit) : null
+  }
+
+  const amount = Math.abs(rawAmount ?? debit ?? credit ?? 0)
+
+  // If Debit/Credit are empty but Amount exists, determine from context
+  // Credits are typically transfers IN, debits are expenses OUT
+  if (debit === null && credit === null && amount > 0) {
+    const bookingText = get('bookingText').toUpperCase()
+    // Check if it's a credit (incoming transfer)
+    if (
+      bookingText.includes('TRANSFER FROM') ||
+      bookingText.includes('INCOMING') ||
+      bookingText.includes('DEPOSIT') ||
+      bookingText.includes('SALARY') ||
+      bookingText.includes('REFUND')
+    ) {
+      credit = amount
+    } else {
+      // Default to debit (expense)
+      debit = amount
+    }
+  }
+
+  // A missing transaction date falls back to the booking date, and vice versa
+  const dateProblem = (value: string) =>
+    value ? `Not a valid date (expected ${dateFormat})` : 'Missing date'
+  const purchaseDate = parseDate(get('purchaseDate'), dateFormat)
+  const bookedDate = columns.bookedDate ? parseDate(get('bookedDate'), dateFormat) : null
+
+  if (!purchaseDate) {
+    report(
+      'purchaseDate',
+      dateProblem(get('purchaseDate')),
+      bookedDate ? 'used-booking-date' : 'skipped'
+    )
+  }
+  if (!bookedDate && get('bookedDate') && purchaseDate) {
+    report('bookedDate', dateProblem(get('bookedDate')), 'used-purchase-date')
+  }
+
+  const rate = parseNumber(get('rate'), numberFormat)
+  if (get('rate') && rate === null) {
+    report('rate', 'Not a number', 'left-empty')
+  }
+
+  const transaction: Omit<Transaction, 'id'> = {
+    accountNumber: get('accountNumber'),
+    cardNumber: get('cardNumber'),
+    accountHolder: get('accountHolder'),
+    purchaseDate: purchaseDate ?? bookedDate ?? new Date(NaN),
+    bookingText: get('bookingText'),
+    sector: get('sector') || 'Other',
+    amount,
+    originalCurrency: get('originalCurrency'),
+    rate,
+    currency: get('currency') || bankFormat.defaultCurrency || 'CHF',
+    debit,
+    credit,
+    bookedDate: bookedDate ?? purchaseDate ?? new Date(NaN),
+  }
+
+  return { transaction, issues }
+}
+
+/**
+ * Skip empty rows and total/summary rows
+ */
+function isTransactionRow(row: CSVRow, bankFormat: BankFormat): boolean {
+  const { columns } = bankFormat
+  const value = (header?: string) => (header ? row[header] || '' : '')
+
+  const purchaseDate = value(columns.purchaseDate)
+  const bookingText = value(columns.bookingText).trim().toLowerCase()
+  const accountNumber = value(columns.accountNumber).trim().toLowerCase()
+  const amount = value(columns.amount) || value(columns.debit) || value(columns.credit)
 
-    reader.onerror = () => {
-      reject(new Error('Failed to read file'))
+  // Skip empty rows
+  if (!accountNumber && !purchaseDate && !bookingText) {
+    return false
+  }
+
+  // Skip total/summary rows - check multiple columns
+  if (SUMMARY_MARKER.test(bookingText) || SUMMARY_MARKER.test(accountNumber)) {
+    return false
+  }
+
+  // Skip rows that look like summary headers
+  if (!purchaseDate && !bookingText && !amount) {
+    return false
+  }
+
+  return true
+}
+
+/**
+ * Map parsed CSV rows with an explicit bank format, skipping empty and summary rows.
+ * Rows with an unreadable date or amount are left out and reported in the diagnostics.
+ */
+export function mapCSVRows(rows: CSVRow[], bankFormat: BankFormat): ParseResult {
+  const parsed = rows.flatMap((row, index) =>
+    isTransactionRow(row, bankFormat)
+      ? [{ row: index + 1, ...rowToTransaction(row, bankFormat) }]
+      : []
+  )
+  // Ids are assigned over all rows so they stay the same whether or not a skipped row is fixed
+  const withIds = assignTransactionIds(parsed.map((p) => p.transaction))
+
+  const transactions: Transaction[] = []
+  const diagnostics: ParseDiagnostic[] = []
+
+  parsed.forEach(({ row, issues }, index) => {
+    const transaction = withIds[index]
+    diagnostics.push(...issues.map((issue) => ({ ...issue, row, transaction })))
+    if (!issues.some((issue) => issue.action === 'skipped')) {
+      transactions.push(transaction)
     }
+  })
+
+  return { transactions, diagnostics }
+}
 
+function readFileAsText(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = (e) => resolve(e.target?.result as string)
+    reader.onerror = () => reject(new Error('Failed to read file'))
     reader.readAsText(file)
   })
 }
+
+function parseCSVContent(content: string): Promise<ParseResult> {
+  return new Promise((resolve, reject) => {
+    const delimiter = detectDelimiter(content)
+    const cleanedContent = removeSepHeader(content)
+
+    Papa.parse<CSVRow>(cleanedContent, {
+      header: true,
+      delimiter: delimiter,
+      skipEmptyLines: true,
+      transformHeader: (header) => header.replace(/^\uFEFF/, '').trim(),
+      complete: (results) => {
+        const headers = results.meta.fields || []
+        const bankFormat = detectFormat(headers)
+        if (!bankFormat) {
+          reject(new Error('Unknown CSV format: columns ' + headers.join(', ')))
+          return
+        }
+
+        try {
+          resolve(mapCSVRows(results.data, bankFormat))
+        } catch (error) {
+          reject(new Error('Failed to parse CSV: ' + (error as Error).message))
+        }
+      },
+      error: (error: Error) => {
+        reject(new Error('CSV parsing error: ' + error.message))
+      },
+    })
+  })
+}
+
+/**
+ * Parse a bank CSV export. The bank format is auto-detected from the header row;
+ * files that match no registered format are rejected. Problems with individual
+ * values are returned as diagnostics rather than silently patched.
+ */
+export async function parseCSV(file: File): Promise<ParseResult> {
+  const content = await readFileAsText(file)
+  return parseCSVContent(content)
+}
+
+/**
+ * Read the header row and first rows of a CSV file without mapping them,
+ * so an unknown export can be mapped by the user.
+ */
+export async function previewCSV(file: File, rowLimit = 5): Promise<CSVPreview> {
+  const content = await readFileAsText(file)
+  const results = Papa.parse<CSVRow>(removeSepHeader(content), {
+    header: true,
+    delimiter: detectDelimiter(content),
+    skipEmptyLines: true,
+    preview: rowLimit,
+    transformHeader: (header) => header.replace(/^\uFEFF/, '').trim(),
+  })
+  const headers = (results.meta.fields || []).filter(Boolean)
+
+  return { headers, rows: results.data, format: detectFormat(headers) }
+}
+
+/**
+ * Parse any supported statement file (CSV, ISO 20022 camt XML, MT940, OFX/QFX).
+ * The importer is chosen from the file extension, falling back to content sniffing.
+ * CSV, camt and OFX imports report unreadable values in the diagnostics.
+ */
+export async function parseFile(file: File): Promise<ParseResult> {
+  const content = await readFileAsText(file)
+  const name = file.name.toLowerCase()
+
+  if (/\.(ofx|qfx)$/.test(name) || isOFXContent(content)) {
+    try {
+      return parseOFX(content)
+    } catch (error) {
+      throw new Error('Failed to parse OFX: ' + (error as Error).message)
+    }
+  }
+
+  if (/\.(sta|mt940|940)$/.test(name) || isMT940Content(content)) {
+    try {
+      return parseMT940(content)
+    } catch (error) {
+      throw new Error('Failed to parse MT940: ' + (error as Error).message)
+    }
+  }
+
+  if (name.endsWith('.xml') || isCamtContent(content)) {
+    try {
+      return parseCamtXML(content)
+    } catch (error) {
+      throw new Error('Failed to parse camt XML: ' + (error as Error).message)
+    }
+  }
+
+  return parseCSVContent(content)
+}
@@ -0,0 +1,201 @@
+/**
+ * Detects recurring payments such as subscriptions, premiums and memberships by
+ * grouping expenses per merchant and looking for a regular interval between them.
+ */
+import { addWeeks, addMonths, addYears, differenceInCalendarDays } from 'date-fns'
+import type { MerchantAlias, Transaction } from './types'
+import { getMerchantName } from './merchants'
+
+export type RecurrenceFrequency = 'weekly' | 'monthly' | 'quarterly' | 'yearly'
+
+export interface PriceChange {
+  date: Date
+  previousAmount: number
+  newAmount: number
+}
+
+export interface RecurringPayment {
+  merchant: string
+  frequency: RecurrenceFrequency
+  occurrences: Transaction[] // Oldest first
+  averageAmount: number
+  lastAmount: number
+  annualCost: number // Based on the latest amount
+  lastDate: Date
+  nextExpectedDate: Date
+  priceChanges: PriceChange[]
+  missedOccurrences: Date[] // Expected dates without a payment
+}
+
+interface FrequencyPattern {
+  frequency: RecurrenceFrequency
+  days: number // Typical interval
+  toleranceDays: number
+  perYear: number
+  minOccurrences: number
+  advance: (date: Date, count: number) => Date
+}
+
+const PATTERNS: FrequencyPattern[] = [
+  {
+    frequency: 'weekly',
+    days: 7,
+    toleranceDays: 2,
+    perYear: 52,
+    minOccurrences: 4,
+    advance: addWeeks,
+  },
+  {
+    frequency: 'monthly',
+    days: 30,
+    toleranceDays: 5,
+    perYear: 12,
+    minOccurrences: 3,
+    advance: addMonths,
+  },
+  {
+    frequency: 'quarterly',
+    days: 91,
+    toleranceDays: 12,
+    perYear: 4,
+    minOccurrences: 2,
+    advance: (date, count) => addMonths(date, count * 3),
+  },
+  {
+    frequency: 'yearly',
+    days: 365,
+    toleranceDays: 20,
+    perYear: 1,
+    minOccurrences: 2,
+    advance: addYears,
+  },
+]
+
+// Payments within this fraction of the typical amount belong to the same series
+const AMOUNT_TOLERANCE = 0.25
+
+// Share of intervals that must match the frequency, counting gaps of missed payments
+const MIN_REGULARITY = 0.75
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid]
+}
+
+/**
+ * Number of periods an interval spans, or null when it does not fit the pattern
+ */
+function countPeriods(intervalDays: number, pattern: FrequencyPattern): number | null {
+  const periods = Math.max(1, Math.round(intervalDays / pattern.days))
+  const deviation = Math.abs(intervalDays - periods * pattern.days)
+  return deviation <= pattern.toleranceDays * periods ? periods : null
+}
+
+function detectSeries(
+  merchant: string,
+  series: Transaction[],
+  referenceDate: Date
+): RecurringPayment | null {
+  const intervals = series
+    .slice(1)
+    .map((t, i) => differenceInCalendarDays(t.purchaseDate, series[i].purchaseDate))
+  if (intervals.length === 0) return null
+
+  const typicalInterval = median(intervals)
+  const pattern = PATTERNS.find((p) => countPeriods(typicalInterval, p) === 1)
+  if (!pattern || series.length < pattern.minOccurrences) return null
+
+  const periods = intervals.map((days) => countPeriods(days, pattern))
+  const regular = periods.filter((p) => p !== null).length
+  if (regular / intervals.length < MIN_REGULARITY) return null
+
+  // Expected dates inside gaps spanning several periods were missed
+  const missedOccurrences: Date[] = []
+  periods.forEach((count, i) => {
+    for (let k = 1; k < (count ?? 1); k++) {
+      missedOccurrences.push(pattern.advance(series[i].purchaseDate, k))
+    }
+  })
+
+  const last = series[series.length - 1]
+  let nextExpectedDate = pattern.advance(last.purchaseDate, 1)
+  // Payments that stopped coming before the end of the data were missed too
+  while (differenceInCalendarDays(referenceDate, nextExpectedDate) > pattern.toleranceDays) {
+    missedOccurrences.push(nextExpectedDate)
+    nextExpectedDate = pattern.advance(nextExpectedDate, 1)
+  }
+
+  const priceChanges = series.slice(1).flatMap((t, i) => {
+    const previousAmount = series[i].debit || 0
+    const newAmount = t.debit || 0
+    return Math.abs(newAmount - previousAmount) >= 0.01
+      ? [{ date: t.purchaseDate, previousAmount, newAmount }]
+      : []
+  })
+
+  const lastAmount = last.debit || 0
+  return {
+    merchant,
+    frequency: pattern.frequency,
+    occurrences: series,
+    averageAmount: series.reduce((sum, t) => sum + (t.debit || 0), 0) / series.length,
+    lastAmount,
+    annualCost: lastAmount * pattern.perYear,
+    lastDate: last.purchaseDate,
+    nextExpectedDate,
+    priceChanges,
+    missedOccurrences,
+  }
+}
+
+/**
+ * Find recurring payments, most expensive per year first. Missed occurrences are
+ * counted up to the reference date, which defaults to the latest transaction date.
+ */
+export function detectRecurringPayments(
+  transactions: Transaction[],
+  aliases: MerchantAlias[] = [],
+  referenceDate?: Date
+): RecurringPayment[] {
+  const expenses = transactions.filter(
+    (t) => (t.debit || 0) > 0 && !isNaN(t.purchaseDate.getTime())
+  )
+  if (expenses.length === 0) return []
+
+  const latest = new Date(Math.max(...expenses.map((t) => t.purchaseDate.getTime())))
+  const reference = referenceDate ?? latest
+
+  const groups = new Map<string, Transaction[]>()
+  expenses.forEach((t) => {
+    const merchant = getMerchantName(t, aliases)
+    groups.set(merchant, [...(groups.get(merchant) ?? []), t])
+  })
+
+  const payments: RecurringPayment[] = []
+  groups.forEach((group, merchant) => {
+    // One-off purchases at the same merchant are left out of the series
+    const typicalAmount = median(group.map((t) => t.debit || 0))
+    const series = group
+      .filter((t) => Math.abs((t.debit || 0) - typicalAmount) <= typicalAmount * AMOUNT_TOLERANCE)
+      .sort((a, b) => a.purchaseDate.getTime() - b.purchaseDate.getTime())
+
+    const payment = detectSeries(merchant, series, reference)
+    if (payment) payments.push(payment)
+  })
+
+  return payments.sort((a, b) => b.annualCost - a.annualCost)
+}
+
+/**
+ * Expected payment dates from start to end, both inclusive
+ */
+export function getUpcomingDates(payment: RecurringPayment, start: Date, end: Date): Date[] {
+  const pattern = PATTERNS.find((p) => p.frequency === payment.frequency)!
+  const dates: Date[] = []
+  for (let k = 1; ; k++) {
+    const date = pattern.advance(payment.lastDate, k)
+    if (date > end) return dates
+    if (date >= start) dates.push(date)
+  }
+}
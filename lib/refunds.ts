@@ -0,0 +1,85 @@
+/**
+ * Matches refunds and chargebacks to the purchases they reverse, so they reduce
+ * spending in the original category instead of counting as income.
+ */
+import { differenceInCalendarDays } from 'date-fns'
+import type { MerchantAlias, Transaction } from './types'
+import { getMerchantName } from './merchants'
+
+export interface RefundMatch {
+  refund: Transaction
+  original: Transaction | null // Null when no purchase was found
+  amount: number
+  partial: boolean // Less than the original purchase
+}
+
+// How long after a purchase a refund is still matched to it
+export const REFUND_WINDOW_DAYS = 120
+
+const REFUND_WORDS =
+  /\b(?:refund|chargeback|return|gutschrift|rückerstattung|rueckerstattung|remboursement|storno)\b/giu
+
+/**
+ * Whether the booking text itself says it is a refund
+ */
+export function isRefundText(bookingText: string): boolean {
+  return new RegExp(REFUND_WORDS.source, 'iu').test(bookingText)
+}
+
+// Merchant of a refund, ignoring words like "REFUND" around the merchant name
+function getRefundMerchant(refund: Transaction, aliases: MerchantAlias[]): string {
+  return getMerchantName({ bookingText: refund.bookingText.replace(REFUND_WORDS, ' ') }, aliases)
+}
+
+/**
+ * Match credits to earlier purchases at the same merchant that are at least as
+ * large, preferring equal amounts and then the latest purchase. A purchase can
+ * absorb several partial refunds. Credits without a purchase are only returned
+ * when their booking text marks them as a refund.
+ */
+export function matchRefunds(
+  transactions: Transaction[],
+  aliases: MerchantAlias[] = []
+): RefundMatch[] {
+  const valid = transactions.filter((t) => !isNaN(t.purchaseDate.getTime()))
+
+  const purchasesByMerchant = new Map<string, Transaction[]>()
+  valid
+    .filter((t) => (t.debit || 0) > 0)
+    .forEach((t) => {
+      const merchant = getMerchantName(t, aliases)
+      purchasesByMerchant.set(merchant, [...(purchasesByMerchant.get(merchant) ?? []), t])
+    })
+
+  const remaining = new Map<string, number>()
+  const credits = valid
+    .filter((t) => (t.credit || 0) > 0)
+    .sort((a, b) => a.purchaseDate.getTime() - b.purchaseDate.getTime())
+
+  const matches: RefundMatch[] = []
+  credits.forEach((refund) => {
+    const amount = refund.credit || 0
+    const left = (t: Transaction) => remaining.get(t.id) ?? (t.debit || 0)
+
+    const candidates = (purchasesByMerchant.get(getRefundMerchant(refund, aliases)) ?? []).filter(
+      (t) => {
+        const days = differenceInCalendarDays(refund.purchaseDate, t.purchaseDate)
+        return days >= 0 && days <= REFUND_WINDOW_DAYS && left(t) >= amount - 0.005
+      }
+    )
+    const exact = candidates.filter((t) => Math.abs(left(t) - amount) < 0.005)
+    const original =
+      [...(exact.length > 0 ? exact : candidates)].sort(
+        (a, b) => b.purchaseDate.getTime() - a.purchaseDate.getTime()
+      )[0] ?? null
+
+    if (original) {
+      remaining.set(original.id, left(original) - amount)
+      matches.push({ refund, original, amount, partial: amount < (original.debit || 0) - 0.005 })
+    } else if (isRefundText(refund.bookingText)) {
+      matches.push({ refund, original: null, amount, partial: false })
+    }
+  })
+
+  return matches.sort((a, b) => b.refund.purchaseDate.getTime() - a.refund.purchaseDate.getTime())
+}
@@ -0,0 +1,102 @@
+/**
+ * User-defined categorization rules.
+ * Rules are checked in priority order before the built-in heuristics in categorizeTransaction;
+ * the first enabled rule whose conditions all match decides the category.
+ */
+import type { CategoryRule, RuleConditions, Transaction } from './types'
+
+export function hasConditions(conditions: RuleConditions): boolean {
+  return (
+    !!conditions.bookingText?.trim() ||
+    !!conditions.sector?.trim() ||
+    conditions.minAmount !== undefined ||
+    conditions.maxAmount !== undefined ||
+    !!conditions.cardNumber?.trim() ||
+    !!conditions.accountHolder?.trim()
+  )
+}
+
+/**
+ * Check a regular expression pattern; returns an error message or null when valid
+ */
+export function validatePattern(pattern: string): string | null {
+  try {
+    new RegExp(pattern, 'i')
+    return null
+  } catch (error) {
+    return (error as Error).message
+  }
+}
+
+function equalsIgnoreCase(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase()
+}
+
+export function matchesRule(transaction: Transaction, rule: CategoryRule): boolean {
+  const { conditions } = rule
+  if (!rule.enabled || !hasConditions(conditions)) return false
+
+  const pattern = conditions.bookingText?.trim()
+  if (pattern) {
+    if (conditions.bookingTextMatch === 'regex') {
+      if (validatePattern(pattern) !== null) return false
+      if (!new RegExp(pattern, 'i').test(transaction.bookingText)) return false
+    } else if (!transaction.bookingText.toLowerCase().includes(pattern.toLowerCase())) {
+      return false
+    }
+  }
+
+  if (conditions.sector?.trim() && !equalsIgnoreCase(transaction.sector, conditions.sector)) {
+    return false
+  }
+
+  const amount = transaction.debit || transaction.credit || transaction.amount
+  if (conditions.minAmount !== undefined && amount < conditions.minAmount) return false
+  if (conditions.maxAmount !== undefined && amount > conditions.maxAmount) return false
+
+  if (
+    conditions.cardNumber?.trim() &&
+    transaction.cardNumber.trim() !== conditions.cardNumber.trim()
+  ) {
+    return false
+  }
+
+  if (
+    conditions.accountHolder?.trim() &&
+    !equalsIgnoreCase(transaction.accountHolder, conditions.accountHolder)
+  ) {
+    return false
+  }
+
+  return true
+}
+
+/**
+ * Find the matching rule with the highest priority (lowest number)
+ */
+export function findMatchingRule(
+  transaction: Transaction,
+  rules: readonly CategoryRule[]
+): CategoryRule | null {
+  return rules.reduce<CategoryRule | null>(
+    (best, rule) =>
+      (!best || rule.priority < best.priority) && matchesRule(transaction, rule) ? rule : best,
+    null
+  )
+}
+
+/**
+ * Draft a rule that matches transactions with the same booking text
+ */
+export function createRuleFromTransaction(
+  transaction: Transaction,
+  category: string
+): Omit<CategoryRule, 'id' | 'priority' | 'createdDate'> {
+  const bookingText = transaction.bookingText.trim()
+  return {
+    name: `${bookingText} → ${category}`,
+    category,
+    enabled: true,
+    conditions: { bookingText, bookingTextMatch: 'contains' },
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Budget suggestions from spending history. Each category's spending in recent
+ * complete months is summarized with the chosen statistic, and the suggestions are
+ * scaled down when they would not leave the target share of income unspent.
+ */
+import { format, isSameMonth, startOfMonth, subMonths } from 'date-fns'
+import type { Transaction } from './types'
+import { analyzeExpenses, findHistoryMatches, type AnalysisSettings } from './analyzer'
+
+export type SuggestionMethod = 'median' | 'trimmed-mean' | 'percentile'
+
+export const SUGGESTION_MONTHS = [3, 6, 12]
+
+// Share of months dropped from each end for the trimmed mean
+const TRIM_SHARE = 0.2
+
+// Suggested amounts are rounded to this step
+const ROUNDING_STEP = 10
+
+export interface SuggestionOptions {
+  months: number // Complete months before the current one
+  method: SuggestionMethod
+  percentile: number // 0-100, for the percentile method
+  savingsRate: number // 0-1, share of income to leave unspent
+}
+
+export interface BudgetSuggestion {
+  category: string
+  amount: number // Suggested monthly budget
+  typical: number // Statistic of the monthly spending, before scaling
+  monthly: number[] // Spending per month, oldest first
+}
+
+export interface SuggestionReport {
+  suggestions: BudgetSuggestion[] // Largest first
+  months: string[] // yyyy-MM, oldest first
+  averageIncome: number
+  typicalSpending: number // Sum of the statistics before scaling
+  scale: number // 1 unless suggestions were reduced to reach the savings rate
+}
+
+/**
+ * Value below which the share p (0-1) of the sorted values falls, interpolating
+ * between neighbours
+ */
+function quantile(sorted: number[], p: number): number {
+  const position = (sorted.length - 1) * p
+  const lower = Math.floor(position)
+  const upper = Math.ceil(position)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+}
+
+function summarize(values: number[], options: SuggestionOptions): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  switch (options.method) {
+    case 'trimmed-mean': {
+      const trim = Math.floor(sorted.length * TRIM_SHARE)
+      const kept = sorted.slice(trim, sorted.length - trim)
+      return kept.reduce((sum, value) => sum + value, 0) / kept.length
+    }
+    case 'percentile':
+      return quantile(sorted, options.percentile / 100)
+    default:
+      return quantile(sorted, 0.5)
+  }
+}
+
+/**
+ * Suggest a monthly budget per category from the complete months before the date.
+ * Months before the first transaction are left out, and a category without
+ * spending in a month counts as zero for that month.
+ */
+export function suggestBudgets(
+  transactions: Transaction[],
+  options: SuggestionOptions,
+  date: Date = new Date(),
+  settings: AnalysisSettings = {}
+): SuggestionReport {
+  const dated = transactions.filter((t) => !isNaN(new Date(t.purchaseDate).getTime()))
+  const first = dated.reduce<Date | null>(
+    (earliest, t) => (!earliest || t.purchaseDate < earliest ? t.purchaseDate : earliest),
+    null
+  )
+  const empty = { suggestions: [], months: [], averageIncome: 0, typicalSpending: 0, scale: 1 }
+  if (!first) return empty
+
+  const months = Array.from({ length: options.months }, (_, i) =>
+    subMonths(startOfMonth(date), options.months - i)
+  ).filter((month) => month >= startOfMonth(first))
+  if (months.length === 0) return empty
+
+  // Category totals use the same rules as the report, including transfers, refunds
+  // and the category settings. Transfers and refunds are matched on the full history,
+  // since their two sides can fall in different months.
+  const monthSettings = {
+    ...settings,
+    matches: settings.matches ?? findHistoryMatches(dated, settings),
+  }
+  const reports = months.map((month) =>
+    analyzeExpenses(
+      dated.filter((t) => isSameMonth(t.purchaseDate, month)),
+      monthSettings
+    )
+  )
+  const categories = new Set(reports.flatMap((r) => r.categorySummaries.map((s) => s.category)))
+  const averageIncome = reports.reduce((sum, r) => sum + r.totalIncome, 0) / reports.length
+
+  const typical = Array.from(categories).map((category) => {
+    const monthly = reports.map(
+      (r) => r.categorySummaries.find((s) => s.category === category)?.totalSpent ?? 0
+    )
+    return { category, monthly, typical: summarize(monthly, options) }
+  })
+  const typicalSpending = typical.reduce((sum, t) => sum + t.typical, 0)
+
+  // Without income there is no savings target to reach
+  const target = averageIncome * (1 - options.savingsRate)
+  const scale =
+    averageIncome > 0 && typicalSpending > target ? Math.max(target, 0) / typicalSpending : 1
+
+  const suggestions = typical
+    .map((t) => ({
+      ...t,
+      amount: Math.round((t.typical * scale) / ROUNDING_STEP) * ROUNDING_STEP,
+    }))
+    .filter((s) => s.amount > 0)
+    .sort((a, b) => b.amount - a.amount)
+
+  return {
+    suggestions,
+    months: months.map((month) => format(month, 'yyyy-MM')),
+    averageIncome,
+    typicalSpending,
+    scale,
+  }
+}
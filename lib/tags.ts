@@ -0,0 +1,107 @@
+/**
+ * Free-form transaction tags. Tags are stored per transaction id, separately from
+ * categories, so one transaction can carry any number of them.
+ */
+import type { Transaction, TagSummary } from './types'
+import { getMonthlyTotals } from './monthly'
+
+/**
+ * Tags are lowercase with dashes instead of spaces, e.g. "Vacation 2026" -> "vacation-2026"
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/\s+/g, '-')
+}
+
+/**
+ * Parse comma separated user input into distinct normalized tags
+ */
+export function parseTagInput(input: string): string[] {
+  return Array.from(new Set(input.split(',').map(normalizeTag).filter(Boolean)))
+}
+
+/**
+ * Tag lists to store after adding tags to the given transactions. Only
+ * transactions whose tags change are included.
+ */
+export function addTags(
+  tagMap: Map<string, string[]>,
+  transactionIds: string[],
+  tags: string[]
+): Map<string, string[]> {
+  const changes = new Map<string, string[]>()
+  transactionIds.forEach((id) => {
+    const current = tagMap.get(id) ?? []
+    const added = tags.filter((tag) => !current.includes(tag))
+    if (added.length > 0) {
+      changes.set(id, [...current, ...added].sort())
+    }
+  })
+  return changes
+}
+
+/**
+ * Tag lists to store after removing tags from the given transactions; an empty
+ * list means the transaction has no tags left
+ */
+export function removeTags(
+  tagMap: Map<string, string[]>,
+  transactionIds: string[],
+  tags: string[]
+): Map<string, string[]> {
+  const changes = new Map<string, string[]>()
+  transactionIds.forEach((id) => {
+    const current = tagMap.get(id) ?? []
+    const remaining = current.filter((tag) => !tags.includes(tag))
+    if (remaining.length !== current.length) {
+      changes.set(id, remaining)
+    }
+  })
+  return changes
+}
+
+export function getTagNames(tagMap: Map<string, string[]>): string[] {
+  return Array.from(new Set(Array.from(tagMap.values()).flat())).sort()
+}
+
+/**
+ * Keep transactions carrying every one of the given tags
+ */
+export function filterByTags(
+  transactions: Transaction[],
+  tagMap: Map<string, string[]>,
+  tags: string[]
+): Transaction[] {
+  if (tags.length === 0) return transactions
+  return transactions.filter((t) => {
+    const transactionTags = tagMap.get(t.id) ?? []
+    return tags.every((tag) => transactionTags.includes(tag))
+  })
+}
+
+/**
+ * Spending per tag with monthly totals, largest first. A transaction with several
+ * tags counts towards each of them.
+ */
+export function summarizeTags(
+  transactions: Transaction[],
+  tagMap: Map<string, string[]>
+): TagSummary[] {
+  const byTag = new Map<string, Transaction[]>()
+  transactions
+    .filter((t) => (t.debit || 0) > 0)
+    .forEach((t) => {
+      for (const tag of tagMap.get(t.id) ?? []) {
+        byTag.set(tag, [...(byTag.get(tag) ?? []), t])
+      }
+    })
+
+  return Array.from(byTag.entries())
+    .map(([tag, txns]) => ({
+      tag,
+      totalSpent: txns.reduce((sum, t) => sum + (t.debit || 0), 0),
+      count: txns.length,
+      transactions: txns,
+      monthlyTotals: getMonthlyTotals(txns),
+    }))
+    .sort((a, b) => b.totalSpent - a.totalSpent)
+}
@@ -0,0 +1,123 @@
+/**
+ * Detects internal transfers between own accounts and cards. Paying the card bill
+ * from the bank account shows up as a debit on one and a credit on the other, so
+ * both sides are left out of spending and income once the pairing is confirmed or
+ * both booking texts read as a transfer.
+ */
+import { differenceInCalendarDays } from 'date-fns'
+import type { Transaction, TransferDecision } from './types'
+
+export interface TransferPair {
+  id: string // See getTransferPairId
+  debit: Transaction
+  credit: Transaction
+  amount: number
+  confirmed: boolean
+  excluded: boolean // Confirmed, or both sides read as a transfer; otherwise only suggested
+}
+
+// Maximum days between the two sides of a transfer
+export const TRANSFER_WINDOW_DAYS = 5
+
+// Only wording specific to transfers and card bills; a bare "payment" also names purchases
+const TRANSFER_WORDS =
+  /(?<!\p{L})(?:transfer|übertrag|uebertrag|umbuchung|überweisung|ueberweisung|virement|einzahlung|kreditkarte|credit card|card bill|ubs card payment|card center|payment received|ihre zahlung|zahlungseingang)(?!\p{L})/iu
+
+/**
+ * Whether the booking text itself says it is a transfer or card bill payment
+ */
+export function isTransferText(bookingText: string): boolean {
+  return TRANSFER_WORDS.test(bookingText)
+}
+
+export function getTransferPairId(debit: Transaction, credit: Transaction): string {
+  return `${debit.id}:${credit.id}`
+}
+
+function getSource(t: Transaction): string {
+  return `${t.accountNumber}|${t.cardNumber}`
+}
+
+function toCents(amount: number | null): number {
+  return Math.round((amount || 0) * 100)
+}
+
+/**
+ * Pair debits with credits of the same amount on another account or card within
+ * the date window. Confirmed pairings win, then pairings whose booking texts read
+ * as a transfer, then the closest dates; each transaction is used once and
+ * rejected pairings are never suggested again.
+ */
+export function detectTransfers(
+  transactions: Transaction[],
+  decisions: TransferDecision[] = []
+): TransferPair[] {
+  const statuses = new Map(decisions.map((d) => [d.pairId, d.status]))
+  const valid = transactions.filter((t) => !isNaN(t.purchaseDate.getTime()))
+
+  const creditsByAmount = new Map<number, Transaction[]>()
+  valid
+    .filter((t) => (t.credit || 0) > 0)
+    .forEach((t) => {
+      const cents = toCents(t.credit)
+      creditsByAmount.set(cents, [...(creditsByAmount.get(cents) ?? []), t])
+    })
+
+  const candidates: (TransferPair & { days: number })[] = []
+  valid
+    .filter((t) => (t.debit || 0) > 0)
+    .forEach((debit) => {
+      ;(creditsByAmount.get(toCents(debit.debit)) ?? []).forEach((credit) => {
+        if (getSource(debit) === getSource(credit)) return
+        const days = Math.abs(differenceInCalendarDays(credit.purchaseDate, debit.purchaseDate))
+        if (days > TRANSFER_WINDOW_DAYS) return
+
+        const id = getTransferPairId(debit, credit)
+        const status = statuses.get(id)
+        if (status === 'rejected') return
+        const confirmed = status === 'confirmed'
+        candidates.push({
+          id,
+          debit,
+          credit,
+          amount: debit.debit || 0,
+          confirmed,
+          excluded:
+            confirmed || (isTransferText(debit.bookingText) && isTransferText(credit.bookingText)),
+          days,
+        })
+      })
+    })
+
+  candidates.sort(
+    (a, b) =>
+      Number(b.confirmed) - Number(a.confirmed) ||
+      Number(b.excluded) - Number(a.excluded) ||
+      a.days - b.days
+  )
+
+  const used = new Set<string>()
+  const pairs: TransferPair[] = []
+  candidates.forEach(({ days: _days, ...pair }) => {
+    if (used.has(pair.debit.id) || used.has(pair.credit.id)) return
+    used.add(pair.debit.id)
+    used.add(pair.credit.id)
+    pairs.push(pair)
+  })
+
+  return pairs.sort((a, b) => b.debit.purchaseDate.getTime() - a.debit.purchaseDate.getTime())
+}
+
+/**
+ * Ids of all transactions that are one side of an excluded transfer
+ */
+export function getTransferIds(
+  transactions: Transaction[],
+  decisions: TransferDecision[] = []
+): Set<string> {
+  return new Set(
+    detectTransfers(transactions, decisions)
+      .filter((p) => p.excluded)
+      .flatMap((p) => [p.debit.id, p.credit.id])
+  )
+}
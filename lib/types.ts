@@ -1,4 +1,5 @@
 export interface Transaction {
+  id: string // Stable identity, see assignTransactionIds
   accountNumber: string
   cardNumber: string
   accountHolder: string
@@ -21,6 +22,12 @@ export interface CategorySummary {
   percentage: number
   averageTransaction: number
   transactions: Transaction[]
+  refunded?: number // Matched refunds already subtracted from totalSpent
+}
+
+// Top-level category with its subcategories merged in, see rollUpCategories
+export interface CategoryGroup extends CategorySummary {
+  subcategories: CategorySummary[]
 }
 
 export interface MonthlyAnalysis {
@@ -45,13 +52,74 @@ export interface ExpenseReport {
   monthlyAnalysis: MonthlyAnalysis[]
   topExpenses: Transaction[]
   largestCategory: CategorySummary | null
+  holderSummaries?: HolderSummary[] // Missing in analyses saved before holders were tracked
+}
+
+// Spending of one account or cardholder, see getHolderName
+export interface HolderSummary {
+  holder: string
+  cards: string[]
+  accounts: string[]
+  totalSpent: number
+  totalIncome: number
+  transactionCount: number
+  categorySummaries: CategorySummary[]
+}
+
+// Header filter: one holder with all their cards, or a single card
+export interface HolderFilter {
+  type: 'holder' | 'card'
+  value: string
 }
 
 // Budget types
+export type BudgetPeriod = 'weekly' | 'monthly' | 'quarterly' | 'yearly'
+
 export interface Budget {
   id?: number
   category: string
+  amount: number // Per period
+  createdDate: Date
+  period?: BudgetPeriod // Defaults to monthly
+  rollover?: boolean // Unspent or overspent amounts carry into the next period
+  rolloverCap?: number | null // Largest balance carried either way, null for no cap
+}
+
+// Spending limits per category, or envelopes funded from income whose balances always carry over
+export type BudgetMode = 'monthly' | 'envelope'
+
+// Amount assigned to a category envelope in one budget period
+export interface EnvelopeAssignment {
+  category: string
+  month: string // Period key, yyyy-MM for monthly budgets, see getPeriodKey
   amount: number
+}
+
+// One period of a budget whose balance carries over, see buildBudgetLedger
+export interface BudgetLedgerEntry {
+  periodKey: string // See getPeriodKey
+  periodStart: Date
+  amount: number // Budgeted or assigned this period
+  carriedIn: number
+  spent: number
+  carriedOut: number // Balance passed to the next period, after the cap
+}
+
+// Income and assignments of envelope budgeting up to the end of a month
+export interface EnvelopeFunds {
+  income: number
+  assigned: number
+  readyToAssign: number
+}
+
+// Amount of a category budget from validFrom to validTo (inclusive, null while in force).
+// A revision replaced by a newer one starting the same day ends the day before it starts.
+export interface BudgetRevision {
+  id?: number
+  category: string
+  amount: number
+  validFrom: Date
+  validTo: Date | null
   createdDate: Date
 }
 
@@ -63,4 +131,96 @@ export interface BudgetWithSpending {
   remaining: number
   percentUsed: number
   status: BudgetStatus
+  periodStart: Date // Budget period containing the evaluated date
+  periodEnd: Date
+  expectedSpend: number // Spending expected by the evaluated date at the usual pace
+  projectedSpend: number // Spending expected by the end of the period
+  carriedIn?: number // Balance from earlier periods, included in remaining
+  ledger?: BudgetLedgerEntry[] // Month-by-month balances for carried budgets, oldest first
+}
+
+// Free-form tags of one transaction, see lib/tags.ts
+export interface TransactionTags {
+  transactionId: string
+  tags: string[]
+}
+
+export interface MonthlyTotal {
+  monthKey: string // yyyy-MM format for sorting
+  month: string
+  totalSpent: number
+}
+
+export interface TagSummary {
+  tag: string
+  totalSpent: number
+  count: number
+  transactions: Transaction[]
+  monthlyTotals: MonthlyTotal[]
+}
+
+// User-chosen display name for a normalized merchant, see lib/merchants.ts
+export interface MerchantAlias {
+  id?: number
+  name: string // As produced by normalizeMerchant
+  merchant: string
+  createdDate: Date
+}
+
+export interface MerchantSummary {
+  merchant: string
+  totalSpent: number
+  count: number
+  averageTicket: number
+  visitsPerMonth: number
+  firstDate: Date
+  lastDate: Date
+  monthlyTotals: MonthlyTotal[]
+  names: string[] // Normalized names merged into this merchant
+  transactions: Transaction[]
+}
+
+// Reference rate of one day, in CHF per unit of the currency, see lib/currency.ts
+export interface ExchangeRate {
+  date: string // yyyy-MM-dd
+  currency: string
+  rate: number
+}
+
+// User verdict on a detected transfer pair, see lib/transfers.ts
+export type TransferStatus = 'confirmed' | 'rejected'
+
+export interface TransferDecision {
+  pairId: string
+  status: TransferStatus
+  createdDate: Date
+}
+
+// User-created category; parent is null for top-level categories
+export interface CustomCategory {
+  id?: number
+  name: string
+  parent: string | null
+  createdDate: Date
+}
+
+// Categorization rule types
+export interface RuleConditions {
+  bookingText?: string
+  bookingTextMatch?: 'contains' | 'regex'
+  sector?: string
+  minAmount?: number
+  maxAmount?: number
+  cardNumber?: string
+  accountHolder?: string
+}
+
+export interface CategoryRule {
+  id?: number
+  name: string
+  category: string
+  priority: number // Lower runs first
+  enabled: boolean
+  conditions: RuleConditions // All set conditions must match
+  createdDate: Date
 }